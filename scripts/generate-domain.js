@@ -0,0 +1,224 @@
+#!/usr/bin/env node
+// scripts/generate-domain.js - Generates src/domain/contract.ts from the backend's OpenAPI document
+//
+//   node scripts/generate-domain.js            regenerate src/domain/contract.ts from contract/openapi.json
+//   node scripts/generate-domain.js --check    fail if contract.ts no longer matches contract/openapi.json
+//   node scripts/generate-domain.js --pull     refresh contract/openapi.json from a running backend, then regenerate
+//
+// contract/openapi.json is only ever pulled. Routes, responses and schemas the backend doesn't serve yet are
+// proposed in contract/openapi.extensions.json, which is merged over it: an extension schema replaces the pulled
+// one with the same name, and an extension operation is merged into the pulled one, so it can add a response to
+// a route the backend already serves. Declarations that come from the extensions are marked in the output.
+//
+// Only the parts of OpenAPI 3.0 that Swashbuckle emits for our DTOs are supported; anything else is an error
+// rather than a silently wrong type.
+const fs = require('fs');
+const path = require('path');
+
+const ROOT = path.resolve(__dirname, '..');
+const CONTRACT_PATH = path.join(ROOT, 'contract', 'openapi.json');
+const EXTENSIONS_PATH = path.join(ROOT, 'contract', 'openapi.extensions.json');
+const OUTPUT_PATH = path.join(ROOT, 'src', 'domain', 'contract.ts');
+const DEFAULT_CONTRACT_URL = 'http://localhost:5074/swagger/v1/swagger.json';
+
+const HEADER = [
+  '// src/domain/contract.ts - Backend DTOs, generated from contract/openapi.json and contract/openapi.extensions.json',
+  '// by scripts/generate-domain.js. Do not edit: pull the contract from the backend (or change the proposed',
+  '// extensions) and run `npm run generate:domain`.',
+  '/* eslint-disable */',
+];
+
+const refName = (ref) => {
+  const match = /^#\/components\/schemas\/(.+)$/.exec(ref);
+  if (!match) throw new Error(`Unsupported $ref: ${ref}`);
+  return match[1];
+};
+
+const literal = (value) => (typeof value === 'string' ? `'${value.replace(/'/g, "\\'")}'` : String(value));
+
+const comment = (description, indent) =>
+  description ? description.split('\n').map((line) => `${indent}// ${line}`.trimEnd()) : [];
+
+const propertyKey = (name) => (/^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name}'`);
+
+const toType = (schema, indent = '') => {
+  let type;
+  if (schema.$ref) {
+    type = refName(schema.$ref);
+  } else if (schema.oneOf) {
+    type = schema.oneOf.map((s) => toType(s, indent)).join(' | ');
+  } else if (schema.enum) {
+    type = schema.enum.map(literal).join(' | ');
+  } else {
+    switch (schema.type) {
+      case 'string':
+        type = 'string';
+        break;
+      case 'integer':
+      case 'number':
+        type = 'number';
+        break;
+      case 'boolean':
+        type = 'boolean';
+        break;
+      case 'array': {
+        const item = toType(schema.items, indent);
+        type = /[|&]/.test(item) ? `Array<${item}>` : `${item}[]`;
+        break;
+      }
+      case 'object':
+      case undefined:
+        type = schema.properties ? objectLiteral(schema, indent) : mapType(schema, indent);
+        break;
+      default:
+        throw new Error(`Unsupported schema type: ${schema.type}`);
+    }
+  }
+  return schema.nullable ? `${type} | null` : type;
+};
+
+const mapType = (schema, indent) => {
+  const values = schema.additionalProperties;
+  if (values && typeof values === 'object' && Object.keys(values).length > 0) {
+    return `Record<string, ${toType(values, indent)}>`;
+  }
+  return 'Record<string, unknown>';
+};
+
+const objectMembers = (schema, indent) => {
+  const required = new Set(schema.required || []);
+  const lines = [];
+  Object.entries(schema.properties || {}).forEach(([name, property]) => {
+    lines.push(...comment(property.description, indent));
+    const optional = required.has(name) ? '' : '?';
+    lines.push(`${indent}${propertyKey(name)}${optional}: ${toType(property, indent)};`);
+  });
+  // `additionalProperties: {}` (Swashbuckle's ProblemDetails) allows extension members
+  const extra = schema.additionalProperties;
+  if (extra && typeof extra === 'object') {
+    lines.push(`${indent}[key: string]: ${Object.keys(extra).length > 0 ? toType(extra, indent) : 'unknown'};`);
+  }
+  return lines;
+};
+
+const objectLiteral = (schema, indent) => `{\n${objectMembers(schema, `${indent}  `).join('\n')}\n${indent}}`;
+
+const PROPOSED = 'x-proposed';
+
+const declaration = (name, schema) => {
+  const lines = comment(schema.description, '');
+  if (schema[PROPOSED] === 'added') lines.push('// Proposed in contract/openapi.extensions.json; not in the backend contract yet');
+  if (schema[PROPOSED] === 'changed') lines.push('// Changed in contract/openapi.extensions.json; the backend contract differs');
+  if (schema.type === 'object' && schema.properties) {
+    lines.push(`export interface ${name} {`, ...objectMembers(schema, '  '), '}');
+  } else {
+    const type = schema.oneOf
+      ? `\n${schema.oneOf.map((s) => `  | ${toType(s)}`).join('\n')}`
+      : ` ${toType(schema)}`;
+    lines.push(`export type ${name} =${type};`);
+  }
+  return lines.join('\n');
+};
+
+// Schemas are emitted in document order so that a contract change shows up as a readable diff
+const generateDomain = (document) => {
+  const schemas = (document.components && document.components.schemas) || {};
+  const declarations = Object.entries(schemas).map(([name, schema]) => declaration(name, schema));
+  return `${HEADER.join('\n')}\n\n${declarations.join('\n\n')}\n`;
+};
+
+const mergeOperation = (pulled = {}, operation) => ({
+  ...pulled,
+  ...operation,
+  responses: { ...pulled.responses, ...operation.responses },
+});
+
+// Extension schemas replace pulled ones of the same name in place; new ones are appended. Extension operations
+// are merged into the pulled ones response by response, and other components and the security requirement are
+// added. Extension schemas are tagged 'added' or 'changed' so the generated declarations can say where they come from.
+const mergeExtensions = (contract, extensions) => {
+  const paths = { ...contract.paths };
+  Object.entries(extensions.paths || {}).forEach(([route, operations]) => {
+    paths[route] = { ...paths[route] };
+    Object.entries(operations).forEach(([method, operation]) => {
+      paths[route][method] = mergeOperation(paths[route][method], operation);
+    });
+  });
+  const components = { ...contract.components };
+  Object.entries(extensions.components || {}).forEach(([kind, entries]) => {
+    if (kind !== 'schemas') components[kind] = { ...components[kind], ...entries };
+  });
+  const schemas = { ...components.schemas };
+  Object.entries((extensions.components && extensions.components.schemas) || {}).forEach(([name, schema]) => {
+    schemas[name] = { ...schema, [PROPOSED]: schemas[name] ? 'changed' : 'added' };
+  });
+  const security = extensions.security || contract.security;
+  return { ...contract, ...(security && { security }), paths, components: { ...components, schemas } };
+};
+
+const readJson = (file) => JSON.parse(fs.readFileSync(file, 'utf8'));
+
+const readContract = () => {
+  const contract = readJson(CONTRACT_PATH);
+  return fs.existsSync(EXTENSIONS_PATH) ? mergeExtensions(contract, readJson(EXTENSIONS_PATH)) : contract;
+};
+
+const readGenerated = () => (fs.existsSync(OUTPUT_PATH) ? fs.readFileSync(OUTPUT_PATH, 'utf8') : '');
+
+// Declarations that were added, removed or changed between two generated files
+const changedDeclarations = (expected, actual) => {
+  const byName = (source) =>
+    new Map(
+      source
+        .split(/\n\n+/)
+        .map((block) => [(/export (?:interface|type) (\w+)/.exec(block) || [])[1], block])
+        .filter(([name]) => name)
+    );
+  const want = byName(expected);
+  const have = byName(actual);
+  const names = new Set([...want.keys(), ...have.keys()]);
+  return [...names].filter((name) => want.get(name) !== have.get(name));
+};
+
+const pullContract = async (url) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`GET ${url} failed: HTTP ${response.status}`);
+  const document = await response.json();
+  fs.writeFileSync(CONTRACT_PATH, `${JSON.stringify(document, null, 2)}\n`);
+  console.log(`Updated ${path.relative(ROOT, CONTRACT_PATH)} from ${url}`);
+};
+
+const main = async (args) => {
+  if (args.includes('--pull')) {
+    const url = args[args.indexOf('--pull') + 1];
+    await pullContract(url && !url.startsWith('--') ? url : process.env.CONTRACT_URL || DEFAULT_CONTRACT_URL);
+  }
+
+  const expected = generateDomain(readContract());
+
+  if (args.includes('--check')) {
+    const changed = changedDeclarations(expected, readGenerated());
+    if (changed.length > 0) {
+      console.error(
+        `src/domain/contract.ts is out of date with contract/openapi.json and its extensions (${changed.join(', ')}).\n` +
+          'Run `npm run generate:domain` and fix any type errors it causes.'
+      );
+      process.exit(1);
+    }
+    console.log('src/domain/contract.ts matches contract/openapi.json and its extensions');
+    return;
+  }
+
+  fs.mkdirSync(path.dirname(OUTPUT_PATH), { recursive: true });
+  fs.writeFileSync(OUTPUT_PATH, expected);
+  console.log(`Wrote ${path.relative(ROOT, OUTPUT_PATH)}`);
+};
+
+if (require.main === module) {
+  main(process.argv.slice(2)).catch((error) => {
+    console.error(error.message);
+    process.exit(1);
+  });
+}
+
+module.exports = { generateDomain, readContract, readGenerated, changedDeclarations };
@@ -1,9 +1,20 @@
 import React from 'react';
 import { render, screen } from '@testing-library/react';
 import App from './App';
+import { authConfig } from './services/config';
 
-test('renders learn react link', () => {
+afterEach(() => {
+  authConfig.enabled = false;
+});
+
+test('opens the dashboard without sign-in by default', () => {
+  render(<App />);
+  expect(screen.getByText('RE Lifecycle Assistant')).toBeInTheDocument();
+  expect(screen.queryByLabelText(/password/i)).not.toBeInTheDocument();
+});
+
+test('asks signed-out users to sign in when sign-in is enabled', () => {
+  authConfig.enabled = true;
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+  expect(screen.getByLabelText(/password/i)).toBeInTheDocument();
 });
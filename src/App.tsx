@@ -1,14 +1,33 @@
 // src/App.tsx - Updated to use ProjectDashboard
 import React from 'react';
+import { QueryClientProvider } from '@tanstack/react-query';
+import AuthCallback from './components/AuthCallback';
+import AuthGate from './components/AuthGate';
+import MockIdentityProvider from './components/MockIdentityProvider';
 import ProjectDashboard from './components/ProjectDashboard';
+import { isOidcCallback } from './services/auth/oidc';
+import { LOCAL_IDP_PATH } from './services/config';
+import { queryClient } from './services/queryClient';
 import './App.css'; // Keep your existing CSS if you have it
 
 function App() {
+  // The sign-in round trip lands on these paths; everything else is the dashboard
+  if (window.location.pathname === `${LOCAL_IDP_PATH}/authorize`) {
+    return <MockIdentityProvider />;
+  }
+  if (isOidcCallback()) {
+    return <AuthCallback />;
+  }
+
   return (
-    <div className="App">
-      <ProjectDashboard />
-    </div>
+    <QueryClientProvider client={queryClient}>
+      <AuthGate>
+        <div className="App">
+          <ProjectDashboard />
+        </div>
+      </AuthGate>
+    </QueryClientProvider>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
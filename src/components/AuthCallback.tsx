@@ -0,0 +1,50 @@
+// src/components/AuthCallback.tsx - Landing page for the OIDC redirect back from the identity provider
+import React, { useEffect, useRef, useState } from 'react';
+import { Alert, Button, Spin } from 'antd';
+import { completeOidcSignIn, OIDC_CALLBACK_MESSAGE } from '../services/auth/oidc';
+import { setTokens } from '../services/auth/session';
+
+const AuthCallback: React.FC = () => {
+  const [error, setError] = useState<string | null>(null);
+  // The authorization code is single use; StrictMode's double effect must not redeem it twice
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    // Popup sign-in: the opener holds the PKCE verifier and finishes the exchange itself
+    if (window.opener && window.opener !== window) {
+      window.opener.postMessage({ type: OIDC_CALLBACK_MESSAGE, search: window.location.search }, window.location.origin);
+      window.close();
+      return;
+    }
+
+    completeOidcSignIn(window.location.search)
+      .then(({ tokens, returnTo }) => {
+        setTokens(tokens);
+        window.location.replace(returnTo || '/');
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Sign-in failed.'));
+  }, []);
+
+  return (
+    <div style={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+      {error ? (
+        <Alert
+          type="error"
+          showIcon
+          message="Sign-in failed"
+          description={error}
+          action={<Button onClick={() => window.location.replace('/')}>Back to sign-in</Button>}
+        />
+      ) : (
+        <Spin size="large" tip="Signing in...">
+          <div style={{ padding: 50 }} />
+        </Spin>
+      )}
+    </div>
+  );
+};
+
+export default AuthCallback;
@@ -0,0 +1,23 @@
+// src/components/AuthGate.tsx - Renders the app only for signed-in users
+import React from 'react';
+import LoginPage from './LoginPage';
+import { useAuth } from '../hooks/useAuth';
+import { authConfig } from '../services/config';
+
+// An expired session keeps the children mounted and asks for credentials on top of them,
+// so nothing typed into the page is lost while the user signs in again
+const AuthGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { status } = useAuth();
+
+  if (!authConfig.enabled) return <>{children}</>;
+  if (status === 'signed-out') return <LoginPage />;
+
+  return (
+    <>
+      {children}
+      {status === 'expired' && <LoginPage reauthenticate />}
+    </>
+  );
+};
+
+export default AuthGate;
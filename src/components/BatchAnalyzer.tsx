@@ -27,11 +27,17 @@ import {
   DeleteOutlined,
   PlusOutlined,
   ExperimentOutlined,
-  BarChartOutlined
+  BarChartOutlined,
+  StopOutlined
 } from '@ant-design/icons';
 import { useMutation } from '@tanstack/react-query';
 import { requirementsApi } from '../services/api';
-import type { BatchRequirement, RequirementAnalysis } from '../types';
+import { getErrorMessage, isCancelledError } from '../services/errors';
+import { useLlmAvailability } from '../hooks/useBackendHealth';
+import { useCancellable } from '../hooks/useCancellable';
+import { estimateRemainingMs, formatDuration, useStreamProgress } from '../hooks/useStreamProgress';
+import { bandRank } from '../services/quality/scoring';
+import type { BatchRequirement } from '../domain';
 import type { ColumnsType } from 'antd/es/table';
 
 const { Title, Text } = Typography;
@@ -42,26 +48,56 @@ const BatchAnalyzer: React.FC = () => {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [newRequirement, setNewRequirement] = useState('');
   const [showAddModal, setShowAddModal] = useState(false);
+  const batchRequest = useCancellable();
+  const batchProgress = useStreamProgress();
+  const llm = useLlmAvailability();
 
-  // Batch analysis mutation
+  // Batch analysis mutation. Results stream in one row at a time; `index` refers to the submitted list.
   const batchAnalysisMutation = useMutation({
-    mutationFn: requirementsApi.batchAnalyze,
-    onSuccess: (results) => {
-      const updatedRequirements = requirements.map((req, index) => ({
-        ...req,
-        analysis: results[index],
-        status: 'completed' as const
+    mutationFn: (batch: BatchRequirement[]) => requirementsApi.streamBatchAnalyze(batch.map(req => req.text), {
+      signal: batchRequest.start(),
+      onEvent: (event) => {
+        batchProgress.handleEvent(event);
+        if (event.type !== 'result' && event.type !== 'error') return;
+        const key = batch[event.index]?.key;
+        setRequirements(prev => prev.map(req => {
+          if (req.key !== key) return req;
+          return event.type === 'result'
+            ? { ...req, analysis: event.analysis, status: 'completed' as const }
+            : { ...req, status: 'error' as const };
+        }));
+      }
+    }),
+    onSuccess: () => {
+      // Rows the stream never reported on are treated as failed
+      let failed = 0;
+      setRequirements(prev => prev.map(req => {
+        if (req.status === 'error' || req.status === 'analyzing') {
+          failed++;
+          return { ...req, status: 'error' as const };
+        }
+        return req;
       }));
-      setRequirements(updatedRequirements);
-      setIsAnalyzing(false);
-      message.success(`Successfully analyzed ${results.length} requirements!`);
+      if (failed > 0) {
+        message.warning(`Batch analysis finished, but ${failed} requirement(s) could not be analyzed`);
+      } else {
+        message.success('Successfully analyzed all requirements!');
+      }
     },
     onError: (error) => {
+      if (isCancelledError(error)) {
+        // Rows that already have a result keep it; the rest go back to waiting
+        setRequirements(prev => prev.map(req => req.status === 'analyzing' ? { ...req, status: req.analysis ? 'completed' as const : 'pending' as const } : req));
+        message.info('Batch analysis cancelled');
+        return;
+      }
       console.error('Batch analysis failed:', error);
-      // Update all requirements to error status
-      setRequirements(prev => prev.map(req => ({ ...req, status: 'error' as const })));
+      setRequirements(prev => prev.map(req => req.status === 'analyzing' ? { ...req, status: 'error' as const } : req));
+      message.error(getErrorMessage(error, 'Batch analysis failed'));
+    },
+    onSettled: () => {
       setIsAnalyzing(false);
-      message.error('Batch analysis failed. Please try again.');
+      batchProgress.reset();
     }
   });
 
@@ -126,9 +162,8 @@ const BatchAnalyzer: React.FC = () => {
 
     setIsAnalyzing(true);
     setRequirements(prev => prev.map(req => ({ ...req, status: 'analyzing' as const })));
-    
-    const requirementTexts = requirements.map(req => req.text);
-    batchAnalysisMutation.mutate(requirementTexts);
+    batchProgress.begin(requirements.length);
+    batchAnalysisMutation.mutate(requirements);
   };
 
   const handleDeleteRequirement = (key: string) => {
@@ -188,11 +223,8 @@ const BatchAnalyzer: React.FC = () => {
     };
   };
 
-  const getScoreColor = (score: number): 'success' | 'normal' | 'exception' => {
-    if (score >= 80) return 'success';
-    if (score >= 60) return 'normal';
-    return 'exception';
-  };
+  const getScoreColor = (score: number): 'success' | 'normal' | 'exception' =>
+    ({ best: 'success', middle: 'normal', worst: 'exception' } as const)[bandRank(score)];
 
   const columns: ColumnsType<BatchRequirement> = [
     {
@@ -318,17 +350,28 @@ const BatchAnalyzer: React.FC = () => {
                 </Button>
               </Col>
               <Col xs={24} md={8}>
-                <Button 
-                  type="primary"
-                  icon={<ExperimentOutlined />}
-                  onClick={handleBatchAnalyze}
-                  loading={isAnalyzing}
-                  disabled={requirements.length === 0}
-                  block
-                  size="large"
-                >
-                  Analyze All ({requirements.length})
-                </Button>
+                {isAnalyzing ? (
+                  <Button
+                    danger
+                    icon={<StopOutlined />}
+                    onClick={batchRequest.cancel}
+                    block
+                    size="large"
+                  >
+                    Cancel Analysis
+                  </Button>
+                ) : (
+                  <Button 
+                    type="primary"
+                    icon={<ExperimentOutlined />}
+                    onClick={handleBatchAnalyze}
+                    disabled={requirements.length === 0 || !llm.available}
+                    block
+                    size="large"
+                  >
+                    Analyze All ({requirements.length})
+                  </Button>
+                )}
               </Col>
             </Row>
             
@@ -451,11 +494,25 @@ const BatchAnalyzer: React.FC = () => {
             )}
           </Card>
 
+          {!llm.available && !isAnalyzing && <Alert type="warning" showIcon message={llm.reason} />}
+
           {/* Progress Indicator */}
-          {isAnalyzing && (
+          {isAnalyzing && batchProgress.progress && (
             <Alert
-              message="Analyzing Requirements"
-              description="Please wait while we analyze all requirements. This may take a few moments..."
+              message={`Analyzing Requirements (${batchProgress.progress.completed + batchProgress.progress.failed} of ${batchProgress.progress.total})`}
+              description={
+                <div>
+                  <Progress
+                    percent={Math.round(((batchProgress.progress.completed + batchProgress.progress.failed) / Math.max(1, batchProgress.progress.total)) * 100)}
+                    status="active"
+                  />
+                  <Text type="secondary">
+                    {estimateRemainingMs(batchProgress.progress) !== undefined
+                      ? `About ${formatDuration(estimateRemainingMs(batchProgress.progress)!)} remaining`
+                      : 'Estimating time remaining...'}
+                  </Text>
+                </div>
+              }
               type="info"
               icon={<Spin />}
               showIcon
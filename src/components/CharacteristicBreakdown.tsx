@@ -0,0 +1,54 @@
+// src/components/CharacteristicBreakdown.tsx - Per-characteristic 29148 scores for one requirement
+import React from 'react';
+import { REQUIREMENT_CHARACTERISTICS, RequirementScorecard, characteristicScore } from '../services/quality/scorecard';
+import { DEFAULT_SCORING_POLICY, scoreColor as bandColor } from '../services/quality/scoring';
+import type { ScoringPolicy } from '../domain';
+
+// Characteristic scores are coloured with the same bands as quality scores
+export const scoreColor = (score: number | null, scoring: ScoringPolicy = DEFAULT_SCORING_POLICY): string =>
+  score === null ? '#bfbfbf' : bandColor(score, scoring);
+
+interface CharacteristicBreakdownProps {
+  scorecard: RequirementScorecard;
+  scoring?: ScoringPolicy;
+}
+
+const CharacteristicBreakdown: React.FC<CharacteristicBreakdownProps> = ({ scorecard, scoring }) => (
+  <div>
+    {!scorecard.analyzed && (
+      <div style={{ fontSize: '12px', color: '#666', marginBottom: '8px' }}>
+        Based on local checks only. Analyze the requirement for a full assessment.
+      </div>
+    )}
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+      {REQUIREMENT_CHARACTERISTICS.map(({ key, label, description }) => {
+        const { score, findings } = characteristicScore(scorecard.characteristics, key);
+        return (
+          <div key={key}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '12px', fontSize: '13px' }}>
+              <span title={description} style={{ width: '110px', flexShrink: 0, cursor: 'help' }}>{label}</span>
+              <div style={{ flex: 1, height: '8px', backgroundColor: '#f0f0f0', borderRadius: '4px', overflow: 'hidden' }}>
+                <div style={{ width: `${score ?? 0}%`, height: '100%', backgroundColor: scoreColor(score, scoring) }} />
+              </div>
+              <span style={{ width: '48px', textAlign: 'right', color: scoreColor(score, scoring), fontWeight: 'bold' }}>
+                {score === null ? 'n/a' : score}
+              </span>
+            </div>
+            {findings.length > 0 && (
+              <ul style={{ margin: '2px 0 0 122px', padding: 0, listStyle: 'none', fontSize: '12px', color: '#666' }}>
+                {findings.map((finding, index) => (
+                  <li key={index}>
+                    {finding.description}
+                    <span style={{ color: '#aaa' }}> ({finding.source === 'analyzer' ? 'AI analysis' : 'local check'}, {finding.severity})</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export default CharacteristicBreakdown;
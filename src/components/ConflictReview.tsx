@@ -0,0 +1,177 @@
+// src/components/ConflictReview.tsx - Conflicting requirement pairs side by side, resolved by editing one side or marking them intended
+import React, { useState } from 'react';
+import { Alert, Button, Card, Col, Collapse, Empty, Input, Modal, Row, Space, Tag, Typography, message } from 'antd';
+import { EditOutlined } from '@ant-design/icons';
+import { useMarkConflictIntentional, useRequirementConflicts, useUnmarkConflictIntentional } from '../hooks/useConflicts';
+import { getErrorMessage } from '../services/errors';
+import { conflictKey, RequirementConflict } from '../services/quality/conflicts';
+import type { ConflictKind, IntentionalConflict, ProjectRequirement, TextSpan } from '../domain';
+
+const { Text } = Typography;
+const { Panel } = Collapse;
+
+const KIND_LABELS: Record<ConflictKind, { label: string; color: string }> = {
+  numeric: { label: 'Contradictory values', color: 'volcano' },
+  modality: { label: 'Required vs forbidden', color: 'red' },
+  state: { label: 'Incompatible states', color: 'orange' },
+};
+
+interface ConflictReviewProps {
+  projectId: number;
+  requirements: ProjectRequirement[];
+  onEditRequirement: (requirement: ProjectRequirement) => void;
+}
+
+const MarkedText: React.FC<{ text: string; span: TextSpan }> = ({ text, span }) => (
+  <>
+    {text.slice(0, span.start)}
+    <mark style={{ backgroundColor: '#ffccc7', padding: '0 2px' }}>{text.slice(span.start, span.end)}</mark>
+    {text.slice(span.end)}
+  </>
+);
+
+const ConflictReview: React.FC<ConflictReviewProps> = ({ projectId, requirements, onEditRequirement }) => {
+  const { open, intentional, marksQuery } = useRequirementConflicts(projectId, requirements);
+  const markMutation = useMarkConflictIntentional();
+  const unmarkMutation = useUnmarkConflictIntentional();
+  // The conflict being marked as intended, with the note typed so far
+  const [marking, setMarking] = useState<{ conflict: RequirementConflict; note: string } | null>(null);
+  const byId = new Map(requirements.map(requirement => [requirement.id, requirement]));
+
+  const handleMark = async () => {
+    if (!marking) return;
+    const { conflict, note } = marking;
+    try {
+      await markMutation.mutateAsync({
+        projectId,
+        request: { kind: conflict.kind, requirementIds: conflict.ids, note: note.trim() || undefined },
+      });
+      message.success('Conflict marked as intended');
+      setMarking(null);
+    } catch (error) {
+      message.error(getErrorMessage(error, 'Failed to mark the conflict'));
+    }
+  };
+
+  const handleUnmark = async (mark: IntentionalConflict) => {
+    try {
+      await unmarkMutation.mutateAsync(mark);
+      message.success('Conflict reopened');
+    } catch (error) {
+      message.error(getErrorMessage(error, 'Failed to reopen the conflict'));
+    }
+  };
+
+  const renderPair = (conflict: RequirementConflict) => (
+    <Row gutter={16}>
+      {conflict.ids.map((id, side) => {
+        const requirement = byId.get(id)!;
+        return (
+          <Col span={12} key={id}>
+            <div style={{ background: '#fafafa', border: '1px solid #f0f0f0', borderRadius: 4, padding: 12, height: '100%' }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+                <Text strong>{requirement.title || `#${id}`}</Text>
+                <Button size="small" icon={<EditOutlined />} onClick={() => onEditRequirement(requirement)}>
+                  Edit
+                </Button>
+              </div>
+              <MarkedText text={requirement.text} span={conflict.spans[side]} />
+            </div>
+          </Col>
+        );
+      })}
+    </Row>
+  );
+
+  const renderTitle = (conflict: RequirementConflict) => (
+    <Space wrap>
+      <Tag color={KIND_LABELS[conflict.kind].color}>{KIND_LABELS[conflict.kind].label}</Tag>
+      <span style={{ fontWeight: 'normal' }}>{conflict.description}</span>
+    </Space>
+  );
+
+  return (
+    <div style={{ padding: '24px' }}>
+      <h2 style={{ marginTop: 0 }}>Conflicts ({open.length})</h2>
+
+      {marksQuery.isError && (
+        <Alert
+          type="warning"
+          showIcon
+          style={{ marginBottom: 16 }}
+          message={getErrorMessage(marksQuery.error, 'Failed to load the conflicts marked as intended; all conflicts are shown')}
+        />
+      )}
+
+      {open.length === 0 ? (
+        <Empty
+          style={{ padding: '40px 0' }}
+          description="No conflicting limits, obligations or states found between the requirements."
+        />
+      ) : (
+        open.map(conflict => (
+          <Card
+            key={conflictKey(conflict)}
+            size="small"
+            style={{ marginBottom: 16 }}
+            title={renderTitle(conflict)}
+            extra={
+              <Button size="small" onClick={() => setMarking({ conflict, note: '' })}>
+                Mark intentional
+              </Button>
+            }
+          >
+            {renderPair(conflict)}
+          </Card>
+        ))
+      )}
+
+      {intentional.length > 0 && (
+        <Collapse ghost>
+          <Panel header={`Marked as intended (${intentional.length})`} key="intentional">
+            {intentional.map(({ conflict, mark }) => (
+              <Card
+                key={mark.id}
+                size="small"
+                style={{ marginBottom: 16, opacity: 0.8 }}
+                title={renderTitle(conflict)}
+                extra={
+                  <Button
+                    size="small"
+                    loading={unmarkMutation.isPending && unmarkMutation.variables?.id === mark.id}
+                    onClick={() => handleUnmark(mark)}
+                  >
+                    Reopen
+                  </Button>
+                }
+              >
+                {mark.note && <div style={{ marginBottom: 8 }}><Text type="secondary">Why: {mark.note}</Text></div>}
+                {renderPair(conflict)}
+              </Card>
+            ))}
+          </Panel>
+        </Collapse>
+      )}
+
+      <Modal
+        title="Mark conflict as intended"
+        open={marking !== null}
+        onCancel={() => setMarking(null)}
+        onOk={handleMark}
+        okText="Mark intentional"
+        confirmLoading={markMutation.isPending}
+        destroyOnClose
+      >
+        <p>The conflict is no longer reported until one of the two requirements is edited.</p>
+        <Input.TextArea
+          rows={3}
+          placeholder="Why both requirements are meant to hold (optional)"
+          value={marking?.note}
+          onChange={event => setMarking(current => current && { ...current, note: event.target.value })}
+        />
+      </Modal>
+    </div>
+  );
+};
+
+export default ConflictReview;
@@ -1,106 +1,19 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
+import { requirementsApi } from '../services/api';
+import { useBackendHealth, useLlmAvailability } from '../hooks/useBackendHealth';
+import { scoreColor } from '../services/quality/scoring';
+import type { AnalysisResponse, Enhancement, EnhancementResponse, QualityIssue } from '../domain';
 
 // Type definitions
-interface QualityIssue {
-  type: string;
-  severity: 'critical' | 'major' | 'minor';
-  description: string;
-  problematicText: string;
-  suggestion: string;
-}
-
-interface AnalysisResponse {
-  overallScore: number;
-  issues: QualityIssue[];
-  analyzedAt: string;
-}
-
-interface Enhancement {
-  text: string;
-  changes: string[];
-  improvements: string[];
-  qualityScore: number;
-  rationale?: string;
-}
-
-interface EnhancementResponse {
-  enhancements: Enhancement[];
-  recommendedIndex?: number;
-}
-
-interface ApiStatus {
-  status: string;
-  loading: boolean;
-  perplexityConnected?: boolean;
-  message?: string;
-}
-
 interface BatchAnalysisResult extends AnalysisResponse {
   batchResults?: AnalysisResponse[];
 }
 
-// API service
-const requirementsApi = {
-  testConnection: async (): Promise<{ status: string; message: string; perplexityConnected: boolean }> => {
-    try {
-      const response = await fetch('http://localhost:5074/api/requirements/health');
-      if (!response.ok) throw new Error('API not responding');
-      const data = await response.json();
-      return data;
-    } catch (error) {
-      console.error('Connection test failed:', error);
-      return { status: 'error', message: 'Failed to connect to API', perplexityConnected: false };
-    }
-  },
-  
-  analyzeRequirement: async (requirement: string): Promise<AnalysisResponse> => {
-    try {
-      const response = await fetch('http://localhost:5074/api/requirements/analyze', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text: requirement })
-      });
-      if (!response.ok) throw new Error('Analysis failed');
-      return await response.json();
-    } catch (error) {
-      console.error('Analysis failed:', error);
-      throw error;
-    }
-  },
-  
-  enhanceRequirement: async (requirement: string, issues: QualityIssue[]): Promise<EnhancementResponse> => {
-    try {
-      const response = await fetch('http://localhost:5074/api/requirements/enhance', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text: requirement, issues })
-      });
-      if (!response.ok) throw new Error('Enhancement failed');
-      return await response.json();
-    } catch (error) {
-      console.error('Enhancement failed:', error);
-      throw error;
-    }
-  },
-  
-  batchAnalyze: async (requirements: string[]): Promise<AnalysisResponse[]> => {
-    try {
-      const response = await fetch('http://localhost:5074/api/requirements/batch-analyze', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ requirements })
-      });
-      if (!response.ok) throw new Error('Batch analysis failed');
-      return await response.json();
-    } catch (error) {
-      console.error('Batch analysis failed:', error);
-      throw error;
-    }
-  }
-};
-
 const Dashboard: React.FC = () => {
-  const [apiStatus, setApiStatus] = useState<ApiStatus>({ status: 'unknown', loading: true });
+  // Backend status comes from the shared background health poll
+  const health = useBackendHealth();
+  const llm = useLlmAvailability();
+  const apiStatus = { status: health.status, loading: health.status === 'unknown' || health.checking };
   const [drawerOpen, setDrawerOpen] = useState<boolean>(false);
   const [activeTab, setActiveTab] = useState<'single' | 'batch'>('single');
   const [requirement, setRequirement] = useState<string>('');
@@ -110,34 +23,13 @@ const Dashboard: React.FC = () => {
   const [loading, setLoading] = useState<boolean>(false);
   const [message, setMessage] = useState<string>('');
 
-  // Check API status on mount
-  useEffect(() => {
-    checkApiStatus();
-  }, []);
-
   const showMessage = (text: string, type: string = 'info') => {
     setMessage(`${type}: ${text}`);
     setTimeout(() => setMessage(''), 5000);
   };
 
-  const checkApiStatus = async () => {
-    setApiStatus({ status: 'unknown', loading: true });
-    try {
-      const result = await requirementsApi.testConnection();
-      setApiStatus({
-        status: result.status === 'healthy' ? 'healthy' : 'degraded',
-        loading: false,
-        perplexityConnected: result.perplexityConnected,
-        message: result.message
-      });
-    } catch (error) {
-      setApiStatus({
-        status: 'error',
-        loading: false,
-        perplexityConnected: false,
-        message: 'Failed to connect to API'
-      });
-    }
+  const checkApiStatus = () => {
+    health.recheck();
   };
 
   const handleAnalyze = async () => {
@@ -199,12 +91,6 @@ const Dashboard: React.FC = () => {
     }
   };
 
-  const getScoreColor = (score: number): string => {
-    if (score >= 80) return '#52c41a';
-    if (score >= 60) return '#faad14';
-    return '#f5222d';
-  };
-
   const getSeverityColor = (severity: string): string => {
     switch (severity) {
       case 'critical': return '#ff4d4f';
@@ -416,7 +302,7 @@ const Dashboard: React.FC = () => {
                         <div style={{
                           padding: '4px 8px',
                           borderRadius: '12px',
-                          backgroundColor: getScoreColor(result.overallScore),
+                          backgroundColor: scoreColor(result.overallScore),
                           color: 'white',
                           fontSize: '12px',
                           fontWeight: 'bold'
@@ -457,7 +343,7 @@ const Dashboard: React.FC = () => {
                   <div style={{
                     fontSize: '48px',
                     fontWeight: 'bold',
-                    color: getScoreColor(analysisResult.overallScore),
+                    color: scoreColor(analysisResult.overallScore),
                     marginBottom: '8px'
                   }}>
                     {analysisResult.overallScore}
@@ -474,7 +360,7 @@ const Dashboard: React.FC = () => {
                     <div style={{
                       width: `${analysisResult.overallScore}%`,
                       height: '100%',
-                      backgroundColor: getScoreColor(analysisResult.overallScore),
+                      backgroundColor: scoreColor(analysisResult.overallScore),
                       transition: 'width 0.5s ease'
                     }}></div>
                   </div>
@@ -585,7 +471,7 @@ const Dashboard: React.FC = () => {
                     <div style={{
                       padding: '4px 8px',
                       borderRadius: '12px',
-                      backgroundColor: getScoreColor(enhancement.qualityScore),
+                      backgroundColor: scoreColor(enhancement.qualityScore),
                       color: 'white',
                       fontSize: '12px',
                       fontWeight: 'bold'
@@ -753,15 +639,16 @@ const Dashboard: React.FC = () => {
                   <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
                     <button
                       onClick={handleAnalyze}
-                      disabled={loading || !requirement.trim()}
+                      disabled={loading || !llm.available || !requirement.trim()}
+                      title={llm.reason}
                       style={{
                         width: '100%',
                         padding: '12px',
-                        backgroundColor: loading || !requirement.trim() ? '#d9d9d9' : '#1890ff',
+                        backgroundColor: loading || !llm.available || !requirement.trim() ? '#d9d9d9' : '#1890ff',
                         color: 'white',
                         border: 'none',
                         borderRadius: '6px',
-                        cursor: loading || !requirement.trim() ? 'not-allowed' : 'pointer',
+                        cursor: loading || !llm.available || !requirement.trim() ? 'not-allowed' : 'pointer',
                         fontSize: '14px',
                         fontWeight: 'bold'
                       }}
@@ -772,15 +659,16 @@ const Dashboard: React.FC = () => {
                     {analysisResult && !analysisResult.batchResults && (
                       <button
                         onClick={handleEnhance}
-                        disabled={loading}
+                        disabled={loading || !llm.available}
+                        title={llm.reason}
                         style={{
                           width: '100%',
                           padding: '12px',
-                          backgroundColor: loading ? '#d9d9d9' : '#52c41a',
+                          backgroundColor: loading || !llm.available ? '#d9d9d9' : '#52c41a',
                           color: 'white',
                           border: 'none',
                           borderRadius: '6px',
-                          cursor: loading ? 'not-allowed' : 'pointer',
+                          cursor: loading || !llm.available ? 'not-allowed' : 'pointer',
                           fontSize: '14px',
                           fontWeight: 'bold'
                         }}
@@ -818,15 +706,16 @@ The application should handle 1000 concurrent users`}
                   </div>
                   <button
                     onClick={handleBatchAnalyze}
-                    disabled={loading || !batchRequirements.trim()}
+                    disabled={loading || !llm.available || !batchRequirements.trim()}
+                    title={llm.reason}
                     style={{
                       width: '100%',
                       padding: '12px',
-                      backgroundColor: loading || !batchRequirements.trim() ? '#d9d9d9' : '#52c41a',
+                      backgroundColor: loading || !llm.available || !batchRequirements.trim() ? '#d9d9d9' : '#52c41a',
                       color: 'white',
                       border: 'none',
                       borderRadius: '6px',
-                      cursor: loading || !batchRequirements.trim() ? 'not-allowed' : 'pointer',
+                      cursor: loading || !llm.available || !batchRequirements.trim() ? 'not-allowed' : 'pointer',
                       fontSize: '14px',
                       fontWeight: 'bold'
                     }}
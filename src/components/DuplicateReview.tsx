@@ -0,0 +1,148 @@
+// src/components/DuplicateReview.tsx - Clusters of near-duplicate requirements, each mergeable into its best-scoring member
+import React, { useMemo, useState } from 'react';
+import { Button, Card, Empty, Popconfirm, Radio, Space, Tag, Typography, message } from 'antd';
+import { useMergeRequirements } from '../hooks/useProjectQueries';
+import { getErrorMessage } from '../services/errors';
+import { scoreRequirement } from '../services/quality/scorecard';
+import { DEFAULT_SCORING_POLICY, requirementScore } from '../services/quality/scoring';
+import { findDuplicateClusters } from '../services/quality/similarity';
+import type { IssueWaiver, ProjectRequirement, ScoringPolicy } from '../domain';
+
+const { Text, Paragraph } = Typography;
+
+interface DuplicateReviewProps {
+  requirements: ProjectRequirement[];
+  onSelectRequirement?: (requirement: ProjectRequirement) => void;
+  scoring?: ScoringPolicy;
+  waivers?: IssueWaiver[];
+}
+
+// The quality score under the project's policy when there is one, otherwise the mean of the local 29148 characteristic scores
+const keeperScore = (requirement: ProjectRequirement, scoring: ScoringPolicy, waivers: IssueWaiver[]) => {
+  const score = requirementScore(requirement, scoring, waivers);
+  if (score !== undefined) return score;
+  const scores = scoreRequirement(requirement.text).characteristics
+    .map(({ score }) => score)
+    .filter((score): score is number => score !== null);
+  return scores.reduce((sum, score) => sum + score, 0) / Math.max(scores.length, 1);
+};
+
+const clusterKey = (ids: number[]) => [...ids].sort((a, b) => a - b).join('-');
+
+const NO_WAIVERS: IssueWaiver[] = [];
+
+const DuplicateReview: React.FC<DuplicateReviewProps> = ({
+  requirements,
+  onSelectRequirement,
+  scoring = DEFAULT_SCORING_POLICY,
+  waivers = NO_WAIVERS,
+}) => {
+  const mergeMutation = useMergeRequirements();
+  // Keeper picked by the user per cluster; unset clusters keep their best-scoring member
+  const [keepers, setKeepers] = useState<Record<string, number>>({});
+
+  const clusters = useMemo(() => findDuplicateClusters(requirements), [requirements]);
+  const scores = useMemo(
+    () => new Map(requirements.map(requirement => [requirement.id, keeperScore(requirement, scoring, waivers)])),
+    [requirements, scoring, waivers]
+  );
+  const byId = new Map(requirements.map(requirement => [requirement.id, requirement]));
+
+  // Highest score wins; on a tie the oldest requirement is kept
+  const defaultKeeper = (ids: number[]) =>
+    [...ids].sort((a, b) => scores.get(b)! - scores.get(a)! || a - b)[0];
+
+  const handleMerge = async (ids: number[]) => {
+    const keptId = keepers[clusterKey(ids)] ?? defaultKeeper(ids);
+    const kept = byId.get(keptId)!;
+    try {
+      await mergeMutation.mutateAsync({ kept, request: { duplicateIds: ids.filter(id => id !== keptId) } });
+      message.success(`Merged ${ids.length - 1} duplicate${ids.length > 2 ? 's' : ''} into "${kept.title || `#${kept.id}`}"`);
+    } catch (error) {
+      message.error(getErrorMessage(error, 'Failed to merge the requirements'));
+    }
+  };
+
+  if (clusters.length === 0) {
+    return (
+      <Empty
+        style={{ padding: '40px 0' }}
+        description="No near-duplicate requirements found. Requirements are compared locally as they are added."
+      />
+    );
+  }
+
+  return (
+    <div style={{ padding: '24px' }}>
+      <h2 style={{ marginTop: 0 }}>Possible duplicates ({clusters.length})</h2>
+      <Paragraph type="secondary">
+        Merging keeps the selected requirement unchanged and retires the others; retired duplicates stay in the list and
+        point to the requirement they were merged into.
+      </Paragraph>
+
+      {clusters.map(({ ids, score }) => {
+        const key = clusterKey(ids);
+        const keptId = keepers[key] ?? defaultKeeper(ids);
+        const merging = mergeMutation.isPending && mergeMutation.variables?.kept.id === keptId;
+        return (
+          <Card
+            key={key}
+            size="small"
+            style={{ marginBottom: 16 }}
+            title={
+              <Space>
+                <span>{ids.length} requirements</span>
+                <Tag color={score >= 0.9 ? 'red' : 'orange'}>{Math.round(score * 100)}% similar</Tag>
+              </Space>
+            }
+            extra={
+              <Popconfirm
+                title={`Keep "${byId.get(keptId)?.title || `#${keptId}`}" and retire the other ${ids.length - 1}?`}
+                onConfirm={() => handleMerge(ids)}
+              >
+                <Button type="primary" size="small" loading={merging} disabled={mergeMutation.isPending && !merging}>
+                  Merge
+                </Button>
+              </Popconfirm>
+            }
+          >
+            <Radio.Group
+              value={keptId}
+              onChange={event => setKeepers(current => ({ ...current, [key]: event.target.value }))}
+              style={{ width: '100%' }}
+            >
+              <Space direction="vertical" style={{ width: '100%' }}>
+                {ids.map(id => {
+                  const requirement = byId.get(id)!;
+                  return (
+                    <Radio key={id} value={id} style={{ alignItems: 'flex-start' }}>
+                      <div>
+                        <Text
+                          strong
+                          style={{ cursor: onSelectRequirement ? 'pointer' : undefined }}
+                          onClick={event => {
+                            event.preventDefault();
+                            onSelectRequirement?.(requirement);
+                          }}
+                        >
+                          {requirement.title || `#${id}`}
+                        </Text>
+                        <Tag style={{ marginLeft: 8 }}>
+                          {requirementScore(requirement, scoring, waivers) !== undefined ? 'score' : 'local score'} {Math.round(scores.get(id)!)}
+                        </Tag>
+                        {id === keptId && <Tag color="green">keep</Tag>}
+                        <div style={{ color: '#555' }}>{requirement.text}</div>
+                      </div>
+                    </Radio>
+                  );
+                })}
+              </Space>
+            </Radio.Group>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DuplicateReview;
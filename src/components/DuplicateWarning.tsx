@@ -0,0 +1,34 @@
+// src/components/DuplicateWarning.tsx - Warns that a requirement about to be added looks like one already in the project
+import React from 'react';
+import type { SimilarRequirement } from '../hooks/useSimilarRequirements';
+
+interface DuplicateWarningProps {
+  matches: SimilarRequirement[];
+}
+
+const DuplicateWarning: React.FC<DuplicateWarningProps> = ({ matches }) => {
+  if (matches.length === 0) return null;
+
+  return (
+    <div style={{
+      marginTop: '8px',
+      padding: '6px 10px',
+      border: '1px solid #ffe58f',
+      borderRadius: '4px',
+      backgroundColor: '#fffbe6',
+      fontSize: '12px'
+    }}>
+      <div style={{ fontWeight: 'bold', color: '#ad6800', marginBottom: '2px' }}>
+        ⚠ Possible {matches.length === 1 ? 'duplicate' : 'duplicates'} of existing requirements
+      </div>
+      {matches.slice(0, 3).map(({ requirement, score }) => (
+        <div key={requirement.id} title={requirement.text} style={{ color: '#333' }}>
+          {requirement.title ? `"${requirement.title}"` : `#${requirement.id}`}
+          <span style={{ color: '#888' }}> — {Math.round(score * 100)}% similar: {requirement.text.slice(0, 80)}{requirement.text.length > 80 ? '…' : ''}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DuplicateWarning;
@@ -0,0 +1,185 @@
+// src/components/EarsPanel.tsx - EARS pattern of a requirement, its conformance problems and a guided rewrite
+import React, { useMemo, useState } from 'react';
+import {
+  EARS_PATTERNS,
+  EarsClassification,
+  EarsPattern,
+  EarsRewrite,
+  EarsSlot,
+  classifyEars,
+  renderEars,
+  suggestEarsRewrite,
+} from '../services/quality/ears';
+
+const PATTERN_COLORS: Record<EarsPattern, string> = {
+  ubiquitous: '#1890ff',
+  'event-driven': '#722ed1',
+  'state-driven': '#13c2c2',
+  'unwanted-behaviour': '#fa541c',
+  'optional-feature': '#52c41a',
+  complex: '#2f54eb',
+};
+
+const SLOT_LABELS: Record<EarsSlot, string> = {
+  precondition: 'While (precondition)',
+  trigger: 'When / If (trigger)',
+  feature: 'Where (feature)',
+  system: 'The (system)',
+  response: 'shall (response)',
+};
+
+// Pattern tag for the requirement list; non-conforming text is outlined in red with the reasons on hover
+export const EarsPatternTag: React.FC<{ classification: EarsClassification }> = ({ classification }) => {
+  const { pattern, problems } = classification;
+  const color = pattern ? PATTERN_COLORS[pattern] : '#8c8c8c';
+  const conforms = pattern !== null && problems.length === 0;
+  return (
+    <span
+      title={conforms ? 'Conforms to EARS' : problems.join('\n')}
+      style={{
+        padding: '2px 8px',
+        borderRadius: '12px',
+        fontSize: '12px',
+        whiteSpace: 'nowrap',
+        color,
+        backgroundColor: `${color}14`,
+        border: `1px ${conforms ? 'solid' : 'dashed'} ${conforms ? color : '#ff4d4f'}`
+      }}
+    >
+      {pattern ? EARS_PATTERNS[pattern].label : 'Not EARS'}
+      {pattern && !conforms && ' ✗'}
+    </span>
+  );
+};
+
+interface EarsPanelProps {
+  text: string;
+  onApply: (text: string) => void;
+  applying?: boolean;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '6px 10px',
+  border: '1px solid #d9d9d9',
+  borderRadius: '4px',
+  fontSize: '13px',
+  boxSizing: 'border-box'
+};
+
+const EarsPanel: React.FC<EarsPanelProps> = ({ text, onApply, applying }) => {
+  const classification = useMemo(() => classifyEars(text), [text]);
+  const [draft, setDraft] = useState<EarsRewrite | null>(null);
+
+  const conforms = classification.pattern !== null && classification.problems.length === 0;
+  const slots = draft ? EARS_PATTERNS[draft.pattern].slots : [];
+  const preview = draft ? renderEars(draft.pattern, draft.clauses) : '';
+  const complete = draft !== null && slots.every(slot => draft.clauses[slot].trim());
+
+  return (
+    <div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginBottom: '8px' }}>
+        <EarsPatternTag classification={classification} />
+        <span style={{ fontSize: '13px', color: conforms ? '#52c41a' : '#666' }}>
+          {conforms ? 'Conforms to the EARS template' : 'Does not conform to EARS'}
+        </span>
+        {!draft && !conforms && (
+          <button
+            onClick={() => setDraft(suggestEarsRewrite(text))}
+            style={{
+              marginLeft: 'auto',
+              padding: '4px 12px',
+              backgroundColor: '#722ed1',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '12px'
+            }}
+          >
+            Rewrite as EARS
+          </button>
+        )}
+      </div>
+
+      {classification.problems.length > 0 && (
+        <ul style={{ margin: '0 0 8px 0', paddingLeft: '20px', fontSize: '13px', color: '#666' }}>
+          {classification.problems.map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+
+      {draft && (
+        <div style={{ padding: '12px', border: '1px solid #d3adf7', borderRadius: '6px', backgroundColor: '#f9f0ff' }}>
+          <div style={{ marginBottom: '8px' }}>
+            <label style={{ display: 'block', fontSize: '12px', fontWeight: 'bold', marginBottom: '4px' }}>Template</label>
+            <select
+              value={draft.pattern}
+              onChange={(e) => setDraft({ ...draft, pattern: e.target.value as EarsPattern })}
+              style={inputStyle}
+            >
+              {(Object.keys(EARS_PATTERNS) as EarsPattern[]).map(pattern => (
+                <option key={pattern} value={pattern}>
+                  {EARS_PATTERNS[pattern].label}: {EARS_PATTERNS[pattern].template}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {slots.map(slot => (
+            <div key={slot} style={{ marginBottom: '8px' }}>
+              <label style={{ display: 'block', fontSize: '12px', fontWeight: 'bold', marginBottom: '4px' }}>
+                {SLOT_LABELS[slot]}
+              </label>
+              <input
+                value={draft.clauses[slot]}
+                onChange={(e) => setDraft({ ...draft, clauses: { ...draft.clauses, [slot]: e.target.value } })}
+                placeholder={`<${slot}>`}
+                style={inputStyle}
+              />
+            </div>
+          ))}
+
+          <div style={{ fontSize: '12px', fontWeight: 'bold', marginBottom: '4px' }}>Preview</div>
+          <div style={{ padding: '8px 12px', backgroundColor: 'white', borderRadius: '4px', fontSize: '14px', marginBottom: '12px' }}>
+            {preview}
+          </div>
+
+          <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+            <button
+              onClick={() => setDraft(null)}
+              style={{
+                padding: '6px 12px',
+                backgroundColor: '#f0f0f0',
+                border: '1px solid #d9d9d9',
+                borderRadius: '4px',
+                cursor: 'pointer'
+              }}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => {
+                onApply(preview);
+                setDraft(null);
+              }}
+              disabled={!complete || applying}
+              title={complete ? undefined : 'Fill in every slot first'}
+              style={{
+                padding: '6px 12px',
+                backgroundColor: complete && !applying ? '#722ed1' : '#d9d9d9',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: complete && !applying ? 'pointer' : 'not-allowed'
+              }}
+            >
+              Apply Rewrite
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EarsPanel;
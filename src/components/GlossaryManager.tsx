@@ -0,0 +1,230 @@
+// src/components/GlossaryManager.tsx - Project glossary editor with a terminology report over the requirements
+import React, { useMemo, useState } from 'react';
+import { Alert, Button, Card, Empty, Form, Input, Modal, Popconfirm, Select, Space, Table, Tag, Typography, message } from 'antd';
+import { DeleteOutlined, EditOutlined, PlusOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import { useCreateGlossaryTerm, useDeleteGlossaryTerm, useGlossary, useUpdateGlossaryTerm } from '../hooks/useGlossary';
+import { getErrorMessage, getFieldErrors } from '../services/errors';
+import { mixedTerminology, undefinedTermUsage } from '../services/quality/glossary';
+import type { CreateGlossaryTermRequest, GlossaryTerm, GlossaryTermStatus, ProjectRequirement } from '../domain';
+
+const { Text } = Typography;
+
+const STATUS_COLORS: Record<GlossaryTermStatus, string> = { preferred: 'green', deprecated: 'orange', forbidden: 'red' };
+
+interface GlossaryManagerProps {
+  projectId: number;
+  requirements: ProjectRequirement[];
+  onSelectRequirement?: (requirement: ProjectRequirement) => void;
+}
+
+// Synonyms are edited as one comma-separated field
+interface TermForm extends Omit<CreateGlossaryTermRequest, 'synonyms'> {
+  synonyms?: string;
+}
+
+const toRequest = ({ synonyms, ...values }: TermForm): CreateGlossaryTermRequest => ({
+  ...values,
+  synonyms: (synonyms ?? '').split(',').map(synonym => synonym.trim()).filter(Boolean),
+  replacedBy: values.status === 'preferred' ? undefined : values.replacedBy || undefined,
+});
+
+const GlossaryManager: React.FC<GlossaryManagerProps> = ({ projectId, requirements, onSelectRequirement }) => {
+  const glossaryQuery = useGlossary(projectId);
+  const createMutation = useCreateGlossaryTerm();
+  const updateMutation = useUpdateGlossaryTerm();
+  const deleteMutation = useDeleteGlossaryTerm();
+  const [form] = Form.useForm<TermForm>();
+  // The term being edited (null while adding one) and the form's starting values; the modal is closed when unset
+  const [editing, setEditing] = useState<{ term: GlossaryTerm | null; initialValues: Partial<TermForm> } | null>(null);
+  const status = Form.useWatch('status', form);
+
+  const glossary = useMemo(() => glossaryQuery.data ?? [], [glossaryQuery.data]);
+  const mixed = useMemo(() => mixedTerminology(requirements, glossary), [requirements, glossary]);
+  const undefinedTerms = useMemo(() => undefinedTermUsage(requirements, glossary), [requirements, glossary]);
+  const byId = new Map(requirements.map(requirement => [requirement.id, requirement]));
+
+  const openForm = (term: GlossaryTerm | null, values: Partial<TermForm> = {}) =>
+    setEditing({
+      term,
+      initialValues: term ? { ...term, synonyms: term.synonyms.join(', ') } : { status: 'preferred', ...values },
+    });
+
+  const handleSave = async (values: TermForm) => {
+    const request = toRequest(values);
+    try {
+      if (!editing?.term) {
+        await createMutation.mutateAsync({ projectId, request });
+        message.success(`"${request.term}" added to the glossary`);
+      } else {
+        await updateMutation.mutateAsync({ term: editing.term, request });
+        message.success(`"${request.term}" updated`);
+      }
+      setEditing(null);
+    } catch (error) {
+      const fieldErrors = getFieldErrors(error);
+      form.setFields(Object.entries(fieldErrors).map(([name, error]) => ({ name: name as keyof TermForm, errors: [error] })));
+      message.error(getErrorMessage(error, 'Failed to save the term'));
+    }
+  };
+
+  const handleDelete = async (term: GlossaryTerm) => {
+    try {
+      await deleteMutation.mutateAsync(term);
+      message.success(`"${term.term}" removed from the glossary`);
+    } catch (error) {
+      message.error(getErrorMessage(error, 'Failed to delete the term'));
+    }
+  };
+
+  const requirementLinks = (ids: number[]) =>
+    ids.map(id => {
+      const requirement = byId.get(id);
+      return (
+        <Tag
+          key={id}
+          style={{ cursor: onSelectRequirement ? 'pointer' : undefined }}
+          onClick={() => requirement && onSelectRequirement?.(requirement)}
+        >
+          {requirement?.title || `#${id}`}
+        </Tag>
+      );
+    });
+
+  const columns: ColumnsType<GlossaryTerm> = [
+    { title: 'Term', dataIndex: 'term', key: 'term', width: 180, render: term => <Text strong>{term}</Text> },
+    { title: 'Definition', dataIndex: 'definition', key: 'definition' },
+    {
+      title: 'Synonyms',
+      dataIndex: 'synonyms',
+      key: 'synonyms',
+      width: 200,
+      render: (synonyms: string[]) => synonyms.map(synonym => <Tag key={synonym}>{synonym}</Tag>),
+    },
+    {
+      title: 'Status',
+      dataIndex: 'status',
+      key: 'status',
+      width: 160,
+      filters: (Object.keys(STATUS_COLORS) as GlossaryTermStatus[]).map(value => ({ text: value, value })),
+      onFilter: (value, term) => term.status === value,
+      render: (value: GlossaryTermStatus, term) => (
+        <div>
+          <Tag color={STATUS_COLORS[value]}>{value}</Tag>
+          {term.replacedBy && <div style={{ fontSize: 12, color: '#666' }}>use "{term.replacedBy}"</div>}
+        </div>
+      ),
+    },
+    {
+      title: '',
+      key: 'actions',
+      width: 100,
+      render: (_, term) => (
+        <Space>
+          <Button size="small" icon={<EditOutlined />} onClick={() => openForm(term)} />
+          <Popconfirm title={`Delete "${term.term}"?`} onConfirm={() => handleDelete(term)}>
+            <Button size="small" danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <div style={{ padding: '24px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 16 }}>
+        <h2 style={{ margin: 0 }}>Glossary</h2>
+        <Button type="primary" icon={<PlusOutlined />} onClick={() => openForm(null)}>
+          Add Term
+        </Button>
+      </div>
+
+      {glossaryQuery.isError && (
+        <Alert type="error" showIcon style={{ marginBottom: 16 }} message={getErrorMessage(glossaryQuery.error, 'Failed to load the glossary')} />
+      )}
+
+      <Table
+        columns={columns}
+        dataSource={glossary}
+        rowKey="id"
+        loading={glossaryQuery.isLoading}
+        pagination={{ pageSize: 20, hideOnSinglePage: true }}
+        size="small"
+        locale={{ emptyText: <Empty description="No terms yet. Terms defined here are checked in every requirement and sent to the AI as vocabulary." /> }}
+        style={{ marginBottom: 24 }}
+      />
+
+      <Card size="small" title={`Mixed terminology (${mixed.length})`} style={{ marginBottom: 16 }}>
+        {mixed.length === 0 ? (
+          <Text type="secondary">Every glossary term is written the same way throughout the requirements.</Text>
+        ) : (
+          mixed.map(({ entry, wordings }) => (
+            <div key={entry.term} style={{ marginBottom: 8 }}>
+              <Text strong>{entry.term}</Text> is written as{' '}
+              {Object.entries(wordings).map(([wording, ids]) => (
+                <span key={wording} style={{ marginRight: 12 }}>
+                  <Tag color={wording === entry.term.toLowerCase() ? 'green' : 'orange'}>{wording}</Tag>
+                  {requirementLinks(ids)}
+                </span>
+              ))}
+            </div>
+          ))
+        )}
+      </Card>
+
+      <Card size="small" title={`Possible terms missing from the glossary (${undefinedTerms.length})`}>
+        {undefinedTerms.length === 0 ? (
+          <Text type="secondary">No undefined acronyms or names found in the requirements.</Text>
+        ) : (
+          undefinedTerms.map(({ term, requirementIds }) => (
+            <div key={term} style={{ marginBottom: 8, display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+              <Text strong>{term}</Text>
+              {requirementLinks(requirementIds)}
+              <Button size="small" type="link" onClick={() => openForm(null, { term })}>
+                Define
+              </Button>
+            </div>
+          ))
+        )}
+      </Card>
+
+      <Modal
+        title={editing?.term ? 'Edit Glossary Term' : 'Add Glossary Term'}
+        open={editing !== null}
+        onCancel={() => setEditing(null)}
+        onOk={() => form.submit()}
+        okText="Save"
+        confirmLoading={createMutation.isPending || updateMutation.isPending}
+        destroyOnClose
+      >
+        <Form form={form} layout="vertical" onFinish={handleSave} initialValues={editing?.initialValues} preserve={false}>
+          <Form.Item name="term" label="Term" rules={[{ required: true, whitespace: true, message: 'Please enter the term' }]}>
+            <Input autoFocus />
+          </Form.Item>
+          <Form.Item name="definition" label="Definition" rules={[{ required: true, whitespace: true, message: 'Please enter a definition' }]}>
+            <Input.TextArea rows={3} />
+          </Form.Item>
+          <Form.Item name="synonyms" label="Synonyms" extra="Comma-separated wordings that should be replaced by the term">
+            <Input placeholder="client, buyer" />
+          </Form.Item>
+          <Form.Item name="status" label="Status">
+            <Select
+              options={[
+                { value: 'preferred', label: 'Preferred - the term to use' },
+                { value: 'deprecated', label: 'Deprecated - being phased out' },
+                { value: 'forbidden', label: 'Forbidden - must not be used' },
+              ]}
+            />
+          </Form.Item>
+          {status && status !== 'preferred' && (
+            <Form.Item name="replacedBy" label="Use instead">
+              <Input />
+            </Form.Item>
+          )}
+        </Form>
+      </Modal>
+    </div>
+  );
+};
+
+export default GlossaryManager;
@@ -0,0 +1,44 @@
+// src/components/GlossaryText.tsx - Requirement text with glossary terms marked and their definitions on hover
+import React, { useMemo } from 'react';
+import { Tooltip } from 'antd';
+import { findGlossaryTerms } from '../services/quality/glossary';
+import type { GlossaryEntry } from '../domain';
+
+interface GlossaryTextProps {
+  text: string;
+  glossary: GlossaryEntry[];
+}
+
+const GlossaryText: React.FC<GlossaryTextProps> = ({ text, glossary }) => {
+  const matches = useMemo(() => findGlossaryTerms(text, glossary), [text, glossary]);
+  if (matches.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  matches.forEach(({ entry, matched, span, kind }) => {
+    parts.push(text.slice(position, span.start));
+    // Wording the glossary rules out is underlined in red
+    const discouraged = kind === 'synonym' || (entry.status ?? 'preferred') !== 'preferred';
+    parts.push(
+      <Tooltip
+        key={span.start}
+        title={
+          <div>
+            <strong>{entry.term}</strong>
+            {entry.status && entry.status !== 'preferred' && ` (${entry.status})`}: {entry.definition}
+            {kind === 'synonym' && <div style={{ opacity: 0.85 }}>Use "{entry.term}" instead of "{matched}"</div>}
+            {entry.replacedBy && <div style={{ opacity: 0.85 }}>Use "{entry.replacedBy}" instead</div>}
+          </div>
+        }
+      >
+        <span style={{ borderBottom: `1px dotted ${discouraged ? '#f5222d' : '#1890ff'}`, cursor: 'help' }}>{matched}</span>
+      </Tooltip>
+    );
+    position = span.end;
+  });
+  parts.push(text.slice(position));
+
+  return <>{parts}</>;
+};
+
+export default GlossaryText;
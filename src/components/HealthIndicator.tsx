@@ -0,0 +1,42 @@
+// src/components/HealthIndicator.tsx - Backend status pill for the app header
+import React from 'react';
+import { useBackendHealth } from '../hooks/useBackendHealth';
+
+const STATUS_STYLES = {
+  healthy: { color: '#52c41a', label: 'Online' },
+  degraded: { color: '#faad14', label: 'AI unavailable' },
+  unhealthy: { color: '#ff4d4f', label: 'Offline' },
+  unknown: { color: '#8c8c8c', label: 'Checking...' },
+};
+
+// Clicking re-checks immediately; otherwise it follows the background poll
+const HealthIndicator: React.FC = () => {
+  const { status, message, checking, lastCheckedAt, recheck } = useBackendHealth();
+  const { color, label } = STATUS_STYLES[status];
+  const checkedAt = lastCheckedAt ? ` (checked ${new Date(lastCheckedAt).toLocaleTimeString()})` : '';
+
+  return (
+    <button
+      onClick={recheck}
+      disabled={checking}
+      title={`${message || label}${checkedAt}. Click to check now.`}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '6px',
+        padding: '4px 10px',
+        backgroundColor: 'rgba(255,255,255,0.1)',
+        color: 'white',
+        border: '1px solid rgba(255,255,255,0.2)',
+        borderRadius: '12px',
+        cursor: checking ? 'default' : 'pointer',
+        fontSize: '12px'
+      }}
+    >
+      <span style={{ width: '8px', height: '8px', borderRadius: '50%', backgroundColor: color }} />
+      {label}
+    </button>
+  );
+};
+
+export default HealthIndicator;
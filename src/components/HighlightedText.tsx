@@ -0,0 +1,98 @@
+// src/components/HighlightedText.tsx - Requirement text with its quality issues highlighted in place
+import React, { useMemo } from 'react';
+import { Tooltip } from 'antd';
+import { segmentText } from '../services/quality/spans';
+import type { IssueSeverity, QualityIssue, QualityIssueType } from '../domain';
+
+// Same hues as the issue-type tags in RequirementAnalyzer
+export const ISSUE_TYPE_COLORS: Record<QualityIssueType, string> = {
+  ambiguity: '#fa541c',
+  completeness: '#fa8c16',
+  consistency: '#faad14',
+  verifiability: '#a0d911',
+  traceability: '#13c2c2',
+};
+
+// Severity sets the weight of the underline; the background comes from the issue type
+const SEVERITY_UNDERLINE: Record<IssueSeverity, string> = {
+  critical: '3px solid',
+  major: '2px solid',
+  minor: '2px dashed',
+};
+
+// DOM id of the card for issue `index`, so a highlight can scroll to it
+export const issueAnchorId = (scope: string, index: number) => `${scope}-issue-${index}`;
+
+const scrollToIssue = (scope: string, index: number) => {
+  const card = document.getElementById(issueAnchorId(scope, index));
+  if (!card) return;
+  card.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  card.animate?.([{ boxShadow: '0 0 0 3px #1890ff' }, { boxShadow: '0 0 0 0 transparent' }], { duration: 1500 });
+};
+
+interface HighlightedTextProps {
+  text: string;
+  // Issues with spans (see quality/spans locateIssues); issues without one are not highlighted
+  issues: QualityIssue[];
+  // Prefix of the issue cards' ids (see issueAnchorId)
+  anchorScope: string;
+  style?: React.CSSProperties;
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, issues, anchorScope, style }) => {
+  const segments = useMemo(() => segmentText(text, issues), [text, issues]);
+  const presentTypes = Array.from(new Set(issues.filter(issue => issue.span).map(issue => issue.type)));
+
+  return (
+    <div>
+      <div style={{ whiteSpace: 'pre-wrap', lineHeight: 1.8, ...style }}>
+        {segments.map(segment => {
+          const content = text.slice(segment.start, segment.end);
+          if (segment.issues.length === 0) return <React.Fragment key={segment.start}>{content}</React.Fragment>;
+
+          // The most severe issue decides the look; the tooltip lists all of them
+          const primary = issues[segment.issues[0]];
+          return (
+            <Tooltip
+              key={segment.start}
+              title={segment.issues.map(index => (
+                <div key={index} style={{ marginBottom: 4 }}>
+                  <strong style={{ textTransform: 'capitalize' }}>{issues[index].type} ({issues[index].severity}):</strong>{' '}
+                  {issues[index].description}
+                  {issues[index].suggestion && <div style={{ opacity: 0.85 }}>Suggestion: {issues[index].suggestion}</div>}
+                </div>
+              ))}
+            >
+              <mark
+                onClick={() => scrollToIssue(anchorScope, segment.issues[0])}
+                style={{
+                  backgroundColor: `${ISSUE_TYPE_COLORS[primary.type]}33`,
+                  borderBottom: `${SEVERITY_UNDERLINE[primary.severity]} ${ISSUE_TYPE_COLORS[primary.type]}`,
+                  color: 'inherit',
+                  padding: 0,
+                  cursor: 'pointer'
+                }}
+              >
+                {content}
+              </mark>
+            </Tooltip>
+          );
+        })}
+      </div>
+
+      {presentTypes.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px', marginTop: '8px', fontSize: '12px', color: '#666' }}>
+          {presentTypes.map(type => (
+            <span key={type} style={{ display: 'flex', alignItems: 'center', gap: '4px', textTransform: 'capitalize' }}>
+              <span style={{ width: '10px', height: '10px', borderRadius: '2px', backgroundColor: ISSUE_TYPE_COLORS[type] }} />
+              {type}
+            </span>
+          ))}
+          <span>Solid underline: critical/major, dashed: minor. Click a highlight to jump to its issue.</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HighlightedText;
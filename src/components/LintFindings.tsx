@@ -0,0 +1,60 @@
+// src/components/LintFindings.tsx - Compact list of the offline linter's findings under a requirement editor
+import React from 'react';
+import { ISSUE_TYPE_COLORS } from './HighlightedText';
+import type { LintIssue } from '../services/quality/linter';
+
+const SEVERITY_COLORS = { critical: '#f5222d', major: '#faad14', minor: '#1890ff' };
+
+interface LintFindingsProps {
+  issues: LintIssue[];
+  // Nothing is shown until there is text to check
+  text: string;
+}
+
+const LintFindings: React.FC<LintFindingsProps> = ({ issues, text }) => {
+  if (!text.trim()) return null;
+
+  if (issues.length === 0) {
+    return (
+      <div style={{ fontSize: '12px', color: '#52c41a', marginTop: '8px' }}>
+        ✓ No problems found by the instant checks
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ marginTop: '8px', border: '1px solid #f0f0f0', borderRadius: '4px', backgroundColor: '#fafafa' }}>
+      <div style={{ padding: '6px 10px', fontSize: '12px', fontWeight: 'bold', color: '#666', borderBottom: '1px solid #f0f0f0' }}>
+        Instant checks: {issues.length} {issues.length === 1 ? 'problem' : 'problems'}
+      </div>
+      <ul style={{ listStyle: 'none', margin: 0, padding: '4px 10px', maxHeight: '160px', overflowY: 'auto' }}>
+        {issues.map((issue, index) => (
+          <li
+            key={`${issue.ruleId}-${issue.span?.start ?? index}`}
+            title={issue.suggestion}
+            style={{ display: 'flex', gap: '8px', alignItems: 'baseline', padding: '3px 0', fontSize: '12px' }}
+          >
+            <span
+              style={{
+                flexShrink: 0,
+                width: '8px',
+                height: '8px',
+                borderRadius: '50%',
+                backgroundColor: SEVERITY_COLORS[issue.severity]
+              }}
+            />
+            <span style={{ flexShrink: 0, color: ISSUE_TYPE_COLORS[issue.type], textTransform: 'capitalize' }}>
+              {issue.type}
+            </span>
+            <span style={{ color: '#333' }}>
+              {issue.description}
+              <span style={{ color: '#888' }}> — {issue.suggestion}</span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default LintFindings;
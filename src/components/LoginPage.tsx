@@ -0,0 +1,104 @@
+// src/components/LoginPage.tsx - Sign-in form, full page or as a re-authentication dialog
+import React, { useState } from 'react';
+import { Alert, Button, Card, Divider, Form, Input, Modal, Typography } from 'antd';
+import { LockOutlined, LoginOutlined, UserOutlined } from '@ant-design/icons';
+import { useAuth } from '../hooks/useAuth';
+import { authConfig, isLocalIdp, mockConfig } from '../services/config';
+import { ApiError, getErrorMessage } from '../services/errors';
+import type { LoginRequest } from '../domain';
+
+const { Text, Title } = Typography;
+
+interface LoginPageProps {
+  // Shown over the app after a session expired: the page underneath (and its unsaved input) stays mounted,
+  // so SSO goes through a popup instead of a redirect
+  reauthenticate?: boolean;
+}
+
+const LoginPage: React.FC<LoginPageProps> = ({ reauthenticate = false }) => {
+  const { user, signIn, signInWithSso } = useAuth();
+  const [form] = Form.useForm<LoginRequest>();
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      // Identity-provider failures are plain Errors that already explain themselves
+      setError(err instanceof ApiError || !(err instanceof Error) ? getErrorMessage(err, 'Sign-in failed') : err.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const showDemoAccounts = mockConfig.mode === 'always' || (authConfig.oidc.enabled && isLocalIdp());
+
+  const content = (
+    <>
+      {reauthenticate && (
+        <Alert
+          type="warning"
+          showIcon
+          style={{ marginBottom: 16 }}
+          message="Your session has expired"
+          description="Sign in again to continue. Unsaved changes on this page are kept and pending requests resume once you are signed in."
+        />
+      )}
+      {error && <Alert type="error" showIcon style={{ marginBottom: 16 }} message={error} />}
+
+      <Form
+        form={form}
+        layout="vertical"
+        initialValues={{ username: reauthenticate ? user?.username : undefined }}
+        onFinish={values => run(() => signIn(values))}
+      >
+        <Form.Item name="username" label="Username" rules={[{ required: true, message: 'Please enter your username' }]}>
+          <Input prefix={<UserOutlined />} autoComplete="username" disabled={reauthenticate && !!user} />
+        </Form.Item>
+        <Form.Item name="password" label="Password" rules={[{ required: true, message: 'Please enter your password' }]}>
+          <Input.Password prefix={<LockOutlined />} autoComplete="current-password" autoFocus={reauthenticate} />
+        </Form.Item>
+        <Button type="primary" htmlType="submit" icon={<LoginOutlined />} loading={submitting} block>
+          Sign in
+        </Button>
+      </Form>
+
+      {authConfig.oidc.enabled && (
+        <>
+          <Divider plain>or</Divider>
+          <Button block disabled={submitting} onClick={() => run(() => signInWithSso(reauthenticate ? 'popup' : 'redirect'))}>
+            Sign in with single sign-on
+          </Button>
+        </>
+      )}
+
+      {showDemoAccounts && (
+        <Text type="secondary" style={{ display: 'block', marginTop: 16, fontSize: 12 }}>
+          Local development accounts: demo / demo, analyst / analyst
+        </Text>
+      )}
+    </>
+  );
+
+  if (reauthenticate) {
+    return (
+      <Modal open title="Sign in again" footer={null} closable={false} maskClosable={false} keyboard={false}>
+        {content}
+      </Modal>
+    );
+  }
+
+  return (
+    <div style={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center', background: '#f0f2f5' }}>
+      <Card style={{ width: 380 }}>
+        <Title level={3} style={{ textAlign: 'center' }}>Requirements Analyzer</Title>
+        {content}
+      </Card>
+    </div>
+  );
+};
+
+export default LoginPage;
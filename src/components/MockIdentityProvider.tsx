@@ -0,0 +1,76 @@
+// src/components/MockIdentityProvider.tsx - Sign-in page of the local stand-in identity provider
+import React, { useState } from 'react';
+import { Alert, Button, Card, Form, Input, Space, Typography } from 'antd';
+import { authorizeWithLocalIdp } from '../services/auth/oidc';
+
+const { Paragraph, Title } = Typography;
+
+// Parameters of the authorization request that are forwarded to the provider's authorize endpoint
+const FORWARDED_PARAMS = ['client_id', 'redirect_uri', 'code_challenge', 'code_challenge_method', 'nonce', 'scope'];
+
+const redirectBack = (redirectUri: string, params: Record<string, string>) => {
+  const url = new URL(redirectUri);
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+  window.location.replace(url.toString());
+};
+
+const MockIdentityProvider: React.FC = () => {
+  const params = new URLSearchParams(window.location.search);
+  const redirectUri = params.get('redirect_uri');
+  const state = params.get('state') || '';
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSignIn = async (credentials: { username: string; password: string }) => {
+    if (!redirectUri) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const request = Object.fromEntries(FORWARDED_PARAMS.map(key => [key, params.get(key) || '']));
+      const code = await authorizeWithLocalIdp(request, credentials);
+      redirectBack(redirectUri, { code, state });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed.');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div style={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center', background: '#f0f2f5' }}>
+      <Card style={{ width: 380 }}>
+        <Title level={4}>Local identity provider</Title>
+        <Paragraph type="secondary">
+          Development stand-in for a real OpenID provider. Accounts: demo / demo, analyst / analyst.
+        </Paragraph>
+        {!redirectUri ? (
+          <Alert type="error" showIcon message="This page must be opened through the application's sign-in." />
+        ) : (
+          <>
+            {error && <Alert type="error" showIcon style={{ marginBottom: 16 }} message={error} />}
+            <Form layout="vertical" onFinish={handleSignIn}>
+              <Form.Item name="username" label="Username" rules={[{ required: true, message: 'Please enter your username' }]}>
+                <Input autoComplete="username" autoFocus />
+              </Form.Item>
+              <Form.Item name="password" label="Password" rules={[{ required: true, message: 'Please enter your password' }]}>
+                <Input.Password autoComplete="current-password" />
+              </Form.Item>
+              <Space>
+                <Button type="primary" htmlType="submit" loading={submitting}>
+                  Sign in
+                </Button>
+                <Button
+                  disabled={submitting}
+                  onClick={() => redirectBack(redirectUri, { error: 'access_denied', error_description: 'Sign-in was cancelled.', state })}
+                >
+                  Cancel
+                </Button>
+              </Space>
+            </Form>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default MockIdentityProvider;
@@ -0,0 +1,160 @@
+// src/components/MonacoRequirementEditor.tsx - Monaco editor behind RequirementEditor: issue markers, quick fixes, Ctrl/Cmd+S
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Editor, { loader, OnMount } from '@monaco-editor/react';
+import * as monaco from 'monaco-editor';
+import { isLintIssue } from '../services/quality/linter';
+import { earsQuickFix, suggestedReplacement } from '../services/quality/quickFixes';
+import { locateIssues } from '../services/quality/spans';
+import type { RequirementEditorProps } from './RequirementEditor';
+import type { IssueSeverity, QualityIssue } from '../domain';
+
+// The bundled copy of Monaco, not the loader's CDN one. Plain text only needs the base editor worker.
+window.MonacoEnvironment = {
+  getWorker: () => new Worker(new URL('monaco-editor/esm/vs/editor/editor.worker', import.meta.url)),
+};
+loader.config({ monaco });
+
+const MARKER_OWNER = 'requirement-quality';
+
+const MARKER_SEVERITIES: Record<IssueSeverity, monaco.MarkerSeverity> = {
+  critical: monaco.MarkerSeverity.Error,
+  major: monaco.MarkerSeverity.Warning,
+  minor: monaco.MarkerSeverity.Info,
+};
+
+const EDITOR_OPTIONS: monaco.editor.IStandaloneEditorConstructionOptions = {
+  wordWrap: 'on',
+  minimap: { enabled: false },
+  lineNumbers: 'off',
+  glyphMargin: false,
+  folding: false,
+  lineDecorationsWidth: 8,
+  renderLineHighlight: 'none',
+  scrollBeyondLastLine: false,
+  overviewRulerLanes: 0,
+  fontSize: 14,
+  automaticLayout: true,
+  // The lightbulb is how quick fixes are found
+  lightbulb: { enabled: monaco.editor.ShowLightbulbIconMode.On },
+};
+
+const toRange = (model: monaco.editor.ITextModel, { start, end }: { start: number; end: number }) =>
+  monaco.Range.fromPositions(model.getPositionAt(start), model.getPositionAt(end));
+
+const MonacoRequirementEditor: React.FC<RequirementEditorProps> = ({
+  value,
+  onChange,
+  issues = [],
+  onSave,
+  placeholder,
+  height,
+  invalid,
+  maxLength,
+}) => {
+  const [editor, setEditor] = useState<monaco.editor.IStandaloneCodeEditor | null>(null);
+  // Whole-text issues have nothing to underline and are left to the lists around the editor
+  const located = useMemo(() => locateIssues(value, issues).filter(issue => issue.span), [value, issues]);
+  // Read by the code action provider and the save command, which are registered once
+  const latest = useRef({ value, located, onSave });
+  latest.current = { value, located, onSave };
+
+  useEffect(() => {
+    const model = editor?.getModel();
+    if (!model) return;
+    // The model can run a keystroke ahead of `value`; markers are only placed on the text they were located in
+    const markers: monaco.editor.IMarkerData[] = model.getValue() !== value ? [] : located.map((issue: QualityIssue) => ({
+      ...toRange(model, issue.span!),
+      severity: MARKER_SEVERITIES[issue.severity],
+      message: issue.suggestion ? `${issue.description}\nSuggestion: ${issue.suggestion}` : issue.description,
+      source: isLintIssue(issue) ? issue.ruleId : 'analysis',
+      code: issue.type,
+    }));
+    monaco.editor.setModelMarkers(model, MARKER_OWNER, markers);
+  }, [editor, value, located]);
+
+  useEffect(() => {
+    if (!editor) return;
+    const provider = monaco.languages.registerCodeActionProvider('plaintext', {
+      provideCodeActions: (model, range) => {
+        const current = latest.current;
+        if (model !== editor.getModel() || model.getValue() !== current.value) return { actions: [], dispose: () => {} };
+        const actions: monaco.languages.CodeAction[] = [];
+        current.located.forEach(issue => {
+          const replacement = suggestedReplacement(issue);
+          const issueRange = toRange(model, issue.span!);
+          if (replacement === undefined || !monaco.Range.areIntersectingOrTouching(issueRange, range)) return;
+          actions.push({
+            title: `Replace with "${replacement}"`,
+            kind: 'quickfix',
+            isPreferred: true,
+            edit: { edits: [{ resource: model.uri, versionId: model.getVersionId(), textEdit: { range: issueRange, text: replacement } }] },
+          });
+        });
+        // Offered wherever the cursor is, since it replaces the whole requirement
+        const ears = earsQuickFix(current.value);
+        if (ears) {
+          actions.push({
+            title: ears.title,
+            kind: 'quickfix',
+            edit: { edits: [{ resource: model.uri, versionId: model.getVersionId(), textEdit: { range: model.getFullModelRange(), text: ears.text } }] },
+          });
+        }
+        return { actions, dispose: () => {} };
+      },
+    }, { providedCodeActionKinds: ['quickfix'] });
+    return () => provider.dispose();
+  }, [editor]);
+
+  // Text past the limit is removed from the model with an undoable edit, made once the current change event is
+  // over; the edit's own change event then reports the text that was kept
+  const handleChange = (next: string = '') => {
+    if (!editor || maxLength === undefined || next.length <= maxLength) {
+      onChange(next);
+      return;
+    }
+    Promise.resolve().then(() => {
+      const model = editor.getModel();
+      if (!model || model.isDisposed() || model.getValueLength() <= maxLength) return;
+      editor.executeEdits('max-length', [{ range: toRange(model, { start: maxLength, end: model.getValueLength() }), text: '' }]);
+    });
+  };
+
+  const handleMount: OnMount = (mounted) => {
+    mounted.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, () => latest.current.onSave?.());
+    setEditor(mounted);
+  };
+
+  return (
+    <div style={{
+      position: 'relative',
+      border: invalid ? '1px solid #ff4d4f' : '1px solid #d9d9d9',
+      borderRadius: '4px',
+      padding: '4px 0',
+      backgroundColor: 'white'
+    }}>
+      <Editor
+        height={height}
+        language="plaintext"
+        value={value}
+        onChange={handleChange}
+        onMount={handleMount}
+        options={EDITOR_OPTIONS}
+      />
+      {!value && placeholder && (
+        <div style={{
+          position: 'absolute',
+          top: '4px',
+          left: '8px',
+          fontSize: '14px',
+          color: '#bfbfbf',
+          pointerEvents: 'none',
+          whiteSpace: 'pre-wrap'
+        }}>
+          {placeholder}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MonacoRequirementEditor;
@@ -1,92 +1,137 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Tabs } from 'antd';
-import { UnorderedListOutlined, BarChartOutlined, TeamOutlined } from '@ant-design/icons';
+import {
+  UnorderedListOutlined,
+  BarChartOutlined,
+  BookOutlined,
+  CopyOutlined,
+  ExclamationCircleOutlined,
+  NumberOutlined,
+  PercentageOutlined,
+  ReadOutlined,
+  SafetyCertificateOutlined,
+  TeamOutlined,
+  ToolOutlined
+} from '@ant-design/icons';
+import HealthIndicator from './HealthIndicator';
+import CharacteristicBreakdown from './CharacteristicBreakdown';
+import ConflictReview from './ConflictReview';
+import DuplicateReview from './DuplicateReview';
+import DuplicateWarning from './DuplicateWarning';
+import EarsPanel, { EarsPatternTag } from './EarsPanel';
+import GlossaryManager from './GlossaryManager';
+import GlossaryText from './GlossaryText';
+import HighlightedText, { issueAnchorId } from './HighlightedText';
+import LintFindings from './LintFindings';
+import ProjectScorecard from './ProjectScorecard';
+import QuantityChips from './QuantityChips';
+import QuantityTable from './QuantityTable';
+import ReadabilityPanel from './ReadabilityPanel';
+import ReadabilityReport from './ReadabilityReport';
+import RequirementEditor from './RequirementEditor';
+import RulePackManager from './RulePackManager';
+import ScoringPolicyEditor from './ScoringPolicyEditor';
+import SplitPreview from './SplitPreview';
 import StakeholderSimulation from './StakeholderSimulation';
+import WaiveIssueForm, { WaiverInput } from './WaiveIssueForm';
+import WaiverRegister from './WaiverRegister';
+import { projectApi } from '../services/api';
+import { editorConfig } from '../services/config';
+import { getErrorMessage, getFieldErrors, isCancelledError } from '../services/errors';
+import { EARS_PATTERNS, EarsPattern, classifyEars } from '../services/quality/ears';
+import { glossaryRules } from '../services/quality/glossary';
+import { DEFAULT_RULES, lintRequirement, mergeIssues } from '../services/quality/linter';
+import { DEFAULT_READABILITY_THRESHOLDS, readabilityRule } from '../services/quality/readability';
+import { rulePackRules } from '../services/quality/rulePacks';
+import { DEFAULT_SCORING_POLICY, averageScore, isActiveRequirement, requirementScore, scoreColor } from '../services/quality/scoring';
+import { scoreRequirement } from '../services/quality/scorecard';
+import { analyzeCompound } from '../services/quality/splitter';
+import { locateIssues } from '../services/quality/spans';
+import { splitWaivedIssues, withoutWaivedIssues } from '../services/quality/waivers';
+import { useAuth } from '../hooks/useAuth';
+import { useLlmAvailability, useMockBackendActive } from '../hooks/useBackendHealth';
+import { useGlossary } from '../hooks/useGlossary';
+import { useCreateIssueWaiver, useIssueWaivers, useRevokeIssueWaiver } from '../hooks/useIssueWaivers';
+import { useCachedScoringPolicies, useQualitySettings } from '../hooks/useQualitySettings';
+import { useRulePacks } from '../hooks/useRulePacks';
+import { useRequirementLint } from '../hooks/useRequirementLint';
+import { similarRequirements, useSimilarRequirements } from '../hooks/useSimilarRequirements';
+import { useCancellable } from '../hooks/useCancellable';
+import { useDebouncedCallback } from '../hooks/useDebouncedCallback';
+import { estimateRemainingMs, formatDuration, useStreamProgress } from '../hooks/useStreamProgress';
+import {
+  useAddRequirement,
+  useAnalyzeAllRequirements,
+  useAnalyzeRequirement,
+  useCreateProject,
+  useDeleteProject,
+  useDeleteRequirement,
+  useEnhanceRequirement,
+  useProjectRequirements,
+  useProjects,
+  useSplitRequirement,
+  useUpdateProject,
+  useUpdateRequirement
+} from '../hooks/useProjectQueries';
+import type {
+  IssueWaiver,
+  Project,
+  ProjectRequirement,
+  QualityIssue,
+  CreateProjectRequest,
+  CreateRequirementRequest,
+  GenerateRequirementsRequest,
+  GeneratedRequirement,
+} from '../domain';
 
 const { TabPane } = Tabs;
 
-interface Project {
-  id: number;
-  name: string;
-  description?: string;
-  createdAt: string;
-  updatedAt: string;
-  requirementCount: number;
-  analyzedCount: number;
-  averageQualityScore?: number;
-}
-
-interface ProjectRequirement {
-  id: number;
-  projectId: number;
-  text: string;
-  title?: string;
-  status: 'Draft' | 'Analyzed' | 'Enhanced' | 'Failed';
-  qualityScore?: number;
-  createdAt: string;
-  updatedAt: string;
-  analysis?: AnalysisResponse;
-  enhancements?: EnhancementResponse;
-}
-
-interface CreateProjectRequest {
-  name: string;
-  description?: string;
-}
-
-interface CreateRequirementRequest {
-  text: string;
-  title?: string;
-}
-
-interface GenerateRequirementsRequest {
-  userStory: string;
-  projectContext?: string;
-}
-
-interface GeneratedRequirement {
-  type: 'functional' | 'non-functional' | 'validation' | 'security' | 'usability';
-  title: string;
-  text: string;
-  priority: 'high' | 'medium' | 'low';
-  rationale: string;
-}
-
-interface QualityIssue {
-  type: string;
-  severity: 'critical' | 'major' | 'minor';
-  description: string;
-  problematicText: string;
-  suggestion: string;
-}
-
-interface AnalysisResponse {
-  overallScore: number;
-  issues: QualityIssue[];
-  analyzedAt: string;
-}
-
-interface Enhancement {
-  text: string;
-  changes: string[];
-  improvements: string[];
-  qualityScore: number;
-  rationale?: string;
-}
-
-interface EnhancementResponse {
-  enhancements: Enhancement[];
-  recommendedIndex?: number;
-}
-
-const API_BASE_URL = 'http://localhost:5074/api';
-
 const ProjectDashboard: React.FC = () => {
-  const [projects, setProjects] = useState<Project[]>([]);
-  const [selectedProject, setSelectedProject] = useState<Project | null>(null);
-  const [requirements, setRequirements] = useState<ProjectRequirement[]>([]);
-  const [loading, setLoading] = useState(false);
+  const [selectedProjectId, setSelectedProjectId] = useState<number | null>(null);
+  const [generating, setGenerating] = useState(false);
   const [message, setMessage] = useState('');
+
+  // Server state lives in the react-query cache (see ../hooks/useProjectQueries)
+  const { user, signOut } = useAuth();
+  const llm = useLlmAvailability();
+  const mockBackendActive = useMockBackendActive();
+  const projectsQuery = useProjects();
+  const requirementsQuery = useProjectRequirements(selectedProjectId ?? undefined);
+  const createProjectMutation = useCreateProject();
+  const updateProjectMutation = useUpdateProject();
+  const deleteProjectMutation = useDeleteProject();
+  const addRequirementMutation = useAddRequirement();
+  const updateRequirementMutation = useUpdateRequirement();
+  const deleteRequirementMutation = useDeleteRequirement();
+  const splitRequirementMutation = useSplitRequirement();
+  const analyzeMutation = useAnalyzeRequirement();
+  const enhanceMutation = useEnhanceRequirement();
+  const analyzeAllMutation = useAnalyzeAllRequirements();
+
+  const projects = projectsQuery.data ?? [];
+  const requirements = useMemo(
+    () => (selectedProjectId !== null && requirementsQuery.data) || [],
+    [selectedProjectId, requirementsQuery.data]
+  );
+  // Retired requirements (replaced by a split or merged into a duplicate) stay listed for traceability but are no longer analyzed or scored
+  const activeRequirements = useMemo(() => requirements.filter(isActiveRequirement), [requirements]);
+  const selectedProject = projects.find(p => p.id === selectedProjectId) ?? null;
+  const loading = generating || analyzeMutation.isPending || enhanceMutation.isPending ||
+    updateRequirementMutation.isPending || addRequirementMutation.isPending || analyzeAllMutation.isPending;
+  // AI actions are also off while the health check reports the LLM provider (or backend) down
+  const llmDisabled = loading || !llm.available;
+
+  // Analyze, enhance and generate wait on the LLM; only one runs at a time and it can be cancelled
+  const llmRequest = useCancellable();
+  const busyRequirementId = analyzeMutation.isPending
+    ? analyzeMutation.variables?.requirement.id
+    : enhanceMutation.isPending
+      ? enhanceMutation.variables?.requirement.id
+      : null;
+
+  // Analyze-all streams one result per requirement; rows and the progress bar update as they arrive
+  const analyzeAllRequest = useCancellable();
+  const analyzeAllProgress = useStreamProgress();
   
   // Modal states
   const [showCreateProject, setShowCreateProject] = useState(false);
@@ -102,91 +147,180 @@ const ProjectDashboard: React.FC = () => {
   const [editProject, setEditProject] = useState<CreateProjectRequest>({ name: '', description: '' });
   const [newRequirement, setNewRequirement] = useState<CreateRequirementRequest>({ text: '', title: '' });
   const [editRequirement, setEditRequirement] = useState<CreateRequirementRequest>({ text: '', title: '' });
+  // The project glossary adds terminology checks to the instant checks
+  const glossaryQuery = useGlossary(selectedProjectId ?? undefined);
+  const glossary = useMemo(() => glossaryQuery.data ?? [], [glossaryQuery.data]);
+  const qualitySettingsQuery = useQualitySettings(selectedProjectId ?? undefined);
+  const readabilityThresholds = qualitySettingsQuery.data?.readability ?? DEFAULT_READABILITY_THRESHOLDS;
+  const scoringPolicy = qualitySettingsQuery.data?.scoring ?? DEFAULT_SCORING_POLICY;
+  const projectScoringPolicy = useCachedScoringPolicies();
+  // Issues covered by an active waiver are not listed, counted or scored
+  const waiversQuery = useIssueWaivers(selectedProjectId ?? undefined);
+  const waivers = useMemo(() => waiversQuery.data ?? [], [waiversQuery.data]);
+  const createWaiverMutation = useCreateIssueWaiver();
+  const revokeWaiverMutation = useRevokeIssueWaiver();
+  const issueSplits = useMemo(
+    () => new Map(requirements.map(requirement => [requirement.id, splitWaivedIssues(requirement, waivers)])),
+    [requirements, waivers]
+  );
+  const reviewedRequirements = useMemo(
+    () => activeRequirements.map(requirement => withoutWaivedIssues(requirement, waivers)),
+    [activeRequirements, waivers]
+  );
+  // Recomputed from the stored analyses whenever the policy changes, without calling the LLM again
+  const requirementScores = useMemo(
+    () => new Map(requirements.map(requirement => [requirement.id, requirementScore(requirement, scoringPolicy, waivers)])),
+    [requirements, scoringPolicy, waivers]
+  );
+  const selectedAverageScore = useMemo(
+    () => averageScore(activeRequirements, scoringPolicy, waivers),
+    [activeRequirements, scoringPolicy, waivers]
+  );
+  const rulePacksQuery = useRulePacks(selectedProjectId ?? undefined);
+  const lintRules = useMemo(
+    () => [
+      ...DEFAULT_RULES,
+      ...glossaryRules(glossary),
+      readabilityRule(readabilityThresholds),
+      ...rulePackRules(rulePacksQuery.data ?? []),
+    ],
+    [glossary, readabilityThresholds, rulePacksQuery.data]
+  );
+  const newRequirementLint = useRequirementLint(newRequirement.text, lintRules);
+  const editRequirementLint = useRequirementLint(editRequirement.text, lintRules);
+  // Near-duplicates are flagged before they are added, not only in the Duplicates tab
+  const newRequirementDuplicates = useSimilarRequirements(newRequirement.text, activeRequirements);
   const [generateRequest, setGenerateRequest] = useState<GenerateRequirementsRequest>({ userStory: '', projectContext: '' });
   const [generatedRequirements, setGeneratedRequirements] = useState<GeneratedRequirement[]>([]);
-  const [selectedRequirement, setSelectedRequirement] = useState<ProjectRequirement | null>(null);
+  const generatedDuplicates = useMemo(
+    () => generatedRequirements.map(generated => similarRequirements(generated.text, activeRequirements)),
+    [generatedRequirements, activeRequirements]
+  );
+  const newGeneratedRequirements = generatedRequirements.filter((_, index) => generatedDuplicates[index].length === 0);
+  const [selectedRequirementId, setSelectedRequirementId] = useState<number | null>(null);
+  const selectedRequirement = requirements.find(r => r.id === selectedRequirementId) ?? null;
+  const mergedFrom = requirements.filter(r => selectedRequirement && r.mergedIntoId === selectedRequirement.id);
+  const selectedWaived = (selectedRequirement && issueSplits.get(selectedRequirement.id)?.waived) || [];
+  const selectedIssues = useMemo(
+    () =>
+      selectedRequirement?.analysis
+        ? locateIssues(selectedRequirement.text, issueSplits.get(selectedRequirement.id)?.open ?? [])
+        : [],
+    [selectedRequirement, issueSplits]
+  );
+  // The edit modal underlines the stored analysis's open issues next to the instant checks
+  const editRequirementIssues = useMemo(
+    () => mergeIssues(selectedIssues, editRequirementLint),
+    [selectedIssues, editRequirementLint]
+  );
+  // The issue whose waiver form is open, by its position in selectedIssues
+  const [waivingIssue, setWaivingIssue] = useState<{ requirementId: number; index: number } | null>(null);
+  const [waiverFormErrors, setWaiverFormErrors] = useState<Record<string, string>>({});
+  const [earsFilter, setEarsFilter] = useState<EarsPattern | 'non-conforming' | 'all'>('all');
+  const earsClassifications = useMemo(
+    () => new Map(requirements.map(requirement => [requirement.id, classifyEars(requirement.text)])),
+    [requirements]
+  );
+  const visibleRequirements = requirements.filter(requirement => {
+    const { pattern, problems } = earsClassifications.get(requirement.id)!;
+    if (earsFilter === 'all') return true;
+    if (earsFilter === 'non-conforming') return pattern === null || problems.length > 0;
+    return pattern === earsFilter;
+  });
+  const selectedTerminology = useMemo(
+    () => (selectedRequirement ? lintRequirement(selectedRequirement.text, glossaryRules(glossary)) : []),
+    [selectedRequirement, glossary]
+  );
+  const selectedCompound = useMemo(
+    () => (selectedRequirement ? analyzeCompound(selectedRequirement.text).reasons : []),
+    [selectedRequirement]
+  );
+  const selectedScorecard = useMemo(
+    () =>
+      selectedRequirement
+        ? scoreRequirement(selectedRequirement.text, withoutWaivedIssues(selectedRequirement, waivers).analysis)
+        : null,
+    [selectedRequirement, waivers]
+  );
 
-  const apiRequest = async (endpoint: string, options?: RequestInit) => {
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-      headers: { 'Content-Type': 'application/json', ...options?.headers },
-      ...options,
-    });
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error || `HTTP ${response.status}`);
-    }
-    return response.json();
-  };
+  // Field-level validation messages, keyed by request field name
+  const [projectFormErrors, setProjectFormErrors] = useState<Record<string, string>>({});
+  const [requirementFormErrors, setRequirementFormErrors] = useState<Record<string, string>>({});
 
   const showMessage = (text: string, type: 'success' | 'error' | 'info' = 'info') => {
     setMessage(`${type}: ${text}`);
     setTimeout(() => setMessage(''), 5000);
   };
 
-  const loadProjects = useCallback(async () => {
-    try {
-      const projectList = await apiRequest('/projects');
-      setProjects(projectList);
-    } catch (error) {
-      showMessage('Failed to load projects', 'error');
+  const clearFieldError = (
+    setErrors: React.Dispatch<React.SetStateAction<Record<string, string>>>,
+    field: string
+  ) => {
+    setErrors(prev => {
+      if (!prev[field]) return prev;
+      const next = { ...prev };
+      delete next[field];
+      return next;
+    });
+  };
+
+  const fieldBorder = (error?: string) => `1px solid ${error ? '#ff4d4f' : '#d9d9d9'}`;
+
+  const renderFieldError = (error?: string) => error && (
+    <div style={{ fontSize: '12px', color: '#ff4d4f', marginTop: '4px' }}>{error}</div>
+  );
+
+  useEffect(() => {
+    if (projectsQuery.error) {
+      showMessage(getErrorMessage(projectsQuery.error, 'Failed to load projects'), 'error');
     }
-  }, []);
+  }, [projectsQuery.error]);
 
-  const loadRequirements = useCallback(async (projectId: number) => {
-    try {
-      const reqs = await apiRequest(`/projects/${projectId}/requirements`);
-      setRequirements(reqs);
-    } catch (error) {
-      showMessage('Failed to load requirements', 'error');
+  useEffect(() => {
+    if (requirementsQuery.error) {
+      showMessage(getErrorMessage(requirementsQuery.error, 'Failed to load requirements'), 'error');
     }
-  }, []);
+  }, [requirementsQuery.error]);
 
+  // Stale validation messages should not survive reopening a form
   useEffect(() => {
-    loadProjects();
-  }, [loadProjects]);
+    setProjectFormErrors({});
+  }, [showCreateProject, showEditProject]);
 
   useEffect(() => {
-    if (selectedProject) {
-      loadRequirements(selectedProject.id);
-    }
-  }, [selectedProject, loadRequirements]);
+    setRequirementFormErrors({});
+  }, [showAddRequirement, showEditRequirement]);
 
   // Project CRUD operations
   const handleCreateProject = async () => {
     if (!newProject.name.trim()) {
-      showMessage('Project name is required', 'error');
+      setProjectFormErrors({ name: 'Project name is required' });
       return;
     }
     try {
-      await apiRequest('/projects', {
-        method: 'POST',
-        body: JSON.stringify(newProject),
-      });
+      await createProjectMutation.mutateAsync(newProject);
       setNewProject({ name: '', description: '' });
       setShowCreateProject(false);
       showMessage('Project created successfully', 'success');
-      loadProjects();
     } catch (error) {
-      showMessage('Failed to create project', 'error');
+      setProjectFormErrors(getFieldErrors(error));
+      showMessage(getErrorMessage(error, 'Failed to create project'), 'error');
     }
   };
 
   const handleEditProject = async () => {
-    if (!selectedProject || !editProject.name.trim()) {
-      showMessage('Project name is required', 'error');
+    if (!selectedProject) return;
+    if (!editProject.name.trim()) {
+      setProjectFormErrors({ name: 'Project name is required' });
       return;
     }
     try {
-      const updatedProject = await apiRequest(`/projects/${selectedProject.id}`, {
-        method: 'PUT',
-        body: JSON.stringify(editProject),
-      });
-      setSelectedProject(updatedProject);
+      await updateProjectMutation.mutateAsync({ id: selectedProject.id, request: editProject });
       setShowEditProject(false);
       showMessage('Project updated successfully', 'success');
-      loadProjects();
     } catch (error) {
-      showMessage('Failed to update project', 'error');
+      setProjectFormErrors(getFieldErrors(error));
+      showMessage(getErrorMessage(error, 'Failed to update project'), 'error');
     }
   };
 
@@ -194,16 +328,14 @@ const ProjectDashboard: React.FC = () => {
     if (!window.confirm(`Are you sure you want to delete "${project.name}"? This will also delete all requirements in this project.`)) {
       return;
     }
+    if (selectedProjectId === project.id) {
+      setSelectedProjectId(null);
+    }
     try {
-      await apiRequest(`/projects/${project.id}`, { method: 'DELETE' });
+      await deleteProjectMutation.mutateAsync(project.id);
       showMessage('Project deleted successfully', 'success');
-      if (selectedProject?.id === project.id) {
-        setSelectedProject(null);
-        setRequirements([]);
-      }
-      loadProjects();
     } catch (error) {
-      showMessage('Failed to delete project', 'error');
+      showMessage(getErrorMessage(error, 'Failed to delete project'), 'error');
     }
   };
 
@@ -214,24 +346,25 @@ const ProjectDashboard: React.FC = () => {
       return;
     }
     
-    setLoading(true);
+    setGenerating(true);
     try {
-      const generationResult = await apiRequest(`/projects/${selectedProject.id}/requirements/generate`, {
-        method: 'POST',
-        body: JSON.stringify({
-          userStory: generateRequest.userStory,
-          projectContext: generateRequest.projectContext || selectedProject.description
-        }),
-      });
+      const generationResult = await projectApi.generateRequirements(selectedProject.id, {
+        userStory: generateRequest.userStory,
+        projectContext: generateRequest.projectContext || selectedProject.description
+      }, { signal: llmRequest.start() });
       
       setGeneratedRequirements(generationResult.requirements || []);
       setShowGenerateRequirements(false);
       setShowGenerationResults(true);
       showMessage(`Generated ${generationResult.requirements?.length || 0} requirements successfully`, 'success');
     } catch (error) {
-      showMessage('Failed to generate requirements', 'error');
+      if (isCancelledError(error)) {
+        showMessage('Requirement generation cancelled', 'info');
+      } else {
+        showMessage(getErrorMessage(error, 'Failed to generate requirements'), 'error');
+      }
     } finally {
-      setLoading(false);
+      setGenerating(false);
     }
   };
 
@@ -239,91 +372,79 @@ const ProjectDashboard: React.FC = () => {
     if (!selectedProject) return;
     
     try {
-      await apiRequest(`/projects/${selectedProject.id}/requirements`, {
-        method: 'POST',
-        body: JSON.stringify({
-          text: generatedReq.text,
-          title: generatedReq.title
-        }),
+      await addRequirementMutation.mutateAsync({
+        projectId: selectedProject.id,
+        request: { text: generatedReq.text, title: generatedReq.title }
       });
       
       showMessage(`Added "${generatedReq.title}" to project`, 'success');
-      loadRequirements(selectedProject.id);
-      loadProjects();
     } catch (error) {
-      showMessage('Failed to add generated requirement', 'error');
+      showMessage(getErrorMessage(error, 'Failed to add generated requirement'), 'error');
     }
   };
 
-  const handleAddAllGeneratedRequirements = async () => {
-    if (!selectedProject || generatedRequirements.length === 0) return;
+  // Adds every generated requirement, or only those that don't look like an existing one
+  const handleAddAllGeneratedRequirements = async (onlyNew = false) => {
+    const toAdd = onlyNew ? newGeneratedRequirements : generatedRequirements;
+    if (!selectedProject || toAdd.length === 0) return;
     
-    setLoading(true);
     try {
-      const promises = generatedRequirements.map(req => 
-        apiRequest(`/projects/${selectedProject.id}/requirements`, {
-          method: 'POST',
-          body: JSON.stringify({
-            text: req.text,
-            title: req.title
-          }),
+      const promises = toAdd.map(req => 
+        addRequirementMutation.mutateAsync({
+          projectId: selectedProject.id,
+          request: { text: req.text, title: req.title }
         })
       );
       
       await Promise.all(promises);
       setShowGenerationResults(false);
       setGeneratedRequirements([]);
-      showMessage(`Added all ${generatedRequirements.length} generated requirements to project`, 'success');
-      loadRequirements(selectedProject.id);
-      loadProjects();
+      showMessage(
+        onlyNew
+          ? `Added ${toAdd.length} new generated requirements to project, skipped ${generatedRequirements.length - toAdd.length} possible duplicates`
+          : `Added all ${toAdd.length} generated requirements to project`,
+        'success'
+      );
     } catch (error) {
-      showMessage('Failed to add some generated requirements', 'error');
-    } finally {
-      setLoading(false);
+      showMessage(getErrorMessage(error, 'Failed to add some generated requirements'), 'error');
     }
   };
 
   // Requirement CRUD operations
   const handleAddRequirement = async () => {
-    if (!selectedProject || !newRequirement.text.trim()) {
-      showMessage('Requirement text is required', 'error');
+    if (!selectedProject) return;
+    if (!newRequirement.text.trim()) {
+      setRequirementFormErrors({ text: 'Requirement text is required' });
       return;
     }
     try {
-      await apiRequest(`/projects/${selectedProject.id}/requirements`, {
-        method: 'POST',
-        body: JSON.stringify(newRequirement),
-      });
+      await addRequirementMutation.mutateAsync({ projectId: selectedProject.id, request: newRequirement });
       setNewRequirement({ text: '', title: '' });
       setShowAddRequirement(false);
       showMessage('Requirement added successfully', 'success');
-      loadRequirements(selectedProject.id);
-      loadProjects();
     } catch (error) {
-      showMessage('Failed to add requirement', 'error');
+      setRequirementFormErrors(getFieldErrors(error));
+      showMessage(getErrorMessage(error, 'Failed to add requirement'), 'error');
     }
   };
 
   const handleEditRequirement = async () => {
-    if (!selectedRequirement || !editRequirement.text.trim()) {
-      showMessage('Requirement text is required', 'error');
+    if (!selectedRequirement) return;
+    if (!editRequirement.text.trim()) {
+      setRequirementFormErrors({ text: 'Requirement text is required' });
       return;
     }
     try {
-      const updatedRequirement = await apiRequest(
-        `/projects/${selectedRequirement.projectId}/requirements/${selectedRequirement.id}`,
-        {
-          method: 'PUT',
-          body: JSON.stringify(editRequirement),
-        }
-      );
-      setSelectedRequirement(updatedRequirement);
+      const updated = await updateRequirementMutation.mutateAsync({ requirement: selectedRequirement, request: editRequirement });
       setShowEditRequirement(false);
       showMessage('Requirement updated successfully', 'success');
-      loadRequirements(selectedRequirement.projectId);
-      loadProjects();
+      // A reworded requirement that had been analyzed is analyzed again, once saves have settled
+      if (selectedRequirement.analysis && updated.text !== selectedRequirement.text && llm.available) {
+        reanalyzeRequirement(updated);
+      }
     } catch (error) {
-      showMessage('Failed to update requirement', 'error');
+      setRequirementFormErrors(getFieldErrors(error));
+      showMessage(getErrorMessage(error, 'Failed to update requirement'), 'error');
     }
   };
 
@@ -331,88 +452,78 @@ const ProjectDashboard: React.FC = () => {
     if (!window.confirm(`Are you sure you want to delete this requirement?`)) {
       return;
     }
+    if (selectedRequirementId === requirement.id) {
+      setSelectedRequirementId(null);
+      setShowRequirementDetails(false);
+    }
     try {
-      await apiRequest(`/projects/${requirement.projectId}/requirements/${requirement.id}`, {
-        method: 'DELETE'
-      });
+      await deleteRequirementMutation.mutateAsync(requirement);
       showMessage('Requirement deleted successfully', 'success');
-      if (selectedRequirement?.id === requirement.id) {
-        setSelectedRequirement(null);
-        setShowRequirementDetails(false);
-      }
-      loadRequirements(requirement.projectId);
-      loadProjects();
     } catch (error) {
-      showMessage('Failed to delete requirement', 'error');
+      showMessage(getErrorMessage(error, 'Failed to delete requirement'), 'error');
     }
   };
 
   const handleAnalyzeRequirement = async (requirement: ProjectRequirement) => {
-    setLoading(true);
     try {
-      const analysisResult = await apiRequest(`/projects/${requirement.projectId}/requirements/${requirement.id}/analyze`, {
-        method: 'POST',
-      });
-      
-      const updatedRequirement = { 
-        ...requirement, 
-        status: 'Analyzed' as const, 
-        qualityScore: analysisResult.overallScore, 
-        analysis: analysisResult 
-      };
-      
-      const updatedRequirements = requirements.map((req: ProjectRequirement) => 
-        req.id === requirement.id ? updatedRequirement : req
-      );
-      setRequirements(updatedRequirements);
-      
-      if (selectedRequirement?.id === requirement.id) {
-        setSelectedRequirement(updatedRequirement);
-      }
-      
+      await analyzeMutation.mutateAsync({ requirement, signal: llmRequest.start() });
       showMessage('Requirement analyzed successfully', 'success');
-      loadRequirements(requirement.projectId);
-      loadProjects();
     } catch (error) {
-      showMessage('Failed to analyze requirement', 'error');
-    } finally {
-      setLoading(false);
+      if (isCancelledError(error)) {
+        showMessage('Analysis cancelled', 'info');
+      } else {
+        showMessage(getErrorMessage(error, 'Failed to analyze requirement'), 'error');
+      }
     }
   };
 
+  const reanalyzeRequirement = useDebouncedCallback(handleAnalyzeRequirement, editorConfig.reanalyzeDelayMs);
+
   const handleEnhanceRequirement = async (requirement: ProjectRequirement) => {
     if (requirement.status !== 'Analyzed') {
       showMessage('Requirement must be analyzed first', 'error');
       return;
     }
 
-    setLoading(true);
     try {
-      const enhancementResult = await apiRequest(`/projects/${requirement.projectId}/requirements/${requirement.id}/enhance`, {
-        method: 'POST',
+      await enhanceMutation.mutateAsync({ requirement, signal: llmRequest.start() });
+      showMessage('Enhancement generated successfully', 'success');
+    } catch (error) {
+      if (isCancelledError(error)) {
+        showMessage('Enhancement cancelled', 'info');
+      } else {
+        showMessage(getErrorMessage(error, 'Failed to enhance requirement'), 'error');
+      }
+    }
+  };
+
+  const handleAnalyzeAll = async () => {
+    if (!selectedProject || activeRequirements.length === 0) return;
+
+    let failed = 0;
+    analyzeAllProgress.begin(activeRequirements.length);
+    try {
+      await analyzeAllMutation.mutateAsync({
+        projectId: selectedProject.id,
+        signal: analyzeAllRequest.start(),
+        onEvent: event => {
+          analyzeAllProgress.handleEvent(event);
+          if (event.type === 'error') failed++;
+        }
       });
-      
-      const updatedRequirement = {
-        ...requirement,
-        status: 'Enhanced' as const,
-        enhancements: enhancementResult
-      };
-      
-      const updatedRequirements = requirements.map((req: ProjectRequirement) => 
-        req.id === requirement.id ? updatedRequirement : req
-      );
-      setRequirements(updatedRequirements);
-      
-      if (selectedRequirement?.id === requirement.id) {
-        setSelectedRequirement(updatedRequirement);
+      if (failed > 0) {
+        showMessage(`Analysis finished, but ${failed} requirement(s) could not be analyzed`, 'error');
+      } else {
+        showMessage('All requirements analyzed successfully', 'success');
       }
-      
-      showMessage('Enhancement generated successfully', 'success');
-      loadRequirements(requirement.projectId);
     } catch (error) {
-      showMessage('Failed to enhance requirement', 'error');
+      if (isCancelledError(error)) {
+        showMessage('Analysis cancelled - results received so far were kept', 'info');
+      } else {
+        showMessage(getErrorMessage(error, 'Failed to analyze requirements'), 'error');
+      }
     } finally {
-      setLoading(false);
+      analyzeAllProgress.reset();
     }
   };
 
@@ -420,54 +531,97 @@ const ProjectDashboard: React.FC = () => {
     if (!selectedRequirement?.enhancements) return;
 
     const selectedEnhancement = selectedRequirement.enhancements.enhancements[enhancementIndex];
-    setLoading(true);
 
     try {
-      const updateData = {
-        text: selectedEnhancement.text,
-        title: selectedRequirement.title
-      };
-
-      await apiRequest(`/projects/${selectedRequirement.projectId}/requirements/${selectedRequirement.id}`, {
-        method: 'PUT',
-        body: JSON.stringify(updateData),
+      await updateRequirementMutation.mutateAsync({
+        requirement: selectedRequirement,
+        request: { text: selectedEnhancement.text, title: selectedRequirement.title }
       });
+      showMessage(`Enhancement ${enhancementIndex + 1} applied successfully!`, 'success');
+    } catch (error) {
+      showMessage(getErrorMessage(error, 'Failed to apply enhancement'), 'error');
+    }
+  };
 
-      const updatedRequirement = {
-        ...selectedRequirement,
-        text: selectedEnhancement.text,
-        qualityScore: selectedEnhancement.qualityScore,
-        status: 'Enhanced' as const
-      };
+  const handleApplyEarsRewrite = async (text: string) => {
+    if (!selectedRequirement) return;
 
-      const updatedRequirements = requirements.map((req: ProjectRequirement) => 
-        req.id === selectedRequirement.id ? updatedRequirement : req
-      );
-      setRequirements(updatedRequirements);
-      setSelectedRequirement(updatedRequirement);
+    try {
+      await updateRequirementMutation.mutateAsync({
+        requirement: selectedRequirement,
+        request: { text, title: selectedRequirement.title }
+      });
+      showMessage('Requirement rewritten in EARS form', 'success');
+    } catch (error) {
+      showMessage(getErrorMessage(error, 'Failed to apply the EARS rewrite'), 'error');
+    }
+  };
 
-      showMessage(`Enhancement ${enhancementIndex + 1} applied successfully!`, 'success');
-      loadRequirements(selectedRequirement.projectId);
-      loadProjects();
+  const handleSplitRequirement = async (parts: CreateRequirementRequest[]) => {
+    if (!selectedRequirement) return;
+
+    try {
+      const { created } = await splitRequirementMutation.mutateAsync({
+        requirement: selectedRequirement,
+        request: { requirements: parts }
+      });
+      showMessage(`Requirement split into ${created.length} requirements`, 'success');
+      setShowRequirementDetails(false);
     } catch (error) {
-      showMessage('Failed to apply enhancement', 'error');
-    } finally {
-      setLoading(false);
+      showMessage(getErrorMessage(error, 'Failed to split the requirement'), 'error');
     }
   };
 
-  // Helper functions
-  const getScoreColor = (score: number): string => {
-    if (score >= 80) return '#52c41a';
-    if (score >= 60) return '#faad14';
-    return '#f5222d';
+  const openWaiverForm = (index: number | null) => {
+    setWaiverFormErrors({});
+    setWaivingIssue(index === null || !selectedRequirement ? null : { requirementId: selectedRequirement.id, index });
+  };
+
+  const handleWaiveIssue = async (issue: QualityIssue, { justification, expiresAt }: WaiverInput) => {
+    if (!selectedRequirement) return;
+
+    try {
+      await createWaiverMutation.mutateAsync({
+        projectId: selectedRequirement.projectId,
+        request: {
+          requirementId: selectedRequirement.id,
+          type: issue.type,
+          severity: issue.severity,
+          problematicText: issue.problematicText,
+          description: issue.description,
+          justification,
+          expiresAt
+        }
+      });
+      showMessage('Issue waived; it no longer counts towards the score', 'success');
+      openWaiverForm(null);
+    } catch (error) {
+      setWaiverFormErrors(getFieldErrors(error));
+      showMessage(getErrorMessage(error, 'Failed to waive the issue'), 'error');
+    }
+  };
+
+  const handleRevokeWaiver = async (waiver: IssueWaiver) => {
+    if (!window.confirm('Revoke this waiver? The issue will count again.')) return;
+
+    try {
+      await revokeWaiverMutation.mutateAsync(waiver);
+      showMessage('Waiver revoked', 'success');
+    } catch (error) {
+      showMessage(getErrorMessage(error, 'Failed to revoke the waiver'), 'error');
+    }
   };
 
+  // Helper functions
+  // Scores in the selected project follow its scoring policy
+  const getScoreColor = (score: number): string => scoreColor(score, scoringPolicy);
+
   const getStatusColor = (status: string): string => {
     switch (status) {
       case 'Analyzed': return '#52c41a';
       case 'Enhanced': return '#1890ff';
       case 'Failed': return '#f5222d';
+      case 'Retired': return '#8c8c8c';
       default: return '#d9d9d9';
     }
   };
@@ -477,9 +631,14 @@ const ProjectDashboard: React.FC = () => {
     setShowEditProject(true);
   };
 
+  const describeRequirement = (id: number): string => {
+    const requirement = requirements.find(r => r.id === id);
+    return requirement?.title ? `"${requirement.title}"` : `#${id}`;
+  };
+
   const openEditRequirement = (requirement: ProjectRequirement) => {
     setEditRequirement({ text: requirement.text, title: requirement.title || '' });
-    setSelectedRequirement(requirement);
+    setSelectedRequirementId(requirement.id);
     setShowEditRequirement(true);
   };
 
@@ -490,12 +649,62 @@ const ProjectDashboard: React.FC = () => {
         backgroundColor: '#001529',
         color: 'white',
         padding: '16px 24px',
-        boxShadow: '0 2px 8px rgba(0,0,0,0.1)'
+        boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center'
       }}>
-        <h1 style={{ margin: 0, fontSize: '24px' }}>RE Lifecycle Assistant</h1>
-        <div style={{ fontSize: '14px', opacity: 0.8 }}>Project-Based Requirements Management</div>
+        <div>
+          <h1 style={{ margin: 0, fontSize: '24px' }}>RE Lifecycle Assistant</h1>
+          <div style={{ fontSize: '14px', opacity: 0.8 }}>Project-Based Requirements Management</div>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '12px', fontSize: '14px' }}>
+          <HealthIndicator />
+          {user && <span style={{ opacity: 0.8 }}>{user.displayName}</span>}
+          {user && (
+            <button
+              onClick={() => signOut()}
+              style={{
+                padding: '4px 12px',
+                backgroundColor: 'transparent',
+                color: 'white',
+                border: '1px solid rgba(255,255,255,0.5)',
+                borderRadius: '4px',
+                cursor: 'pointer'
+              }}
+            >
+              Sign out
+            </button>
+          )}
+        </div>
       </div>
 
+      {/* Degraded mode: AI actions are disabled until the health check recovers */}
+      {!llm.available && (
+        <div style={{
+          padding: '8px 24px',
+          backgroundColor: '#fffbe6',
+          borderBottom: '1px solid #ffe58f',
+          color: '#874d00',
+          fontSize: '14px'
+        }}>
+          {llm.reason}
+        </div>
+      )}
+
+      {/* The in-browser mock backend is answering: nothing shown comes from the backend or the AI provider */}
+      {mockBackendActive && (
+        <div style={{
+          padding: '8px 24px',
+          backgroundColor: '#e6f4ff',
+          borderBottom: '1px solid #91caff',
+          color: '#003eb3',
+          fontSize: '14px'
+        }}>
+          Mock backend active: projects and analyses are sample data generated in the browser, not results from the backend or the AI provider.
+        </div>
+      )}
+
       {/* Message Toast */}
       {message && (
         <div style={{
@@ -510,7 +719,7 @@ const ProjectDashboard: React.FC = () => {
           borderRadius: '6px',
           boxShadow: '0 4px 12px rgba(0,0,0,0.15)'
         }}>
-          {message.split(': ')[1]}
+          {message.slice(message.indexOf(': ') + 2)}
         </div>
       )}
 
@@ -562,7 +771,7 @@ const ProjectDashboard: React.FC = () => {
                     position: 'relative'
                   }}
                 >
-                  <div onClick={() => setSelectedProject(project)}>
+                  <div onClick={() => setSelectedProjectId(project.id)}>
                     <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>{project.name}</div>
                     <div style={{ fontSize: '12px', color: '#666', marginBottom: '8px' }}>
                       {project.description || 'No description'}
@@ -583,7 +792,7 @@ const ProjectDashboard: React.FC = () => {
                           <div style={{
                             width: `${project.averageQualityScore}%`,
                             height: '100%',
-                            backgroundColor: getScoreColor(project.averageQualityScore)
+                            backgroundColor: scoreColor(project.averageQualityScore, projectScoringPolicy(project.id))
                           }}></div>
                         </div>
                         <div style={{ fontSize: '10px', color: '#666', marginTop: '2px' }}>
@@ -665,10 +874,10 @@ const ProjectDashboard: React.FC = () => {
                     <div style={{ display: 'flex', gap: '24px', fontSize: '14px' }}>
                       <div><strong>{selectedProject.requirementCount}</strong> Requirements</div>
                       <div><strong>{selectedProject.analyzedCount}</strong> Analyzed</div>
-                      {selectedProject.averageQualityScore && (
+                      {selectedAverageScore !== undefined && (
                         <div>
-                          Avg. Quality: <strong style={{ color: getScoreColor(selectedProject.averageQualityScore) }}>
-                            {Math.round(selectedProject.averageQualityScore)}%
+                          Avg. Quality: <strong style={{ color: getScoreColor(selectedAverageScore) }}>
+                            {Math.round(selectedAverageScore)}%
                           </strong>
                         </div>
                       )}
@@ -676,16 +885,34 @@ const ProjectDashboard: React.FC = () => {
                   </div>
                   <div style={{ display: 'flex', gap: '12px' }}>
                     <button
-                      onClick={() => setShowGenerateRequirements(true)}
+                      onClick={() => (analyzeAllMutation.isPending ? analyzeAllRequest.cancel() : handleAnalyzeAll())}
+                      disabled={!analyzeAllMutation.isPending && (loading || !llm.available || activeRequirements.length === 0)}
+                      title={analyzeAllMutation.isPending ? undefined : llm.reason}
                       style={{
                         padding: '8px 16px',
-                        backgroundColor: '#722ed1',
+                        backgroundColor: analyzeAllMutation.isPending ? '#ff4d4f' : '#1890ff',
                         color: 'white',
                         border: 'none',
                         borderRadius: '6px',
                         cursor: 'pointer',
                         fontSize: '14px'
                       }}
+                    >
+                      {analyzeAllMutation.isPending ? 'Cancel Analysis' : 'Analyze All'}
+                    </button>
+                    <button
+                      onClick={() => setShowGenerateRequirements(true)}
+                      disabled={!llm.available}
+                      title={llm.reason}
+                      style={{
+                        padding: '8px 16px',
+                        backgroundColor: llm.available ? '#722ed1' : '#d9d9d9',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '6px',
+                        cursor: llm.available ? 'pointer' : 'not-allowed',
+                        fontSize: '14px'
+                      }}
                     >
                       Generate from Story
                     </button>
@@ -705,6 +932,33 @@ const ProjectDashboard: React.FC = () => {
                     </button>
                   </div>
                 </div>
+
+                {/* Analyze-all progress */}
+                {analyzeAllProgress.progress && (() => {
+                  const { total, completed, failed } = analyzeAllProgress.progress;
+                  const done = completed + failed;
+                  const percent = total ? Math.round((done / total) * 100) : 0;
+                  const remaining = estimateRemainingMs(analyzeAllProgress.progress);
+                  return (
+                    <div style={{ marginTop: '16px' }}>
+                      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '13px', color: '#595959', marginBottom: '6px' }}>
+                        <span>
+                          Analyzing {done} of {total}
+                          {failed > 0 && <span style={{ color: '#f5222d' }}> ({failed} failed)</span>}
+                        </span>
+                        <span>{remaining !== undefined ? `About ${formatDuration(remaining)} remaining` : 'Estimating time remaining...'}</span>
+                      </div>
+                      <div style={{ height: '8px', backgroundColor: '#f0f0f0', borderRadius: '4px', overflow: 'hidden' }}>
+                        <div style={{
+                          width: `${percent}%`,
+                          height: '100%',
+                          backgroundColor: failed > 0 ? '#faad14' : '#1890ff',
+                          transition: 'width 0.3s ease'
+                        }} />
+                      </div>
+                    </div>
+                  );
+                })()}
               </div>
 
               {/* Tabbed Content - Replace the entire Requirements List section with this */}
@@ -725,7 +979,25 @@ const ProjectDashboard: React.FC = () => {
                     key="requirements"
                   >
                     <div style={{ padding: '24px' }}>
-                      <h2 style={{ marginTop: 0, marginBottom: '16px' }}>Requirements</h2>
+                      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '16px' }}>
+                        <h2 style={{ margin: 0 }}>Requirements</h2>
+                        {requirements.length > 0 && (
+                          <label style={{ fontSize: '14px', color: '#666' }}>
+                            EARS pattern:{' '}
+                            <select
+                              value={earsFilter}
+                              onChange={(e) => setEarsFilter(e.target.value as EarsPattern | 'non-conforming' | 'all')}
+                              style={{ padding: '4px 8px', border: '1px solid #d9d9d9', borderRadius: '4px' }}
+                            >
+                              <option value="all">All</option>
+                              {(Object.keys(EARS_PATTERNS) as EarsPattern[]).map(pattern => (
+                                <option key={pattern} value={pattern}>{EARS_PATTERNS[pattern].label}</option>
+                              ))}
+                              <option value="non-conforming">Not conforming</option>
+                            </select>
+                          </label>
+                        )}
+                      </div>
                       
                       {requirements.length === 0 ? (
                         <div style={{ textAlign: 'center', padding: '40px 0', color: '#666' }}>
@@ -763,13 +1035,19 @@ const ProjectDashboard: React.FC = () => {
                         </div>
                       ) : (
                         <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
-                          {requirements.map((requirement) => (
+                          {visibleRequirements.length === 0 && (
+                            <div style={{ textAlign: 'center', padding: '24px 0', color: '#666' }}>
+                              No requirements match this EARS filter
+                            </div>
+                          )}
+                          {visibleRequirements.map((requirement) => (
                             <div
                               key={requirement.id}
                               style={{
                                 border: '1px solid #d9d9d9',
                                 borderRadius: '6px',
-                                padding: '16px'
+                                padding: '16px',
+                                opacity: requirement.status === 'Retired' ? 0.6 : 1
                               }}
                             >
                               <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: '12px' }}>
@@ -785,10 +1063,25 @@ const ProjectDashboard: React.FC = () => {
                                     fontSize: '14px',
                                     lineHeight: '1.5'
                                   }}>
-                                    {requirement.text.length > 200 ? `${requirement.text.substring(0, 200)}...` : requirement.text}
+                                    <GlossaryText
+                      text={requirement.text.length > 200 ? `${requirement.text.substring(0, 200)}...` : requirement.text}
+                      glossary={glossary}
+                    />
                                   </p>
+                                  <QuantityChips text={requirement.text} />
+                                  {requirement.derivedFromId !== undefined && (
+                                    <div style={{ marginTop: '6px', fontSize: '12px', color: '#8c8c8c' }}>
+                                      Split from {describeRequirement(requirement.derivedFromId)}
+                                    </div>
+                                  )}
+                                  {requirement.mergedIntoId !== undefined && (
+                                    <div style={{ marginTop: '6px', fontSize: '12px', color: '#8c8c8c' }}>
+                                      Duplicate, merged into {describeRequirement(requirement.mergedIntoId)}
+                                    </div>
+                                  )}
                                 </div>
                                 <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginLeft: '16px' }}>
+                                  <EarsPatternTag classification={earsClassifications.get(requirement.id)!} />
                                   <div style={{
                                     padding: '4px 8px',
                                     borderRadius: '12px',
@@ -799,23 +1092,23 @@ const ProjectDashboard: React.FC = () => {
                                   }}>
                                     {requirement.status}
                                   </div>
-                                  {requirement.qualityScore && (
+                                  {requirementScores.get(requirement.id) !== undefined && (
                                     <div style={{
                                       padding: '4px 8px',
                                       borderRadius: '12px',
-                                      backgroundColor: getScoreColor(requirement.qualityScore),
+                                      backgroundColor: getScoreColor(requirementScores.get(requirement.id)!),
                                       color: 'white',
                                       fontSize: '12px',
                                       fontWeight: 'bold'
                                     }}>
-                                      {requirement.qualityScore}%
+                                      {requirementScores.get(requirement.id)}%
                                     </div>
                                   )}
                                 </div>
                               </div>
 
                               {/* Analysis Results Preview */}
-                              {requirement.analysis && requirement.analysis.issues && requirement.analysis.issues.length > 0 && (
+                              {requirement.analysis && issueSplits.get(requirement.id)!.open.length > 0 && (
                                 <div style={{ 
                                   marginBottom: '12px',
                                   padding: '12px', 
@@ -826,9 +1119,12 @@ const ProjectDashboard: React.FC = () => {
                                   <h5 style={{ margin: '0 0 8px 0', color: '#1890ff', fontSize: '13px' }}>Analysis Results:</h5>
                                   <div style={{ fontSize: '12px' }}>
                                     <div style={{ marginBottom: '6px' }}>
-                                      <strong>Issues Found: </strong>{requirement.analysis.issues.length}
+                                      <strong>Issues Found: </strong>{issueSplits.get(requirement.id)!.open.length}
+                                      {issueSplits.get(requirement.id)!.waived.length > 0 && (
+                                        <span style={{ color: '#722ed1' }}> ({issueSplits.get(requirement.id)!.waived.length} waived)</span>
+                                      )}
                                     </div>
-                                    {requirement.analysis.issues.slice(0, 2).map((issue: any, index: number) => (
+                                    {issueSplits.get(requirement.id)!.open.slice(0, 2).map((issue: any, index: number) => (
                                       <div key={index} style={{
                                         padding: '6px',
                                         marginBottom: '4px',
@@ -845,9 +1141,9 @@ const ProjectDashboard: React.FC = () => {
                                         </div>
                                       </div>
                                     ))}
-                                    {requirement.analysis.issues.length > 2 && (
+                                    {issueSplits.get(requirement.id)!.open.length > 2 && (
                                       <div style={{ fontSize: '11px', color: '#666', marginTop: '4px' }}>
-                                        +{requirement.analysis.issues.length - 2} more issues
+                                        +{issueSplits.get(requirement.id)!.open.length - 2} more issues
                                       </div>
                                     )}
                                   </div>
@@ -855,7 +1151,7 @@ const ProjectDashboard: React.FC = () => {
                               )}
 
                               {/* Success message when no issues */}
-                              {requirement.analysis && requirement.analysis.issues && requirement.analysis.issues.length === 0 && (
+                              {requirement.analysis && issueSplits.get(requirement.id)!.open.length === 0 && (
                                 <div style={{ 
                                   marginBottom: '12px',
                                   padding: '12px', 
@@ -864,7 +1160,9 @@ const ProjectDashboard: React.FC = () => {
                                   borderLeft: '4px solid #52c41a'
                                 }}>
                                   <div style={{ color: '#52c41a', fontSize: '12px', fontWeight: 'bold' }}>
-                                    ✓ No quality issues found - This requirement meets high quality standards!
+                                    {issueSplits.get(requirement.id)!.waived.length > 0
+                                      ? `✓ No open quality issues - ${issueSplits.get(requirement.id)!.waived.length} waived`
+                                      : '✓ No quality issues found - This requirement meets high quality standards!'}
                                   </div>
                                 </div>
                               )}
@@ -872,7 +1170,7 @@ const ProjectDashboard: React.FC = () => {
                               <div style={{ display: 'flex', gap: '8px', marginTop: '12px' }}>
                                 <button
                                   onClick={() => {
-                                    setSelectedRequirement(requirement);
+                                    setSelectedRequirementId(requirement.id);
                                     setShowRequirementDetails(true);
                                   }}
                                   style={{
@@ -887,32 +1185,35 @@ const ProjectDashboard: React.FC = () => {
                                   View Details
                                 </button>
                                 
-                                <button
-                                  onClick={() => openEditRequirement(requirement)}
-                                  style={{
-                                    padding: '6px 12px',
-                                    backgroundColor: '#faad14',
-                                    color: 'white',
-                                    border: 'none',
-                                    borderRadius: '4px',
-                                    cursor: 'pointer',
-                                    fontSize: '12px'
-                                  }}
-                                >
-                                  Edit
-                                </button>
+                                {requirement.status !== 'Retired' && (
+                                  <button
+                                    onClick={() => openEditRequirement(requirement)}
+                                    style={{
+                                      padding: '6px 12px',
+                                      backgroundColor: '#faad14',
+                                      color: 'white',
+                                      border: 'none',
+                                      borderRadius: '4px',
+                                      cursor: 'pointer',
+                                      fontSize: '12px'
+                                    }}
+                                  >
+                                    Edit
+                                  </button>
+                                )}
                                 
                                 {requirement.status === 'Draft' && (
                                   <button
                                     onClick={() => handleAnalyzeRequirement(requirement)}
-                                    disabled={loading}
+                                    disabled={llmDisabled}
+                                    title={llm.reason}
                                     style={{
                                       padding: '6px 12px',
-                                      backgroundColor: loading ? '#d9d9d9' : '#1890ff',
+                                      backgroundColor: llmDisabled ? '#d9d9d9' : '#1890ff',
                                       color: 'white',
                                       border: 'none',
                                       borderRadius: '4px',
-                                      cursor: loading ? 'not-allowed' : 'pointer',
+                                      cursor: llmDisabled ? 'not-allowed' : 'pointer',
                                       fontSize: '12px'
                                     }}
                                   >
@@ -923,20 +1224,38 @@ const ProjectDashboard: React.FC = () => {
                                 {requirement.status === 'Analyzed' && (
                                   <button
                                     onClick={() => handleEnhanceRequirement(requirement)}
-                                    disabled={loading}
+                                    disabled={llmDisabled}
+                                    title={llm.reason}
                                     style={{
                                       padding: '6px 12px',
-                                      backgroundColor: loading ? '#d9d9d9' : '#52c41a',
+                                      backgroundColor: llmDisabled ? '#d9d9d9' : '#52c41a',
                                       color: 'white',
                                       border: 'none',
                                       borderRadius: '4px',
-                                      cursor: loading ? 'not-allowed' : 'pointer',
+                                      cursor: llmDisabled ? 'not-allowed' : 'pointer',
                                       fontSize: '12px'
                                     }}
                                   >
                                     {loading ? 'Enhancing...' : 'Enhance'}
                                   </button>
                                 )}
+
+                                {loading && busyRequirementId === requirement.id && (
+                                  <button
+                                    onClick={llmRequest.cancel}
+                                    style={{
+                                      padding: '6px 12px',
+                                      backgroundColor: 'white',
+                                      color: '#f5222d',
+                                      border: '1px solid #f5222d',
+                                      borderRadius: '4px',
+                                      cursor: 'pointer',
+                                      fontSize: '12px'
+                                    }}
+                                  >
+                                    Cancel
+                                  </button>
+                                )}
                                 
                                 <button
                                   onClick={() => handleDeleteRequirement(requirement)}
@@ -959,7 +1278,160 @@ const ProjectDashboard: React.FC = () => {
                       )}
                     </div>
                   </TabPane>
-                  
+
+                  <TabPane
+                    tab={
+                      <span>
+                        <BarChartOutlined />
+                        29148 Scorecard
+                      </span>
+                    }
+                    key="scorecard"
+                  >
+                    <ProjectScorecard
+                      requirements={reviewedRequirements}
+                      scoring={scoringPolicy}
+                      onSelectRequirement={(requirement) => {
+                        setSelectedRequirementId(requirement.id);
+                        setShowRequirementDetails(true);
+                      }}
+                    />
+                  </TabPane>
+
+                  <TabPane
+                    tab={
+                      <span>
+                        <NumberOutlined />
+                        Quantities
+                      </span>
+                    }
+                    key="quantities"
+                  >
+                    <QuantityTable
+                      requirements={activeRequirements}
+                      onSelectRequirement={(requirement) => {
+                        setSelectedRequirementId(requirement.id);
+                        setShowRequirementDetails(true);
+                      }}
+                    />
+                  </TabPane>
+
+                  <TabPane
+                    tab={
+                      <span>
+                        <ReadOutlined />
+                        Readability
+                      </span>
+                    }
+                    key="readability"
+                  >
+                    <ReadabilityReport
+                      projectId={selectedProject.id}
+                      requirements={activeRequirements}
+                      onSelectRequirement={(requirement) => {
+                        setSelectedRequirementId(requirement.id);
+                        setShowRequirementDetails(true);
+                      }}
+                    />
+                  </TabPane>
+
+                  <TabPane
+                    tab={
+                      <span>
+                        <CopyOutlined />
+                        Duplicates
+                      </span>
+                    }
+                    key="duplicates"
+                  >
+                    <DuplicateReview
+                      requirements={activeRequirements}
+                      scoring={scoringPolicy}
+                      waivers={waivers}
+                      onSelectRequirement={(requirement) => {
+                        setSelectedRequirementId(requirement.id);
+                        setShowRequirementDetails(true);
+                      }}
+                    />
+                  </TabPane>
+
+                  <TabPane
+                    tab={
+                      <span>
+                        <ExclamationCircleOutlined />
+                        Conflicts
+                      </span>
+                    }
+                    key="conflicts"
+                  >
+                    <ConflictReview
+                      projectId={selectedProject.id}
+                      requirements={activeRequirements}
+                      onEditRequirement={openEditRequirement}
+                    />
+                  </TabPane>
+
+                  <TabPane
+                    tab={
+                      <span>
+                        <BookOutlined />
+                        Glossary
+                      </span>
+                    }
+                    key="glossary"
+                  >
+                    <GlossaryManager
+                      projectId={selectedProject.id}
+                      requirements={activeRequirements}
+                      onSelectRequirement={(requirement) => {
+                        setSelectedRequirementId(requirement.id);
+                        setShowRequirementDetails(true);
+                      }}
+                    />
+                  </TabPane>
+
+                  <TabPane
+                    tab={
+                      <span>
+                        <PercentageOutlined />
+                        Scoring
+                      </span>
+                    }
+                    key="scoring"
+                  >
+                    <ScoringPolicyEditor projectId={selectedProject.id} requirements={activeRequirements} />
+                  </TabPane>
+
+                  <TabPane
+                    tab={
+                      <span>
+                        <ToolOutlined />
+                        Rule Packs
+                      </span>
+                    }
+                    key="rule-packs"
+                  >
+                    <RulePackManager projectId={selectedProject.id} requirements={activeRequirements} />
+                  </TabPane>
+
+                  <TabPane
+                    tab={
+                      <span>
+                        <SafetyCertificateOutlined />
+                        Waivers
+                      </span>
+                    }
+                    key="waivers"
+                  >
+                    <WaiverRegister
+                      projectId={selectedProject.id}
+                      requirements={requirements}
+                      onSelectRequirement={(requirement) => {
+                        setSelectedRequirementId(requirement.id);
+                        setShowRequirementDetails(true);
+                      }}
+                    />
+                  </TabPane>
 
                   <TabPane 
                     tab={
@@ -1045,17 +1517,21 @@ const ProjectDashboard: React.FC = () => {
               <input
                 type="text"
                 value={newProject.name}
-                onChange={(e) => setNewProject({ ...newProject, name: e.target.value })}
+                onChange={(e) => {
+                  setNewProject({ ...newProject, name: e.target.value });
+                  clearFieldError(setProjectFormErrors, 'name');
+                }}
                 placeholder="Enter project name..."
                 style={{
                   width: '100%',
                   padding: '8px 12px',
-                  border: '1px solid #d9d9d9',
+                  border: fieldBorder(projectFormErrors.name),
                   borderRadius: '4px',
                   fontSize: '14px',
                   boxSizing: 'border-box'
                 }}
               />
+              {renderFieldError(projectFormErrors.name)}
             </div>
             
             <div style={{ marginBottom: '20px' }}>
@@ -1065,18 +1541,22 @@ const ProjectDashboard: React.FC = () => {
               <textarea
                 rows={3}
                 value={newProject.description}
-                onChange={(e) => setNewProject({ ...newProject, description: e.target.value })}
+                onChange={(e) => {
+                  setNewProject({ ...newProject, description: e.target.value });
+                  clearFieldError(setProjectFormErrors, 'description');
+                }}
                 placeholder="Describe your project..."
                 style={{
                   width: '100%',
                   padding: '8px 12px',
-                  border: '1px solid #d9d9d9',
+                  border: fieldBorder(projectFormErrors.description),
                   borderRadius: '4px',
                   fontSize: '14px',
                   resize: 'vertical',
                   boxSizing: 'border-box'
                 }}
               />
+              {renderFieldError(projectFormErrors.description)}
             </div>
             
             <div style={{ display: 'flex', gap: '12px', justifyContent: 'flex-end' }}>
@@ -1196,7 +1676,7 @@ const ProjectDashboard: React.FC = () => {
             
             <div style={{ display: 'flex', gap: '12px', justifyContent: 'flex-end' }}>
               <button
-                onClick={() => setShowGenerateRequirements(false)}
+                onClick={() => (loading ? llmRequest.cancel() : setShowGenerateRequirements(false))}
                 style={{
                   padding: '8px 16px',
                   backgroundColor: '#f0f0f0',
@@ -1209,14 +1689,15 @@ const ProjectDashboard: React.FC = () => {
               </button>
               <button
                 onClick={handleGenerateRequirements}
-                disabled={loading}
+                disabled={llmDisabled}
+                title={llm.reason}
                 style={{
                   padding: '8px 16px',
-                  backgroundColor: loading ? '#d9d9d9' : '#722ed1',
+                  backgroundColor: llmDisabled ? '#d9d9d9' : '#722ed1',
                   color: 'white',
                   border: 'none',
                   borderRadius: '4px',
-                  cursor: loading ? 'not-allowed' : 'pointer'
+                  cursor: llmDisabled ? 'not-allowed' : 'pointer'
                 }}
               >
                 {loading ? 'Generating...' : 'Generate Requirements'}
@@ -1272,9 +1753,27 @@ const ProjectDashboard: React.FC = () => {
             </div>
             
             {generatedRequirements.length > 0 && (
-              <div style={{ marginBottom: '20px', textAlign: 'right' }}>
+              <div style={{ marginBottom: '20px', display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+                {newGeneratedRequirements.length < generatedRequirements.length && newGeneratedRequirements.length > 0 && (
+                  <button
+                    onClick={() => handleAddAllGeneratedRequirements(true)}
+                    disabled={loading}
+                    title="Skips the requirements flagged as possible duplicates"
+                    style={{
+                      padding: '8px 16px',
+                      backgroundColor: 'white',
+                      color: loading ? '#d9d9d9' : '#52c41a',
+                      border: `1px solid ${loading ? '#d9d9d9' : '#52c41a'}`,
+                      borderRadius: '6px',
+                      cursor: loading ? 'not-allowed' : 'pointer',
+                      fontSize: '14px'
+                    }}
+                  >
+                    Add Only New ({newGeneratedRequirements.length})
+                  </button>
+                )}
                 <button
-                  onClick={handleAddAllGeneratedRequirements}
+                  onClick={() => handleAddAllGeneratedRequirements()}
                   disabled={loading}
                   style={{
                     padding: '8px 16px',
@@ -1356,6 +1855,7 @@ const ProjectDashboard: React.FC = () => {
                   }}>
                     {genReq.text}
                   </div>
+                  <DuplicateWarning matches={generatedDuplicates[index]} />
                   
                   <div style={{
                     backgroundColor: '#e6f7ff',
@@ -1416,17 +1916,21 @@ const ProjectDashboard: React.FC = () => {
               <input
                 type="text"
                 value={editProject.name}
-                onChange={(e) => setEditProject({ ...editProject, name: e.target.value })}
+                onChange={(e) => {
+                  setEditProject({ ...editProject, name: e.target.value });
+                  clearFieldError(setProjectFormErrors, 'name');
+                }}
                 placeholder="Enter project name..."
                 style={{
                   width: '100%',
                   padding: '8px 12px',
-                  border: '1px solid #d9d9d9',
+                  border: fieldBorder(projectFormErrors.name),
                   borderRadius: '4px',
                   fontSize: '14px',
                   boxSizing: 'border-box'
                 }}
               />
+              {renderFieldError(projectFormErrors.name)}
             </div>
             
             <div style={{ marginBottom: '20px' }}>
@@ -1436,18 +1940,22 @@ const ProjectDashboard: React.FC = () => {
               <textarea
                 rows={3}
                 value={editProject.description}
-                onChange={(e) => setEditProject({ ...editProject, description: e.target.value })}
+                onChange={(e) => {
+                  setEditProject({ ...editProject, description: e.target.value });
+                  clearFieldError(setProjectFormErrors, 'description');
+                }}
                 placeholder="Describe your project..."
                 style={{
                   width: '100%',
                   padding: '8px 12px',
-                  border: '1px solid #d9d9d9',
+                  border: fieldBorder(projectFormErrors.description),
                   borderRadius: '4px',
                   fontSize: '14px',
                   resize: 'vertical',
                   boxSizing: 'border-box'
                 }}
               />
+              {renderFieldError(projectFormErrors.description)}
             </div>
             
             <div style={{ display: 'flex', gap: '12px', justifyContent: 'flex-end' }}>
@@ -1517,41 +2025,44 @@ const ProjectDashboard: React.FC = () => {
               <input
                 type="text"
                 value={newRequirement.title}
-                onChange={(e) => setNewRequirement({ ...newRequirement, title: e.target.value })}
+                onChange={(e) => {
+                  setNewRequirement({ ...newRequirement, title: e.target.value });
+                  clearFieldError(setRequirementFormErrors, 'title');
+                }}
                 placeholder="Brief title for the requirement..."
                 style={{
                   width: '100%',
                   padding: '8px 12px',
-                  border: '1px solid #d9d9d9',
+                  border: fieldBorder(requirementFormErrors.title),
                   borderRadius: '4px',
                   fontSize: '14px',
                   boxSizing: 'border-box'
                 }}
               />
+              {renderFieldError(requirementFormErrors.title)}
             </div>
             
             <div style={{ marginBottom: '20px' }}>
               <label style={{ display: 'block', marginBottom: '8px', fontWeight: 'bold' }}>
                 Requirement Text *
               </label>
-              <textarea
-                rows={4}
+              <RequirementEditor
                 value={newRequirement.text}
-                onChange={(e) => setNewRequirement({ ...newRequirement, text: e.target.value })}
-                placeholder="The system shall..."
-                style={{
-                  width: '100%',
-                  padding: '8px 12px',
-                  border: '1px solid #d9d9d9',
-                  borderRadius: '4px',
-                  fontSize: '14px',
-                  resize: 'vertical',
-                  boxSizing: 'border-box'
+                onChange={(text) => {
+                  setNewRequirement({ ...newRequirement, text });
+                  clearFieldError(setRequirementFormErrors, 'text');
                 }}
+                issues={newRequirementLint}
+                onSave={handleAddRequirement}
+                placeholder="The system shall..."
+                invalid={!!requirementFormErrors.text}
               />
+              {renderFieldError(requirementFormErrors.text)}
               <div style={{ fontSize: '12px', color: '#666', marginTop: '4px' }}>
-                {newRequirement.text.length}/2000 characters
+                {newRequirement.text.length}/2000 characters · Ctrl/Cmd+S saves
               </div>
+              <LintFindings text={newRequirement.text} issues={newRequirementLint} />
+              <DuplicateWarning matches={newRequirementDuplicates} />
             </div>
             
             <div style={{ display: 'flex', gap: '12px', justifyContent: 'flex-end' }}>
@@ -1621,47 +2132,52 @@ const ProjectDashboard: React.FC = () => {
               <input
                 type="text"
                 value={editRequirement.title}
-                onChange={(e) => setEditRequirement({ ...editRequirement, title: e.target.value })}
+                onChange={(e) => {
+                  setEditRequirement({ ...editRequirement, title: e.target.value });
+                  clearFieldError(setRequirementFormErrors, 'title');
+                }}
                 placeholder="Brief title for the requirement..."
                 style={{
                   width: '100%',
                   padding: '8px 12px',
-                  border: '1px solid #d9d9d9',
+                  border: fieldBorder(requirementFormErrors.title),
                   borderRadius: '4px',
                   fontSize: '14px',
                   boxSizing: 'border-box'
                 }}
               />
+              {renderFieldError(requirementFormErrors.title)}
             </div>
             
             <div style={{ marginBottom: '16px' }}>
               <label style={{ display: 'block', marginBottom: '8px', fontWeight: 'bold' }}>
                 Requirement Text *
               </label>
-              <textarea
-                rows={4}
+              <RequirementEditor
                 value={editRequirement.text}
-                onChange={(e) => setEditRequirement({ ...editRequirement, text: e.target.value })}
-                placeholder="The system shall..."
-                style={{
-                  width: '100%',
-                  padding: '8px 12px',
-                  border: '1px solid #d9d9d9',
-                  borderRadius: '4px',
-                  fontSize: '14px',
-                  resize: 'vertical',
-                  boxSizing: 'border-box'
+                onChange={(text) => {
+                  setEditRequirement({ ...editRequirement, text });
+                  clearFieldError(setRequirementFormErrors, 'text');
                 }}
+                issues={editRequirementIssues}
+                onSave={handleEditRequirement}
+                placeholder="The system shall..."
+                invalid={!!requirementFormErrors.text}
               />
+              {renderFieldError(requirementFormErrors.text)}
               <div style={{ fontSize: '12px', color: '#666', marginTop: '4px' }}>
-                {editRequirement.text.length}/2000 characters
+                {editRequirement.text.length}/2000 characters · Ctrl/Cmd+S saves
               </div>
+              <LintFindings text={editRequirement.text} issues={editRequirementLint} />
             </div>
             
             <div style={{ backgroundColor: '#fff7e6', padding: '12px', borderRadius: '4px', marginBottom: '16px' }}>
               <div style={{ fontSize: '12px', color: '#d48806', fontWeight: 'bold' }}>⚠️ Note:</div>
               <div style={{ fontSize: '12px', color: '#d48806' }}>
-                Editing the requirement text will reset its analysis status to "Draft". You'll need to analyze it again.
+                Editing the requirement text will reset its analysis status to "Draft".
+                {selectedRequirement?.analysis && llm.available
+                  ? ' It is analyzed again shortly after you save.'
+                  : " You'll need to analyze it again."}
               </div>
             </div>
             
@@ -1753,7 +2269,20 @@ const ProjectDashboard: React.FC = () => {
                 lineHeight: '1.6',
                 fontSize: '14px'
               }}>
-                {selectedRequirement.text}
+                {selectedRequirement.analysis ? (
+                  <HighlightedText text={selectedRequirement.text} issues={selectedIssues} anchorScope="details" />
+                ) : (
+                  <GlossaryText text={selectedRequirement.text} glossary={glossary} />
+                )}
+              </div>
+              <QuantityChips text={selectedRequirement.text} />
+            </div>
+
+            {/* Readability */}
+            <div style={{ marginBottom: '20px' }}>
+              <strong>Readability:</strong>
+              <div style={{ marginTop: '8px' }}>
+                <ReadabilityPanel text={selectedRequirement.text} thresholds={readabilityThresholds} />
               </div>
             </div>
             
@@ -1774,24 +2303,47 @@ const ProjectDashboard: React.FC = () => {
                   {selectedRequirement.status}
                 </div>
               </div>
-              {selectedRequirement.qualityScore && (
+              {requirementScores.get(selectedRequirement.id) !== undefined && (
                 <div>
                   <strong>Quality Score:</strong>
                   <span style={{
                     marginLeft: '8px',
                     padding: '4px 8px',
                     borderRadius: '12px',
-                    backgroundColor: getScoreColor(selectedRequirement.qualityScore),
+                    backgroundColor: getScoreColor(requirementScores.get(selectedRequirement.id)!),
                     color: 'white',
                     fontSize: '12px',
                     fontWeight: 'bold'
                   }}>
-                    {selectedRequirement.qualityScore}%
+                    {requirementScores.get(selectedRequirement.id)}%
                   </span>
                 </div>
               )}
             </div>
 
+            {/* Split and merge lineage */}
+            {(selectedRequirement.derivedFromId !== undefined || selectedRequirement.status === 'Retired' || mergedFrom.length > 0) && (
+              <div style={{ marginBottom: '20px', fontSize: '13px', color: '#595959' }}>
+                {selectedRequirement.derivedFromId !== undefined && (
+                  <div>Split from {describeRequirement(selectedRequirement.derivedFromId)}</div>
+                )}
+                {mergedFrom.length > 0 && (
+                  <div>Merged from {mergedFrom.map(r => describeRequirement(r.id)).join(', ')}</div>
+                )}
+                {selectedRequirement.mergedIntoId !== undefined ? (
+                  <div>Retired as a duplicate; merged into {describeRequirement(selectedRequirement.mergedIntoId)}</div>
+                ) : selectedRequirement.status === 'Retired' && (
+                  <div>
+                    Retired; replaced by{' '}
+                    {requirements
+                      .filter(r => r.derivedFromId === selectedRequirement.id)
+                      .map(r => describeRequirement(r.id))
+                      .join(', ') || 'requirements that no longer exist'}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Action Buttons */}
             <div style={{ display: 'flex', gap: '12px', marginBottom: '20px' }}>
               <button
@@ -1815,14 +2367,15 @@ const ProjectDashboard: React.FC = () => {
                     handleAnalyzeRequirement(selectedRequirement);
                     setShowRequirementDetails(false);
                   }}
-                  disabled={loading}
+                  disabled={llmDisabled}
+                  title={llm.reason}
                   style={{
                     padding: '8px 16px',
-                    backgroundColor: loading ? '#d9d9d9' : '#1890ff',
+                    backgroundColor: llmDisabled ? '#d9d9d9' : '#1890ff',
                     color: 'white',
                     border: 'none',
                     borderRadius: '6px',
-                    cursor: loading ? 'not-allowed' : 'pointer',
+                    cursor: llmDisabled ? 'not-allowed' : 'pointer',
                     fontSize: '14px'
                   }}
                 >
@@ -1835,30 +2388,48 @@ const ProjectDashboard: React.FC = () => {
                   onClick={() => {
                     handleEnhanceRequirement(selectedRequirement);
                   }}
-                  disabled={loading}
+                  disabled={llmDisabled}
+                  title={llm.reason}
                   style={{
                     padding: '8px 16px',
-                    backgroundColor: loading ? '#d9d9d9' : '#52c41a',
+                    backgroundColor: llmDisabled ? '#d9d9d9' : '#52c41a',
                     color: 'white',
                     border: 'none',
                     borderRadius: '6px',
-                    cursor: loading ? 'not-allowed' : 'pointer',
+                    cursor: llmDisabled ? 'not-allowed' : 'pointer',
                     fontSize: '14px'
                   }}
                 >
                   {loading ? 'Enhancing...' : 'Generate Enhancements'}
                 </button>
               )}
+
+              {loading && busyRequirementId === selectedRequirement.id && (
+                <button
+                  onClick={llmRequest.cancel}
+                  style={{
+                    padding: '8px 16px',
+                    backgroundColor: 'white',
+                    color: '#f5222d',
+                    border: '1px solid #f5222d',
+                    borderRadius: '6px',
+                    cursor: 'pointer',
+                    fontSize: '14px'
+                  }}
+                >
+                  Cancel
+                </button>
+              )}
             </div>
             
             {/* Analysis Results */}
             {selectedRequirement.analysis && (
               <div style={{ marginBottom: '20px' }}>
                 <h4 style={{ marginBottom: '12px' }}>Analysis Results:</h4>
-                {selectedRequirement.analysis.issues.length > 0 ? (
+                {selectedIssues.length > 0 ? (
                   <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
-                    {selectedRequirement.analysis.issues.map((issue, index) => (
-                      <div key={index} style={{
+                    {selectedIssues.map((issue, index) => (
+                      <div key={index} id={issueAnchorId('details', index)} style={{
                         padding: '16px',
                         border: '1px solid #d9d9d9',
                         borderRadius: '6px',
@@ -1903,6 +2474,33 @@ const ProjectDashboard: React.FC = () => {
                             <strong>Suggestion:</strong> {issue.suggestion}
                           </div>
                         )}
+                        {waivingIssue?.requirementId === selectedRequirement.id && waivingIssue.index === index ? (
+                          <WaiveIssueForm
+                            author={user?.displayName}
+                            onWaive={(input) => handleWaiveIssue(issue, input)}
+                            onCancel={() => openWaiverForm(null)}
+                            waiving={createWaiverMutation.isPending}
+                            errors={waiverFormErrors}
+                          />
+                        ) : (
+                          <div style={{ textAlign: 'right', marginTop: '8px' }}>
+                            <button
+                              onClick={() => openWaiverForm(index)}
+                              title="Accept this issue with a justification; it stops counting towards the score"
+                              style={{
+                                padding: '4px 12px',
+                                backgroundColor: 'white',
+                                color: '#722ed1',
+                                border: '1px solid #d3adf7',
+                                borderRadius: '4px',
+                                cursor: 'pointer',
+                                fontSize: '12px'
+                              }}
+                            >
+                              Waive
+                            </button>
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -1914,12 +2512,100 @@ const ProjectDashboard: React.FC = () => {
                     borderRadius: '6px',
                     textAlign: 'center'
                   }}>
-                    <strong>Great! No quality issues found.</strong>
+                    <strong>{selectedWaived.length > 0 ? 'No open quality issues.' : 'Great! No quality issues found.'}</strong>
                     <div style={{ fontSize: '14px', marginTop: '4px' }}>
                       This requirement meets quality standards.
                     </div>
                   </div>
                 )}
+
+                {selectedWaived.length > 0 && (
+                  <div style={{ marginTop: '16px' }}>
+                    <h5 style={{ margin: '0 0 8px 0', color: '#722ed1', fontSize: '13px' }}>
+                      Waived ({selectedWaived.length}) - not counted in the score
+                    </h5>
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                      {selectedWaived.map(({ issue, waiver }, index) => (
+                        <div key={index} style={{
+                          padding: '12px',
+                          border: '1px dashed #d3adf7',
+                          borderRadius: '6px',
+                          backgroundColor: '#fcfaff',
+                          fontSize: '13px'
+                        }}>
+                          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '8px' }}>
+                            <div>
+                              <strong style={{ textTransform: 'capitalize' }}>{issue.type}</strong> ({issue.severity}): {issue.description}
+                              {issue.problematicText && <span style={{ color: '#666' }}> - "{issue.problematicText}"</span>}
+                            </div>
+                            <button
+                              onClick={() => handleRevokeWaiver(waiver)}
+                              disabled={revokeWaiverMutation.isPending}
+                              style={{
+                                padding: '2px 10px',
+                                backgroundColor: 'white',
+                                border: '1px solid #d9d9d9',
+                                borderRadius: '4px',
+                                cursor: revokeWaiverMutation.isPending ? 'not-allowed' : 'pointer',
+                                fontSize: '12px',
+                                flexShrink: 0
+                              }}
+                            >
+                              Revoke
+                            </button>
+                          </div>
+                          <div style={{ marginTop: '6px' }}>
+                            <strong>Justification:</strong> {waiver.justification}
+                          </div>
+                          <div style={{ marginTop: '4px', fontSize: '12px', color: '#666' }}>
+                            Waived by {waiver.author} on {new Date(waiver.createdAt).toLocaleDateString()}
+                            {waiver.expiresAt ? `, expires after ${new Date(waiver.expiresAt).toLocaleDateString()}` : ', no expiry'}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+            
+            {/* EARS conformance */}
+            <div style={{ marginBottom: '20px' }}>
+              <h4 style={{ marginBottom: '12px' }}>EARS Pattern:</h4>
+              <EarsPanel
+                key={selectedRequirement.id}
+                text={selectedRequirement.text}
+                onApply={handleApplyEarsRewrite}
+                applying={updateRequirementMutation.isPending}
+              />
+            </div>
+
+            {/* Glossary terminology */}
+            {glossary.length > 0 && (
+              <div style={{ marginBottom: '20px' }}>
+                <h4 style={{ marginBottom: '4px' }}>Terminology:</h4>
+                <LintFindings issues={selectedTerminology} text={selectedRequirement.text} />
+              </div>
+            )}
+
+            {/* Compound requirement split */}
+            {selectedRequirement.status !== 'Retired' && selectedCompound.length > 0 && (
+              <div style={{ marginBottom: '20px' }}>
+                <h4 style={{ marginBottom: '12px' }}>Not Singular:</h4>
+                <SplitPreview
+                  key={selectedRequirement.id}
+                  requirement={selectedRequirement}
+                  onAccept={handleSplitRequirement}
+                  accepting={splitRequirementMutation.isPending}
+                />
+              </div>
+            )}
+            
+            {/* ISO/IEC/IEEE 29148 characteristics */}
+            {selectedScorecard && (
+              <div style={{ marginBottom: '20px' }}>
+                <h4 style={{ marginBottom: '12px' }}>ISO/IEC/IEEE 29148 Characteristics:</h4>
+                <CharacteristicBreakdown scorecard={selectedScorecard} scoring={scoringPolicy} />
               </div>
             )}
             
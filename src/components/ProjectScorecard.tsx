@@ -0,0 +1,151 @@
+// src/components/ProjectScorecard.tsx - ISO/IEC/IEEE 29148 scorecard for a project's requirement set
+import React, { useMemo } from 'react';
+import { Alert, Card, Col, Collapse, Empty, Progress, Row, Table, Tag, Tooltip, Typography } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { scoreColor } from './CharacteristicBreakdown';
+import {
+  REQUIREMENT_CHARACTERISTICS,
+  SET_CHARACTERISTICS,
+  RequirementScorecard,
+  characteristicScore,
+  scoreRequirementSet,
+} from '../services/quality/scorecard';
+import type { ProjectRequirement, ScoringPolicy } from '../domain';
+
+const { Text } = Typography;
+const { Panel } = Collapse;
+
+interface ProjectScorecardProps {
+  requirements: ProjectRequirement[];
+  onSelectRequirement?: (requirement: ProjectRequirement) => void;
+  scoring?: ScoringPolicy;
+}
+
+interface ScorecardRow {
+  key: number;
+  requirement: ProjectRequirement;
+  scorecard: RequirementScorecard;
+}
+
+const requirementLabel = (requirement: ProjectRequirement) =>
+  requirement.title || (requirement.text.length > 60 ? `${requirement.text.slice(0, 60)}...` : requirement.text);
+
+const ProjectScorecard: React.FC<ProjectScorecardProps> = ({ requirements, onSelectRequirement, scoring }) => {
+  const scorecard = useMemo(() => scoreRequirementSet(requirements), [requirements]);
+  const unanalyzed = requirements.filter(requirement => !requirement.analysis).length;
+
+  if (requirements.length === 0) {
+    return <Empty style={{ padding: '40px 0' }} description="Add requirements to see the project scorecard" />;
+  }
+
+  const byId = new Map(requirements.map(requirement => [requirement.id, requirement]));
+
+  const columns: ColumnsType<ScorecardRow> = [
+    {
+      title: 'Requirement',
+      key: 'requirement',
+      fixed: 'left',
+      width: 240,
+      render: (_, row) => (
+        <div>
+          <Text
+            style={{ cursor: onSelectRequirement ? 'pointer' : undefined, color: onSelectRequirement ? '#1890ff' : undefined }}
+            onClick={() => onSelectRequirement?.(row.requirement)}
+          >
+            {requirementLabel(row.requirement)}
+          </Text>
+          {!row.scorecard.analyzed && <Tag style={{ marginLeft: 8 }}>local checks only</Tag>}
+        </div>
+      ),
+    },
+    ...REQUIREMENT_CHARACTERISTICS.map(({ key, label, description }) => ({
+      title: <Tooltip title={description}>{label}</Tooltip>,
+      key,
+      align: 'center' as const,
+      sorter: (a: ScorecardRow, b: ScorecardRow) =>
+        (characteristicScore(a.scorecard.characteristics, key).score ?? -1) -
+        (characteristicScore(b.scorecard.characteristics, key).score ?? -1),
+      render: (_: unknown, row: ScorecardRow) => {
+        const { score, findings } = characteristicScore(row.scorecard.characteristics, key);
+        const cell = <Text strong style={{ color: scoreColor(score, scoring) }}>{score === null ? 'n/a' : score}</Text>;
+        return findings.length > 0
+          ? <Tooltip title={findings.map((finding, index) => <div key={index}>{finding.description}</div>)}>{cell}</Tooltip>
+          : cell;
+      },
+    })),
+  ];
+
+  return (
+    <div style={{ padding: '24px' }}>
+      <h2 style={{ marginTop: 0, marginBottom: '16px' }}>ISO/IEC/IEEE 29148 Scorecard</h2>
+
+      {unanalyzed > 0 && (
+        <Alert
+          type="info"
+          showIcon
+          style={{ marginBottom: 16 }}
+          message={`${unanalyzed} of ${requirements.length} requirements have not been analyzed; their scores come from local checks only.`}
+        />
+      )}
+
+      <Row gutter={[16, 16]} style={{ marginBottom: 24 }}>
+        {SET_CHARACTERISTICS.map(({ key, label, description }) => {
+          const { score, findings } = characteristicScore(scorecard.characteristics, key);
+          return (
+            <Col key={key} xs={12} md={8} xl={{ flex: '20%' }}>
+              <Card size="small" style={{ textAlign: 'center', height: '100%' }}>
+                <Progress
+                  type="dashboard"
+                  size={90}
+                  percent={score ?? 0}
+                  strokeColor={scoreColor(score, scoring)}
+                  format={() => (score === null ? 'n/a' : score)}
+                />
+                <div><Tooltip title={description}><Text strong>{label}</Text></Tooltip></div>
+                <Text type="secondary" style={{ fontSize: 12 }}>
+                  {findings.length} {findings.length === 1 ? 'finding' : 'findings'}
+                </Text>
+              </Card>
+            </Col>
+          );
+        })}
+      </Row>
+
+      <Collapse style={{ marginBottom: 24 }}>
+        {SET_CHARACTERISTICS.map(({ key, label }) => {
+          const { findings } = characteristicScore(scorecard.characteristics, key);
+          return (
+            <Panel key={key} header={`${label} (${findings.length})`} collapsible={findings.length ? undefined : 'disabled'}>
+              {findings.map((finding, index) => {
+                const requirement = finding.requirementId !== undefined ? byId.get(finding.requirementId) : undefined;
+                return (
+                  <div key={index} style={{ marginBottom: 6 }}>
+                    <Tag color={finding.severity === 'critical' ? 'red' : finding.severity === 'major' ? 'orange' : 'blue'}>
+                      {finding.severity.toUpperCase()}
+                    </Tag>
+                    {requirement && <Text strong>{requirementLabel(requirement)}: </Text>}
+                    {finding.description}
+                  </div>
+                );
+              })}
+            </Panel>
+          );
+        })}
+      </Collapse>
+
+      <Table
+        columns={columns}
+        dataSource={scorecard.requirements.map(({ requirement, scorecard: own }) => ({
+          key: requirement.id,
+          requirement,
+          scorecard: own,
+        }))}
+        pagination={{ pageSize: 10 }}
+        scroll={{ x: true }}
+        size="small"
+      />
+    </div>
+  );
+};
+
+export default ProjectScorecard;
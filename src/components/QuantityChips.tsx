@@ -0,0 +1,51 @@
+// src/components/QuantityChips.tsx - The quantities in a requirement as normalised chips
+import React, { useMemo } from 'react';
+import { Quantity, QuantityDimension, extractQuantities, formatQuantity } from '../services/quality/quantities';
+
+export const DIMENSION_COLORS: Record<QuantityDimension, string> = {
+  time: '#1890ff',
+  data: '#722ed1',
+  'data-rate': '#2f54eb',
+  percent: '#13c2c2',
+  length: '#52c41a',
+  mass: '#a0d911',
+  temperature: '#fa541c',
+  frequency: '#eb2f96',
+  count: '#595959',
+  unitless: '#ff4d4f',
+};
+
+// Bare numbers such as list numbers or years are left out unless they set a limit
+export const isReportedQuantity = (quantity: Quantity) => quantity.dimension !== 'unitless' || quantity.bound !== 'exact';
+
+const QuantityChips: React.FC<{ text: string }> = ({ text }) => {
+  const quantities = useMemo(() => extractQuantities(text).filter(isReportedQuantity), [text]);
+  if (quantities.length === 0) return null;
+
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', marginTop: '6px' }}>
+      {quantities.map(quantity => {
+        const color = DIMENSION_COLORS[quantity.dimension];
+        return (
+          <span
+            key={quantity.span.start}
+            title={`"${quantity.written}" (${quantity.dimension === 'unitless' ? 'no unit' : quantity.dimension})`}
+            style={{
+              padding: '1px 8px',
+              borderRadius: '10px',
+              fontSize: '12px',
+              whiteSpace: 'nowrap',
+              color,
+              backgroundColor: `${color}14`,
+              border: `1px ${quantity.dimension === 'unitless' ? 'dashed' : 'solid'} ${color}`
+            }}
+          >
+            {formatQuantity(quantity)}
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default QuantityChips;
@@ -0,0 +1,118 @@
+// src/components/QuantityTable.tsx - Every quantitative constraint in a project, for reviewing the NFRs in one place
+import React, { useMemo } from 'react';
+import { Empty, Table, Tag, Tooltip, Typography } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { DIMENSION_COLORS, isReportedQuantity } from './QuantityChips';
+import { lintRequirement, overlaps } from '../services/quality/linter';
+import { Quantity, extractQuantities, formatQuantity } from '../services/quality/quantities';
+import type { ProjectRequirement } from '../domain';
+
+const { Text } = Typography;
+
+const BOUND_LABELS: Record<Quantity['bound'], string> = { max: 'at most', min: 'at least', exact: 'exactly', range: 'range' };
+
+interface QuantityTableProps {
+  requirements: ProjectRequirement[];
+  onSelectRequirement?: (requirement: ProjectRequirement) => void;
+}
+
+interface QuantityRow {
+  key: string;
+  requirement: ProjectRequirement;
+  quantity: Quantity;
+  // Measurability findings on this quantity
+  problems: string[];
+}
+
+const QuantityTable: React.FC<QuantityTableProps> = ({ requirements, onSelectRequirement }) => {
+  const rows = useMemo<QuantityRow[]>(
+    () =>
+      requirements.flatMap(requirement => {
+        const findings = lintRequirement(requirement.text).filter(issue => issue.ruleId === 'measurability');
+        return extractQuantities(requirement.text)
+          .filter(isReportedQuantity)
+          .map(quantity => ({
+            key: `${requirement.id}-${quantity.span.start}`,
+            requirement,
+            quantity,
+            problems: findings
+              .filter(finding => finding.span && overlaps(finding.span, quantity.span))
+              .map(finding => finding.description),
+          }));
+      }),
+    [requirements]
+  );
+
+  if (rows.length === 0) {
+    return <Empty style={{ padding: '40px 0' }} description="No quantities found in the requirements" />;
+  }
+
+  const dimensions = Array.from(new Set(rows.map(row => row.quantity.dimension)));
+
+  const columns: ColumnsType<QuantityRow> = [
+    {
+      title: 'Requirement',
+      key: 'requirement',
+      width: 220,
+      render: (_, { requirement }) => (
+        <Text
+          style={{ cursor: onSelectRequirement ? 'pointer' : undefined, color: onSelectRequirement ? '#1890ff' : undefined }}
+          onClick={() => onSelectRequirement?.(requirement)}
+        >
+          {requirement.title || `#${requirement.id}`}
+        </Text>
+      ),
+    },
+    {
+      title: 'As written',
+      key: 'written',
+      render: (_, { requirement, quantity }) => (
+        <Tooltip title={requirement.text}>
+          <Text code>{quantity.written}</Text>
+        </Tooltip>
+      ),
+    },
+    {
+      title: 'Normalised',
+      key: 'normalised',
+      render: (_, { quantity }) => formatQuantity(quantity),
+    },
+    {
+      title: 'Dimension',
+      key: 'dimension',
+      width: 130,
+      filters: dimensions.map(dimension => ({ text: dimension, value: dimension })),
+      onFilter: (value, { quantity }) => quantity.dimension === value,
+      render: (_, { quantity }) => (
+        <Tag color={DIMENSION_COLORS[quantity.dimension]}>
+          {quantity.dimension === 'count' ? quantity.unit : quantity.dimension}
+        </Tag>
+      ),
+    },
+    {
+      title: 'Constraint',
+      key: 'bound',
+      width: 110,
+      render: (_, { quantity }) => BOUND_LABELS[quantity.bound],
+    },
+    {
+      title: 'Problems',
+      key: 'problems',
+      filters: [{ text: 'With problems', value: true }],
+      onFilter: (_, row) => row.problems.length > 0,
+      render: (_, { problems }) =>
+        problems.length === 0
+          ? <Text type="success">✓</Text>
+          : problems.map(problem => <div key={problem}><Text type="warning">{problem}</Text></div>),
+    },
+  ];
+
+  return (
+    <div style={{ padding: '24px' }}>
+      <h2 style={{ marginTop: 0 }}>Quantitative constraints ({rows.length})</h2>
+      <Table columns={columns} dataSource={rows} pagination={{ pageSize: 25, hideOnSinglePage: true }} size="small" />
+    </div>
+  );
+};
+
+export default QuantityTable;
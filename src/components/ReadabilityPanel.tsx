@@ -0,0 +1,44 @@
+// src/components/ReadabilityPanel.tsx - One requirement's readability metrics against the project's thresholds
+import React, { useMemo } from 'react';
+import { READABILITY_METRICS, exceedsThreshold, formatMetric, measureReadability } from '../services/quality/readability';
+import type { ReadabilityThresholds } from '../domain';
+
+interface ReadabilityPanelProps {
+  text: string;
+  thresholds: ReadabilityThresholds;
+}
+
+const ReadabilityPanel: React.FC<ReadabilityPanelProps> = ({ text, thresholds }) => {
+  const metrics = useMemo(() => measureReadability(text), [text]);
+
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(150px, 1fr))', gap: '8px' }}>
+      {READABILITY_METRICS.map(info => {
+        const value = metrics[info.metric];
+        const exceeded = exceedsThreshold(info, value, thresholds);
+        return (
+          <div
+            key={info.metric}
+            title={exceeded ? info.suggestion : undefined}
+            style={{
+              padding: '8px 12px',
+              borderRadius: '6px',
+              border: `1px solid ${exceeded ? '#ffa39e' : '#f0f0f0'}`,
+              backgroundColor: exceeded ? '#fff1f0' : '#fafafa'
+            }}
+          >
+            <div style={{ fontSize: '12px', color: '#8c8c8c' }}>{info.label}</div>
+            <div style={{ fontSize: '18px', fontWeight: 'bold', color: exceeded ? '#cf1322' : '#262626' }}>
+              {formatMetric(info.metric, value)}
+            </div>
+            <div style={{ fontSize: '12px', color: '#8c8c8c' }}>
+              {info.higherIsWorse ? 'max' : 'min'} {formatMetric(info.metric, thresholds[info.threshold])}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ReadabilityPanel;
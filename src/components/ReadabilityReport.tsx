@@ -0,0 +1,176 @@
+// src/components/ReadabilityReport.tsx - Readability distributions across a project, and the thresholds the checks use
+import React, { useEffect, useMemo } from 'react';
+import { Alert, Button, Card, Col, Empty, Form, InputNumber, Row, Space, Statistic, Typography, message } from 'antd';
+import { useQualitySettings, useUpdateQualitySettings } from '../hooks/useQualitySettings';
+import { getErrorMessage, getFieldErrors } from '../services/errors';
+import {
+  DEFAULT_READABILITY_THRESHOLDS,
+  MetricDistribution,
+  READABILITY_METRICS,
+  exceedsThreshold,
+  formatMetric,
+  readabilityDistributions,
+} from '../services/quality/readability';
+import { DEFAULT_SCORING_POLICY } from '../services/quality/scoring';
+import type { ProjectRequirement, ReadabilityThresholds } from '../domain';
+
+const { Text } = Typography;
+
+const HISTOGRAM_BINS = 10;
+
+interface ReadabilityReportProps {
+  projectId: number;
+  requirements: ProjectRequirement[];
+  onSelectRequirement?: (requirement: ProjectRequirement) => void;
+}
+
+// Equal-width bins from the smallest to the largest value
+const histogram = (values: number[]) => {
+  const min = Math.min(...values);
+  const width = (Math.max(...values) - min) / HISTOGRAM_BINS || 1;
+  const bins = Array.from({ length: HISTOGRAM_BINS }, (_, index) => ({ from: min + index * width, to: min + (index + 1) * width, count: 0 }));
+  values.forEach(value => bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / width))].count++);
+  return bins;
+};
+
+const Histogram: React.FC<{ distribution: MetricDistribution; thresholds: ReadabilityThresholds }> = ({ distribution, thresholds }) => {
+  const { info, values } = distribution;
+  const bins = histogram(values.map(({ value }) => value));
+  const highest = Math.max(...bins.map(bin => bin.count));
+  return (
+    <div style={{ display: 'flex', alignItems: 'flex-end', gap: 2, height: 60, margin: '12px 0' }}>
+      {bins.map(bin => {
+        // A bin is red when its middle is past the threshold
+        const exceeded = exceedsThreshold(info, (bin.from + bin.to) / 2, thresholds);
+        return (
+          <div
+            key={bin.from}
+            title={`${formatMetric(info.metric, Math.round(bin.from * 100) / 100)}–${formatMetric(info.metric, Math.round(bin.to * 100) / 100)}: ${bin.count}`}
+            style={{
+              flex: 1,
+              height: `${(bin.count / highest) * 100}%`,
+              minHeight: bin.count ? 2 : 0,
+              background: exceeded ? '#ff7875' : '#69b1ff',
+              borderRadius: '2px 2px 0 0',
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+};
+
+const ReadabilityReport: React.FC<ReadabilityReportProps> = ({ projectId, requirements, onSelectRequirement }) => {
+  const settingsQuery = useQualitySettings(projectId);
+  const updateMutation = useUpdateQualitySettings();
+  const [form] = Form.useForm<ReadabilityThresholds>();
+  const thresholds = settingsQuery.data?.readability ?? DEFAULT_READABILITY_THRESHOLDS;
+  const distributions = useMemo(() => readabilityDistributions(requirements, thresholds), [requirements, thresholds]);
+  const byId = new Map(requirements.map(requirement => [requirement.id, requirement]));
+
+  useEffect(() => {
+    form.setFieldsValue(thresholds);
+  }, [form, thresholds]);
+
+  const handleSave = async (readability: ReadabilityThresholds) => {
+    try {
+      await updateMutation.mutateAsync({
+        projectId,
+        settings: { readability, scoring: settingsQuery.data?.scoring ?? DEFAULT_SCORING_POLICY },
+      });
+      message.success('Readability thresholds saved');
+    } catch (error) {
+      const fieldErrors = getFieldErrors(error);
+      form.setFields(Object.entries(fieldErrors).map(([name, error]) => ({ name: name as keyof ReadabilityThresholds, errors: [error] })));
+      message.error(getErrorMessage(error, 'Failed to save the thresholds'));
+    }
+  };
+
+  return (
+    <div style={{ padding: '24px' }}>
+      <h2 style={{ marginTop: 0 }}>Readability</h2>
+
+      {settingsQuery.isError && (
+        <Alert
+          type="warning"
+          showIcon
+          style={{ marginBottom: 16 }}
+          message={getErrorMessage(settingsQuery.error, 'Failed to load the project thresholds; the defaults are shown')}
+        />
+      )}
+
+      <Card size="small" title="Thresholds" style={{ marginBottom: 24 }}>
+        <Form form={form} layout="inline" initialValues={thresholds} onFinish={handleSave}>
+          {READABILITY_METRICS.map(info => (
+            <Form.Item
+              key={info.threshold}
+              name={info.threshold}
+              label={`${info.label} ${info.higherIsWorse ? '≤' : '≥'}`}
+              rules={[{ required: true, message: 'Required' }]}
+              style={{ marginBottom: 8 }}
+            >
+              <InputNumber
+                style={{ width: 90 }}
+                min={info.metric === 'readingEase' ? undefined : 0}
+                max={info.metric === 'passiveShare' ? 1 : undefined}
+                step={info.metric === 'passiveShare' ? 0.05 : 1}
+              />
+            </Form.Item>
+          ))}
+          <Form.Item style={{ marginBottom: 8 }}>
+            <Space>
+              <Button type="primary" htmlType="submit" loading={updateMutation.isPending} disabled={settingsQuery.isLoading}>
+                Save
+              </Button>
+              <Button onClick={() => form.setFieldsValue(DEFAULT_READABILITY_THRESHOLDS)}>Defaults</Button>
+            </Space>
+          </Form.Item>
+        </Form>
+      </Card>
+
+      {requirements.length === 0 ? (
+        <Empty style={{ padding: '40px 0' }} description="No requirements to measure yet" />
+      ) : (
+        <Row gutter={[16, 16]}>
+          {distributions.map(distribution => {
+            const { info, median, p90, exceeding } = distribution;
+            return (
+              <Col xs={24} md={12} xl={8} key={info.metric}>
+                <Card size="small" title={info.label} style={{ height: '100%' }}>
+                  <Space size="large">
+                    <Statistic title="Median" value={formatMetric(info.metric, median)} />
+                    <Statistic title="90th percentile" value={formatMetric(info.metric, p90)} />
+                    <Statistic
+                      title={`${info.higherIsWorse ? 'Over' : 'Under'} ${formatMetric(info.metric, thresholds[info.threshold])}`}
+                      value={exceeding.length}
+                      valueStyle={exceeding.length ? { color: '#cf1322' } : undefined}
+                    />
+                  </Space>
+                  <Histogram distribution={distribution} thresholds={thresholds} />
+                  {exceeding.slice(0, 5).map(({ id, value }) => {
+                    const requirement = byId.get(id)!;
+                    return (
+                      <div key={id} style={{ display: 'flex', justifyContent: 'space-between', gap: 8 }}>
+                        <Text
+                          ellipsis
+                          style={{ cursor: onSelectRequirement ? 'pointer' : undefined, color: onSelectRequirement ? '#1890ff' : undefined }}
+                          onClick={() => onSelectRequirement?.(requirement)}
+                        >
+                          {requirement.title || `#${id}`}
+                        </Text>
+                        <Text type="danger">{formatMetric(info.metric, value)}</Text>
+                      </div>
+                    );
+                  })}
+                  {exceeding.length > 5 && <Text type="secondary">and {exceeding.length - 5} more</Text>}
+                </Card>
+              </Col>
+            );
+          })}
+        </Row>
+      )}
+    </div>
+  );
+};
+
+export default ReadabilityReport;
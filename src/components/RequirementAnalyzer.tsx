@@ -1,8 +1,7 @@
 // src/components/RequirementAnalyzer.tsx
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { 
   Card, 
-  Input, 
   Button, 
   Space, 
   Typography, 
@@ -13,16 +12,23 @@ import {
   List,
   Collapse,
   Empty,
+  Alert,
   message
 } from 'antd';
 import { useMutation } from '@tanstack/react-query';
-import { 
-  requirementsApi, 
-  RequirementAnalysis, 
-  QualityIssue,
-  RequirementEnhancement,
-  EnhancementResponse 
-} from '../services/api';
+import { requirementsApi } from '../services/api';
+import { getErrorMessage, isCancelledError } from '../services/errors';
+import HighlightedText, { issueAnchorId } from './HighlightedText';
+import LintFindings from './LintFindings';
+import RequirementEditor from './RequirementEditor';
+import { editorConfig } from '../services/config';
+import { locateIssues } from '../services/quality/spans';
+import { isLintIssue, lintRequirement, mergeIssues } from '../services/quality/linter';
+import { bandRank, scoreBand, scoreColor } from '../services/quality/scoring';
+import { useLlmAvailability } from '../hooks/useBackendHealth';
+import { useCancellable } from '../hooks/useCancellable';
+import { useDebouncedCallback } from '../hooks/useDebouncedCallback';
+import { useRequirementLint } from '../hooks/useRequirementLint';
 import { 
   ExperimentOutlined, 
   BulbOutlined, 
@@ -32,98 +38,64 @@ import {
   InfoCircleOutlined,
   CopyOutlined,
   DownloadOutlined,
-  ReloadOutlined
+  ReloadOutlined,
+  StopOutlined
 } from '@ant-design/icons';
+import type { AnalysisResponse, Enhancement, EnhancementResponse, QualityIssue } from '../domain';
 
-const { TextArea } = Input;
+const MAX_REQUIREMENT_LENGTH = 5000;
 const { Title, Text, Paragraph } = Typography;
 const { Panel } = Collapse;
 
 const RequirementAnalyzer: React.FC = () => {
   const [requirement, setRequirement] = useState('');
-  const [analysisResult, setAnalysisResult] = useState<RequirementAnalysis | null>(null);
-  const [enhancementResults, setEnhancementResults] = useState<RequirementEnhancement[] | null>(null);
-  const [selectedEnhancement, setSelectedEnhancement] = useState<RequirementEnhancement | null>(null);
+  const [analysisResult, setAnalysisResult] = useState<AnalysisResponse | null>(null);
+  const [analyzedText, setAnalyzedText] = useState('');
+  const [enhancementResults, setEnhancementResults] = useState<Enhancement[] | null>(null);
+  const [selectedEnhancement, setSelectedEnhancement] = useState<Enhancement | null>(null);
+  const analysisRequest = useCancellable();
+  const enhancementRequest = useCancellable();
+  const llm = useLlmAvailability();
+  const lintIssues = useRequirementLint(requirement);
 
   // Analysis mutation
   const analysisMutation = useMutation({
-    mutationFn: requirementsApi.analyzeRequirement,
-    onSuccess: (data) => {
-      setAnalysisResult(data);
+    mutationFn: (text: string) => requirementsApi.analyzeRequirement(text, { signal: analysisRequest.start() }),
+    onSuccess: (data, text) => {
+      // Issues are pinned to the text that was analyzed, not whatever is in the editor now
+      setAnalyzedText(text);
+      // The instant checks fill in whatever the model didn't mention
+      setAnalysisResult({ ...data, issues: mergeIssues(locateIssues(text, data.issues), lintRequirement(text)) });
       setEnhancementResults(null); // Clear previous enhancements
       setSelectedEnhancement(null);
       message.success('Analysis completed successfully!');
     },
     onError: (error) => {
+      if (isCancelledError(error)) {
+        message.info('Analysis cancelled');
+        return;
+      }
       console.error('Analysis failed:', error);
-      message.error('Analysis failed. Using mock data for demonstration.');
-      // Mock data for testing UI when backend is not ready
-      const mockResult: RequirementAnalysis = {
-        overallScore: 65,
-        analyzedAt: new Date().toISOString(),
-        issues: [
-          {
-            type: 'ambiguity',
-            severity: 'major',
-            description: 'The term "user-friendly" is ambiguous and not measurable',
-            problematicText: 'user-friendly',
-            suggestion: 'Replace with specific, measurable criteria like "95% of users can complete the task within 2 minutes"'
-          },
-          {
-            type: 'completeness',
-            severity: 'minor',
-            description: 'Missing error handling specification',
-            problematicText: 'system should process',
-            suggestion: 'Add specifications for error conditions and system response'
-          },
-          {
-            type: 'verifiability',
-            severity: 'major',
-            description: 'Contains non-testable criteria',
-            problematicText: 'fast',
-            suggestion: 'Specify measurable performance criteria like "response time < 2 seconds"'
-          }
-        ]
-      };
-      setAnalysisResult(mockResult);
+      message.error(getErrorMessage(error, 'Analysis failed'));
     }
   });
 
   // Enhancement mutation
   const enhancementMutation = useMutation({
     mutationFn: ({ text, issues }: { text: string; issues?: QualityIssue[] }) => 
-      requirementsApi.enhanceRequirement(text, issues),
+      requirementsApi.enhanceRequirement(text, issues, { signal: enhancementRequest.start() }),
     onSuccess: (data: EnhancementResponse) => {
       setEnhancementResults(data.enhancements);
       setSelectedEnhancement(data.enhancements[0]); // Select first enhancement by default
       message.success(`Generated ${data.enhancements.length} enhanced versions!`);
     },
     onError: (error) => {
+      if (isCancelledError(error)) {
+        message.info('Enhancement cancelled');
+        return;
+      }
       console.error('Enhancement failed:', error);
-      message.error('Enhancement failed. Using mock data for demonstration.');
-      // Mock data for testing
-      const mockEnhancements: RequirementEnhancement[] = [
-        {
-          text: 'The system shall respond to user login requests within 2 seconds and display a confirmation message with 99.9% availability during peak hours (8AM-6PM).',
-          changes: ['Added specific timing requirement', 'Specified availability metric', 'Defined peak hours'],
-          improvements: ['Measurable performance criteria', 'Clear success conditions', 'Testable availability requirement'],
-          qualityScore: 88
-        },
-        {
-          text: 'The authentication system must process user credentials within 2 seconds, display appropriate success/error messages, and maintain 99.5% uptime during business hours.',
-          changes: ['Used definitive language (must)', 'Added error handling', 'Specified uptime requirement'],
-          improvements: ['Definitive requirements language', 'Error condition handling', 'Measurable uptime criteria'],
-          qualityScore: 85
-        },
-        {
-          text: 'The user authentication module shall validate credentials and return results within 2 seconds, with success rate of 99.9% for valid inputs and appropriate error messages for invalid inputs.',
-          changes: ['Specified module scope', 'Added success rate metric', 'Defined input validation'],
-          improvements: ['Clear module identification', 'Success rate measurement', 'Input validation specification'],
-          qualityScore: 82
-        }
-      ];
-      setEnhancementResults(mockEnhancements);
-      setSelectedEnhancement(mockEnhancements[0]);
+      message.error(getErrorMessage(error, 'Enhancement failed'));
     }
   });
 
@@ -135,6 +107,17 @@ const RequirementAnalyzer: React.FC = () => {
     analysisMutation.mutate(requirement);
   };
 
+  // Ctrl/Cmd+S in the editor re-analyzes an edited requirement once the saves have settled
+  const reanalyze = useDebouncedCallback((text: string) => {
+    if (text.trim() && text !== analyzedText && llm.available) analysisMutation.mutate(text);
+  }, editorConfig.reanalyzeDelayMs);
+
+  // The last analysis's issues stay underlined while editing; the instant checks follow the current text
+  const editorIssues = useMemo(
+    () => mergeIssues((analysisResult?.issues ?? []).filter(issue => !isLintIssue(issue)), lintIssues),
+    [analysisResult, lintIssues]
+  );
+
   const handleEnhance = () => {
     if (!analysisResult) return;
     enhancementMutation.mutate({ 
@@ -169,12 +152,6 @@ const RequirementAnalyzer: React.FC = () => {
     message.success('Results exported successfully!');
   };
 
-  const getScoreColor = (score: number) => {
-    if (score >= 80) return '#52c41a'; // green
-    if (score >= 60) return '#faad14'; // orange  
-    return '#f5222d'; // red
-  };
-
   const getSeverityIcon = (severity: string) => {
     switch (severity) {
       case 'critical': return <ExclamationCircleOutlined style={{ color: '#f5222d' }} />;
@@ -213,44 +190,75 @@ const RequirementAnalyzer: React.FC = () => {
         </div>
       }>
         <Space direction="vertical" style={{ width: '100%' }} size="large">
+          {!llm.available && <Alert type="warning" showIcon message={llm.reason} />}
+
           {/* Input Section */}
           <Card size="small" title="Requirement Input" type="inner">
             <div>
-              <TextArea
-                rows={6}
+              <RequirementEditor
                 value={requirement}
-                onChange={(e) => setRequirement(e.target.value)}
-                placeholder="Enter your software requirement here...
-
-Example: The system should be user-friendly and fast to ensure good user experience."
-                style={{ marginBottom: '12px' }}
-                showCount
-                maxLength={5000}
+                onChange={setRequirement}
+                issues={editorIssues}
+                onSave={() => reanalyze(requirement)}
+                placeholder={"Enter your software requirement here...\n\nExample: The system should be user-friendly and fast to ensure good user experience."}
+                height={150}
+                maxLength={MAX_REQUIREMENT_LENGTH}
               />
+              <div style={{ textAlign: 'right', marginBottom: '12px' }}>
+                <Text type="secondary" style={{ fontSize: 12 }}>
+                  {requirement.length}/{MAX_REQUIREMENT_LENGTH} · Ctrl/Cmd+S re-analyzes
+                </Text>
+              </div>
+              <div style={{ marginBottom: '12px' }}>
+                <LintFindings text={requirement} issues={lintIssues} />
+              </div>
               <Space>
                 <Button 
                   type="primary" 
                   icon={<ExperimentOutlined />}
                   onClick={handleAnalyze}
                   loading={analysisMutation.isPending}
-                  disabled={!requirement.trim()}
+                  disabled={!requirement.trim() || !llm.available}
                   size="large"
                 >
                   Analyze Quality
                 </Button>
                 
+                {analysisMutation.isPending && (
+                  <Button
+                    danger
+                    icon={<StopOutlined />}
+                    onClick={analysisRequest.cancel}
+                    size="large"
+                  >
+                    Cancel
+                  </Button>
+                )}
+
                 {analysisResult && (
                   <Button 
                     type="default"
                     icon={<BulbOutlined />}
                     onClick={handleEnhance}
                     loading={enhancementMutation.isPending}
+                    disabled={!llm.available}
                     size="large"
                   >
                     Generate Enhancements
                   </Button>
                 )}
 
+                {enhancementMutation.isPending && (
+                  <Button
+                    danger
+                    icon={<StopOutlined />}
+                    onClick={enhancementRequest.cancel}
+                    size="large"
+                  >
+                    Cancel
+                  </Button>
+                )}
+
                 {(analysisResult || enhancementResults) && (
                   <Button 
                     icon={<DownloadOutlined />}
@@ -264,6 +272,9 @@ Example: The system should be user-friendly and fast to ensure good user experie
                 <Button 
                   icon={<ReloadOutlined />}
                   onClick={() => {
+                    analysisRequest.cancel();
+                    enhancementRequest.cancel();
+                    reanalyze.cancel();
                     setRequirement('');
                     setAnalysisResult(null);
                     setEnhancementResults(null);
@@ -281,29 +292,36 @@ Example: The system should be user-friendly and fast to ensure good user experie
           {analysisResult && (
             <Card title="Quality Analysis Results" type="inner">
               <Row gutter={[24, 24]}>
+                <Col span={24}>
+                  <Card size="small" title="Analyzed Requirement">
+                    <HighlightedText text={analyzedText} issues={analysisResult.issues} anchorScope="analyzer" />
+                  </Card>
+                </Col>
+
                 <Col xs={24} lg={8}>
                   <Card size="small" style={{ textAlign: 'center', height: '100%' }}>
-                    <Title level={2} style={{ color: getScoreColor(analysisResult.overallScore), margin: 0 }}>
+                    <Title level={2} style={{ color: scoreColor(analysisResult.overallScore), margin: 0 }}>
                       {analysisResult.overallScore}/100
                     </Title>
                     <Text type="secondary" style={{ fontSize: '16px' }}>Overall Quality Score</Text>
                     <Progress 
                       percent={analysisResult.overallScore} 
-                      strokeColor={getScoreColor(analysisResult.overallScore)}
+                      strokeColor={scoreColor(analysisResult.overallScore)}
                       showInfo={false}
                       style={{ marginTop: '12px' }}
                       strokeWidth={8}
                     />
                     <div style={{ marginTop: '12px' }}>
-                      {analysisResult.overallScore >= 80 && (
-                        <Tag color="success" icon={<CheckCircleOutlined />}>Excellent</Tag>
-                      )}
-                      {analysisResult.overallScore >= 60 && analysisResult.overallScore < 80 && (
-                        <Tag color="warning" icon={<WarningOutlined />}>Good</Tag>
-                      )}
-                      {analysisResult.overallScore < 60 && (
-                        <Tag color="error" icon={<ExclamationCircleOutlined />}>Needs Improvement</Tag>
-                      )}
+                      <Tag
+                        color={scoreColor(analysisResult.overallScore)}
+                        icon={{
+                          best: <CheckCircleOutlined />,
+                          middle: <WarningOutlined />,
+                          worst: <ExclamationCircleOutlined />,
+                        }[bandRank(analysisResult.overallScore)]}
+                      >
+                        {scoreBand(analysisResult.overallScore).label}
+                      </Tag>
                     </div>
                   </Card>
                 </Col>
@@ -318,7 +336,7 @@ Example: The system should be user-friendly and fast to ensure good user experie
                         dataSource={analysisResult.issues}
                         renderItem={(issue, index) => (
                           <List.Item key={index}>
-                            <Card size="small" style={{ width: '100%' }}>
+                            <Card size="small" id={issueAnchorId('analyzer', index)} style={{ width: '100%' }}>
                               <div style={{ display: 'flex', alignItems: 'flex-start', gap: '12px' }}>
                                 {getSeverityIcon(issue.severity)}
                                 <div style={{ flex: 1 }}>
@@ -329,6 +347,7 @@ Example: The system should be user-friendly and fast to ensure good user experie
                                     <Tag color={getSeverityColor(issue.severity)}>
                                       {issue.severity.toUpperCase()}
                                     </Tag>
+                                    {isLintIssue(issue) && <Tag>INSTANT CHECK</Tag>}
                                   </div>
                                   <Paragraph style={{ marginBottom: '8px', fontWeight: 500 }}>
                                     {issue.description}
@@ -389,7 +408,7 @@ Example: The system should be user-friendly and fast to ensure good user experie
                                 <Progress
                                   percent={enhancement.qualityScore}
                                   size="small"
-                                  strokeColor={getScoreColor(enhancement.qualityScore)}
+                                  strokeColor={scoreColor(enhancement.qualityScore)}
                                   format={() => `${enhancement.qualityScore}/100`}
                                 />
                               </div>
@@ -0,0 +1,51 @@
+// src/components/RequirementEditor.tsx - Requirement text editor that shows quality issues inline and offers their fixes
+import React, { Suspense } from 'react';
+import type { QualityIssue } from '../domain';
+
+// Monaco is large, so it is loaded on first use; a plain textarea stands in meanwhile
+const MonacoRequirementEditor = React.lazy(() => import('./MonacoRequirementEditor'));
+
+export interface RequirementEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Analysis and instant-check issues; they are re-located in the current text, so spans may be stale
+  issues?: QualityIssue[];
+  // Ctrl/Cmd+S
+  onSave?: () => void;
+  placeholder?: string;
+  height?: number;
+  // Red border for a field with a validation error
+  invalid?: boolean;
+  // Longer input is cut off in the editor itself, so what it shows is always what onChange reported
+  maxLength?: number;
+}
+
+const RequirementEditor: React.FC<RequirementEditorProps> = (props) => {
+  const { value, onChange, placeholder, height = 120, invalid, maxLength } = props;
+  return (
+    <Suspense
+      fallback={
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          maxLength={maxLength}
+          style={{
+            width: '100%',
+            height,
+            padding: '8px 12px',
+            border: invalid ? '1px solid #ff4d4f' : '1px solid #d9d9d9',
+            borderRadius: '4px',
+            fontSize: '14px',
+            resize: 'none',
+            boxSizing: 'border-box'
+          }}
+        />
+      }
+    >
+      <MonacoRequirementEditor {...props} height={height} />
+    </Suspense>
+  );
+};
+
+export default RequirementEditor;
@@ -0,0 +1,321 @@
+// src/components/RulePackManager.tsx - Team rule packs: import, edit, enable per project and export for other projects
+import React, { useMemo, useState } from 'react';
+import { Alert, Button, Empty, Form, Input, Modal, Popconfirm, Space, Switch, Table, Tag, Typography, Upload, message } from 'antd';
+import { DeleteOutlined, DownloadOutlined, EditOutlined, PlusOutlined, UploadOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import { useCreateRulePack, useDeleteRulePack, useRulePacks, useUpdateRulePack } from '../hooks/useRulePacks';
+import { ApiError, getErrorMessage, getFieldErrors } from '../services/errors';
+import { lintRequirement } from '../services/quality/linter';
+import { exportRulePack, parseRulePack, readRules, ruleProblems, rulePackRules } from '../services/quality/rulePacks';
+import type { CreateRulePackRequest, CustomRule, IssueSeverity, ProjectRequirement, RulePack } from '../domain';
+
+const { Text } = Typography;
+
+const SEVERITY_COLORS: Record<IssueSeverity, string> = { critical: 'red', major: 'orange', minor: 'gold' };
+
+// Starting point for a new pack, showing one rule of each kind
+const TEMPLATE_RULES: CustomRule[] = [
+  {
+    id: 'product-name',
+    kind: 'keyword',
+    keywords: ['the app'],
+    type: 'consistency',
+    severity: 'minor',
+    description: 'Call the product by its name',
+    suggestion: 'Write "the Portal"',
+  },
+  {
+    id: 'no-abbreviations',
+    kind: 'regex',
+    pattern: '\\b(?:approx|e\\.g|i\\.e)\\.',
+    type: 'ambiguity',
+    severity: 'minor',
+    description: 'Abbreviations are banned',
+    suggestion: 'Write the words out',
+  },
+  {
+    id: 'trace-id',
+    kind: 'structure',
+    pattern: '\\bBR-\\d+\\b',
+    type: 'traceability',
+    severity: 'major',
+    description: 'Every requirement references a business rule',
+    suggestion: 'Add the business rule ID, e.g. "(BR-12)"',
+  },
+];
+
+interface RulePackManagerProps {
+  projectId: number;
+  requirements: ProjectRequirement[];
+}
+
+// The rules are edited as JSON, the same format packs are exported in
+interface PackForm extends Omit<CreateRulePackRequest, 'rules'> {
+  rules: string;
+}
+
+const rulesJson = (rules: CustomRule[]) => JSON.stringify(rules, null, 2);
+
+const toRequest = ({ rules, ...values }: PackForm): CreateRulePackRequest => ({
+  ...values,
+  name: values.name.trim(),
+  description: values.description?.trim() || undefined,
+  // Checked by validateRules before the form submits
+  rules: readRules(JSON.parse(rules)).rules,
+});
+
+const download = (pack: RulePack) => {
+  const blob = new Blob([exportRulePack(pack)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${pack.name.replace(/[^\w-]+/g, '-').toLowerCase()}.rules.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const RulePackManager: React.FC<RulePackManagerProps> = ({ projectId, requirements }) => {
+  const packsQuery = useRulePacks(projectId);
+  const createMutation = useCreateRulePack();
+  const updateMutation = useUpdateRulePack();
+  const deleteMutation = useDeleteRulePack();
+  const [form] = Form.useForm<PackForm>();
+  // The pack being edited (null while adding one) and the form's starting values; the modal is closed when unset
+  const [editing, setEditing] = useState<{ pack: RulePack | null; initialValues: Partial<PackForm> } | null>(null);
+
+  const packs = useMemo(() => packsQuery.data ?? [], [packsQuery.data]);
+  // Findings per pack over the project's requirements, whether or not the pack is enabled
+  const findingCounts = useMemo(
+    () =>
+      new Map(
+        packs.map(pack => {
+          const rules = rulePackRules([{ ...pack, enabled: true }]);
+          return [pack.id, requirements.reduce((sum, requirement) => sum + lintRequirement(requirement.text, rules).length, 0)];
+        })
+      ),
+    [packs, requirements]
+  );
+
+  const openForm = (pack: RulePack | null) =>
+    setEditing({
+      pack,
+      initialValues: pack
+        ? { name: pack.name, description: pack.description, enabled: pack.enabled, rules: rulesJson(pack.rules) }
+        : { enabled: true, rules: rulesJson(TEMPLATE_RULES) },
+    });
+
+  const handleSave = async (values: PackForm) => {
+    const request = toRequest(values);
+    try {
+      if (!editing?.pack) {
+        await createMutation.mutateAsync({ projectId, request });
+        message.success(`"${request.name}" added`);
+      } else {
+        await updateMutation.mutateAsync({ pack: editing.pack, request: { ...request, enabled: request.enabled ?? true } });
+        message.success(`"${request.name}" updated`);
+      }
+      setEditing(null);
+    } catch (error) {
+      const fieldErrors = getFieldErrors(error);
+      form.setFields(Object.entries(fieldErrors).map(([name, error]) => ({ name: name as keyof PackForm, errors: [error] })));
+      message.error(getErrorMessage(error, 'Failed to save the rule pack'));
+    }
+  };
+
+  const handleToggle = async (pack: RulePack, enabled: boolean) => {
+    const { name, description, rules } = pack;
+    try {
+      await updateMutation.mutateAsync({ pack, request: { name, description, rules, enabled } });
+    } catch (error) {
+      message.error(getErrorMessage(error, `Failed to ${enabled ? 'enable' : 'disable'} the rule pack`));
+    }
+  };
+
+  const handleDelete = async (pack: RulePack) => {
+    try {
+      await deleteMutation.mutateAsync(pack);
+      message.success(`"${pack.name}" deleted`);
+    } catch (error) {
+      message.error(getErrorMessage(error, 'Failed to delete the rule pack'));
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const request = parseRulePack(await file.text());
+      const pack = await createMutation.mutateAsync({ projectId, request });
+      message.success(`Imported "${pack.name}" with ${pack.rules.length} rules`);
+    } catch (error) {
+      // A file that is not a valid pack fails with a plain Error that lists its problems
+      message.error(
+        error instanceof ApiError || !(error instanceof Error) ? getErrorMessage(error, 'Failed to import the rule pack') : error.message
+      );
+    }
+  };
+
+  const validateRules = async (_: unknown, value?: string) => {
+    let rules: unknown;
+    try {
+      rules = JSON.parse(value ?? '');
+    } catch {
+      throw new Error('The rules are not valid JSON');
+    }
+    const problems = ruleProblems(rules);
+    if (problems.length) throw new Error(problems.join('; '));
+  };
+
+  const ruleColumns: ColumnsType<CustomRule> = [
+    { title: 'ID', dataIndex: 'id', key: 'id', width: 160, render: id => <Text code>{id}</Text> },
+    { title: 'Kind', dataIndex: 'kind', key: 'kind', width: 90 },
+    {
+      title: 'Matches',
+      key: 'matches',
+      render: (_, rule) =>
+        rule.kind === 'keyword'
+          ? rule.keywords?.map(keyword => <Tag key={keyword}>{keyword}</Tag>)
+          : <Text code>{rule.kind === 'structure' ? `must match /${rule.pattern}/` : `/${rule.pattern}/`}</Text>,
+    },
+    {
+      title: 'Finding',
+      key: 'finding',
+      render: (_, rule) => (
+        <div>
+          <Tag color={SEVERITY_COLORS[rule.severity]}>{rule.severity}</Tag>
+          <Tag>{rule.type}</Tag>
+          {rule.description}
+          {rule.suggestion && <div style={{ fontSize: 12, color: '#666' }}>{rule.suggestion}</div>}
+        </div>
+      ),
+    },
+  ];
+
+  const columns: ColumnsType<RulePack> = [
+    {
+      title: 'Pack',
+      key: 'name',
+      render: (_, pack) => (
+        <div>
+          <Text strong>{pack.name}</Text>
+          {pack.description && <div style={{ fontSize: 12, color: '#666' }}>{pack.description}</div>}
+        </div>
+      ),
+    },
+    { title: 'Rules', key: 'rules', width: 80, render: (_, pack) => pack.rules.length },
+    {
+      title: 'Findings',
+      key: 'findings',
+      width: 100,
+      render: (_, pack) => <Text type={pack.enabled ? undefined : 'secondary'}>{findingCounts.get(pack.id)}</Text>,
+    },
+    {
+      title: 'Enabled',
+      key: 'enabled',
+      width: 90,
+      render: (_, pack) => (
+        <Switch
+          size="small"
+          checked={pack.enabled}
+          loading={updateMutation.isPending && updateMutation.variables?.pack.id === pack.id}
+          onChange={enabled => handleToggle(pack, enabled)}
+        />
+      ),
+    },
+    {
+      title: '',
+      key: 'actions',
+      width: 130,
+      render: (_, pack) => (
+        <Space>
+          <Button size="small" icon={<EditOutlined />} onClick={() => openForm(pack)} />
+          <Button size="small" icon={<DownloadOutlined />} title="Export" onClick={() => download(pack)} />
+          <Popconfirm title={`Delete "${pack.name}"?`} onConfirm={() => handleDelete(pack)}>
+            <Button size="small" danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <div style={{ padding: '24px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 16 }}>
+        <h2 style={{ margin: 0 }}>Rule packs</h2>
+        <Space>
+          <Upload
+            accept=".json,application/json"
+            showUploadList={false}
+            beforeUpload={file => {
+              handleImport(file);
+              return false;
+            }}
+          >
+            <Button icon={<UploadOutlined />} loading={createMutation.isPending && !editing}>
+              Import
+            </Button>
+          </Upload>
+          <Button type="primary" icon={<PlusOutlined />} onClick={() => openForm(null)}>
+            New Pack
+          </Button>
+        </Space>
+      </div>
+
+      {packsQuery.isError && (
+        <Alert type="error" showIcon style={{ marginBottom: 16 }} message={getErrorMessage(packsQuery.error, 'Failed to load the rule packs')} />
+      )}
+
+      <Table
+        columns={columns}
+        dataSource={packs}
+        rowKey="id"
+        loading={packsQuery.isLoading}
+        pagination={false}
+        size="small"
+        expandable={{
+          expandedRowRender: pack => (
+            <Table columns={ruleColumns} dataSource={pack.rules} rowKey="id" pagination={false} size="small" />
+          ),
+        }}
+        locale={{
+          emptyText: (
+            <Empty description="No rule packs yet. Enabled packs run alongside the built-in checks on every requirement." />
+          ),
+        }}
+      />
+
+      <Modal
+        title={editing?.pack ? 'Edit Rule Pack' : 'New Rule Pack'}
+        open={editing !== null}
+        onCancel={() => setEditing(null)}
+        onOk={() => form.submit()}
+        okText="Save"
+        confirmLoading={createMutation.isPending || updateMutation.isPending}
+        width={720}
+        destroyOnClose
+      >
+        <Form form={form} layout="vertical" onFinish={handleSave} initialValues={editing?.initialValues} preserve={false}>
+          <Form.Item name="name" label="Name" rules={[{ required: true, whitespace: true, message: 'Please enter a name' }]}>
+            <Input autoFocus />
+          </Form.Item>
+          <Form.Item name="description" label="Description">
+            <Input />
+          </Form.Item>
+          <Form.Item name="enabled" label="Enabled in this project" valuePropName="checked">
+            <Switch />
+          </Form.Item>
+          <Form.Item
+            name="rules"
+            label="Rules"
+            extra='Each rule has an id, a kind ("regex", "keyword" or "structure"), a type, a severity, a description and a suggestion. Regex and structure rules take a "pattern", keyword rules a list of "keywords".'
+            rules={[{ validator: validateRules }]}
+          >
+            <Input.TextArea rows={16} spellCheck={false} style={{ fontFamily: 'monospace', fontSize: 12 }} />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  );
+};
+
+export default RulePackManager;
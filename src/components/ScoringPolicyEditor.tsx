@@ -0,0 +1,230 @@
+// src/components/ScoringPolicyEditor.tsx - The project's scoring policy, with a preview of the scores it gives the requirements
+import React, { useEffect, useMemo } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  Col,
+  ColorPicker,
+  Form,
+  Input,
+  InputNumber,
+  Radio,
+  Row,
+  Space,
+  Statistic,
+  Tag,
+  Typography,
+  message,
+} from 'antd';
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import { useIssueWaivers } from '../hooks/useIssueWaivers';
+import { useQualitySettings, useUpdateQualitySettings } from '../hooks/useQualitySettings';
+import { getErrorMessage } from '../services/errors';
+import { DEFAULT_READABILITY_THRESHOLDS } from '../services/quality/readability';
+import { DEFAULT_SCORING_POLICY, averageScore, bandProblems, requirementScore, scoreBand } from '../services/quality/scoring';
+import type { IssueSeverity, IssueWaiver, ProjectRequirement, QualityIssueType, ScoringPolicy } from '../domain';
+
+const { Text } = Typography;
+
+const SEVERITIES: IssueSeverity[] = ['critical', 'major', 'minor'];
+const ISSUE_TYPES: QualityIssueType[] = ['ambiguity', 'completeness', 'consistency', 'verifiability', 'traceability'];
+
+interface ScoringPolicyEditorProps {
+  projectId: number;
+  requirements: ProjectRequirement[];
+}
+
+// Requirements per band, best band first
+const bandCounts = (requirements: ProjectRequirement[], policy: ScoringPolicy, waivers: IssueWaiver[]) =>
+  policy.bands.map(band => ({
+    band,
+    count: requirements.filter(requirement => {
+      const score = requirementScore(requirement, policy, waivers);
+      return score !== undefined && scoreBand(score, policy) === band;
+    }).length,
+  }));
+
+// The form holds partial values while the user types; a preview is only shown for a complete, valid policy
+const isComplete = (policy?: Partial<ScoringPolicy>): policy is ScoringPolicy =>
+  !!policy?.source &&
+  SEVERITIES.every(severity => typeof policy.severityWeights?.[severity] === 'number') &&
+  ISSUE_TYPES.every(type => typeof policy.typeWeights?.[type] === 'number') &&
+  bandProblems(policy.bands).length === 0;
+
+const ScoringPolicyEditor: React.FC<ScoringPolicyEditorProps> = ({ projectId, requirements }) => {
+  const settingsQuery = useQualitySettings(projectId);
+  const waiversQuery = useIssueWaivers(projectId);
+  const updateMutation = useUpdateQualitySettings();
+  const [form] = Form.useForm<ScoringPolicy>();
+  const policy = settingsQuery.data?.scoring ?? DEFAULT_SCORING_POLICY;
+  const edited: Partial<ScoringPolicy> | undefined = Form.useWatch(values => values, form);
+  const preview = isComplete(edited) ? edited : policy;
+  const analyzed = requirements.filter(requirement => requirement.analysis).length;
+  const waivers = useMemo(() => waiversQuery.data ?? [], [waiversQuery.data]);
+
+  const current = useMemo(
+    () => ({ average: averageScore(requirements, policy, waivers), bands: bandCounts(requirements, policy, waivers) }),
+    [requirements, policy, waivers]
+  );
+  const previewed = useMemo(
+    () => ({ average: averageScore(requirements, preview, waivers), bands: bandCounts(requirements, preview, waivers) }),
+    [requirements, preview, waivers]
+  );
+
+  useEffect(() => {
+    form.setFieldsValue(policy);
+  }, [form, policy]);
+
+  const handleSave = async (scoring: ScoringPolicy) => {
+    try {
+      await updateMutation.mutateAsync({
+        projectId,
+        settings: { readability: settingsQuery.data?.readability ?? DEFAULT_READABILITY_THRESHOLDS, scoring },
+      });
+      message.success('Scoring policy saved; scores are recomputed from the stored analyses');
+    } catch (error) {
+      message.error(getErrorMessage(error, 'Failed to save the scoring policy'));
+    }
+  };
+
+  const validateBands = async (_: unknown, bands: unknown) => {
+    const problems = bandProblems(bands);
+    if (problems.length) throw new Error(problems.join('; '));
+  };
+
+  const renderDistribution = (title: string, summary: typeof current) => (
+    <Card size="small" title={title} style={{ height: '100%' }}>
+      <Statistic
+        title="Average score"
+        value={summary.average === undefined ? 'n/a' : Math.round(summary.average)}
+        suffix={summary.average === undefined ? undefined : '%'}
+      />
+      <div style={{ marginTop: 12 }}>
+        {summary.bands.map(({ band, count }) => (
+          <div key={band.label} style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 4 }}>
+            <Tag color={band.color} style={{ width: 90, textAlign: 'center' }}>
+              {band.label}
+            </Tag>
+            <div style={{ flex: 1, height: 8, background: '#f0f0f0', borderRadius: 4, overflow: 'hidden' }}>
+              <div style={{ width: `${(count / Math.max(1, analyzed)) * 100}%`, height: '100%', background: band.color }} />
+            </div>
+            <Text style={{ width: 32, textAlign: 'right' }}>{count}</Text>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+
+  return (
+    <div style={{ padding: '24px' }}>
+      <h2 style={{ marginTop: 0 }}>Scoring</h2>
+
+      {settingsQuery.isError && (
+        <Alert
+          type="warning"
+          showIcon
+          style={{ marginBottom: 16 }}
+          message={getErrorMessage(settingsQuery.error, 'Failed to load the scoring policy; the default is shown')}
+        />
+      )}
+
+      <Row gutter={16} style={{ marginBottom: 24 }}>
+        <Col xs={24} md={12}>
+          {renderDistribution('Saved policy', current)}
+        </Col>
+        <Col xs={24} md={12}>
+          {renderDistribution('With the changes below', previewed)}
+        </Col>
+      </Row>
+
+      <Form form={form} layout="vertical" initialValues={policy} onFinish={handleSave}>
+        <Form.Item name="source" label="Score shown for analyzed requirements">
+          <Radio.Group>
+            <Radio value="analyzer">The analyzer's overall score</Radio>
+            <Radio value="local">Recomputed from the analysis issues with the weights below</Radio>
+          </Radio.Group>
+        </Form.Item>
+
+        <Row gutter={24}>
+          <Col xs={24} lg={8}>
+            <Card size="small" title="Points deducted per issue" style={{ marginBottom: 16 }}>
+              {SEVERITIES.map(severity => (
+                <Form.Item
+                  key={severity}
+                  name={['severityWeights', severity]}
+                  label={severity}
+                  rules={[{ required: true, message: 'Required' }]}
+                  style={{ marginBottom: 8 }}
+                >
+                  <InputNumber min={0} max={100} style={{ width: 120 }} />
+                </Form.Item>
+              ))}
+            </Card>
+          </Col>
+          <Col xs={24} lg={8}>
+            <Card size="small" title="Multiplier per issue type" style={{ marginBottom: 16 }}>
+              {ISSUE_TYPES.map(type => (
+                <Form.Item
+                  key={type}
+                  name={['typeWeights', type]}
+                  label={type}
+                  rules={[{ required: true, message: 'Required' }]}
+                  style={{ marginBottom: 8 }}
+                >
+                  <InputNumber min={0} step={0.25} style={{ width: 120 }} />
+                </Form.Item>
+              ))}
+            </Card>
+          </Col>
+          <Col xs={24} lg={8}>
+            <Card size="small" title="Score bands, best first" style={{ marginBottom: 16 }}>
+              <Form.List name="bands" rules={[{ validator: validateBands }]}>
+                {(fields, { add, remove }, { errors }) => (
+                  <>
+                    {fields.map(field => (
+                      <Space key={field.key} align="baseline" style={{ display: 'flex' }}>
+                        <Form.Item name={[field.name, 'label']} style={{ marginBottom: 8 }}>
+                          <Input placeholder="Label" style={{ width: 100 }} />
+                        </Form.Item>
+                        <Form.Item name={[field.name, 'minScore']} style={{ marginBottom: 8 }}>
+                          <InputNumber min={0} max={100} addonBefore="≥" style={{ width: 110 }} />
+                        </Form.Item>
+                        <Form.Item
+                          name={[field.name, 'color']}
+                          getValueFromEvent={(_color, hex: string) => hex}
+                          style={{ marginBottom: 8 }}
+                        >
+                          <ColorPicker size="small" disabledAlpha />
+                        </Form.Item>
+                        <Button size="small" icon={<DeleteOutlined />} onClick={() => remove(field.name)} />
+                      </Space>
+                    ))}
+                    <Form.ErrorList errors={errors} />
+                    <Button
+                      size="small"
+                      type="dashed"
+                      icon={<PlusOutlined />}
+                      onClick={() => add({ label: '', minScore: 0, color: '#8c8c8c' })}
+                    >
+                      Add band
+                    </Button>
+                  </>
+                )}
+              </Form.List>
+            </Card>
+          </Col>
+        </Row>
+
+        <Space>
+          <Button type="primary" htmlType="submit" loading={updateMutation.isPending} disabled={settingsQuery.isLoading}>
+            Save
+          </Button>
+          <Button onClick={() => form.setFieldsValue(DEFAULT_SCORING_POLICY)}>Defaults</Button>
+        </Space>
+      </Form>
+    </div>
+  );
+};
+
+export default ScoringPolicyEditor;
@@ -0,0 +1,120 @@
+// src/components/SplitPreview.tsx - Why a requirement is compound, and an editable preview of its atomic parts
+import React, { useMemo, useState } from 'react';
+import { analyzeCompound, proposeSplit } from '../services/quality/splitter';
+import type { CreateRequirementRequest, ProjectRequirement } from '../domain';
+
+interface SplitPreviewProps {
+  requirement: ProjectRequirement;
+  onAccept: (parts: CreateRequirementRequest[]) => void;
+  accepting?: boolean;
+}
+
+const fieldStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '6px 10px',
+  border: '1px solid #d9d9d9',
+  borderRadius: '4px',
+  fontSize: '13px',
+  boxSizing: 'border-box'
+};
+
+const SplitPreview: React.FC<SplitPreviewProps> = ({ requirement, onAccept, accepting }) => {
+  const { reasons } = useMemo(() => analyzeCompound(requirement.text), [requirement.text]);
+  const [parts, setParts] = useState<CreateRequirementRequest[] | null>(null);
+
+  if (reasons.length === 0) return null;
+
+  const updatePart = (index: number, change: Partial<CreateRequirementRequest>) =>
+    setParts(current => current && current.map((part, i) => (i === index ? { ...part, ...change } : part)));
+  const valid = parts !== null && parts.length >= 2 && parts.every(part => part.text.trim());
+
+  return (
+    <div>
+      <ul style={{ margin: '0 0 8px 0', paddingLeft: '20px', fontSize: '13px', color: '#666' }}>
+        {reasons.map(reason => <li key={reason.description}>{reason.description}</li>)}
+      </ul>
+
+      {!parts ? (
+        <button
+          onClick={() => setParts(proposeSplit(requirement.text, requirement.title))}
+          style={{
+            padding: '4px 12px',
+            backgroundColor: '#13c2c2',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+            fontSize: '12px'
+          }}
+        >
+          Preview Split
+        </button>
+      ) : (
+        <div style={{ padding: '12px', border: '1px solid #87e8de', borderRadius: '6px', backgroundColor: '#e6fffb' }}>
+          <div style={{ fontSize: '12px', color: '#666', marginBottom: '8px' }}>
+            Accepting creates these {parts.length} requirements and retires the original. Each keeps a link back to it.
+          </div>
+          {parts.map((part, index) => (
+            <div key={index} style={{ display: 'flex', gap: '8px', marginBottom: '8px', alignItems: 'flex-start' }}>
+              <div style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                <input
+                  value={part.title ?? ''}
+                  onChange={(e) => updatePart(index, { title: e.target.value || undefined })}
+                  placeholder="Title (optional)"
+                  style={fieldStyle}
+                />
+                <textarea
+                  rows={2}
+                  value={part.text}
+                  onChange={(e) => updatePart(index, { text: e.target.value })}
+                  style={{ ...fieldStyle, resize: 'vertical', borderColor: part.text.trim() ? '#d9d9d9' : '#ff4d4f' }}
+                />
+              </div>
+              <button
+                onClick={() => setParts(parts.filter((_, i) => i !== index))}
+                title="Remove this part"
+                style={{ padding: '4px 8px', backgroundColor: 'white', border: '1px solid #d9d9d9', borderRadius: '4px', cursor: 'pointer' }}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+
+          <div style={{ display: 'flex', gap: '8px', justifyContent: 'space-between' }}>
+            <button
+              onClick={() => setParts([...parts, { text: '', title: requirement.title }])}
+              style={{ padding: '6px 12px', backgroundColor: 'white', border: '1px dashed #13c2c2', borderRadius: '4px', cursor: 'pointer' }}
+            >
+              + Add Part
+            </button>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <button
+                onClick={() => setParts(null)}
+                style={{ padding: '6px 12px', backgroundColor: '#f0f0f0', border: '1px solid #d9d9d9', borderRadius: '4px', cursor: 'pointer' }}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => onAccept(parts.map(part => ({ ...part, text: part.text.trim() })))}
+                disabled={!valid || accepting}
+                title={valid ? undefined : 'Every part needs text, and there must be at least two'}
+                style={{
+                  padding: '6px 12px',
+                  backgroundColor: valid && !accepting ? '#13c2c2' : '#d9d9d9',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: valid && !accepting ? 'pointer' : 'not-allowed'
+                }}
+              >
+                {accepting ? 'Splitting...' : `Accept Split (${parts.length})`}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SplitPreview;
@@ -26,8 +26,14 @@ import {
   BulbOutlined,
   ExclamationCircleOutlined,
   CheckCircleOutlined,
-  ClockCircleOutlined
+  ClockCircleOutlined,
+  StopOutlined
 } from '@ant-design/icons';
+import { stakeholderApi } from '../services/api';
+import { isCancelledError } from '../services/errors';
+import { useLlmAvailability } from '../hooks/useBackendHealth';
+import { useCancellable } from '../hooks/useCancellable';
+import type { GeneratedQuestion, StakeholderSimulationResponse, SimulationHistoryItem, StakeholderRole } from '../domain';
 
 const { TextArea } = Input;
 const { Text } = Typography;
@@ -35,38 +41,6 @@ const { Option } = Select;
 const { TabPane } = Tabs;
 const { Panel } = Collapse;
 
-// Types
-interface GeneratedQuestion {
-  text: string;
-  category: string;
-  priority: 'high' | 'medium' | 'low';
-  rationale: string;
-  isAddressed: boolean;
-}
-
-interface StakeholderSimulationResponse {
-  questions: GeneratedQuestion[];
-  stakeholderRole: string;
-  requirementText: string;
-  generatedAt: string;
-  categorySummary: { [key: string]: number };
-}
-
-interface SimulationHistoryItem {
-  id: number;
-  projectId: number;
-  requirementSummary: string;
-  stakeholderRole: string;
-  questionCount: number;
-  createdAt: string;
-}
-
-interface StakeholderRole {
-  value: string;
-  label: string;
-  description: string;
-}
-
 interface StakeholderSimulationProps {
   projectId: number;
 }
@@ -81,6 +55,8 @@ const StakeholderSimulation: React.FC<StakeholderSimulationProps> = ({ projectId
   const [activeTab, setActiveTab] = useState('simulate');
   const [viewModalVisible, setViewModalVisible] = useState(false);
   const [selectedSimulation, setSelectedSimulation] = useState<StakeholderSimulationResponse | null>(null);
+  const simulationRequest = useCancellable();
+  const llm = useLlmAvailability();
 
   useEffect(() => {
     fetchStakeholderRoles();
@@ -89,11 +65,8 @@ const StakeholderSimulation: React.FC<StakeholderSimulationProps> = ({ projectId
 
   const fetchStakeholderRoles = async () => {
     try {
-      const response = await fetch(`/api/projects/${projectId}/stakeholder-simulation/roles`);
-      if (response.ok) {
-        const roles = await response.json();
-        setStakeholderRoles(roles);
-      }
+      const roles = await stakeholderApi.getRoles(projectId);
+      setStakeholderRoles(roles);
     } catch (error) {
       console.error('Error fetching stakeholder roles:', error);
     }
@@ -101,11 +74,8 @@ const StakeholderSimulation: React.FC<StakeholderSimulationProps> = ({ projectId
 
   const fetchSimulationHistory = async () => {
     try {
-      const response = await fetch(`/api/projects/${projectId}/stakeholder-simulation/history`);
-      if (response.ok) {
-        const history = await response.json();
-        setSimulationHistory(history);
-      }
+      const history = await stakeholderApi.getHistory(projectId);
+      setSimulationHistory(history);
     } catch (error) {
       console.error('Error fetching simulation history:', error);
     }
@@ -118,26 +88,15 @@ const StakeholderSimulation: React.FC<StakeholderSimulationProps> = ({ projectId
 
     setLoading(true);
     try {
-      const response = await fetch(`/api/projects/${projectId}/stakeholder-simulation`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          requirementText,
-          stakeholderRole: selectedRole,
-        }),
-      });
-
-      if (response.ok) {
-        const result = await response.json();
-        setCurrentSimulation(result);
-        setActiveTab('results');
-        await fetchSimulationHistory(); // Refresh history
-      } else {
-        console.error('Error simulating questions:', await response.text());
-      }
+      const result = await stakeholderApi.simulate(projectId, {
+        requirementText,
+        stakeholderRole: selectedRole,
+      }, { signal: simulationRequest.start() });
+      setCurrentSimulation(result);
+      setActiveTab('results');
+      await fetchSimulationHistory(); // Refresh history
     } catch (error) {
+      if (isCancelledError(error)) return;
       console.error('Error simulating questions:', error);
     } finally {
       setLoading(false);
@@ -146,12 +105,9 @@ const StakeholderSimulation: React.FC<StakeholderSimulationProps> = ({ projectId
 
   const handleViewSimulation = async (simulationId: number) => {
     try {
-      const response = await fetch(`/api/projects/${projectId}/stakeholder-simulation/${simulationId}`);
-      if (response.ok) {
-        const simulation = await response.json();
-        setSelectedSimulation(simulation);
-        setViewModalVisible(true);
-      }
+      const simulation = await stakeholderApi.getSimulation(projectId, simulationId);
+      setSelectedSimulation(simulation);
+      setViewModalVisible(true);
     } catch (error) {
       console.error('Error viewing simulation:', error);
     }
@@ -159,12 +115,8 @@ const StakeholderSimulation: React.FC<StakeholderSimulationProps> = ({ projectId
 
   const handleDeleteSimulation = async (simulationId: number) => {
     try {
-      const response = await fetch(`/api/projects/${projectId}/stakeholder-simulation/${simulationId}`, {
-        method: 'DELETE',
-      });
-      if (response.ok) {
-        await fetchSimulationHistory();
-      }
+      await stakeholderApi.deleteSimulation(projectId, simulationId);
+      await fetchSimulationHistory();
     } catch (error) {
       console.error('Error deleting simulation:', error);
     }
@@ -408,17 +360,30 @@ Example: The system shall provide a shopping cart where users can add, remove, a
                 </Select>
               </Card>
 
+              {!llm.available && !loading && <Alert type="warning" showIcon message={llm.reason} />}
+
               <Button
                 type="primary"
                 size="large"
                 loading={loading}
-                disabled={!requirementText.trim() || !selectedRole}
+                disabled={!requirementText.trim() || !selectedRole || !llm.available}
                 onClick={handleSimulateQuestions}
                 style={{ width: '100%' }}
               >
                 <QuestionCircleOutlined />
                 Generate Stakeholder Questions
               </Button>
+
+              {loading && (
+                <Button
+                  danger
+                  icon={<StopOutlined />}
+                  onClick={simulationRequest.cancel}
+                  style={{ width: '100%' }}
+                >
+                  Cancel
+                </Button>
+              )}
             </Space>
           </TabPane>
 
@@ -0,0 +1,103 @@
+// src/components/WaiveIssueForm.tsx - Justification and optional expiry for waiving one analysis issue
+import React, { useState } from 'react';
+
+export interface WaiverInput {
+  justification: string;
+  expiresAt?: string;
+}
+
+interface WaiveIssueFormProps {
+  // Shown so reviewers know the waiver is recorded under their name
+  author?: string;
+  onWaive: (input: WaiverInput) => void;
+  onCancel: () => void;
+  waiving?: boolean;
+  // Server-side validation messages, keyed by request field name
+  errors?: Record<string, string>;
+}
+
+const fieldStyle: React.CSSProperties = {
+  padding: '6px 10px',
+  border: '1px solid #d9d9d9',
+  borderRadius: '4px',
+  fontSize: '13px',
+  boxSizing: 'border-box'
+};
+
+const today = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const WaiveIssueForm: React.FC<WaiveIssueFormProps> = ({ author, onWaive, onCancel, waiving, errors = {} }) => {
+  const [justification, setJustification] = useState('');
+  // yyyy-mm-dd from the date input; the waiver lasts until the end of that day
+  const [expiryDate, setExpiryDate] = useState('');
+  const valid = justification.trim().length > 0;
+
+  const renderError = (error?: string) => error && (
+    <div style={{ fontSize: '12px', color: '#ff4d4f', marginTop: '4px' }}>{error}</div>
+  );
+
+  return (
+    <div style={{ marginTop: '8px', padding: '12px', border: '1px solid #d3adf7', borderRadius: '6px', backgroundColor: '#f9f0ff' }}>
+      <label style={{ display: 'block', fontSize: '12px', fontWeight: 'bold', marginBottom: '4px' }}>
+        Why is this issue acceptable?
+      </label>
+      <textarea
+        rows={2}
+        value={justification}
+        onChange={(e) => setJustification(e.target.value)}
+        placeholder="e.g. Agreed with the product owner; the wording comes from the contract"
+        autoFocus
+        style={{ ...fieldStyle, width: '100%', resize: 'vertical', borderColor: errors.justification ? '#ff4d4f' : '#d9d9d9' }}
+      />
+      {renderError(errors.justification)}
+
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'flex-end', justifyContent: 'space-between', marginTop: '8px', flexWrap: 'wrap' }}>
+        <div>
+          <label style={{ display: 'block', fontSize: '12px', fontWeight: 'bold', marginBottom: '4px' }}>
+            Expires after (optional)
+          </label>
+          <input
+            type="date"
+            value={expiryDate}
+            min={today()}
+            onChange={(e) => setExpiryDate(e.target.value)}
+            style={{ ...fieldStyle, borderColor: errors.expiresAt ? '#ff4d4f' : '#d9d9d9' }}
+          />
+          {renderError(errors.expiresAt)}
+        </div>
+        <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+          {author && <span style={{ fontSize: '12px', color: '#666' }}>Waived as {author}</span>}
+          <button
+            onClick={onCancel}
+            style={{ padding: '6px 12px', backgroundColor: '#f0f0f0', border: '1px solid #d9d9d9', borderRadius: '4px', cursor: 'pointer' }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onWaive({
+              justification: justification.trim(),
+              expiresAt: expiryDate ? new Date(`${expiryDate}T23:59:59.999`).toISOString() : undefined,
+            })}
+            disabled={!valid || waiving}
+            title={valid ? undefined : 'A justification is required'}
+            style={{
+              padding: '6px 12px',
+              backgroundColor: valid && !waiving ? '#722ed1' : '#d9d9d9',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: valid && !waiving ? 'pointer' : 'not-allowed'
+            }}
+          >
+            {waiving ? 'Waiving...' : 'Waive Issue'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WaiveIssueForm;
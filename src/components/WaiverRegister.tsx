@@ -0,0 +1,161 @@
+// src/components/WaiverRegister.tsx - Every waived issue of a project, with who waived it, why and until when
+import React, { useMemo } from 'react';
+import { Alert, Button, Empty, Popconfirm, Space, Statistic, Table, Tag, Typography, message } from 'antd';
+import { UndoOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import { useIssueWaivers, useRevokeIssueWaiver } from '../hooks/useIssueWaivers';
+import { getErrorMessage } from '../services/errors';
+import { waiverStatus, WaiverStatus } from '../services/quality/waivers';
+import type { IssueSeverity, IssueWaiver, ProjectRequirement } from '../domain';
+
+const { Text } = Typography;
+
+const SEVERITY_COLORS: Record<IssueSeverity, string> = { critical: 'red', major: 'orange', minor: 'gold' };
+
+const STATUS_LABELS: Record<WaiverStatus, { label: string; color: string; hint: string }> = {
+  active: { label: 'Active', color: 'green', hint: 'The issue is left out of the score and the issue counts' },
+  unmatched: { label: 'Not reported', color: 'default', hint: 'The latest analysis did not report the issue' },
+  expired: { label: 'Expired', color: 'red', hint: 'The issue counts again' },
+};
+
+interface WaiverRegisterProps {
+  projectId: number;
+  // All of the project's requirements, retired ones included, so every waiver can be traced
+  requirements: ProjectRequirement[];
+  onSelectRequirement?: (requirement: ProjectRequirement) => void;
+}
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+const WaiverRegister: React.FC<WaiverRegisterProps> = ({ projectId, requirements, onSelectRequirement }) => {
+  const waiversQuery = useIssueWaivers(projectId);
+  const revokeMutation = useRevokeIssueWaiver();
+  const byId = useMemo(() => new Map(requirements.map(requirement => [requirement.id, requirement])), [requirements]);
+
+  const rows = useMemo(
+    () => (waiversQuery.data ?? []).map(waiver => ({ waiver, status: waiverStatus(waiver, byId.get(waiver.requirementId)) })),
+    [waiversQuery.data, byId]
+  );
+  const counts = (status: WaiverStatus) => rows.filter(row => row.status === status).length;
+
+  const handleRevoke = async (waiver: IssueWaiver) => {
+    try {
+      await revokeMutation.mutateAsync(waiver);
+      message.success('Waiver revoked; the issue counts again');
+    } catch (error) {
+      message.error(getErrorMessage(error, 'Failed to revoke the waiver'));
+    }
+  };
+
+  const columns: ColumnsType<(typeof rows)[number]> = [
+    {
+      title: 'Requirement',
+      key: 'requirement',
+      width: 180,
+      render: (_, { waiver }) => {
+        const requirement = byId.get(waiver.requirementId);
+        const label = requirement?.title || `#${waiver.requirementId}`;
+        return (
+          <div>
+            {requirement && onSelectRequirement ? (
+              <Text style={{ cursor: 'pointer', color: '#1890ff' }} onClick={() => onSelectRequirement(requirement)}>
+                {label}
+              </Text>
+            ) : (
+              <Text>{label}</Text>
+            )}
+            {requirement?.status === 'Retired' && <Tag style={{ marginLeft: 4 }}>Retired</Tag>}
+          </div>
+        );
+      },
+    },
+    {
+      title: 'Issue',
+      key: 'issue',
+      render: (_, { waiver }) => (
+        <div>
+          <Tag color={SEVERITY_COLORS[waiver.severity]}>{waiver.severity}</Tag>
+          <Tag>{waiver.type}</Tag>
+          {waiver.description}
+          {waiver.problematicText && <div style={{ fontSize: 12, color: '#666' }}>"{waiver.problematicText}"</div>}
+        </div>
+      ),
+    },
+    { title: 'Justification', dataIndex: ['waiver', 'justification'], key: 'justification' },
+    {
+      title: 'Waived by',
+      key: 'author',
+      width: 160,
+      render: (_, { waiver }) => (
+        <div>
+          {waiver.author}
+          <div style={{ fontSize: 12, color: '#666' }}>{formatDate(waiver.createdAt)}</div>
+        </div>
+      ),
+    },
+    {
+      title: 'Expires',
+      key: 'expiresAt',
+      width: 110,
+      // Open-ended waivers last
+      sorter: (a, b) => (a.waiver.expiresAt ?? '9999').localeCompare(b.waiver.expiresAt ?? '9999'),
+      render: (_, { waiver }) => (waiver.expiresAt ? formatDate(waiver.expiresAt) : <Text type="secondary">Never</Text>),
+    },
+    {
+      title: 'Status',
+      key: 'status',
+      width: 130,
+      filters: (Object.keys(STATUS_LABELS) as WaiverStatus[]).map(status => ({ text: STATUS_LABELS[status].label, value: status })),
+      onFilter: (value, row) => row.status === value,
+      render: (_, { status }) => (
+        <Tag color={STATUS_LABELS[status].color} title={STATUS_LABELS[status].hint}>
+          {STATUS_LABELS[status].label}
+        </Tag>
+      ),
+    },
+    {
+      title: '',
+      key: 'actions',
+      width: 100,
+      render: (_, { waiver }) => (
+        <Popconfirm title="Revoke this waiver? The issue will count again." onConfirm={() => handleRevoke(waiver)}>
+          <Button size="small" icon={<UndoOutlined />} loading={revokeMutation.isPending && revokeMutation.variables?.id === waiver.id}>
+            Revoke
+          </Button>
+        </Popconfirm>
+      ),
+    },
+  ];
+
+  return (
+    <div style={{ padding: '24px' }}>
+      <h2 style={{ marginTop: 0 }}>Waivers</h2>
+
+      {waiversQuery.isError && (
+        <Alert type="error" showIcon style={{ marginBottom: 16 }} message={getErrorMessage(waiversQuery.error, 'Failed to load the waivers')} />
+      )}
+
+      <Space size="large" style={{ marginBottom: 16 }}>
+        <Statistic title="Active" value={counts('active')} />
+        <Statistic title="Not reported" value={counts('unmatched')} />
+        <Statistic title="Expired" value={counts('expired')} valueStyle={counts('expired') ? { color: '#cf1322' } : undefined} />
+      </Space>
+
+      <Table
+        columns={columns}
+        dataSource={rows}
+        rowKey={({ waiver }) => waiver.id}
+        loading={waiversQuery.isLoading}
+        pagination={{ pageSize: 20, hideOnSinglePage: true }}
+        size="small"
+        locale={{
+          emptyText: (
+            <Empty description="No waivers yet. Issues are waived from the requirement details, with a justification." />
+          ),
+        }}
+      />
+    </div>
+  );
+};
+
+export default WaiverRegister;
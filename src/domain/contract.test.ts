@@ -0,0 +1,15 @@
+// Fails when src/domain/contract.ts has drifted from contract/openapi.json (run `npm run generate:domain`)
+const { generateDomain, readContract, readGenerated, changedDeclarations } = require('../../scripts/generate-domain');
+
+test('generated domain types match the backend contract', () => {
+  expect(changedDeclarations(generateDomain(readContract()), readGenerated())).toEqual([]);
+});
+
+test('reports declarations that differ from the contract', () => {
+  const contract = readContract();
+  const drifted = JSON.parse(JSON.stringify(contract));
+  drifted.components.schemas.QualityIssue.properties.type = { type: 'string' };
+  expect(changedDeclarations(generateDomain(drifted), readGenerated())).toEqual(['QualityIssue']);
+});
+
+export {};
@@ -0,0 +1,506 @@
+// src/domain/contract.ts - Backend DTOs, generated from contract/openapi.json and contract/openapi.extensions.json
+// by scripts/generate-domain.js. Do not edit: pull the contract from the backend (or change the proposed
+// extensions) and run `npm run generate:domain`.
+/* eslint-disable */
+
+export type QualityIssueType = 'ambiguity' | 'completeness' | 'consistency' | 'verifiability' | 'traceability';
+
+export type IssueSeverity = 'critical' | 'major' | 'minor';
+
+// Changed in contract/openapi.extensions.json; the backend contract differs
+export interface QualityIssue {
+  type: QualityIssueType;
+  severity: IssueSeverity;
+  description: string;
+  problematicText: string;
+  suggestion: string;
+  span?: TextSpan;
+}
+
+export interface AnalysisResponse {
+  // 0-100
+  overallScore: number;
+  issues: QualityIssue[];
+  analyzedAt: string;
+}
+
+export interface Enhancement {
+  text: string;
+  changes: string[];
+  improvements: string[];
+  qualityScore: number;
+  rationale?: string;
+}
+
+export interface EnhancementResponse {
+  enhancements: Enhancement[];
+  // Index into `enhancements` of the variant the model recommends
+  recommendedIndex?: number;
+}
+
+export interface AnalyzeRequest {
+  text: string;
+  projectId?: string;
+}
+
+export interface EnhanceRequest {
+  text: string;
+  issues?: QualityIssue[];
+}
+
+export interface BatchAnalyzeRequest {
+  requirements: string[];
+}
+
+export interface AnalyzeAllResponse {
+  analyzedCount: number;
+  results: AnalysisResponse[];
+}
+
+export interface HealthResponse {
+  status: string;
+  message: string;
+  perplexityConnected: boolean;
+}
+
+export interface Project {
+  id: number;
+  name: string;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+  requirementCount: number;
+  analyzedCount: number;
+  averageQualityScore?: number;
+}
+
+// Changed in contract/openapi.extensions.json; the backend contract differs
+export type RequirementStatus = 'Draft' | 'Analyzed' | 'Enhanced' | 'Failed' | 'Retired';
+
+// Changed in contract/openapi.extensions.json; the backend contract differs
+export interface ProjectRequirement {
+  id: number;
+  projectId: number;
+  text: string;
+  title?: string;
+  status: RequirementStatus;
+  qualityScore?: number;
+  createdAt: string;
+  updatedAt: string;
+  // Requirement this one was split from
+  derivedFromId?: number;
+  // Requirement this one was merged into as a duplicate
+  mergedIntoId?: number;
+  analysis?: AnalysisResponse;
+  enhancements?: EnhancementResponse;
+}
+
+export interface CreateProjectRequest {
+  name: string;
+  description?: string;
+}
+
+export interface UpdateProjectRequest {
+  name: string;
+  description?: string;
+}
+
+export interface CreateRequirementRequest {
+  text: string;
+  title?: string;
+}
+
+export interface UpdateRequirementRequest {
+  text: string;
+  title?: string;
+}
+
+export interface ProjectStats {
+  totalRequirements: number;
+  analyzedRequirements: number;
+  enhancedRequirements: number;
+  averageQualityScore?: number;
+  qualityDistribution: Record<string, number>;
+  commonIssues: Record<string, number>;
+}
+
+export type Priority = 'high' | 'medium' | 'low';
+
+export type GeneratedRequirementType = 'functional' | 'non-functional' | 'validation' | 'security' | 'usability';
+
+export interface GenerateRequirementsRequest {
+  userStory: string;
+  projectContext?: string;
+}
+
+export interface GeneratedRequirement {
+  type: GeneratedRequirementType;
+  title: string;
+  text: string;
+  priority: Priority;
+  rationale: string;
+}
+
+export interface GenerateRequirementsResponse {
+  requirements: GeneratedRequirement[];
+}
+
+export interface StakeholderRole {
+  value: string;
+  label: string;
+  description: string;
+}
+
+export interface GeneratedQuestion {
+  text: string;
+  category: string;
+  priority: Priority;
+  rationale: string;
+  isAddressed: boolean;
+}
+
+export interface StakeholderSimulationRequest {
+  requirementText: string;
+  stakeholderRole: string;
+}
+
+export interface StakeholderSimulationResponse {
+  questions: GeneratedQuestion[];
+  stakeholderRole: string;
+  requirementText: string;
+  generatedAt: string;
+  categorySummary: Record<string, number>;
+}
+
+export interface SimulationHistoryItem {
+  id: number;
+  projectId: number;
+  requirementSummary: string;
+  stakeholderRole: string;
+  questionCount: number;
+  createdAt: string;
+}
+
+export interface ProblemDetails {
+  type?: string | null;
+  title?: string | null;
+  status?: number | null;
+  detail?: string | null;
+  instance?: string | null;
+  [key: string]: unknown;
+}
+
+// Character offsets into the analyzed text; `end` is exclusive
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface AnalysisStartEvent {
+  type: 'start';
+  total: number;
+}
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface AnalysisResultEvent {
+  type: 'result';
+  index: number;
+  requirementId?: number;
+  analysis: AnalysisResponse;
+}
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface AnalysisErrorEvent {
+  type: 'error';
+  index: number;
+  requirementId?: number;
+  message: string;
+}
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface AnalysisCompleteEvent {
+  type: 'complete';
+  analyzedCount: number;
+}
+
+// One line of a streamed (NDJSON) analyze-all / batch-analyze response. `index` is the position
+// in the submitted list; analyze-all also reports which stored requirement the line belongs to.
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export type AnalysisStreamEvent =
+  | AnalysisStartEvent
+  | AnalysisResultEvent
+  | AnalysisErrorEvent
+  | AnalysisCompleteEvent;
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface AuthUser {
+  username: string;
+  displayName: string;
+}
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface RefreshRequest {
+  refreshToken: string;
+}
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface TokenResponse {
+  accessToken: string;
+  refreshToken?: string;
+  // Seconds until the access token expires
+  expiresIn: number;
+  user: AuthUser;
+}
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface SplitRequirementRequest {
+  requirements: CreateRequirementRequest[];
+}
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface SplitRequirementResponse {
+  retired: ProjectRequirement;
+  created: ProjectRequirement[];
+}
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface MergeRequirementsRequest {
+  duplicateIds: number[];
+}
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface MergeRequirementsResponse {
+  kept: ProjectRequirement;
+  retired: ProjectRequirement[];
+}
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export type GlossaryTermStatus = 'preferred' | 'deprecated' | 'forbidden';
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface GlossaryTerm {
+  id: number;
+  projectId: number;
+  term: string;
+  definition: string;
+  // Alternative wordings that should be replaced by the term
+  synonyms: string[];
+  status: GlossaryTermStatus;
+  // Term to use instead of a deprecated or forbidden one
+  replacedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface CreateGlossaryTermRequest {
+  term: string;
+  definition: string;
+  // Alternative wordings that should be replaced by the term
+  synonyms?: string[];
+  status?: GlossaryTermStatus;
+  // Term to use instead of a deprecated or forbidden one
+  replacedBy?: string;
+}
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface UpdateGlossaryTermRequest {
+  term: string;
+  definition: string;
+  // Alternative wordings that should be replaced by the term
+  synonyms?: string[];
+  status?: GlossaryTermStatus;
+  // Term to use instead of a deprecated or forbidden one
+  replacedBy?: string;
+}
+
+// A glossary term sent with analyze/enhance requests so the LLM keeps to the project's vocabulary
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface GlossaryEntry {
+  term: string;
+  definition: string;
+  // Alternative wordings that should be replaced by the term
+  synonyms?: string[];
+  status?: GlossaryTermStatus;
+  // Term to use instead of a deprecated or forbidden one
+  replacedBy?: string;
+}
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface AnalysisContext {
+  glossary?: GlossaryEntry[];
+}
+
+// numeric: contradictory limits on the same quantity; modality: one requires what the other forbids; state: incompatible states of the same thing
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export type ConflictKind = 'numeric' | 'modality' | 'state';
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface IntentionalConflict {
+  id: number;
+  projectId: number;
+  kind: ConflictKind;
+  // The two requirements in conflict, lower id first
+  requirementIds: number[];
+  // Why the conflict is intended
+  note?: string;
+  createdAt: string;
+}
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface CreateIntentionalConflictRequest {
+  kind: ConflictKind;
+  requirementIds: number[];
+  note?: string;
+}
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface ReadabilityThresholds {
+  // Words in the longest sentence
+  maxSentenceLength: number;
+  // Flesch reading ease; lower is harder to read
+  minReadingEase: number;
+  // Conditions nested in one sentence ("if … when …")
+  maxConditionDepth: number;
+  maxClauses: number;
+  // Share of clauses in the passive voice, 0-1
+  maxPassiveShare: number;
+}
+
+// Whether scores are the analyzer's overallScore or recomputed from the analysis issues with the policy's weights
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export type ScoreSource = 'analyzer' | 'local';
+
+// Points deducted from 100 per issue of each severity
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface SeverityWeights {
+  critical: number;
+  major: number;
+  minor: number;
+}
+
+// Multiplier of the severity weight per issue type
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface IssueTypeWeights {
+  ambiguity: number;
+  completeness: number;
+  consistency: number;
+  verifiability: number;
+  traceability: number;
+}
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface ScoreBand {
+  label: string;
+  // Lowest score in the band
+  minScore: number;
+  // CSS hex colour, e.g. #52c41a
+  color: string;
+}
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface ScoringPolicy {
+  source: ScoreSource;
+  severityWeights: SeverityWeights;
+  typeWeights: IssueTypeWeights;
+  // Best band first; the last one starts at 0
+  bands: ScoreBand[];
+}
+
+// Per-project settings of the local quality checks and of how scores are computed
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface QualitySettings {
+  readability: ReadabilityThresholds;
+  scoring: ScoringPolicy;
+}
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export type CustomRuleKind = 'regex' | 'keyword' | 'structure';
+
+// A team-defined lint rule
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface CustomRule {
+  // Unique within the pack; the issues it raises carry it as their rule ID
+  id: string;
+  kind: CustomRuleKind;
+  // Regular expression. A regex rule flags each match; a structure rule flags requirements that do not match it
+  pattern?: string;
+  // Words or phrases a keyword rule flags wherever they appear
+  keywords?: string[];
+  // Defaults to false
+  caseSensitive?: boolean;
+  type: QualityIssueType;
+  severity: IssueSeverity;
+  description: string;
+  suggestion: string;
+}
+
+// A named set of custom rules, enabled per project
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface RulePack {
+  id: number;
+  projectId: number;
+  name: string;
+  description?: string;
+  enabled: boolean;
+  rules: CustomRule[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface CreateRulePackRequest {
+  name: string;
+  description?: string;
+  // Defaults to true
+  enabled?: boolean;
+  rules: CustomRule[];
+}
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface UpdateRulePackRequest {
+  name: string;
+  description?: string;
+  // Defaults to true
+  enabled?: boolean;
+  rules: CustomRule[];
+}
+
+// A quality issue a reviewer accepted, with the reason why
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface IssueWaiver {
+  id: number;
+  projectId: number;
+  requirementId: number;
+  type: QualityIssueType;
+  severity: IssueSeverity;
+  // The text the issue flags; empty when it is about the whole requirement
+  problematicText: string;
+  description: string;
+  // Why the issue is accepted
+  justification: string;
+  // Display name of the signed-in user who waived the issue
+  author: string;
+  // When the waiver stops applying; it never does when absent
+  expiresAt?: string;
+  createdAt: string;
+}
+
+// Proposed in contract/openapi.extensions.json; not in the backend contract yet
+export interface CreateIssueWaiverRequest {
+  requirementId: number;
+  type: QualityIssueType;
+  severity: IssueSeverity;
+  problematicText: string;
+  description: string;
+  justification: string;
+  expiresAt?: string;
+}
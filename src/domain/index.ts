@@ -0,0 +1,18 @@
+// src/domain/index.ts - The UI's domain model; components and services import types from here only.
+// Everything exchanged with the backend is generated from its OpenAPI contract (./contract);
+// the few client-side shapes built on top of it are declared below.
+import type { AnalysisResponse } from './contract';
+
+export * from './contract';
+
+// A row of the batch analyzer. `key` is the table row key; `id` is the 1-based position in the list.
+export interface BatchRequirement {
+  key: string;
+  id: number;
+  text: string;
+  analysis?: AnalysisResponse;
+  status: 'pending' | 'analyzing' | 'completed' | 'error';
+}
+
+// Backend status as shown in the header (see hooks/useBackendHealth)
+export type ApiStatus = 'healthy' | 'degraded' | 'unhealthy';
@@ -0,0 +1,46 @@
+// src/hooks/useAuth.ts - Current session and sign-in/sign-out actions
+import { useCallback, useSyncExternalStore } from 'react';
+import { authApi } from '../services/api';
+import { beginOidcRedirect, signInWithOidcPopup } from '../services/auth/oidc';
+import { clearTokens, fromTokenResponse, getAuthState, getTokens, setTokens, subscribeAuth, TokenSet } from '../services/auth/session';
+import { queryClient } from '../services/queryClient';
+import type { LoginRequest } from '../domain';
+
+// Cached data belongs to whoever fetched it; signing back in as someone else starts from scratch
+const establishSession = (tokens: TokenSet) => {
+  const previous = getAuthState().user;
+  if (previous && previous.username !== tokens.user.username) {
+    queryClient.clear();
+  }
+  setTokens(tokens);
+};
+
+export const useAuth = () => {
+  const state = useSyncExternalStore(subscribeAuth, getAuthState);
+
+  const signIn = useCallback(async (request: LoginRequest) => {
+    establishSession(fromTokenResponse(await authApi.login(request)));
+  }, []);
+
+  // 'popup' keeps the current page alive, which is what re-authentication needs;
+  // 'redirect' leaves the app and comes back through the callback route
+  const signInWithSso = useCallback(async (mode: 'redirect' | 'popup') => {
+    if (mode === 'redirect') {
+      await beginOidcRedirect();
+      return;
+    }
+    establishSession((await signInWithOidcPopup()).tokens);
+  }, []);
+
+  const signOut = useCallback(async () => {
+    const tokens = getTokens();
+    clearTokens();
+    queryClient.clear();
+    if (tokens?.method === 'password' && tokens.refreshToken) {
+      // Best effort: the local session is gone either way
+      await authApi.logout(tokens.refreshToken).catch(() => undefined);
+    }
+  }, []);
+
+  return { ...state, signIn, signInWithSso, signOut };
+};
@@ -0,0 +1,52 @@
+// src/hooks/useBackendHealth.ts - Shared, background-polled backend health
+import { useSyncExternalStore } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { requirementsApi } from '../services/api';
+import { healthConfig } from '../services/config';
+import { isMockBackendActive, subscribeMockBackend } from '../services/mock/activity';
+import { HEALTH_QUERY_KEY } from '../services/queryClient';
+import type { HealthResponse, ApiStatus } from '../domain';
+
+// testConnection reports an unreachable backend as status 'error' instead of throwing
+export const toApiStatus = (health: HealthResponse): ApiStatus => {
+  if (health.status === 'error') return 'unhealthy';
+  if (health.status !== 'healthy' || !health.perplexityConnected) return 'degraded';
+  return 'healthy';
+};
+
+// Every caller shares one query, so there is a single poller however many components ask
+export const useBackendHealth = () => {
+  const query = useQuery({
+    queryKey: HEALTH_QUERY_KEY,
+    queryFn: ({ signal }) => requirementsApi.testConnection({ signal }),
+    staleTime: 0,
+    refetchInterval: (q) =>
+      q.state.data && toApiStatus(q.state.data) === 'healthy' ? healthConfig.pollIntervalMs : healthConfig.degradedPollIntervalMs,
+  });
+
+  return {
+    // 'unknown' until the first check has come back
+    status: query.data ? toApiStatus(query.data) : ('unknown' as const),
+    message: query.data?.message,
+    checking: query.isFetching,
+    lastCheckedAt: query.dataUpdatedAt || undefined,
+    recheck: () => query.refetch(),
+  };
+};
+
+// Whether actions that call the LLM provider (analyze, enhance, generate, simulate) can run.
+// CRUD is unaffected. Until the first check answers, actions stay enabled.
+export const useLlmAvailability = (): { available: boolean; reason?: string } => {
+  const { status } = useBackendHealth();
+  switch (status) {
+    case 'unhealthy':
+      return { available: false, reason: 'The backend cannot be reached. AI features will come back once it is available again.' };
+    case 'degraded':
+      return { available: false, reason: 'The AI provider is currently unavailable. Editing still works; AI features will come back automatically.' };
+    default:
+      return { available: true };
+  }
+};
+
+// Whether the latest response came from the in-browser mock backend, whose analyses are made up
+export const useMockBackendActive = (): boolean => useSyncExternalStore(subscribeMockBackend, isMockBackendActive);
@@ -0,0 +1,24 @@
+// src/hooks/useCancellable.ts - AbortController lifecycle for cancellable API calls
+import { useCallback, useEffect, useRef } from 'react';
+
+// `start()` aborts any call still in flight and returns a fresh signal to pass to the API client;
+// `cancel()` aborts the current call. Anything outstanding is aborted when the component unmounts.
+export const useCancellable = () => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const start = useCallback((): AbortSignal => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller.signal;
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { start, cancel };
+};
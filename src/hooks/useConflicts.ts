@@ -0,0 +1,65 @@
+// src/hooks/useConflicts.ts - Conflicts between a project's requirements, minus the ones marked as intended
+import { useDeferredValue, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { conflictApi } from '../services/api';
+import { conflictKey, findConflicts, RequirementConflict } from '../services/quality/conflicts';
+import { projectKeys } from './useProjectQueries';
+import type { CreateIntentionalConflictRequest, IntentionalConflict, ProjectRequirement } from '../domain';
+
+export const useIntentionalConflicts = (projectId?: number) =>
+  useQuery({
+    queryKey: projectKeys.intentionalConflicts(projectId ?? 0),
+    queryFn: ({ signal }) => conflictApi.getIntentionalConflicts(projectId!, { signal }),
+    enabled: projectId !== undefined,
+  });
+
+const markKey = (mark: IntentionalConflict) =>
+  conflictKey({ kind: mark.kind, ids: [mark.requirementIds[0], mark.requirementIds[1]] });
+
+// Detected conflicts split into open ones and those marked as intended (with their mark). Detection runs on a
+// deferred copy of the requirements, so saving or editing one doesn't wait for the whole project to be compared.
+export const useRequirementConflicts = (projectId: number | undefined, requirements: ProjectRequirement[]) => {
+  const marksQuery = useIntentionalConflicts(projectId);
+  const deferredRequirements = useDeferredValue(requirements);
+  const conflicts = useMemo(() => findConflicts(deferredRequirements), [deferredRequirements]);
+  const split = useMemo(() => {
+    const marks = new Map((marksQuery.data ?? []).map(mark => [markKey(mark), mark]));
+    // Until detection catches up, conflicts of requirements that have since changed or gone are left out
+    const compared = new Map(deferredRequirements.map(requirement => [requirement.id, requirement.text]));
+    const current = new Set(requirements.filter(requirement => compared.get(requirement.id) === requirement.text).map(r => r.id));
+    const open: RequirementConflict[] = [];
+    const intentional: Array<{ conflict: RequirementConflict; mark: IntentionalConflict }> = [];
+    conflicts.filter(conflict => conflict.ids.every(id => current.has(id))).forEach(conflict => {
+      const mark = marks.get(conflictKey(conflict));
+      if (mark) intentional.push({ conflict, mark });
+      else open.push(conflict);
+    });
+    return { open, intentional };
+  }, [conflicts, deferredRequirements, requirements, marksQuery.data]);
+  return { ...split, marksQuery };
+};
+
+export const useMarkConflictIntentional = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ projectId, request }: { projectId: number; request: CreateIntentionalConflictRequest }) =>
+      conflictApi.markIntentional(projectId, request),
+    onSuccess: mark => {
+      queryClient.setQueryData<IntentionalConflict[]>(projectKeys.intentionalConflicts(mark.projectId), marks =>
+        marks && [...marks, mark]
+      );
+    },
+  });
+};
+
+export const useUnmarkConflictIntentional = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (mark: IntentionalConflict) => conflictApi.unmarkIntentional(mark.projectId, mark.id),
+    onSuccess: (_data, mark) => {
+      queryClient.setQueryData<IntentionalConflict[]>(projectKeys.intentionalConflicts(mark.projectId), marks =>
+        marks?.filter(m => m.id !== mark.id)
+      );
+    },
+  });
+};
@@ -0,0 +1,28 @@
+// src/hooks/useDebouncedCallback.ts - Calls a function once calls to it have stopped for a while
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+
+// The returned function keeps its identity across renders and always calls the latest `callback`.
+// `cancel()` drops a pending call; one still pending when the component unmounts is dropped too.
+export const useDebouncedCallback = <Args extends unknown[]>(callback: (...args: Args) => void, delayMs: number) => {
+  const callbackRef = useRef(callback);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    callbackRef.current = callback;
+  }, [callback]);
+
+  const cancel = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  return useMemo(() => Object.assign((...args: Args) => {
+    cancel();
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      callbackRef.current(...args);
+    }, delayMs);
+  }, { cancel }), [cancel, delayMs]);
+};
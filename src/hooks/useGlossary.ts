@@ -0,0 +1,54 @@
+// src/hooks/useGlossary.ts - react-query hooks for the project glossary
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { glossaryApi } from '../services/api';
+import { projectKeys } from './useProjectQueries';
+import type { CreateGlossaryTermRequest, GlossaryTerm, UpdateGlossaryTermRequest } from '../domain';
+
+const byTerm = (a: GlossaryTerm, b: GlossaryTerm) => a.term.localeCompare(b.term, undefined, { sensitivity: 'base' });
+
+// Also read by the analyze/enhance mutations, which send the cached glossary to the LLM
+export const useGlossary = (projectId?: number) =>
+  useQuery({
+    queryKey: projectKeys.glossary(projectId ?? 0),
+    queryFn: async ({ signal }) => (await glossaryApi.getTerms(projectId!, { signal })).sort(byTerm),
+    enabled: projectId !== undefined,
+  });
+
+// The server rejects duplicate terms, so the cache is updated on success only
+export const useCreateGlossaryTerm = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ projectId, request }: { projectId: number; request: CreateGlossaryTermRequest }) =>
+      glossaryApi.createTerm(projectId, request),
+    onSuccess: term => {
+      queryClient.setQueryData<GlossaryTerm[]>(projectKeys.glossary(term.projectId), terms =>
+        terms && [...terms, term].sort(byTerm)
+      );
+    },
+  });
+};
+
+export const useUpdateGlossaryTerm = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ term, request }: { term: GlossaryTerm; request: UpdateGlossaryTermRequest }) =>
+      glossaryApi.updateTerm(term.projectId, term.id, request),
+    onSuccess: term => {
+      queryClient.setQueryData<GlossaryTerm[]>(projectKeys.glossary(term.projectId), terms =>
+        terms?.map(t => (t.id === term.id ? term : t)).sort(byTerm)
+      );
+    },
+  });
+};
+
+export const useDeleteGlossaryTerm = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (term: GlossaryTerm) => glossaryApi.deleteTerm(term.projectId, term.id),
+    onSuccess: (_data, term) => {
+      queryClient.setQueryData<GlossaryTerm[]>(projectKeys.glossary(term.projectId), terms =>
+        terms?.filter(t => t.id !== term.id)
+      );
+    },
+  });
+};
@@ -0,0 +1,43 @@
+// src/hooks/useIssueWaivers.ts - react-query hooks for a project's issue waiver register
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { waiverApi } from '../services/api';
+import { projectKeys } from './useProjectQueries';
+import type { CreateIssueWaiverRequest, IssueWaiver } from '../domain';
+
+// Newest first, as the register is read
+const newestFirst = (a: IssueWaiver, b: IssueWaiver) => b.createdAt.localeCompare(a.createdAt);
+
+export const useIssueWaivers = (projectId?: number) =>
+  useQuery({
+    queryKey: projectKeys.issueWaivers(projectId ?? 0),
+    queryFn: async ({ signal }) => (await waiverApi.getWaivers(projectId!, { signal })).sort(newestFirst),
+    enabled: projectId !== undefined,
+  });
+
+// The server averages the project's scores without the waived issues, so the project list is refetched either way
+export const useCreateIssueWaiver = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ projectId, request }: { projectId: number; request: CreateIssueWaiverRequest }) =>
+      waiverApi.createWaiver(projectId, request),
+    onSuccess: waiver => {
+      queryClient.setQueryData<IssueWaiver[]>(projectKeys.issueWaivers(waiver.projectId), waivers =>
+        waivers && [waiver, ...waivers]
+      );
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: projectKeys.list() }),
+  });
+};
+
+export const useRevokeIssueWaiver = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (waiver: IssueWaiver) => waiverApi.revokeWaiver(waiver.projectId, waiver.id),
+    onSuccess: (_data, waiver) => {
+      queryClient.setQueryData<IssueWaiver[]>(projectKeys.issueWaivers(waiver.projectId), waivers =>
+        waivers?.filter(w => w.id !== waiver.id)
+      );
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: projectKeys.list() }),
+  });
+};
@@ -0,0 +1,96 @@
+import React from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { projectKeys, useSplitRequirement, useUpdateRequirement } from './useProjectQueries';
+import { handleMockRequest } from '../services/mock/handlers';
+import { loadDatabase, MockDatabase } from '../services/mock/storage';
+import type { Project, ProjectRequirement } from '../domain';
+
+// The API client is replaced by the mock backend's route table, so the cache is compared with what the
+// server computes. `mockGate` holds every response back until the test releases it.
+let mockDb: MockDatabase;
+let mockGate: Promise<void> = Promise.resolve();
+
+const mockCall = async (method: string, path: string, body?: unknown) => {
+  await mockGate;
+  const response = await handleMockRequest(mockDb, { method, path, body, authorization: 'Bearer test-token' });
+  if (response.status >= 400) throw new Error(`${method} ${path} failed with ${response.status}`);
+  return JSON.parse(JSON.stringify(response.data ?? null));
+};
+
+jest.mock('../services/api', () => ({
+  projectApi: {
+    updateRequirement: (projectId: number, id: number, request: unknown) =>
+      mockCall('put', `/projects/${projectId}/requirements/${id}`, request),
+    splitRequirement: (projectId: number, id: number, request: unknown) =>
+      mockCall('post', `/projects/${projectId}/requirements/${id}/split`, request),
+  },
+}));
+
+const summaryOf = (project?: Project) =>
+  project && { requirementCount: project.requirementCount, analyzedCount: project.analyzedCount, averageQualityScore: project.averageQualityScore };
+
+const serverProject = async () => summaryOf((await mockCall('get', '/projects'))[0]);
+const cachedProject = (queryClient: QueryClient) => summaryOf(queryClient.getQueryData<Project[]>(projectKeys.list())?.[0]);
+
+const setUp = async () => {
+  mockGate = Promise.resolve();
+  mockDb = await loadDatabase();
+  mockDb.sessions = [{ accessToken: 'test-token', refreshToken: 'test-refresh', username: 'demo', expiresAt: Date.now() + 60000 }];
+  await mockCall('post', '/projects/1/analyze-all');
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false }, mutations: { retry: false } } });
+  queryClient.setQueryData(projectKeys.list(), await mockCall('get', '/projects'));
+  queryClient.setQueryData(projectKeys.requirements(1), await mockCall('get', '/projects/1/requirements'));
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+  return { queryClient, wrapper };
+};
+
+describe('project summary in the cache', () => {
+  test('matches the server while an edit is pending and after it lands', async () => {
+    const { queryClient, wrapper } = await setUp();
+    const requirement = queryClient.getQueryData<ProjectRequirement[]>(projectKeys.requirements(1))![0];
+    expect(cachedProject(queryClient)).toEqual(await serverProject());
+
+    let release = () => {};
+    mockGate = new Promise(resolve => {
+      release = resolve;
+    });
+    const { result } = renderHook(() => useUpdateRequirement(), { wrapper });
+    let saved: Promise<unknown> = Promise.resolve();
+    act(() => {
+      saved = result.current.mutateAsync({ requirement, request: { text: 'The system shall log users in within 2 seconds.' } });
+    });
+    // The optimistic update drops the analysis, as the server does for new wording
+    await waitFor(() => expect(cachedProject(queryClient)?.analyzedCount).toBe(2));
+    const optimistic = cachedProject(queryClient);
+
+    release();
+    await act(async () => {
+      await saved;
+    });
+    expect(optimistic).toEqual(await serverProject());
+    expect(cachedProject(queryClient)).toEqual(await serverProject());
+  });
+
+  test('leaves retired requirements out of the counts and the average', async () => {
+    const { queryClient, wrapper } = await setUp();
+    const [original, ...others] = queryClient.getQueryData<ProjectRequirement[]>(projectKeys.requirements(1))!;
+    const { result } = renderHook(() => useSplitRequirement(), { wrapper });
+    await act(async () => {
+      await result.current.mutateAsync({
+        requirement: original,
+        request: { requirements: [{ text: 'The system shall allow users to log in.' }, { text: 'The login page shall load within 2 seconds.' }] },
+      });
+    });
+
+    const scores = others.map(requirement => requirement.qualityScore!);
+    expect(cachedProject(queryClient)).toEqual({
+      requirementCount: 4,
+      analyzedCount: 2,
+      averageQualityScore: Math.round((scores[0] + scores[1]) / 2),
+    });
+    expect(cachedProject(queryClient)).toEqual(await serverProject());
+  });
+});
@@ -0,0 +1,356 @@
+// src/hooks/useProjectQueries.ts - react-query hooks for projects and project requirements
+import { QueryClient, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { projectApi } from '../services/api';
+import { DEFAULT_SCORING_POLICY, projectSummary } from '../services/quality/scoring';
+import type {
+  AnalysisContext,
+  AnalysisStreamEvent,
+  CreateProjectRequest,
+  CreateRequirementRequest,
+  GlossaryTerm,
+  IssueWaiver,
+  MergeRequirementsRequest,
+  Project,
+  ProjectRequirement,
+  QualitySettings,
+  SplitRequirementRequest,
+  UpdateProjectRequest,
+  UpdateRequirementRequest,
+} from '../domain';
+
+export const projectKeys = {
+  all: ['projects'] as const,
+  list: () => [...projectKeys.all, 'list'] as const,
+  requirements: (projectId: number) => [...projectKeys.all, projectId, 'requirements'] as const,
+  glossary: (projectId: number) => [...projectKeys.all, projectId, 'glossary'] as const,
+  intentionalConflicts: (projectId: number) => [...projectKeys.all, projectId, 'intentional-conflicts'] as const,
+  qualitySettings: (projectId: number) => [...projectKeys.all, projectId, 'quality-settings'] as const,
+  rulePacks: (projectId: number) => [...projectKeys.all, projectId, 'rule-packs'] as const,
+  issueWaivers: (projectId: number) => [...projectKeys.all, projectId, 'issue-waivers'] as const,
+};
+
+// The project glossary as loaded by useGlossary, sent along with LLM requests; nothing when it isn't loaded
+const analysisContext = (queryClient: QueryClient, projectId: number): AnalysisContext | undefined => {
+  const terms = queryClient.getQueryData<GlossaryTerm[]>(projectKeys.glossary(projectId));
+  if (!terms?.length) return undefined;
+  return {
+    glossary: terms.map(({ term, definition, synonyms, status, replacedBy }) => ({ term, definition, synonyms, status, replacedBy })),
+  };
+};
+
+// Sidebar counts are derived from the cached requirement list, so they change as soon as the list does
+// instead of waiting for the project list to be downloaded again
+const syncProjectSummary = (queryClient: QueryClient, projectId: number, requirements: ProjectRequirement[]) => {
+  const policy =
+    queryClient.getQueryData<QualitySettings>(projectKeys.qualitySettings(projectId))?.scoring ?? DEFAULT_SCORING_POLICY;
+  const waivers = queryClient.getQueryData<IssueWaiver[]>(projectKeys.issueWaivers(projectId)) ?? [];
+  queryClient.setQueryData<Project[]>(projectKeys.list(), projects => projects?.map(project =>
+    project.id === projectId ? { ...project, ...projectSummary(requirements, policy, waivers) } : project
+  ));
+};
+
+const setRequirements = (
+  queryClient: QueryClient,
+  projectId: number,
+  update: (requirements: ProjectRequirement[]) => ProjectRequirement[]
+) => {
+  const current = queryClient.getQueryData<ProjectRequirement[]>(projectKeys.requirements(projectId));
+  if (!current) return;
+  const next = update(current);
+  queryClient.setQueryData(projectKeys.requirements(projectId), next);
+  syncProjectSummary(queryClient, projectId, next);
+};
+
+// What the server will make of an edit: new wording invalidates the analysis and enhancements
+const editedRequirement = (requirement: ProjectRequirement, request: UpdateRequirementRequest): ProjectRequirement =>
+  request.text.trim() === requirement.text
+    ? { ...requirement, ...request }
+    : { ...requirement, ...request, status: 'Draft', analysis: undefined, enhancements: undefined, qualityScore: undefined };
+
+const replaceRequirement = (requirement: ProjectRequirement) => (requirements: ProjectRequirement[]) =>
+  requirements.map(r => (r.id === requirement.id ? requirement : r));
+
+// Cache state captured before an optimistic update, restored if the mutation fails
+interface CacheSnapshot {
+  projectId?: number;
+  projects?: Project[];
+  requirements?: ProjectRequirement[];
+}
+
+const takeSnapshot = async (queryClient: QueryClient, projectId?: number): Promise<CacheSnapshot> => {
+  await queryClient.cancelQueries({ queryKey: projectKeys.list() });
+  if (projectId === undefined) {
+    return { projects: queryClient.getQueryData(projectKeys.list()) };
+  }
+  await queryClient.cancelQueries({ queryKey: projectKeys.requirements(projectId) });
+  return {
+    projectId,
+    projects: queryClient.getQueryData(projectKeys.list()),
+    requirements: queryClient.getQueryData(projectKeys.requirements(projectId)),
+  };
+};
+
+const restoreSnapshot = (queryClient: QueryClient, snapshot?: CacheSnapshot) => {
+  if (!snapshot) return;
+  queryClient.setQueryData(projectKeys.list(), snapshot.projects);
+  if (snapshot.projectId !== undefined) {
+    queryClient.setQueryData(projectKeys.requirements(snapshot.projectId), snapshot.requirements);
+  }
+};
+
+// Placeholder ids for optimistically inserted rows until the server assigns the real one
+let nextTemporaryId = -1;
+
+// Queries
+
+export const useProjects = () =>
+  useQuery({
+    queryKey: projectKeys.list(),
+    queryFn: ({ signal }) => projectApi.getProjects({ signal }),
+  });
+
+export const useProjectRequirements = (projectId?: number) => {
+  const queryClient = useQueryClient();
+  return useQuery({
+    queryKey: projectKeys.requirements(projectId ?? 0),
+    queryFn: async ({ signal }) => {
+      const requirements = await projectApi.getProjectRequirements(projectId!, { signal });
+      syncProjectSummary(queryClient, projectId!, requirements);
+      return requirements;
+    },
+    enabled: projectId !== undefined,
+  });
+};
+
+// Project mutations
+
+export const useCreateProject = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (request: CreateProjectRequest) => projectApi.createProject(request),
+    onSuccess: project => {
+      queryClient.setQueryData<Project[]>(projectKeys.list(), projects => (projects ? [...projects, project] : projects));
+    },
+  });
+};
+
+export const useUpdateProject = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, request }: { id: number; request: UpdateProjectRequest }) =>
+      projectApi.updateProject(id, request),
+    onMutate: async ({ id, request }) => {
+      const snapshot = await takeSnapshot(queryClient);
+      queryClient.setQueryData<Project[]>(projectKeys.list(), projects =>
+        projects?.map(p => (p.id === id ? { ...p, ...request } : p))
+      );
+      return snapshot;
+    },
+    onError: (_error, _variables, snapshot) => restoreSnapshot(queryClient, snapshot),
+    onSuccess: project => {
+      queryClient.setQueryData<Project[]>(projectKeys.list(), projects =>
+        projects?.map(p => (p.id === project.id ? { ...p, ...project } : p))
+      );
+    },
+  });
+};
+
+export const useDeleteProject = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: number) => projectApi.deleteProject(id),
+    onMutate: async id => {
+      const snapshot = await takeSnapshot(queryClient);
+      queryClient.setQueryData<Project[]>(projectKeys.list(), projects => projects?.filter(p => p.id !== id));
+      return snapshot;
+    },
+    onError: (_error, _variables, snapshot) => restoreSnapshot(queryClient, snapshot),
+    onSuccess: (_data, id) => {
+      queryClient.removeQueries({ queryKey: projectKeys.requirements(id) });
+      queryClient.removeQueries({ queryKey: projectKeys.glossary(id) });
+      queryClient.removeQueries({ queryKey: projectKeys.intentionalConflicts(id) });
+      queryClient.removeQueries({ queryKey: projectKeys.qualitySettings(id) });
+      queryClient.removeQueries({ queryKey: projectKeys.rulePacks(id) });
+      queryClient.removeQueries({ queryKey: projectKeys.issueWaivers(id) });
+    },
+  });
+};
+
+// Requirement mutations. Each one touches only the affected project's requirement list
+// (and the derived sidebar counts); the project list itself is not refetched.
+
+export const useAddRequirement = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ projectId, request }: { projectId: number; request: CreateRequirementRequest }) =>
+      projectApi.addRequirement(projectId, request),
+    onMutate: async ({ projectId, request }) => {
+      const snapshot = await takeSnapshot(queryClient, projectId);
+      const now = new Date().toISOString();
+      const placeholder: ProjectRequirement = {
+        id: nextTemporaryId--,
+        projectId,
+        text: request.text,
+        title: request.title,
+        status: 'Draft',
+        createdAt: now,
+        updatedAt: now,
+      };
+      setRequirements(queryClient, projectId, requirements => [...requirements, placeholder]);
+      return { ...snapshot, placeholderId: placeholder.id };
+    },
+    onError: (_error, _variables, context) => restoreSnapshot(queryClient, context),
+    onSuccess: (requirement, { projectId }, context) => {
+      setRequirements(queryClient, projectId, requirements =>
+        requirements.map(r => (r.id === context?.placeholderId ? requirement : r))
+      );
+    },
+    onSettled: (_data, _error, { projectId }) =>
+      queryClient.invalidateQueries({ queryKey: projectKeys.requirements(projectId) }),
+  });
+};
+
+export const useUpdateRequirement = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ requirement, request }: { requirement: ProjectRequirement; request: UpdateRequirementRequest }) =>
+      projectApi.updateRequirement(requirement.projectId, requirement.id, request),
+    onMutate: async ({ requirement, request }) => {
+      const snapshot = await takeSnapshot(queryClient, requirement.projectId);
+      setRequirements(queryClient, requirement.projectId, replaceRequirement(editedRequirement(requirement, request)));
+      return snapshot;
+    },
+    onError: (_error, _variables, snapshot) => restoreSnapshot(queryClient, snapshot),
+    onSuccess: requirement => setRequirements(queryClient, requirement.projectId, replaceRequirement(requirement)),
+    // A text change drops the requirement's intentional-conflict marks on the server
+    onSettled: (_data, _error, { requirement }) =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: projectKeys.requirements(requirement.projectId) }),
+        queryClient.invalidateQueries({ queryKey: projectKeys.intentionalConflicts(requirement.projectId) }),
+      ]),
+  });
+};
+
+export const useDeleteRequirement = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (requirement: ProjectRequirement) =>
+      projectApi.deleteRequirement(requirement.projectId, requirement.id),
+    onMutate: async requirement => {
+      const snapshot = await takeSnapshot(queryClient, requirement.projectId);
+      setRequirements(queryClient, requirement.projectId, requirements =>
+        requirements.filter(r => r.id !== requirement.id)
+      );
+      return snapshot;
+    },
+    onError: (_error, _variables, snapshot) => restoreSnapshot(queryClient, snapshot),
+    // The server drops the requirement's conflict marks and waivers with it
+    onSettled: (_data, _error, requirement) =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: projectKeys.requirements(requirement.projectId) }),
+        queryClient.invalidateQueries({ queryKey: projectKeys.intentionalConflicts(requirement.projectId) }),
+        queryClient.invalidateQueries({ queryKey: projectKeys.issueWaivers(requirement.projectId) }),
+      ]),
+  });
+};
+
+// The server assigns the parts' ids, so the cache is updated on success only
+export const useSplitRequirement = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ requirement, request }: { requirement: ProjectRequirement; request: SplitRequirementRequest }) =>
+      projectApi.splitRequirement(requirement.projectId, requirement.id, request),
+    onSuccess: ({ retired, created }) => {
+      setRequirements(queryClient, retired.projectId, requirements => [...replaceRequirement(retired)(requirements), ...created]);
+    },
+    onSettled: (_data, _error, { requirement }) =>
+      queryClient.invalidateQueries({ queryKey: projectKeys.requirements(requirement.projectId) }),
+  });
+};
+
+// Keeps one requirement and retires its duplicates; the cache is updated on success only
+export const useMergeRequirements = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ kept, request }: { kept: ProjectRequirement; request: MergeRequirementsRequest }) =>
+      projectApi.mergeRequirements(kept.projectId, kept.id, request),
+    onSuccess: ({ kept, retired }) => {
+      setRequirements(queryClient, kept.projectId, requirements =>
+        [kept, ...retired].reduce((all, requirement) => replaceRequirement(requirement)(all), requirements)
+      );
+    },
+    onSettled: (_data, _error, { kept }) =>
+      queryClient.invalidateQueries({ queryKey: projectKeys.requirements(kept.projectId) }),
+  });
+};
+
+// Analysis and enhancement results aren't known up front, so these update the cache on success only
+export const useAnalyzeRequirement = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ requirement, signal }: { requirement: ProjectRequirement; signal?: AbortSignal }) =>
+      projectApi.analyzeRequirement(
+        requirement.projectId,
+        requirement.id,
+        analysisContext(queryClient, requirement.projectId),
+        { signal }
+      ),
+    onSuccess: (analysis, { requirement }) => {
+      setRequirements(queryClient, requirement.projectId, requirements =>
+        requirements.map(r =>
+          r.id === requirement.id
+            ? { ...r, status: 'Analyzed', qualityScore: analysis.overallScore, analysis }
+            : r
+        )
+      );
+    },
+  });
+};
+
+export const useEnhanceRequirement = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ requirement, signal }: { requirement: ProjectRequirement; signal?: AbortSignal }) =>
+      projectApi.enhanceRequirement(
+        requirement.projectId,
+        requirement.id,
+        analysisContext(queryClient, requirement.projectId),
+        { signal }
+      ),
+    onSuccess: (enhancements, { requirement }) => {
+      setRequirements(queryClient, requirement.projectId, requirements =>
+        requirements.map(r => (r.id === requirement.id ? { ...r, status: 'Enhanced', enhancements } : r))
+      );
+    },
+  });
+};
+
+// Streams analyze-all results into the cache row by row; the list is refetched once the stream ends
+export const useAnalyzeAllRequirements = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ projectId, signal, onEvent }: {
+      projectId: number;
+      signal?: AbortSignal;
+      onEvent?: (event: AnalysisStreamEvent) => void;
+    }) =>
+      projectApi.streamAnalyzeAll(projectId, analysisContext(queryClient, projectId), {
+        signal,
+        onEvent: event => {
+          if (event.type === 'result' && event.requirementId !== undefined) {
+            const { requirementId, analysis } = event;
+            setRequirements(queryClient, projectId, requirements =>
+              requirements.map(r =>
+                r.id === requirementId
+                  ? { ...r, status: r.status === 'Enhanced' ? 'Enhanced' : 'Analyzed', qualityScore: analysis.overallScore, analysis }
+                  : r
+              )
+            );
+          }
+          onEvent?.(event);
+        },
+      }),
+    onSettled: (_data, _error, { projectId }) =>
+      queryClient.invalidateQueries({ queryKey: projectKeys.requirements(projectId) }),
+  });
+};
@@ -0,0 +1,35 @@
+// src/hooks/useQualitySettings.ts - react-query hooks for a project's quality-check settings
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { qualitySettingsApi } from '../services/api';
+import { DEFAULT_SCORING_POLICY } from '../services/quality/scoring';
+import { projectKeys } from './useProjectQueries';
+import type { QualitySettings } from '../domain';
+
+const settingsQuery = (projectId: number) => ({
+  queryKey: projectKeys.qualitySettings(projectId),
+  queryFn: ({ signal }: { signal: AbortSignal }) => qualitySettingsApi.getSettings(projectId, { signal }),
+});
+
+export const useQualitySettings = (projectId?: number) =>
+  useQuery({ ...settingsQuery(projectId ?? 0), enabled: projectId !== undefined });
+
+// Scoring policies for scores shown outside the selected project. Nothing is fetched for them: a project whose
+// settings were loaded while it was selected keeps its policy, any other gets the default.
+export const useCachedScoringPolicies = () => {
+  const queryClient = useQueryClient();
+  return (projectId: number) =>
+    queryClient.getQueryData<QualitySettings>(projectKeys.qualitySettings(projectId))?.scoring ?? DEFAULT_SCORING_POLICY;
+};
+
+export const useUpdateQualitySettings = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ projectId, settings }: { projectId: number; settings: QualitySettings }) =>
+      qualitySettingsApi.updateSettings(projectId, settings),
+    onSuccess: (settings, { projectId }) => {
+      queryClient.setQueryData<QualitySettings>(projectKeys.qualitySettings(projectId), settings);
+    },
+    // The server averages the project's scores with its scoring policy
+    onSettled: () => queryClient.invalidateQueries({ queryKey: projectKeys.list() }),
+  });
+};
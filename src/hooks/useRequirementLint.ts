@@ -0,0 +1,10 @@
+// src/hooks/useRequirementLint.ts - Live linter findings for a requirement being edited
+import { useDeferredValue, useMemo } from 'react';
+import { DEFAULT_RULES, lintRequirement, LintIssue, LintRule } from '../services/quality/linter';
+
+// Lints against a deferred copy of the text so fast typing never waits on the rules.
+// `rules` must keep its identity between renders (memoize it), or every render re-lints.
+export const useRequirementLint = (text: string, rules: LintRule[] = DEFAULT_RULES): LintIssue[] => {
+  const deferredText = useDeferredValue(text);
+  return useMemo(() => lintRequirement(deferredText, rules), [deferredText, rules]);
+};
@@ -0,0 +1,53 @@
+// src/hooks/useRulePacks.ts - react-query hooks for a project's custom rule packs
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { rulePackApi } from '../services/api';
+import { projectKeys } from './useProjectQueries';
+import type { CreateRulePackRequest, RulePack, UpdateRulePackRequest } from '../domain';
+
+const byName = (a: RulePack, b: RulePack) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+
+export const useRulePacks = (projectId?: number) =>
+  useQuery({
+    queryKey: projectKeys.rulePacks(projectId ?? 0),
+    queryFn: async ({ signal }) => (await rulePackApi.getPacks(projectId!, { signal })).sort(byName),
+    enabled: projectId !== undefined,
+  });
+
+// Pack names are unique per project, so the cache is updated on success only
+export const useCreateRulePack = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ projectId, request }: { projectId: number; request: CreateRulePackRequest }) =>
+      rulePackApi.createPack(projectId, request),
+    onSuccess: pack => {
+      queryClient.setQueryData<RulePack[]>(projectKeys.rulePacks(pack.projectId), packs =>
+        packs && [...packs, pack].sort(byName)
+      );
+    },
+  });
+};
+
+export const useUpdateRulePack = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ pack, request }: { pack: RulePack; request: UpdateRulePackRequest }) =>
+      rulePackApi.updatePack(pack.projectId, pack.id, request),
+    onSuccess: pack => {
+      queryClient.setQueryData<RulePack[]>(projectKeys.rulePacks(pack.projectId), packs =>
+        packs?.map(p => (p.id === pack.id ? pack : p)).sort(byName)
+      );
+    },
+  });
+};
+
+export const useDeleteRulePack = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (pack: RulePack) => rulePackApi.deletePack(pack.projectId, pack.id),
+    onSuccess: (_data, pack) => {
+      queryClient.setQueryData<RulePack[]>(projectKeys.rulePacks(pack.projectId), packs =>
+        packs?.filter(p => p.id !== pack.id)
+      );
+    },
+  });
+};
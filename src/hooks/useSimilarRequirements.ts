@@ -0,0 +1,20 @@
+// src/hooks/useSimilarRequirements.ts - Existing requirements that a requirement being written may duplicate
+import { useDeferredValue, useMemo } from 'react';
+import { findSimilar } from '../services/quality/similarity';
+import type { ProjectRequirement } from '../domain';
+
+export interface SimilarRequirement {
+  requirement: ProjectRequirement;
+  score: number;
+}
+
+export const similarRequirements = (text: string, requirements: ProjectRequirement[]): SimilarRequirement[] => {
+  const byId = new Map(requirements.map(requirement => [requirement.id, requirement]));
+  return findSimilar(text, requirements).map(({ id, score }) => ({ requirement: byId.get(id)!, score }));
+};
+
+// Compares a deferred copy of the text, like useRequirementLint, so typing stays responsive
+export const useSimilarRequirements = (text: string, requirements: ProjectRequirement[]): SimilarRequirement[] => {
+  const deferredText = useDeferredValue(text);
+  return useMemo(() => similarRequirements(deferredText, requirements), [deferredText, requirements]);
+};
@@ -0,0 +1,54 @@
+// src/hooks/useStreamProgress.ts - Progress and ETA for streamed analyses
+import { useCallback, useState } from 'react';
+import type { AnalysisStreamEvent } from '../domain';
+
+export interface StreamProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  startedAt: number;
+}
+
+// Average time per finished row so far, projected over the rows still outstanding
+export const estimateRemainingMs = (progress: StreamProgress, now: number = Date.now()): number | undefined => {
+  const done = progress.completed + progress.failed;
+  if (done === 0 || done >= progress.total) return undefined;
+  return ((now - progress.startedAt) / done) * (progress.total - done);
+};
+
+export const formatDuration = (ms: number): string => {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return seconds % 60 ? `${minutes}m ${seconds % 60}s` : `${minutes}m`;
+};
+
+// `begin(total)` starts the clock before the first line arrives; `handleEvent` is passed to the
+// stream as (part of) its onEvent callback
+export const useStreamProgress = () => {
+  const [progress, setProgress] = useState<StreamProgress | null>(null);
+
+  const begin = useCallback((total: number) => {
+    setProgress({ total, completed: 0, failed: 0, startedAt: Date.now() });
+  }, []);
+
+  const handleEvent = useCallback((event: AnalysisStreamEvent) => {
+    setProgress(prev => {
+      if (!prev) return prev;
+      switch (event.type) {
+        case 'start':
+          return { ...prev, total: event.total };
+        case 'result':
+          return { ...prev, completed: prev.completed + 1 };
+        case 'error':
+          return { ...prev, failed: prev.failed + 1 };
+        default:
+          return prev;
+      }
+    });
+  }, []);
+
+  const reset = useCallback(() => setProgress(null), []);
+
+  return { progress, begin, handleEvent, reset };
+};
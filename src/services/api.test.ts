@@ -0,0 +1,201 @@
+import { waitFor } from '@testing-library/react';
+import { AxiosAdapter, AxiosError, AxiosProgressEvent, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import api, { projectApi, requirementsApi } from './api';
+import { authConfig } from './config';
+import { clearTokens, getAuthState, setTokens, TokenSet } from './auth/session';
+import { CancelledError, UnauthorizedError } from './errors';
+import { isMockBackendActive, MOCK_BACKEND_HEADER } from './mock/activity';
+import type { AnalysisStreamEvent } from '../domain';
+
+// Requests are answered by `route`, which stands in for the transport; the interceptors run as usual
+type Route = (config: InternalAxiosRequestConfig) => Promise<AxiosResponse> | AxiosResponse;
+let route: Route;
+const originalAdapter = api.defaults.adapter;
+
+const respond = (config: InternalAxiosRequestConfig, data: unknown, status = 200): AxiosResponse =>
+  ({ data, status, statusText: '', headers: {}, config });
+
+const fail = (config: InternalAxiosRequestConfig, status: number): never => {
+  throw new AxiosError('Request failed', 'ERR_BAD_REQUEST', config, {}, respond(config, undefined, status));
+};
+
+// Delivers the body in `chunks`, each as an XHR progress event carrying everything received so far.
+// `onChunk` runs after each one.
+const streamed = (config: InternalAxiosRequestConfig, chunks: string[], onChunk: () => void = () => {}) => {
+  let body = '';
+  chunks.forEach(chunk => {
+    body += chunk;
+    config.onDownloadProgress?.({ loaded: body.length, bytes: chunk.length, event: { target: { responseText: body } } } as AxiosProgressEvent);
+    onChunk();
+  });
+  return respond(config, body);
+};
+
+const analysis = { overallScore: 80, issues: [], analyzedAt: '2024-01-01T00:00:00Z' };
+const line = (event: unknown) => `${JSON.stringify(event)}\n`;
+
+beforeEach(() => {
+  api.defaults.adapter = (config => Promise.resolve().then(() => route(config))) as AxiosAdapter;
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  api.defaults.adapter = originalAdapter;
+  jest.restoreAllMocks();
+});
+
+describe('streamed analyses', () => {
+  test('dispatches each line once it is complete, including a final line without a newline', async () => {
+    const events: AnalysisStreamEvent[] = [];
+    const seenAfterChunk: number[] = [];
+    route = config => streamed(config, [
+      `${line({ type: 'start', total: 1 })}{"type":"result","ind`,
+      `ex":0,"analysis":${JSON.stringify(analysis)}}\n{"type":"comp`,
+      'lete","analyzedCount":1}',
+    ], () => seenAfterChunk.push(events.length));
+
+    await requirementsApi.streamBatchAnalyze(['The system shall log in users.'], { onEvent: event => events.push(event) });
+
+    expect(seenAfterChunk).toEqual([1, 2, 2]);
+    expect(events.map(event => event.type)).toEqual(['start', 'result', 'complete']);
+    expect(events[1]).toMatchObject({ index: 0, analysis: { overallScore: 80 } });
+  });
+
+  test('skips lines that are not JSON or not a known event and carries on', async () => {
+    const events: AnalysisStreamEvent[] = [];
+    route = config => streamed(config, [
+      line({ type: 'start', total: 2 }),
+      'not json\n',
+      line({ type: 'progress', index: 0 }),
+      line({ type: 'result', index: 1, analysis }),
+      line({ type: 'complete', analyzedCount: 1 }),
+    ]);
+
+    await requirementsApi.streamBatchAnalyze(['a', 'b'], { onEvent: event => events.push(event) });
+
+    expect(events.map(event => event.type)).toEqual(['start', 'result', 'complete']);
+    const skipped = (console.warn as jest.Mock).mock.calls.filter(([message]) => String(message).startsWith('Skipping'));
+    expect(skipped.map(([, text]) => text)).toEqual(['not json', line({ type: 'progress', index: 0 }).trim()]);
+  });
+
+  test('replays a one-shot analyze-all like the stream, with the requirement ids', async () => {
+    const requirement = (id: number, status: string) => ({
+      id, projectId: 1, text: `Requirement ${id}`, status, createdAt: '2024-01-01T00:00:00Z', updatedAt: '2024-01-01T00:00:00Z',
+    });
+    route = config => {
+      if (config.url === '/projects/1/analyze-all/stream') return fail(config, 404);
+      if (config.url === '/projects/1/analyze-all') return respond(config, { analyzedCount: 2, results: [analysis, analysis] });
+      return respond(config, [requirement(4, 'Analyzed'), requirement(5, 'Retired'), requirement(6, 'Draft')]);
+    };
+    const events: AnalysisStreamEvent[] = [];
+
+    await projectApi.streamAnalyzeAll(1, undefined, { onEvent: event => events.push(event) });
+
+    expect(events).toEqual([
+      { type: 'start', total: 2 },
+      { type: 'result', index: 0, requirementId: 4, analysis },
+      { type: 'result', index: 1, requirementId: 6, analysis },
+      { type: 'complete', analyzedCount: 2 },
+    ]);
+  });
+});
+
+describe('expired access tokens', () => {
+  const user = { username: 'demo', displayName: 'Demo User' };
+  const signedIn = (accessToken: string): TokenSet =>
+    ({ accessToken, refreshToken: `${accessToken}-refresh`, expiresAt: Date.now() + 3600000, method: 'password', user });
+  let calls: string[];
+
+  // GET /projects answers only `validToken`; /auth/refresh hands out `refreshedToken`, or fails without one
+  const backend = (validToken: string, refreshedToken?: string): Route => config => {
+    calls.push(config.url!);
+    if (config.url === '/auth/refresh') {
+      return refreshedToken
+        ? respond(config, { accessToken: refreshedToken, refreshToken: `${refreshedToken}-refresh`, expiresIn: 3600, user })
+        : fail(config, 401);
+    }
+    return config.headers.Authorization === `Bearer ${validToken}` ? respond(config, []) : fail(config, 401);
+  };
+
+  beforeAll(() => {
+    authConfig.enabled = true;
+  });
+
+  afterAll(() => {
+    authConfig.enabled = false;
+  });
+
+  beforeEach(() => {
+    calls = [];
+    setTokens(signedIn('old'));
+  });
+
+  afterEach(() => {
+    clearTokens();
+  });
+
+  test('refresh the session and retry the request once', async () => {
+    route = backend('new', 'new');
+    await expect(projectApi.getProjects()).resolves.toEqual([]);
+    expect(calls).toEqual(['/projects', '/auth/refresh', '/projects']);
+
+    calls = [];
+    route = backend('never', 'newer');
+    await expect(projectApi.getProjects()).rejects.toBeInstanceOf(UnauthorizedError);
+    expect(calls).toEqual(['/projects', '/auth/refresh', '/projects']);
+  });
+
+  test('hold the request until the user signs in again when the refresh fails', async () => {
+    route = backend('fresh');
+    const request = projectApi.getProjects();
+    await waitFor(() => expect(getAuthState().status).toBe('expired'));
+    setTokens(signedIn('fresh'));
+    await expect(request).resolves.toEqual([]);
+  });
+
+  test('fail held requests when the user signs out instead', async () => {
+    route = backend('fresh');
+    const request = projectApi.getProjects();
+    await waitFor(() => expect(getAuthState().status).toBe('expired'));
+    clearTokens();
+    await expect(request).rejects.toBeInstanceOf(UnauthorizedError);
+  });
+});
+
+describe('health check', () => {
+  test('reports a failed check as an error without logging it again, and rethrows cancellation', async () => {
+    route = config => fail(config, 404);
+    await expect(requirementsApi.testConnection()).resolves.toMatchObject({ status: 'error' });
+    expect(console.error).not.toHaveBeenCalledWith('Connection test failed:', expect.anything());
+
+    const controller = new AbortController();
+    route = config => {
+      controller.abort();
+      throw new AxiosError('canceled', 'ERR_CANCELED', config);
+    };
+    await expect(requirementsApi.testConnection({ signal: controller.signal })).rejects.toBeInstanceOf(CancelledError);
+  });
+});
+
+describe('mock backend', () => {
+  test('is reported active while responses come from it, failed ones included', async () => {
+    const fromMock = (config: InternalAxiosRequestConfig, status = 200) =>
+      ({ ...respond(config, [], status), headers: { [MOCK_BACKEND_HEADER]: 'true' } });
+
+    route = config => fromMock(config);
+    await projectApi.getProjects();
+    expect(isMockBackendActive()).toBe(true);
+
+    route = config => respond(config, []);
+    await projectApi.getProjects();
+    expect(isMockBackendActive()).toBe(false);
+
+    route = config => {
+      throw new AxiosError('Request failed', 'ERR_BAD_REQUEST', config, {}, fromMock(config, 404));
+    };
+    await expect(projectApi.getProjects()).rejects.toThrow();
+    expect(isMockBackendActive()).toBe(true);
+  });
+});
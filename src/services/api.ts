@@ -1,20 +1,165 @@
-import axios from 'axios';
-
-// Update to match the backend port from launchSettings.json
-const API_BASE_URL = 'http://localhost:5074/api';
+import axios, { AxiosAdapter, AxiosRequestConfig } from 'axios';
+import { apiConfig, authConfig, concurrencyLimits, mockConfig, timeoutPolicies, TimeoutPolicy } from './config';
+import { refreshOidcTokens } from './auth/oidc';
+import { fromTokenResponse, getTokens, markExpired, setTokens, TokenSet, waitForSignIn } from './auth/session';
+import { CancelledError, NotFoundError, toApiError, UnauthorizedError } from './errors';
+import { createLimiter } from './limiter';
+import { noteResponseSource } from './mock/activity';
+import { mockAdapter } from './mock/adapter';
+import { isActiveRequirement } from './quality/scoring';
+import { computeBackoff, defaultRetryPolicy, isRetryableError, isRetryableMethod, sleep } from './retry';
+import {
+  validateAnalysis,
+  validateAnalysisList,
+  validateAnalyzeAll,
+  validateEnhancement,
+  validateGeneration,
+  validateRequirement,
+  validateMerge,
+  validateRequirementList,
+  validateSplit,
+  validateStakeholderSimulation,
+  validateStreamEvent
+} from './validation';
+import type {
+  Project,
+  ProjectRequirement,
+  ProjectStats,
+  CreateProjectRequest,
+  UpdateProjectRequest,
+  CreateRequirementRequest,
+  UpdateRequirementRequest,
+  SplitRequirementRequest,
+  SplitRequirementResponse,
+  MergeRequirementsRequest,
+  MergeRequirementsResponse,
+  AnalysisContext,
+  AnalysisResponse,
+  AnalysisStreamEvent,
+  AnalyzeRequest,
+  BatchAnalyzeRequest,
+  EnhanceRequest,
+  AnalyzeAllResponse,
+  EnhancementResponse,
+  GlossaryTerm,
+  CreateGlossaryTermRequest,
+  UpdateGlossaryTermRequest,
+  IntentionalConflict,
+  CreateIntentionalConflictRequest,
+  QualitySettings,
+  RulePack,
+  CreateRulePackRequest,
+  UpdateRulePackRequest,
+  IssueWaiver,
+  CreateIssueWaiverRequest,
+  QualityIssue,
+  GenerateRequirementsRequest,
+  GenerateRequirementsResponse,
+  HealthResponse,
+  StakeholderRole,
+  SimulationHistoryItem,
+  StakeholderSimulationRequest,
+  StakeholderSimulationResponse,
+  LoginRequest,
+  RefreshRequest,
+  TokenResponse,
+} from '../domain';
 
+// Base URL, timeout and logging come from REACT_APP_* variables (see .env)
 const api = axios.create({
-  baseURL: API_BASE_URL,
+  baseURL: apiConfig.baseUrl,
   headers: {
     'Content-Type': 'application/json',
   },
-  timeout: 10000, // 10 second timeout
+  timeout: apiConfig.timeout,
 });
 
-// Request interceptor for debugging - reduced logging
+// Extra per-request settings understood by the interceptors and adapter below
+interface ClientRequestConfig extends AxiosRequestConfig {
+  policy?: TimeoutPolicy;
+  retrySafe?: boolean;
+  retryCount?: number;
+  // Sign-in routes go out without a bearer token and never trigger re-authentication
+  skipAuth?: boolean;
+  authRetried?: boolean;
+}
+
+// Concurrency limiting happens at the adapter level, so retries queue like any other request.
+// LLM-backed calls get their own, much smaller, pool.
+const crudLimiter = createLimiter(concurrencyLimits.crud);
+const llmLimiter = createLimiter(concurrencyLimits.llm);
+const httpAdapter = axios.getAdapter(axios.defaults.adapter);
+const NOT_UNREACHABLE_CODES = ['ERR_CANCELED', 'ECONNABORTED', 'ETIMEDOUT'];
+
+// REACT_APP_USE_MOCK_BACKEND=true serves everything from the in-browser mock backend (./mock);
+// REACT_APP_ENABLE_MOCK_FALLBACK=true only uses it when the real backend can't be reached. Health checks
+// never fall back: the mock would answer 'healthy' and hide the outage they are there to report.
+const transportAdapter: AxiosAdapter = (config) => {
+  if (mockConfig.mode === 'always') return mockAdapter(config);
+  if (mockConfig.mode === 'off' || (config as ClientRequestConfig).policy === 'health') return httpAdapter(config);
+  return httpAdapter(config).catch((error) => {
+    if (axios.isAxiosError(error) && !error.response && !NOT_UNREACHABLE_CODES.includes(error.code || '')) {
+      if (apiConfig.enableLogs) {
+        console.log('API Mock Fallback:', config.method?.toUpperCase(), config.url);
+      }
+      return mockAdapter(config);
+    }
+    throw error;
+  });
+};
+
+const limitedAdapter: AxiosAdapter = (config) => {
+  const { policy } = config as ClientRequestConfig;
+  if (policy === 'health') return transportAdapter(config);
+  const limiter = policy === 'llm' || policy === 'batch' ? llmLimiter : crudLimiter;
+  return limiter.run(() => transportAdapter(config), config.signal);
+};
+
+api.defaults.adapter = limitedAdapter;
+
+// One refresh at a time: concurrent requests that find the token stale all wait for the same one.
+// Resolves to null when the session can't be refreshed.
+let refreshing: Promise<TokenSet | null> | null = null;
+
+const refreshSession = (): Promise<TokenSet | null> => {
+  if (!refreshing) {
+    const current = getTokens();
+    refreshing = (async () => {
+      if (!current?.refreshToken) return null;
+      try {
+        const next = current.method === 'oidc'
+          ? await refreshOidcTokens(current)
+          : fromTokenResponse(await authApi.refresh(current.refreshToken));
+        setTokens(next);
+        return next;
+      } catch {
+        return null;
+      }
+    })().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+};
+
+// Access token for the next request, refreshed shortly before it expires
+const getAccessToken = async (): Promise<string | undefined> => {
+  const tokens = getTokens();
+  if (!tokens) return undefined;
+  if (tokens.expiresAt - Date.now() > authConfig.refreshLeewayMs) return tokens.accessToken;
+  return (await refreshSession())?.accessToken ?? tokens.accessToken;
+};
+
+// Attaches the bearer token; logs requests when REACT_APP_ENABLE_API_LOGS=true
 api.interceptors.request.use(
-  (config) => {
-    console.log('API Request:', config.method?.toUpperCase(), config.url);
+  async (config) => {
+    if (authConfig.enabled && !(config as ClientRequestConfig).skipAuth) {
+      const token = await getAccessToken();
+      if (token) config.headers.Authorization = `Bearer ${token}`;
+    }
+    if (apiConfig.enableLogs) {
+      console.log('API Request:', config.method?.toUpperCase(), config.url);
+    }
     return config;
   },
   (error) => {
@@ -23,96 +168,516 @@ api.interceptors.request.use(
   }
 );
 
-// Response interceptor for error handling - improved
+// Response interceptor: transient failures of retry-safe requests are retried with backoff;
+// every other failure leaves the client as a typed ApiError (see ./errors). Every response, failed or not,
+// updates whether the mock backend is answering.
 api.interceptors.response.use(
   (response) => {
-    console.log('API Response:', response.status, response.config.url);
+    noteResponseSource(response);
+    if (apiConfig.enableLogs) {
+      console.log('API Response:', response.status, response.config.url);
+    }
     return response;
   },
-  (error) => {
-    if (error.code === 'ECONNREFUSED') {
-      console.error('Connection refused - ensure backend is running on port 5074');
+  async (error) => {
+    if (axios.isAxiosError(error) && error.response) noteResponseSource(error.response);
+    const apiError = toApiError(error);
+    const config = error?.config as ClientRequestConfig | undefined;
+    const attempt = config?.retryCount ?? 0;
+
+    // A rejected token is refreshed once; if that fails the request waits, with the app and any unsaved
+    // input left in place, until the user signs in again (or the request is cancelled)
+    if (apiError instanceof UnauthorizedError && authConfig.enabled && config && !config.skipAuth && !config.authRetried) {
+      if (!(await refreshSession())) {
+        markExpired();
+        await waitForSignIn(config.signal);
+      }
+      return api.request({ ...config, authRetried: true } as ClientRequestConfig);
     }
-    console.error('API Error:', error.response?.status, error.message);
-    return Promise.reject(error);
+
+    if (
+      config &&
+      attempt < defaultRetryPolicy.maxRetries &&
+      isRetryableMethod(config.method, config.retrySafe) &&
+      isRetryableError(apiError)
+    ) {
+      const delay = computeBackoff(attempt, apiError);
+      if (apiConfig.enableLogs) {
+        console.log(`API Retry ${attempt + 1}/${defaultRetryPolicy.maxRetries} in ${delay}ms:`, config.url, apiError.message);
+      }
+      await sleep(delay, config.signal);
+      return api.request({ ...config, retryCount: attempt + 1 } as ClientRequestConfig);
+    }
+
+    if (apiConfig.enableLogs) {
+      if (apiError.kind === 'network') {
+        console.error(`Connection refused - ensure backend is running at ${apiConfig.baseUrl}`);
+      }
+      console.error('API Error:', apiError.name, apiError.status, apiError.message);
+    }
+    return Promise.reject(apiError);
   }
 );
 
-// Type definitions
-export interface QualityIssue {
-  type: 'ambiguity' | 'completeness' | 'consistency' | 'verifiability' | 'traceability';
-  severity: 'critical' | 'major' | 'minor';
-  description: string;
-  problematicText: string;
-  suggestion: string;
+// Per-call options. Every route accepts an AbortSignal so long-running calls can be cancelled.
+export interface RequestOptions {
+  signal?: AbortSignal;
 }
 
-export interface RequirementAnalysis {
-  overallScore: number;
-  issues: QualityIssue[];
-  analyzedAt: string;
-}
+// `retrySafe` marks POSTs that may be repeated after a transient failure without side effects
+const withPolicy = (policy: TimeoutPolicy, options: RequestOptions = {}, retrySafe = false): ClientRequestConfig => ({
+  signal: options.signal,
+  timeout: timeoutPolicies[policy],
+  policy,
+  retrySafe,
+});
 
-export interface RequirementEnhancement {
-  text: string;
-  changes: string[];
-  improvements: string[];
-  qualityScore: number;
-  rationale?: string;
+// Options for streamed analyses; `onEvent` is called once per NDJSON line as it arrives
+export interface StreamOptions extends RequestOptions {
+  onEvent: (event: AnalysisStreamEvent) => void;
 }
 
-export interface EnhancementResponse {
-  enhancements: RequirementEnhancement[];
-  recommendedIndex?: number;
-}
+// Hands each complete line of a growing response body to `onLine` exactly once.
+// `final` flushes a trailing line that has no newline.
+const createLineReader = (onLine: (line: string) => void) => {
+  let consumed = 0;
+  return (text: string, final = false) => {
+    const end = final ? text.length : text.lastIndexOf('\n') + 1;
+    if (end <= consumed) return;
+    text.slice(consumed, end).split('\n').forEach(line => {
+      if (line.trim()) onLine(line);
+    });
+    consumed = end;
+  };
+};
 
-export interface AnalyzeRequest {
-  text: string;
-  projectId?: string;
-}
+// POSTs to an NDJSON endpoint and dispatches each line as soon as it is downloaded. Partial bodies come from
+// the XHR progress events; whatever is left is flushed when the response completes. Lines that fail
+// validation are skipped (and recorded in the response diagnostics) instead of aborting the stream.
+const streamAnalyses = async (route: string, body: unknown, options: StreamOptions): Promise<void> => {
+  const read = createLineReader(line => {
+    let event: AnalysisStreamEvent;
+    try {
+      event = validateStreamEvent(JSON.parse(line), route);
+    } catch {
+      console.warn(`Skipping unreadable line from ${route}:`, line);
+      return;
+    }
+    options.onEvent(event);
+  });
 
-export interface EnhanceRequest {
-  text: string;
-  issues?: QualityIssue[];
-}
+  const response = await api.post<string>(route, body, {
+    ...withPolicy('batch', options),
+    headers: { Accept: 'application/x-ndjson' },
+    responseType: 'text',
+    onDownloadProgress: (progress) => {
+      const partial = (progress.event?.target as XMLHttpRequest | undefined)?.responseText;
+      if (typeof partial === 'string') read(partial);
+    },
+  });
+  read(typeof response.data === 'string' ? response.data : '', true);
+};
+
+// Replays a one-shot result as stream events, for backends that don't offer the streaming route yet.
+// `requirementIds` are the stored requirements the results belong to, in the same order.
+const replayAsStream = (results: AnalysisResponse[], onEvent: StreamOptions['onEvent'], requirementIds: number[] = []) => {
+  onEvent({ type: 'start', total: results.length });
+  results.forEach((analysis, index) => onEvent({ type: 'result', index, requirementId: requirementIds[index], analysis }));
+  onEvent({ type: 'complete', analyzedCount: results.length });
+};
+
+// Username/password sessions. OIDC tokens come from the identity provider instead (see ./auth/oidc).
+export const authApi = {
+  login: async (request: LoginRequest, options?: RequestOptions): Promise<TokenResponse> => {
+    const response = await api.post<TokenResponse>('/auth/login', request, { ...withPolicy('crud', options), skipAuth: true } as ClientRequestConfig);
+    return response.data;
+  },
+
+  // Exchanges a refresh token for a new token pair; the old refresh token stops working
+  refresh: async (refreshToken: string): Promise<TokenResponse> => {
+    const body: RefreshRequest = { refreshToken };
+    const response = await api.post<TokenResponse>('/auth/refresh', body, { ...withPolicy('crud'), skipAuth: true } as ClientRequestConfig);
+    return response.data;
+  },
+
+  logout: async (refreshToken: string): Promise<void> => {
+    const body: RefreshRequest = { refreshToken };
+    await api.post('/auth/logout', body, { ...withPolicy('crud'), skipAuth: true } as ClientRequestConfig);
+  },
+};
 
 // API functions with better error handling
 export const requirementsApi = {
-  // Test API connection
-  testConnection: async (): Promise<{ status: string; message: string }> => {
+  // Test API connection. A failed check reports status 'error' (the interceptor logs it); a cancelled one rethrows.
+  testConnection: async (options?: RequestOptions): Promise<HealthResponse> => {
     try {
-      const response = await api.get('/requirements/health');
+      const response = await api.get<HealthResponse>('/requirements/health', withPolicy('health', options));
       return response.data;
     } catch (error) {
-      console.error('Connection test failed:', error);
-      return { status: 'error', message: 'Failed to connect to API' };
+      if (error instanceof CancelledError) throw error;
+      return { status: 'error', message: 'Failed to connect to API', perplexityConnected: false };
     }
   },
 
   // Analyze a single requirement for quality issues
-  analyzeRequirement: async (requirement: string): Promise<RequirementAnalysis> => {
-    const response = await api.post<RequirementAnalysis>('/requirements/analyze', {
-      text: requirement
-    });
-    return response.data;
+  analyzeRequirement: async (requirement: string, options?: RequestOptions): Promise<AnalysisResponse> => {
+    const body: AnalyzeRequest = { text: requirement };
+    const response = await api.post<unknown>('/requirements/analyze', body, withPolicy('llm', options, true));
+    return validateAnalysis(response.data, '/requirements/analyze');
   },
 
   // Enhance a requirement based on identified issues
-  enhanceRequirement: async (requirement: string, issues?: QualityIssue[]): Promise<EnhancementResponse> => {
-    const response = await api.post<EnhancementResponse>('/requirements/enhance', {
-      text: requirement,
-      issues: issues
-    });
-    return response.data;
+  enhanceRequirement: async (
+    requirement: string,
+    issues?: QualityIssue[],
+    options?: RequestOptions
+  ): Promise<EnhancementResponse> => {
+    const body: EnhanceRequest = { text: requirement, issues };
+    const response = await api.post<unknown>('/requirements/enhance', body, withPolicy('llm', options, true));
+    return validateEnhancement(response.data, '/requirements/enhance');
   },
 
   // Batch analyze multiple requirements
-  batchAnalyze: async (requirements: string[]): Promise<RequirementAnalysis[]> => {
-    const response = await api.post<RequirementAnalysis[]>('/requirements/batch-analyze', {
-      requirements: requirements
-    });
+  batchAnalyze: async (requirements: string[], options?: RequestOptions): Promise<AnalysisResponse[]> => {
+    const body: BatchAnalyzeRequest = { requirements };
+    const response = await api.post<unknown>('/requirements/batch-analyze', body, withPolicy('batch', options, true));
+    return validateAnalysisList(response.data, '/requirements/batch-analyze');
+  },
+
+  // Batch analyze with one result event per requirement as soon as it is ready
+  streamBatchAnalyze: async (requirements: string[], options: StreamOptions): Promise<void> => {
+    try {
+      const body: BatchAnalyzeRequest = { requirements };
+      await streamAnalyses('/requirements/batch-analyze/stream', body, options);
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) throw error;
+      replayAsStream(await requirementsApi.batchAnalyze(requirements, options), options.onEvent);
+    }
+  }
+};
+
+// Project and project-requirement operations
+export const projectApi = {
+  getProjects: async (options?: RequestOptions): Promise<Project[]> => {
+    const response = await api.get<Project[]>('/projects', withPolicy('crud', options));
+    return response.data;
+  },
+
+  getProject: async (id: number, options?: RequestOptions): Promise<Project> => {
+    const response = await api.get<Project>(`/projects/${id}`, withPolicy('crud', options));
+    return response.data;
+  },
+
+  createProject: async (request: CreateProjectRequest, options?: RequestOptions): Promise<Project> => {
+    const response = await api.post<Project>('/projects', request, withPolicy('crud', options));
+    return response.data;
+  },
+
+  updateProject: async (id: number, request: UpdateProjectRequest, options?: RequestOptions): Promise<Project> => {
+    const response = await api.put<Project>(`/projects/${id}`, request, withPolicy('crud', options));
+    return response.data;
+  },
+
+  deleteProject: async (id: number, options?: RequestOptions): Promise<void> => {
+    await api.delete(`/projects/${id}`, withPolicy('crud', options));
+  },
+
+  getProjectStats: async (id: number, options?: RequestOptions): Promise<ProjectStats> => {
+    const response = await api.get<ProjectStats>(`/projects/${id}/stats`, withPolicy('crud', options));
+    return response.data;
+  },
+
+  getProjectRequirements: async (projectId: number, options?: RequestOptions): Promise<ProjectRequirement[]> => {
+    const route = `/projects/${projectId}/requirements`;
+    const response = await api.get<unknown>(route, withPolicy('crud', options));
+    return validateRequirementList(response.data, route);
+  },
+
+  getRequirement: async (
+    projectId: number,
+    requirementId: number,
+    options?: RequestOptions
+  ): Promise<ProjectRequirement> => {
+    const route = `/projects/${projectId}/requirements/${requirementId}`;
+    const response = await api.get<unknown>(route, withPolicy('crud', options));
+    return validateRequirement(response.data, route);
+  },
+
+  addRequirement: async (
+    projectId: number,
+    request: CreateRequirementRequest,
+    options?: RequestOptions
+  ): Promise<ProjectRequirement> => {
+    const route = `/projects/${projectId}/requirements`;
+    const response = await api.post<unknown>(route, request, withPolicy('crud', options));
+    return validateRequirement(response.data, route);
+  },
+
+  updateRequirement: async (
+    projectId: number,
+    requirementId: number,
+    request: UpdateRequirementRequest,
+    options?: RequestOptions
+  ): Promise<ProjectRequirement> => {
+    const route = `/projects/${projectId}/requirements/${requirementId}`;
+    const response = await api.put<unknown>(route, request, withPolicy('crud', options));
+    return validateRequirement(response.data, route);
+  },
+
+  deleteRequirement: async (projectId: number, requirementId: number, options?: RequestOptions): Promise<void> => {
+    await api.delete(`/projects/${projectId}/requirements/${requirementId}`, withPolicy('crud', options));
+  },
+
+  // Creates the parts and retires the original in one call; the parts keep `derivedFromId`
+  splitRequirement: async (
+    projectId: number,
+    requirementId: number,
+    request: SplitRequirementRequest,
+    options?: RequestOptions
+  ): Promise<SplitRequirementResponse> => {
+    const route = `/projects/${projectId}/requirements/${requirementId}/split`;
+    const response = await api.post<unknown>(route, request, withPolicy('crud', options));
+    return validateSplit(response.data, route);
+  },
+
+  // Retires the duplicates in one call; each keeps `mergedIntoId` pointing at the kept requirement
+  mergeRequirements: async (
+    projectId: number,
+    requirementId: number,
+    request: MergeRequirementsRequest,
+    options?: RequestOptions
+  ): Promise<MergeRequirementsResponse> => {
+    const route = `/projects/${projectId}/requirements/${requirementId}/merge`;
+    const response = await api.post<unknown>(route, request, withPolicy('crud', options));
+    return validateMerge(response.data, route);
+  },
+
+  // `context` (the project glossary) is passed to the LLM so its findings and rewrites keep to the project's vocabulary
+  analyzeRequirement: async (
+    projectId: number,
+    requirementId: number,
+    context?: AnalysisContext,
+    options?: RequestOptions
+  ): Promise<AnalysisResponse> => {
+    const route = `/projects/${projectId}/requirements/${requirementId}/analyze`;
+    const response = await api.post<unknown>(route, context, withPolicy('llm', options, true));
+    return validateAnalysis(response.data, route);
+  },
+
+  enhanceRequirement: async (
+    projectId: number,
+    requirementId: number,
+    context?: AnalysisContext,
+    options?: RequestOptions
+  ): Promise<EnhancementResponse> => {
+    const route = `/projects/${projectId}/requirements/${requirementId}/enhance`;
+    const response = await api.post<unknown>(route, context, withPolicy('llm', options, true));
+    return validateEnhancement(response.data, route);
+  },
+
+  analyzeAllRequirements: async (
+    projectId: number,
+    context?: AnalysisContext,
+    options?: RequestOptions
+  ): Promise<AnalyzeAllResponse> => {
+    const route = `/projects/${projectId}/analyze-all`;
+    const response = await api.post<unknown>(route, context, withPolicy('batch', options, true));
+    return validateAnalyzeAll(response.data, route);
+  },
+
+  // Analyze every requirement of a project, streaming one result event per requirement
+  streamAnalyzeAll: async (projectId: number, context: AnalysisContext | undefined, options: StreamOptions): Promise<void> => {
+    try {
+      await streamAnalyses(`/projects/${projectId}/analyze-all/stream`, context, options);
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) throw error;
+      const { results } = await projectApi.analyzeAllRequirements(projectId, context, options);
+      // analyze-all answers for the active requirements in stored order; without a match the ids are left out
+      const analyzed = (await projectApi.getProjectRequirements(projectId, options)).filter(isActiveRequirement);
+      replayAsStream(results, options.onEvent, analyzed.length === results.length ? analyzed.map(r => r.id) : []);
+    }
+  },
+
+  generateRequirements: async (
+    projectId: number,
+    request: GenerateRequirementsRequest,
+    options?: RequestOptions
+  ): Promise<GenerateRequirementsResponse> => {
+    const route = `/projects/${projectId}/requirements/generate`;
+    const response = await api.post<unknown>(route, request, withPolicy('llm', options, true));
+    return validateGeneration(response.data, route);
+  }
+};
+
+// Project glossary: terms, definitions, synonyms and deprecated/forbidden wording
+export const glossaryApi = {
+  getTerms: async (projectId: number, options?: RequestOptions): Promise<GlossaryTerm[]> => {
+    const response = await api.get<GlossaryTerm[]>(`/projects/${projectId}/glossary`, withPolicy('crud', options));
+    return response.data;
+  },
+
+  createTerm: async (
+    projectId: number,
+    request: CreateGlossaryTermRequest,
+    options?: RequestOptions
+  ): Promise<GlossaryTerm> => {
+    const response = await api.post<GlossaryTerm>(`/projects/${projectId}/glossary`, request, withPolicy('crud', options));
+    return response.data;
+  },
+
+  updateTerm: async (
+    projectId: number,
+    termId: number,
+    request: UpdateGlossaryTermRequest,
+    options?: RequestOptions
+  ): Promise<GlossaryTerm> => {
+    const response = await api.put<GlossaryTerm>(
+      `/projects/${projectId}/glossary/${termId}`,
+      request,
+      withPolicy('crud', options)
+    );
+    return response.data;
+  },
+
+  deleteTerm: async (projectId: number, termId: number, options?: RequestOptions): Promise<void> => {
+    await api.delete(`/projects/${projectId}/glossary/${termId}`, withPolicy('crud', options));
+  }
+};
+
+// Conflicts are detected on the client; the server only remembers the ones marked as intended
+export const conflictApi = {
+  getIntentionalConflicts: async (projectId: number, options?: RequestOptions): Promise<IntentionalConflict[]> => {
+    const response = await api.get<IntentionalConflict[]>(
+      `/projects/${projectId}/intentional-conflicts`,
+      withPolicy('crud', options)
+    );
+    return response.data;
+  },
+
+  markIntentional: async (
+    projectId: number,
+    request: CreateIntentionalConflictRequest,
+    options?: RequestOptions
+  ): Promise<IntentionalConflict> => {
+    const response = await api.post<IntentionalConflict>(
+      `/projects/${projectId}/intentional-conflicts`,
+      request,
+      withPolicy('crud', options)
+    );
+    return response.data;
+  },
+
+  unmarkIntentional: async (projectId: number, markId: number, options?: RequestOptions): Promise<void> => {
+    await api.delete(`/projects/${projectId}/intentional-conflicts/${markId}`, withPolicy('crud', options));
+  }
+};
+
+// Thresholds of the local quality checks; the server answers with the defaults until a project saves its own
+export const qualitySettingsApi = {
+  getSettings: async (projectId: number, options?: RequestOptions): Promise<QualitySettings> => {
+    const response = await api.get<QualitySettings>(`/projects/${projectId}/quality-settings`, withPolicy('crud', options));
+    return response.data;
+  },
+
+  updateSettings: async (projectId: number, settings: QualitySettings, options?: RequestOptions): Promise<QualitySettings> => {
+    const response = await api.put<QualitySettings>(
+      `/projects/${projectId}/quality-settings`,
+      settings,
+      withPolicy('crud', options)
+    );
+    return response.data;
+  }
+};
+
+// Team-defined rule packs; the rules themselves run on the client
+export const rulePackApi = {
+  getPacks: async (projectId: number, options?: RequestOptions): Promise<RulePack[]> => {
+    const response = await api.get<RulePack[]>(`/projects/${projectId}/rule-packs`, withPolicy('crud', options));
     return response.data;
+  },
+
+  createPack: async (projectId: number, request: CreateRulePackRequest, options?: RequestOptions): Promise<RulePack> => {
+    const response = await api.post<RulePack>(`/projects/${projectId}/rule-packs`, request, withPolicy('crud', options));
+    return response.data;
+  },
+
+  updatePack: async (
+    projectId: number,
+    packId: number,
+    request: UpdateRulePackRequest,
+    options?: RequestOptions
+  ): Promise<RulePack> => {
+    const response = await api.put<RulePack>(
+      `/projects/${projectId}/rule-packs/${packId}`,
+      request,
+      withPolicy('crud', options)
+    );
+    return response.data;
+  },
+
+  deletePack: async (projectId: number, packId: number, options?: RequestOptions): Promise<void> => {
+    await api.delete(`/projects/${projectId}/rule-packs/${packId}`, withPolicy('crud', options));
+  }
+};
+
+// The waiver register; the server records who waived the issue, the client works out which issues are covered
+export const waiverApi = {
+  getWaivers: async (projectId: number, options?: RequestOptions): Promise<IssueWaiver[]> => {
+    const response = await api.get<IssueWaiver[]>(`/projects/${projectId}/issue-waivers`, withPolicy('crud', options));
+    return response.data;
+  },
+
+  createWaiver: async (projectId: number, request: CreateIssueWaiverRequest, options?: RequestOptions): Promise<IssueWaiver> => {
+    const response = await api.post<IssueWaiver>(`/projects/${projectId}/issue-waivers`, request, withPolicy('crud', options));
+    return response.data;
+  },
+
+  revokeWaiver: async (projectId: number, waiverId: number, options?: RequestOptions): Promise<void> => {
+    await api.delete(`/projects/${projectId}/issue-waivers/${waiverId}`, withPolicy('crud', options));
+  }
+};
+
+// Stakeholder interview simulation
+export const stakeholderApi = {
+  getRoles: async (projectId: number, options?: RequestOptions): Promise<StakeholderRole[]> => {
+    const response = await api.get<StakeholderRole[]>(
+      `/projects/${projectId}/stakeholder-simulation/roles`,
+      withPolicy('crud', options)
+    );
+    return response.data;
+  },
+
+  getHistory: async (projectId: number, options?: RequestOptions): Promise<SimulationHistoryItem[]> => {
+    const response = await api.get<SimulationHistoryItem[]>(
+      `/projects/${projectId}/stakeholder-simulation/history`,
+      withPolicy('crud', options)
+    );
+    return response.data;
+  },
+
+  simulate: async (
+    projectId: number,
+    request: StakeholderSimulationRequest,
+    options?: RequestOptions
+  ): Promise<StakeholderSimulationResponse> => {
+    const route = `/projects/${projectId}/stakeholder-simulation`;
+    const response = await api.post<unknown>(route, request, withPolicy('llm', options));
+    return validateStakeholderSimulation(response.data, route);
+  },
+
+  getSimulation: async (
+    projectId: number,
+    simulationId: number,
+    options?: RequestOptions
+  ): Promise<StakeholderSimulationResponse> => {
+    const route = `/projects/${projectId}/stakeholder-simulation/${simulationId}`;
+    const response = await api.get<unknown>(route, withPolicy('crud', options));
+    return validateStakeholderSimulation(response.data, route);
+  },
+
+  deleteSimulation: async (projectId: number, simulationId: number, options?: RequestOptions): Promise<void> => {
+    await api.delete(`/projects/${projectId}/stakeholder-simulation/${simulationId}`, withPolicy('crud', options));
   }
 };
 
-export default api;
\ No newline at end of file
+export default api;
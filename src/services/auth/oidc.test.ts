@@ -0,0 +1,75 @@
+import { waitFor } from '@testing-library/react';
+import { mockConfig } from '../config';
+import { authorizeWithLocalIdp, OIDC_CALLBACK_MESSAGE, refreshOidcTokens, signInWithOidcPopup } from './oidc';
+import { createCodeChallenge, createCodeVerifier } from './pkce';
+
+// The stand-in identity provider of the mock backend answers every request (REACT_APP_OIDC_ISSUER is empty)
+const PENDING_KEY = 'requirements-analyzer.oidc-pending';
+
+beforeAll(() => {
+  mockConfig.latencyMs = 0;
+});
+
+// Runs the popup flow up to the provider's redirect; `beforeCallback` may tamper with the pending sign-in
+const signIn = async (beforeCallback: () => void = () => {}) => {
+  const popup = { location: { href: '' }, closed: false, close: jest.fn() };
+  jest.spyOn(window, 'open').mockReturnValue(popup as unknown as Window);
+  const result = signInWithOidcPopup();
+  await waitFor(() => expect(popup.location.href).not.toBe(''));
+  const params = Object.fromEntries(new URL(popup.location.href).searchParams.entries());
+  const code = await authorizeWithLocalIdp(params, { username: 'demo', password: 'demo' });
+  beforeCallback();
+  window.dispatchEvent(new MessageEvent('message', {
+    origin: window.location.origin,
+    data: { type: OIDC_CALLBACK_MESSAGE, search: `?code=${code}&state=${params.state}` },
+  }));
+  return { params, result };
+};
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('PKCE', () => {
+  test('derives the S256 challenge from the verifier (RFC 7636 appendix B)', async () => {
+    expect(await createCodeChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk')).toBe('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM');
+  });
+
+  test('verifiers are fresh, URL-safe and 43-128 characters long', () => {
+    const verifier = createCodeVerifier();
+    expect(verifier).toMatch(/^[A-Za-z0-9_-]{43,128}$/);
+    expect(createCodeVerifier()).not.toBe(verifier);
+  });
+});
+
+describe('OIDC sign-in', () => {
+  test('sends the challenge of the stored verifier and exchanges the code for tokens', async () => {
+    let verifier = '';
+    const { params, result } = await signIn(() => {
+      verifier = JSON.parse(sessionStorage.getItem(PENDING_KEY)!).verifier;
+    });
+    expect(params).toMatchObject({ response_type: 'code', code_challenge_method: 'S256' });
+    expect(params.code_challenge).toBe(await createCodeChallenge(verifier));
+
+    const { tokens } = await result;
+    expect(tokens).toMatchObject({ method: 'oidc', user: { username: 'demo', displayName: 'Demo User' } });
+    expect(tokens.refreshToken).toBeTruthy();
+  });
+
+  test('fails when the code is redeemed with a different verifier', async () => {
+    const { result } = await signIn(() => {
+      const pending = JSON.parse(sessionStorage.getItem(PENDING_KEY)!);
+      sessionStorage.setItem(PENDING_KEY, JSON.stringify({ ...pending, verifier: createCodeVerifier() }));
+    });
+    await expect(result).rejects.toThrow('PKCE verification failed.');
+  });
+
+  test('refreshes with a rotated refresh token and keeps the user', async () => {
+    const { tokens } = await (await signIn()).result;
+    const refreshed = await refreshOidcTokens(tokens);
+    expect(refreshed.accessToken).not.toBe(tokens.accessToken);
+    expect(refreshed.refreshToken).not.toBe(tokens.refreshToken);
+    expect(refreshed.user).toEqual(tokens.user);
+    await expect(refreshOidcTokens(tokens)).rejects.toThrow('The refresh token is no longer valid.');
+  });
+});
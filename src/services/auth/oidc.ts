@@ -0,0 +1,233 @@
+// src/services/auth/oidc.ts - OpenID Connect authorization-code flow with PKCE
+import axios from 'axios';
+import { apiConfig, authConfig, isLocalIdp } from '../config';
+import { mockAdapter } from '../mock/adapter';
+import { createCodeChallenge, createCodeVerifier, randomString } from './pkce';
+import type { TokenSet } from './session';
+
+interface DiscoveryDocument {
+  authorization_endpoint: string;
+  token_endpoint: string;
+}
+
+interface OidcTokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  id_token?: string;
+  expires_in?: number;
+}
+
+interface IdTokenClaims {
+  sub: string;
+  nonce?: string;
+  name?: string;
+  preferred_username?: string;
+}
+
+// What has to survive the round trip to the identity provider
+interface PendingSignIn {
+  verifier: string;
+  state: string;
+  nonce: string;
+  returnTo: string;
+}
+
+export interface OidcSignInResult {
+  tokens: TokenSet;
+  returnTo: string;
+}
+
+const PENDING_KEY = 'requirements-analyzer.oidc-pending';
+export const OIDC_CALLBACK_MESSAGE = 'requirements-analyzer.oidc-callback';
+const DEFAULT_EXPIRES_IN_S = 3600;
+
+// The identity provider isn't our API: it gets its own client without bearer tokens or retries.
+// The local stand-in provider is answered by the mock backend.
+const idpClient = axios.create({ timeout: apiConfig.timeout });
+if (isLocalIdp()) {
+  idpClient.defaults.adapter = mockAdapter;
+}
+
+// OAuth errors come back as { error, error_description }
+const toOidcError = (error: unknown, fallback: string): Error => {
+  const data = axios.isAxiosError(error) ? (error.response?.data as { error?: string; error_description?: string } | undefined) : undefined;
+  return new Error(data?.error_description || data?.error || fallback);
+};
+
+let discovery: Promise<DiscoveryDocument> | null = null;
+
+const discover = (): Promise<DiscoveryDocument> => {
+  if (!discovery) {
+    discovery = idpClient
+      .get<DiscoveryDocument>(`${authConfig.oidc.issuer}/.well-known/openid-configuration`)
+      .then(response => response.data)
+      .catch(error => {
+        discovery = null;
+        throw toOidcError(error, 'The identity provider could not be reached.');
+      });
+  }
+  return discovery;
+};
+
+const decodeSegment = (segment: string): unknown => {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  return JSON.parse(atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=')));
+};
+
+// The ID token comes straight from the token endpoint over TLS, so its signature isn't checked here
+// (OIDC Core 3.1.3.7); the backend validates the access tokens it receives
+const readIdToken = (idToken: string | undefined): IdTokenClaims | undefined => {
+  if (!idToken) return undefined;
+  try {
+    return decodeSegment(idToken.split('.')[1]) as IdTokenClaims;
+  } catch {
+    return undefined;
+  }
+};
+
+const toTokenSet = (response: OidcTokenResponse, previous?: TokenSet): TokenSet => {
+  const claims = readIdToken(response.id_token);
+  return {
+    accessToken: response.access_token,
+    refreshToken: response.refresh_token ?? previous?.refreshToken,
+    idToken: response.id_token ?? previous?.idToken,
+    expiresAt: Date.now() + (response.expires_in ?? DEFAULT_EXPIRES_IN_S) * 1000,
+    method: 'oidc',
+    user: claims
+      ? {
+          username: claims.preferred_username || claims.sub,
+          displayName: claims.name || claims.preferred_username || claims.sub,
+        }
+      : previous?.user ?? { username: 'unknown', displayName: 'Unknown user' },
+  };
+};
+
+const requestTokens = async (params: Record<string, string>): Promise<OidcTokenResponse> => {
+  const { token_endpoint } = await discover();
+  try {
+    const response = await idpClient.post<OidcTokenResponse>(token_endpoint, new URLSearchParams(params), {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    });
+    return response.data;
+  } catch (error) {
+    throw toOidcError(error, 'The identity provider rejected the sign-in.');
+  }
+};
+
+const buildAuthorizationUrl = async (returnTo: string): Promise<string> => {
+  const { authorization_endpoint } = await discover();
+  const pending: PendingSignIn = {
+    verifier: createCodeVerifier(),
+    state: randomString(16),
+    nonce: randomString(16),
+    returnTo,
+  };
+  sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: authConfig.oidc.clientId,
+    redirect_uri: authConfig.oidc.redirectUri,
+    scope: authConfig.oidc.scope,
+    state: pending.state,
+    nonce: pending.nonce,
+    code_challenge: await createCodeChallenge(pending.verifier),
+    code_challenge_method: 'S256',
+  });
+  return `${authorization_endpoint}?${params.toString()}`;
+};
+
+export const isOidcCallback = (): boolean =>
+  window.location.pathname === new URL(authConfig.oidc.redirectUri).pathname;
+
+// Leaves the app for the identity provider; it comes back to the redirect URI
+export const beginOidcRedirect = async (): Promise<void> => {
+  window.location.assign(await buildAuthorizationUrl(`${window.location.pathname}${window.location.search}`));
+};
+
+// Exchanges the authorization code from the callback URL's query string for tokens
+export const completeOidcSignIn = async (search: string): Promise<OidcSignInResult> => {
+  const params = new URLSearchParams(search);
+  const stored = sessionStorage.getItem(PENDING_KEY);
+  sessionStorage.removeItem(PENDING_KEY);
+  const pending = stored ? (JSON.parse(stored) as PendingSignIn) : null;
+
+  if (params.get('error')) {
+    throw new Error(params.get('error_description') || `Sign-in failed: ${params.get('error')}`);
+  }
+  const code = params.get('code');
+  if (!pending || !code || params.get('state') !== pending.state) {
+    throw new Error('The sign-in response did not match the request. Please try again.');
+  }
+
+  const response = await requestTokens({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: authConfig.oidc.redirectUri,
+    client_id: authConfig.oidc.clientId,
+    code_verifier: pending.verifier,
+  });
+  if (readIdToken(response.id_token)?.nonce !== pending.nonce) {
+    throw new Error('The identity provider returned an ID token for a different sign-in request.');
+  }
+  return { tokens: toTokenSet(response), returnTo: pending.returnTo };
+};
+
+// Signs in through a popup so the page underneath (and any unsaved input) is left untouched.
+// The popup is opened before any await so it isn't caught by popup blockers.
+export const signInWithOidcPopup = async (): Promise<OidcSignInResult> => {
+  const popup = window.open('', 'oidc-sign-in', 'width=480,height=640');
+  if (!popup) {
+    throw new Error('The sign-in window was blocked. Allow pop-ups for this site and try again.');
+  }
+  try {
+    popup.location.href = await buildAuthorizationUrl(`${window.location.pathname}${window.location.search}`);
+  } catch (error) {
+    popup.close();
+    throw error;
+  }
+
+  const search = await new Promise<string>((resolve, reject) => {
+    const onMessage = (event: MessageEvent) => {
+      if (event.origin !== window.location.origin || event.data?.type !== OIDC_CALLBACK_MESSAGE) return;
+      cleanup();
+      resolve(String(event.data.search));
+    };
+    const closedCheck = window.setInterval(() => {
+      if (!popup.closed) return;
+      cleanup();
+      reject(new Error('The sign-in window was closed before sign-in completed.'));
+    }, 500);
+    const cleanup = () => {
+      window.removeEventListener('message', onMessage);
+      window.clearInterval(closedCheck);
+    };
+    window.addEventListener('message', onMessage);
+  });
+  return completeOidcSignIn(search);
+};
+
+export const refreshOidcTokens = async (tokens: TokenSet): Promise<TokenSet> => {
+  if (!tokens.refreshToken) throw new Error('No refresh token');
+  const response = await requestTokens({
+    grant_type: 'refresh_token',
+    refresh_token: tokens.refreshToken,
+    client_id: authConfig.oidc.clientId,
+  });
+  return toTokenSet(response, tokens);
+};
+
+// Used by the stand-in identity provider's sign-in page to obtain an authorization code
+export const authorizeWithLocalIdp = async (
+  request: Record<string, string>,
+  credentials: { username: string; password: string }
+): Promise<string> => {
+  try {
+    const response = await idpClient.post<{ code: string }>(`${authConfig.oidc.issuer}/authorize`, {
+      ...request,
+      ...credentials,
+    });
+    return response.data.code;
+  } catch (error) {
+    throw toOidcError(error, 'Sign-in failed.');
+  }
+};
@@ -0,0 +1,24 @@
+// src/services/auth/pkce.ts - PKCE (RFC 7636) and random value helpers for the OIDC flow
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+// URL-safe random string, used for the code verifier, state, nonce and opaque tokens
+export const randomString = (byteLength = 32): string => {
+  const bytes = new Uint8Array(byteLength);
+  crypto.getRandomValues(bytes);
+  return toBase64Url(bytes);
+};
+
+export const createCodeVerifier = (): string => randomString(48);
+
+// S256 challenge: BASE64URL(SHA-256(verifier))
+export const createCodeChallenge = async (verifier: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return toBase64Url(new Uint8Array(digest));
+};
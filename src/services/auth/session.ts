@@ -0,0 +1,104 @@
+// src/services/auth/session.ts - The signed-in user's tokens and session state
+import type { GenericAbortSignal } from 'axios';
+import { CancelledError, UnauthorizedError } from '../errors';
+import type { AuthUser, TokenResponse } from '../../domain';
+
+export interface TokenSet {
+  accessToken: string;
+  refreshToken?: string;
+  idToken?: string;
+  // Epoch milliseconds
+  expiresAt: number;
+  method: 'password' | 'oidc';
+  user: AuthUser;
+}
+
+// 'expired' means there was a session but it can no longer be refreshed; the app stays mounted
+// (with whatever the user was typing) and asks for credentials on top of it
+export type AuthStatus = 'signed-out' | 'signed-in' | 'expired';
+
+export interface AuthState {
+  status: AuthStatus;
+  user?: AuthUser;
+}
+
+// Tokens live in sessionStorage: they survive reloads and the OIDC redirect, but not the browser tab
+const STORAGE_KEY = 'requirements-analyzer.session';
+
+const readStoredTokens = (): TokenSet | null => {
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as TokenSet) : null;
+  } catch {
+    return null;
+  }
+};
+
+let tokens: TokenSet | null = readStoredTokens();
+let state: AuthState = tokens ? { status: 'signed-in', user: tokens.user } : { status: 'signed-out' };
+const listeners = new Set<() => void>();
+
+const setState = (next: AuthState) => {
+  state = next;
+  listeners.forEach(listener => listener());
+};
+
+export const fromTokenResponse = (response: TokenResponse): TokenSet => ({
+  accessToken: response.accessToken,
+  refreshToken: response.refreshToken,
+  expiresAt: Date.now() + response.expiresIn * 1000,
+  method: 'password',
+  user: response.user,
+});
+
+export const getAuthState = (): AuthState => state;
+
+export const subscribeAuth = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getTokens = (): TokenSet | null => tokens;
+
+export const setTokens = (next: TokenSet) => {
+  tokens = next;
+  sessionStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  setState({ status: 'signed-in', user: next.user });
+};
+
+export const clearTokens = () => {
+  tokens = null;
+  sessionStorage.removeItem(STORAGE_KEY);
+  setState({ status: 'signed-out' });
+};
+
+// Keeps the user so the sign-in prompt can say whose session ran out
+export const markExpired = () => {
+  const user = tokens?.user ?? state.user;
+  tokens = null;
+  sessionStorage.removeItem(STORAGE_KEY);
+  if (state.status !== 'expired') setState({ status: 'expired', user });
+};
+
+// Resolves the next time someone signs in; used to hold requests that failed with 401.
+// Rejects with UnauthorizedError if the user signs out instead, and with CancelledError on abort.
+export const waitForSignIn = (signal?: GenericAbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const settle = (outcome: () => void) => {
+      unsubscribe();
+      signal?.removeEventListener?.('abort', onAbort);
+      outcome();
+    };
+    const onAbort = () => settle(() => reject(new CancelledError()));
+    const unsubscribe = subscribeAuth(() => {
+      if (state.status === 'signed-in') settle(resolve);
+      else if (state.status === 'signed-out') settle(() => reject(new UnauthorizedError()));
+    });
+    signal?.addEventListener?.('abort', onAbort);
+  });
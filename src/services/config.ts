@@ -0,0 +1,92 @@
+// src/services/config.ts - Runtime configuration read from REACT_APP_* variables
+
+const DEFAULT_API_URL = 'http://localhost:5074/api';
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_LLM_TIMEOUT_MS = 3 * 60 * 1000;
+const DEFAULT_BATCH_TIMEOUT_MS = 10 * 60 * 1000;
+const HEALTH_TIMEOUT_MS = 5000;
+
+const parseNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export interface ApiConfig {
+  baseUrl: string;
+  timeout: number;
+  enableLogs: boolean;
+}
+
+export const apiConfig: ApiConfig = {
+  // Trailing slashes are stripped so route paths can always start with '/'
+  baseUrl: (process.env.REACT_APP_API_URL || DEFAULT_API_URL).replace(/\/+$/, ''),
+  timeout: parseNumber(process.env.REACT_APP_API_TIMEOUT, DEFAULT_TIMEOUT_MS),
+  enableLogs: process.env.REACT_APP_ENABLE_API_LOGS === 'true',
+};
+
+// How long each kind of operation may run before it is abandoned. CRUD calls fail fast;
+// anything that waits on the LLM provider gets minutes.
+export type TimeoutPolicy = 'crud' | 'llm' | 'batch' | 'health';
+
+export const timeoutPolicies: Record<TimeoutPolicy, number> = {
+  crud: apiConfig.timeout,
+  llm: parseNumber(process.env.REACT_APP_LLM_TIMEOUT, DEFAULT_LLM_TIMEOUT_MS),
+  batch: parseNumber(process.env.REACT_APP_BATCH_TIMEOUT, DEFAULT_BATCH_TIMEOUT_MS),
+  health: HEALTH_TIMEOUT_MS,
+};
+
+// Maximum requests in flight per kind of operation, so bulk flows don't flood the backend
+export const concurrencyLimits = {
+  crud: parseNumber(process.env.REACT_APP_MAX_CONCURRENT_REQUESTS, 6),
+  llm: parseNumber(process.env.REACT_APP_MAX_CONCURRENT_LLM_REQUESTS, 2),
+};
+
+// Background health checks (see hooks/useBackendHealth). While the backend or the LLM provider is down
+// it is polled more often, so recovery is noticed quickly.
+export const healthConfig = {
+  pollIntervalMs: parseNumber(process.env.REACT_APP_HEALTH_POLL_INTERVAL, 30 * 1000),
+  degradedPollIntervalMs: parseNumber(process.env.REACT_APP_HEALTH_DEGRADED_POLL_INTERVAL, 10 * 1000),
+};
+
+// Requirement editors re-analyze a saved requirement once edits have paused this long, so a burst of
+// saves costs one LLM call
+export const editorConfig = {
+  reanalyzeDelayMs: parseNumber(process.env.REACT_APP_REANALYZE_DELAY_MS, 1000),
+};
+
+// In-browser mock backend (see ./mock). 'always' serves every request locally so the UI runs
+// without the .NET backend; 'fallback' only steps in when the backend cannot be reached.
+export type MockMode = 'off' | 'fallback' | 'always';
+
+export const mockConfig = {
+  mode: (process.env.REACT_APP_USE_MOCK_BACKEND === 'true'
+    ? 'always'
+    : process.env.REACT_APP_ENABLE_MOCK_FALLBACK === 'true'
+      ? 'fallback'
+      : 'off') as MockMode,
+  latencyMs: parseNumber(process.env.REACT_APP_MOCK_LATENCY_MS, 400),
+};
+
+// Sign-in, off unless REACT_APP_AUTH_ENABLED=true: the backend doesn't serve the /auth routes yet, so only the
+// mock backend can sign users in. Username/password always goes to the API's /auth routes; OIDC uses the
+// authorization-code flow with PKCE against REACT_APP_OIDC_ISSUER. Without an issuer the local stand-in
+// identity provider served by the mock backend is used.
+export const LOCAL_IDP_PATH = '/mock-idp';
+
+const origin = typeof window !== 'undefined' ? window.location.origin : 'http://localhost';
+
+export const authConfig = {
+  enabled: process.env.REACT_APP_AUTH_ENABLED === 'true',
+  oidc: {
+    enabled: process.env.REACT_APP_OIDC_ENABLED !== 'false',
+    issuer: (process.env.REACT_APP_OIDC_ISSUER || `${origin}${LOCAL_IDP_PATH}`).replace(/\/+$/, ''),
+    clientId: process.env.REACT_APP_OIDC_CLIENT_ID || 'requirements-analyzer-ui',
+    scope: process.env.REACT_APP_OIDC_SCOPE || 'openid profile offline_access',
+    redirectUri: process.env.REACT_APP_OIDC_REDIRECT_URI || `${origin}/auth/callback`,
+  },
+  // Access tokens are refreshed this long before they expire
+  refreshLeewayMs: 30 * 1000,
+};
+
+export const isLocalIdp = (issuer: string = authConfig.oidc.issuer): boolean =>
+  issuer === `${origin}${LOCAL_IDP_PATH}`;
@@ -0,0 +1,97 @@
+import { AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import {
+  ApiError,
+  CancelledError,
+  ConflictError,
+  ForbiddenError,
+  LlmUnavailableError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  TimeoutError,
+  UnauthorizedError,
+  ValidationError,
+  getErrorMessage,
+  getFieldErrors,
+  toApiError,
+} from './errors';
+
+const config = (url: string): InternalAxiosRequestConfig => ({ url, headers: new AxiosHeaders() });
+
+const httpError = (status: number, data: unknown, url = '/projects/1', headers: Record<string, string> = {}) => {
+  const response = { status, statusText: '', data, headers, config: config(url) } as AxiosResponse;
+  return new AxiosError('Request failed', 'ERR_BAD_RESPONSE', config(url), {}, response);
+};
+
+describe('toApiError', () => {
+  test.each([
+    [400, ValidationError],
+    [401, UnauthorizedError],
+    [403, ForbiddenError],
+    [404, NotFoundError],
+    [409, ConflictError],
+    [422, ValidationError],
+    [429, RateLimitedError],
+  ])('maps status %i to its error class', (status, expected) => {
+    const error = toApiError(httpError(status, { title: 'Problem' }));
+    expect(error).toBeInstanceOf(expected);
+    expect(error.status).toBe(status);
+  });
+
+  test('other statuses stay generic HTTP errors', () => {
+    const error = toApiError(httpError(500, undefined));
+    expect(error.constructor).toBe(ApiError);
+    expect(error.kind).toBe('http');
+    expect(error.message).toBe('HTTP 500: Request failed');
+  });
+
+  test('reads field errors from ValidationProblemDetails', () => {
+    const error = toApiError(httpError(400, {
+      title: 'One or more validation errors occurred.',
+      errors: { Name: ['Name is required'], '$.request.Description': 'Too long' },
+    }));
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(getFieldErrors(error)).toEqual({ name: 'Name is required', description: 'Too long' });
+    expect(getErrorMessage(error, 'Failed to save')).toBe('Failed to save: please fix the highlighted fields');
+  });
+
+  test.each([
+    ['a ProblemDetails detail', { title: 'Not found', detail: 'Project 7 does not exist' }, 'Project 7 does not exist'],
+    ['a legacy { error } body', { error: 'Project 7 does not exist' }, 'Project 7 does not exist'],
+    ['a plain-text body', 'Project 7 does not exist', 'Project 7 does not exist'],
+    ['an HTML error page', '<html><body>Not Found</body></html>', 'The requested item no longer exists.'],
+    ['an empty body', '', 'The requested item no longer exists.'],
+  ])('takes the message from %s', (_, body, message) => {
+    expect(toApiError(httpError(404, body)).message).toBe(message);
+  });
+
+  test('parses Retry-After on 429', () => {
+    const error = toApiError(httpError(429, undefined, '/projects', { 'retry-after': '2' }));
+    expect((error as RateLimitedError).retryAfterMs).toBe(2000);
+  });
+
+  test('gateway errors are LLM outages only on LLM routes or with an LLM message', () => {
+    expect(toApiError(httpError(503, undefined, '/requirements/analyze'))).toBeInstanceOf(LlmUnavailableError);
+    expect(toApiError(httpError(502, { detail: 'Perplexity API timed out' }, '/projects'))).toBeInstanceOf(LlmUnavailableError);
+    expect(toApiError(httpError(502, undefined, '/projects'))).not.toBeInstanceOf(LlmUnavailableError);
+    expect(toApiError(httpError(502, undefined, '/projects/1/stakeholder-simulation'))).toBeInstanceOf(LlmUnavailableError);
+    expect(toApiError(httpError(502, undefined, '/projects/1/stakeholder-simulation/roles'))).not.toBeInstanceOf(LlmUnavailableError);
+    expect(toApiError(httpError(502, undefined, '/projects/1/stakeholder-simulation/history'))).not.toBeInstanceOf(LlmUnavailableError);
+  });
+
+  test('requests without a response are network errors, timeouts or cancellations', () => {
+    expect(toApiError(new AxiosError('Network Error', 'ERR_NETWORK', config('/projects')))).toBeInstanceOf(NetworkError);
+    expect(toApiError(new AxiosError('timeout', 'ECONNABORTED', config('/projects')))).toBeInstanceOf(TimeoutError);
+    const cancelled = toApiError(new AxiosError('canceled', 'ERR_CANCELED', config('/projects')));
+    expect(cancelled).toBeInstanceOf(CancelledError);
+    expect(cancelled.url).toBe('/projects');
+  });
+
+  test('passes ApiErrors through and wraps anything else', () => {
+    const original = new ConflictError();
+    expect(toApiError(original)).toBe(original);
+    const wrapped = toApiError(new Error('boom'));
+    expect(wrapped.kind).toBe('http');
+    expect(wrapped.message).toBe('boom');
+  });
+});
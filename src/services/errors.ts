@@ -0,0 +1,271 @@
+// src/services/errors.ts - Typed error hierarchy for API failures
+import axios, { AxiosError } from 'axios';
+import type { ProblemDetails as ContractProblemDetails } from '../domain';
+
+export type FieldErrors = Record<string, string[]>;
+
+export type ApiErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'validation'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not-found'
+  | 'conflict'
+  | 'rate-limited'
+  | 'llm-unavailable'
+  | 'cancelled'
+  | 'invalid-response'
+  | 'http';
+
+// ASP.NET Core ProblemDetails / ValidationProblemDetails, plus the `{ error }` shape
+// returned by the older controller actions
+interface ProblemDetails extends ContractProblemDetails {
+  error?: string;
+  errors?: Record<string, string[] | string>;
+}
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly url?: string;
+  readonly problem?: ProblemDetails;
+
+  constructor(kind: ApiErrorKind, message: string, options: { status?: number; url?: string; problem?: ProblemDetails } = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = options.status;
+    this.url = options.url;
+    this.problem = options.problem;
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(message = 'Cannot reach the server. Check your connection and that the backend is running.', url?: string) {
+    super('network', message, { url });
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor(message = 'The server took too long to respond.', url?: string) {
+    super('timeout', message, { url });
+    this.name = 'TimeoutError';
+  }
+}
+
+export class ValidationError extends ApiError {
+  readonly fieldErrors: FieldErrors;
+
+  constructor(message: string, fieldErrors: FieldErrors, options: { status?: number; url?: string; problem?: ProblemDetails } = {}) {
+    super('validation', message, options);
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+
+  // First message for a field, keyed the same way as the request body (camelCase)
+  fieldError(field: string): string | undefined {
+    return this.fieldErrors[field]?.[0];
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message = 'Your session has expired. Please sign in again.', options: { url?: string; problem?: ProblemDetails } = {}) {
+    super('unauthorized', message, { status: 401, ...options });
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message = 'You are not allowed to do this.', options: { url?: string; problem?: ProblemDetails } = {}) {
+    super('forbidden', message, { status: 403, ...options });
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message = 'The requested item no longer exists.', options: { url?: string; problem?: ProblemDetails } = {}) {
+    super('not-found', message, { status: 404, ...options });
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message = 'The item was changed by someone else. Reload and try again.', options: { url?: string; problem?: ProblemDetails } = {}) {
+    super('conflict', message, { status: 409, ...options });
+    this.name = 'ConflictError';
+  }
+}
+
+export class RateLimitedError extends ApiError {
+  readonly retryAfterMs?: number;
+
+  constructor(message = 'Too many requests. Please wait a moment and try again.', retryAfterMs?: number, options: { url?: string; problem?: ProblemDetails } = {}) {
+    super('rate-limited', message, { status: 429, ...options });
+    this.name = 'RateLimitedError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class LlmUnavailableError extends ApiError {
+  constructor(message = 'The AI provider is currently unavailable. Please try again later.', options: { status?: number; url?: string; problem?: ProblemDetails } = {}) {
+    super('llm-unavailable', message, options);
+    this.name = 'LlmUnavailableError';
+  }
+}
+
+export class CancelledError extends ApiError {
+  constructor(message = 'The request was cancelled.', url?: string) {
+    super('cancelled', message, { url });
+    this.name = 'CancelledError';
+  }
+}
+
+export const isCancelledError = (error: unknown): boolean => error instanceof CancelledError;
+
+// The server answered 2xx but the body could not be turned into the expected shape
+export class InvalidResponseError extends ApiError {
+  readonly diagnostics: string[];
+  readonly payload: unknown;
+
+  constructor(message: string, diagnostics: string[], payload: unknown, url?: string) {
+    super('invalid-response', message, { url });
+    this.name = 'InvalidResponseError';
+    this.diagnostics = diagnostics;
+    this.payload = payload;
+  }
+}
+
+// Routes whose handlers call the LLM provider. Only the bare stakeholder-simulation route runs a simulation;
+// its roles, history and /{id} sub-routes are plain CRUD.
+const LLM_ROUTE_PATTERN = /\/(?:(?:analyze|enhance|generate|batch-analyze|analyze-all)(?:\/|$|\?)|stakeholder-simulation(?:$|\?))/;
+const LLM_MESSAGE_PATTERN = /perplexity|llm|language model|ai provider/i;
+
+// "Name", "$.name" and "request.Name" all map to the `name` request field
+const normalizeFieldKey = (key: string): string => {
+  const last = key.replace(/^\$\.?/, '').split('.').pop() || key;
+  return last.charAt(0).toLowerCase() + last.slice(1);
+};
+
+const toFieldErrors = (errors: ProblemDetails['errors']): FieldErrors => {
+  const result: FieldErrors = {};
+  if (!errors) return result;
+  Object.entries(errors).forEach(([key, value]) => {
+    const messages = Array.isArray(value) ? value : [value];
+    const field = normalizeFieldKey(key);
+    result[field] = [...(result[field] || []), ...messages.filter(Boolean)];
+  });
+  return result;
+};
+
+// Retry-After is either delta-seconds or an HTTP date
+export const parseRetryAfter = (header: unknown): number | undefined => {
+  if (typeof header !== 'string' || !header.trim()) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Older actions answer with `BadRequest("...")`, a bare text body; it is kept as the detail. HTML error pages are not.
+const plainTextProblem = (body: unknown): ProblemDetails | undefined => {
+  const text = typeof body === 'string' ? body.trim() : '';
+  return text && !text.startsWith('<') ? { detail: text } : undefined;
+};
+
+const problemMessage = (problem: ProblemDetails | undefined, fallback: string): string =>
+  problem?.detail || problem?.error || problem?.title || fallback;
+
+// Converts anything thrown by axios into the matching ApiError subclass
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  if (!axios.isAxiosError(error)) {
+    return new ApiError('http', error instanceof Error ? error.message : String(error));
+  }
+
+  const axiosError = error as AxiosError<ProblemDetails | string>;
+  const url = axiosError.config?.url;
+
+  if (axios.isCancel(error) || axiosError.code === 'ERR_CANCELED') {
+    return new CancelledError(undefined, url);
+  }
+
+  if (axiosError.code === 'ECONNABORTED' || axiosError.code === 'ETIMEDOUT') {
+    return new TimeoutError(undefined, url);
+  }
+
+  const response = axiosError.response;
+  if (!response) {
+    return new NetworkError(undefined, url);
+  }
+
+  const status = response.status;
+  const problem = typeof response.data === 'object' && response.data !== null
+    ? response.data
+    : plainTextProblem(response.data);
+  const options = { url, problem };
+
+  if (problem?.errors && (status === 400 || status === 422)) {
+    return new ValidationError(
+      problem.title || 'Some fields are invalid.',
+      toFieldErrors(problem.errors),
+      { status, ...options }
+    );
+  }
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(problemMessage(problem, 'The request was invalid.'), {}, { status, ...options });
+    case 401:
+      return new UnauthorizedError(problemMessage(problem, 'Your session has expired. Please sign in again.'), options);
+    case 403:
+      return new ForbiddenError(problemMessage(problem, 'You are not allowed to do this.'), options);
+    case 404:
+      return new NotFoundError(problemMessage(problem, 'The requested item no longer exists.'), options);
+    case 409:
+      return new ConflictError(problemMessage(problem, 'The item was changed by someone else. Reload and try again.'), options);
+    case 429:
+      return new RateLimitedError(
+        problemMessage(problem, 'Too many requests. Please wait a moment and try again.'),
+        parseRetryAfter(response.headers?.['retry-after']),
+        options
+      );
+    case 502:
+    case 503:
+    case 504: {
+      const message = problemMessage(problem, '');
+      if ((url && LLM_ROUTE_PATTERN.test(url)) || LLM_MESSAGE_PATTERN.test(message)) {
+        return new LlmUnavailableError(message || undefined, { status, ...options });
+      }
+      break;
+    }
+  }
+
+  return new ApiError('http', problemMessage(problem, `HTTP ${status}: ${response.statusText || 'Request failed'}`), { status, ...options });
+};
+
+// Message suitable for a toast: the server's explanation when there is one, otherwise the fallback
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof ValidationError) {
+    return Object.keys(error.fieldErrors).length > 0 ? `${fallback}: please fix the highlighted fields` : `${fallback}: ${error.message}`;
+  }
+  if (error instanceof ApiError && error.kind !== 'http') {
+    return `${fallback}: ${error.message}`;
+  }
+  return fallback;
+};
+
+// Flattens field errors to one message per field for form display
+export const getFieldErrors = (error: unknown): Record<string, string> => {
+  if (!(error instanceof ValidationError)) return {};
+  return Object.fromEntries(
+    Object.entries(error.fieldErrors)
+      .filter(([, messages]) => messages.length > 0)
+      .map(([field, messages]) => [field, messages[0]])
+  );
+};
@@ -0,0 +1,58 @@
+// src/services/limiter.ts - Client-side concurrency limiting
+import type { GenericAbortSignal } from 'axios';
+import { CancelledError } from './errors';
+
+export interface Limiter {
+  run<T>(task: () => Promise<T>, signal?: GenericAbortSignal): Promise<T>;
+  readonly active: number;
+  readonly pending: number;
+}
+
+// At most `concurrency` tasks run at once; the rest wait in FIFO order. A task whose signal is aborted
+// while it waits leaves the queue and rejects with a CancelledError straight away.
+export const createLimiter = (concurrency: number): Limiter => {
+  const queue: Array<() => void> = [];
+  let active = 0;
+
+  const next = () => {
+    if (active >= concurrency || queue.length === 0) return;
+    active++;
+    const start = queue.shift()!;
+    start();
+  };
+
+  return {
+    run<T>(task: () => Promise<T>, signal?: GenericAbortSignal): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(new CancelledError());
+          return;
+        }
+        const onAbort = () => {
+          const index = queue.indexOf(start);
+          if (index === -1) return;
+          queue.splice(index, 1);
+          reject(new CancelledError());
+        };
+        const start = () => {
+          signal?.removeEventListener?.('abort', onAbort);
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              active--;
+              next();
+            });
+        };
+        signal?.addEventListener?.('abort', onAbort);
+        queue.push(start);
+        next();
+      });
+    },
+    get active() {
+      return active;
+    },
+    get pending() {
+      return queue.length;
+    },
+  };
+};
@@ -0,0 +1,26 @@
+// src/services/mock/activity.ts - Whether the data on screen currently comes from the mock backend
+import type { AxiosResponse } from 'axios';
+
+// Set on every response the mock backend serves, so its fabricated analyses are never mistaken for real ones
+export const MOCK_BACKEND_HEADER = 'x-mock-backend';
+
+let active = false;
+const listeners = new Set<() => void>();
+
+export const isMockBackendActive = (): boolean => active;
+
+export const subscribeMockBackend = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Follows the latest response: with the fallback enabled, the first real response after an outage clears it
+export const noteResponseSource = (response: AxiosResponse) => {
+  const fromMock = String(response.headers?.[MOCK_BACKEND_HEADER]) === 'true';
+  if (fromMock !== active) {
+    active = fromMock;
+    listeners.forEach(listener => listener());
+  }
+};
@@ -0,0 +1,89 @@
+// src/services/mock/adapter.ts - Axios adapter that serves requests from the in-browser mock backend
+import { AxiosAdapter, AxiosError, AxiosProgressEvent, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { mockConfig } from '../config';
+import { sleep } from '../retry';
+import { MOCK_BACKEND_HEADER } from './activity';
+import { handleMockRequest } from './handlers';
+import { loadDatabase, saveDatabase } from './storage';
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  204: 'No Content',
+  400: 'Bad Request',
+  404: 'Not Found',
+};
+
+// Path relative to the API base, without query string: "http://host/api/projects/1?x" -> "/projects/1"
+const toPath = (url: string = '', baseURL: string = ''): string => {
+  const withoutBase = baseURL && url.startsWith(baseURL) ? url.slice(baseURL.length) : url;
+  const path = withoutBase.split('?')[0].replace(/^https?:\/\/[^/]+/, '');
+  return `/${path.replace(/^\/+/, '').replace(/\/+$/, '')}`;
+};
+
+const parseBody = (data: unknown): unknown => {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+// Emits an NDJSON body line by line through onDownloadProgress, shaped like the XHR progress
+// events the stream reader in ../api consumes, and returns the complete body
+const streamBody = async (events: unknown[], config: AxiosRequestConfig): Promise<string> => {
+  let body = '';
+  for (const event of events) {
+    await sleep(mockConfig.latencyMs / 2, config.signal);
+    body += `${JSON.stringify(event)}\n`;
+    config.onDownloadProgress?.({
+      loaded: body.length,
+      bytes: body.length,
+      event: { target: { responseText: body } },
+    } as AxiosProgressEvent);
+  }
+  return body;
+};
+
+// Responds after a simulated latency (abortable like a real request); 4xx results are thrown
+// as AxiosErrors so the interceptors treat them exactly like server responses
+export const mockAdapter: AxiosAdapter = async (config) => {
+  await sleep(mockConfig.latencyMs, config.signal);
+  const db = await loadDatabase();
+  const result = await handleMockRequest(db, {
+    method: config.method || 'get',
+    path: toPath(config.url, config.baseURL),
+    body: parseBody(config.data),
+    authorization: config.headers?.Authorization ? String(config.headers.Authorization) : undefined,
+  });
+  // Awaited so state written just before a full-page redirect (OIDC sign-in) is not lost
+  if (result.changed) {
+    await saveDatabase(db);
+  }
+
+  const response: AxiosResponse = {
+    // Detached copy so callers can't mutate the stored state
+    data: result.stream
+      ? await streamBody(result.stream, config)
+      : result.data === undefined ? '' : JSON.parse(JSON.stringify(result.data)),
+    status: result.status,
+    statusText: STATUS_TEXT[result.status] || '',
+    headers: {
+      'content-type': result.stream ? 'application/x-ndjson' : 'application/json',
+      [MOCK_BACKEND_HEADER]: 'true',
+    },
+    config,
+    request: {},
+  };
+  if (result.status >= 400) {
+    throw new AxiosError(
+      `Request failed with status code ${result.status}`,
+      AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    );
+  }
+  return response;
+};
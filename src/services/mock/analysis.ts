@@ -0,0 +1,246 @@
+// src/services/mock/analysis.ts - Deterministic stand-ins for the LLM-backed endpoints
+import type {
+  AnalysisResponse,
+  Enhancement,
+  EnhancementResponse,
+  GeneratedRequirement,
+  GlossaryEntry,
+  QualityIssue,
+  GeneratedQuestion,
+  StakeholderRole,
+} from '../../domain';
+
+const VAGUE_TERMS = [
+  'quickly', 'fast', 'user-friendly', 'easy', 'simple', 'efficient', 'appropriate',
+  'adequate', 'flexible', 'robust', 'several', 'some', 'etc', 'as soon as possible',
+];
+const WEAK_MODALS = ['should', 'may', 'might', 'could', 'can'];
+const SEVERITY_PENALTY: Record<QualityIssue['severity'], number> = { critical: 25, major: 15, minor: 5 };
+
+const findTerm = (text: string, term: string): string | undefined => {
+  const match = new RegExp(`\\b${term.replace(/[-\s]/g, '[-\\s]')}\\b`, 'i').exec(text);
+  return match ? match[0] : undefined;
+};
+
+const escapeTerm = (term: string) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Wording the glossary wants replaced: synonyms of preferred terms, and deprecated or forbidden terms
+const glossaryReplacements = (glossary: GlossaryEntry[]) =>
+  glossary.flatMap(entry =>
+    entry.status === 'deprecated' || entry.status === 'forbidden'
+      ? [{ wording: entry.term, replacement: entry.replacedBy, entry }]
+      : (entry.synonyms ?? []).map(synonym => ({ wording: synonym, replacement: entry.term as string | undefined, entry }))
+  );
+
+// Rule-based issues: same input always produces the same issues and score. The glossary is honoured like the
+// real backend's prompt does: wording it rules out is reported as an inconsistency.
+export const mockAnalysis = (text: string, glossary: GlossaryEntry[] = []): AnalysisResponse => {
+  const issues: QualityIssue[] = [];
+
+  glossaryReplacements(glossary).forEach(({ wording, replacement, entry }) => {
+    const found = findTerm(text, escapeTerm(wording));
+    if (found) {
+      issues.push({
+        type: 'consistency',
+        severity: entry.status === 'forbidden' ? 'major' : 'minor',
+        description: entry.status === 'forbidden' || entry.status === 'deprecated'
+          ? `"${found}" is ${entry.status} in the project glossary`
+          : `"${found}" is a synonym of the glossary term "${entry.term}"`,
+        problematicText: found,
+        suggestion: replacement ? `Use "${replacement}"` : 'Rephrase without it',
+      });
+    }
+  });
+
+  VAGUE_TERMS.forEach(term => {
+    const found = findTerm(text, term);
+    if (found) {
+      issues.push({
+        type: 'ambiguity',
+        severity: 'major',
+        description: `"${found}" is subjective and cannot be tested as written`,
+        problematicText: found,
+        suggestion: `Replace "${found}" with a measurable criterion`,
+      });
+    }
+  });
+
+  const weakModal = WEAK_MODALS.map(modal => findTerm(text, modal)).find(Boolean);
+  if (weakModal) {
+    issues.push({
+      type: 'consistency',
+      severity: 'minor',
+      description: `"${weakModal}" does not state whether the requirement is mandatory`,
+      problematicText: weakModal,
+      suggestion: 'Use "shall" for mandatory requirements',
+    });
+  } else if (!/\b(shall|must|will)\b/i.test(text)) {
+    issues.push({
+      type: 'completeness',
+      severity: 'major',
+      description: 'No obligation keyword (shall/must) found',
+      problematicText: text.slice(0, 40),
+      suggestion: 'State the requirement as "The system shall ..."',
+    });
+  }
+
+  if (!/\d/.test(text)) {
+    issues.push({
+      type: 'verifiability',
+      severity: 'major',
+      description: 'No measurable value, limit or tolerance is given',
+      problematicText: text.slice(0, 40),
+      suggestion: 'Add a quantity with a unit (e.g. "within 2 seconds")',
+    });
+  }
+
+  if (text.trim().split(/\s+/).length < 8) {
+    issues.push({
+      type: 'completeness',
+      severity: 'critical',
+      description: 'The requirement is too short to define actor, action and condition',
+      problematicText: text.trim(),
+      suggestion: 'Describe who does what, under which condition',
+    });
+  }
+
+  const penalty = issues.reduce((total, issue) => total + SEVERITY_PENALTY[issue.severity], 0);
+  return {
+    overallScore: Math.max(0, 100 - penalty),
+    issues,
+    analyzedAt: new Date().toISOString(),
+  };
+};
+
+const rewrite = (text: string, glossary: GlossaryEntry[]): string => {
+  let result = text.trim().replace(/\.$/, '');
+  glossaryReplacements(glossary).forEach(({ wording, replacement }) => {
+    if (replacement) result = result.replace(new RegExp(`\\b${escapeTerm(wording)}\\b`, 'gi'), replacement);
+  });
+  WEAK_MODALS.forEach(modal => {
+    result = result.replace(new RegExp(`\\b${modal}\\b`, 'i'), 'shall');
+  });
+  VAGUE_TERMS.forEach(term => {
+    result = result.replace(new RegExp(`,?\\s*\\b${term.replace(/[-\s]/g, '[-\\s]')}\\b`, 'gi'), '');
+  });
+  if (!/\b(shall|must|will)\b/i.test(result)) {
+    result = `The system shall ${result.charAt(0).toLowerCase()}${result.slice(1)}`;
+  }
+  return result.replace(/\s{2,}/g, ' ').replace(/\s+(and|or)\s*$/i, '');
+};
+
+// Three variants of increasing strictness; the last one is recommended
+export const mockEnhancement = (text: string, glossary: GlossaryEntry[] = []): EnhancementResponse => {
+  const base = rewrite(text, glossary);
+  const candidates: Array<Omit<Enhancement, 'qualityScore'>> = [
+    {
+      text: `${base}.`,
+      changes: ['Replaced weak modal verbs with "shall"', 'Removed subjective wording'],
+      improvements: ['Mandatory intent is explicit'],
+      rationale: 'Minimal rewrite that keeps the original scope',
+    },
+    {
+      text: `${base} within 2 seconds under normal load.`,
+      changes: ['Added a response-time criterion'],
+      improvements: ['Requirement can be verified by a performance test'],
+      rationale: 'Adds a measurable acceptance threshold',
+    },
+    {
+      text: `${base} within 2 seconds for 95% of requests with up to 100 concurrent users.`,
+      changes: ['Added a response-time criterion', 'Added a load condition and percentile'],
+      improvements: ['Fully testable', 'Operating conditions are stated'],
+      rationale: 'States threshold, percentile and load so the requirement is unambiguous',
+    },
+  ];
+  const enhancements = candidates.map(candidate => ({
+    ...candidate,
+    qualityScore: mockAnalysis(candidate.text, glossary).overallScore,
+  }));
+  return { enhancements, recommendedIndex: enhancements.length - 1 };
+};
+
+// Splits "As a <role>, I want <goal> so that <benefit>" into a small requirement set
+export const mockGeneration = (userStory: string): GeneratedRequirement[] => {
+  const match = /as an?\s+([^,]+),?\s+i want(?: to)?\s+(.+?)(?:,?\s+so that\s+(.+?))?\.?$/i.exec(userStory.trim());
+  const role = match ? match[1].trim() : 'user';
+  const goal = match ? match[2].trim() : userStory.trim().replace(/\.$/, '');
+  const benefit = match?.[3]?.trim();
+
+  return [
+    {
+      type: 'functional',
+      title: 'Core capability',
+      text: `The system shall allow a ${role} to ${goal}.`,
+      priority: 'high',
+      rationale: benefit ? `Delivers the stated benefit: ${benefit}` : 'Directly implements the user story',
+    },
+    {
+      type: 'validation',
+      title: 'Input validation',
+      text: `The system shall reject invalid input when a ${role} attempts to ${goal} and display the reason within 1 second.`,
+      priority: 'medium',
+      rationale: 'Prevents inconsistent data from entering the system',
+    },
+    {
+      type: 'security',
+      title: 'Authorisation',
+      text: `The system shall permit only authenticated users with the ${role} role to ${goal}.`,
+      priority: 'high',
+      rationale: 'Restricts the capability to the intended actor',
+    },
+    {
+      type: 'non-functional',
+      title: 'Responsiveness',
+      text: `The system shall complete the request to ${goal} within 2 seconds for 95% of requests.`,
+      priority: 'low',
+      rationale: 'Gives the story a measurable performance target',
+    },
+  ];
+};
+
+export const MOCK_STAKEHOLDER_ROLES: StakeholderRole[] = [
+  { value: 'end-user', label: 'End User', description: 'Uses the system day to day' },
+  { value: 'developer', label: 'Developer', description: 'Implements and maintains the system' },
+  { value: 'tester', label: 'QA Tester', description: 'Verifies the system against its requirements' },
+  { value: 'security', label: 'Security Officer', description: 'Responsible for data protection and access control' },
+  { value: 'business', label: 'Business Owner', description: 'Accountable for cost, value and deadlines' },
+];
+
+type QuestionTemplate = Omit<GeneratedQuestion, 'isAddressed'>;
+
+const RELIABILITY_QUESTION: QuestionTemplate = {
+  text: 'What should happen when the system is unavailable?',
+  category: 'Reliability',
+  priority: 'medium',
+  rationale: 'Failure behaviour is not described',
+};
+
+const QUESTION_TEMPLATES: Record<string, QuestionTemplate[]> = {
+  'end-user': [
+    { text: 'What happens if I make a mistake while doing this?', category: 'Usability', priority: 'high', rationale: 'Error recovery is not described' },
+    { text: 'How will I know the action succeeded?', category: 'Feedback', priority: 'medium', rationale: 'No confirmation behaviour is specified' },
+  ],
+  developer: [
+    { text: 'Which inputs are valid, and what are their limits?', category: 'Technical', priority: 'high', rationale: 'Input constraints are not specified' },
+    { text: 'Which existing systems does this integrate with?', category: 'Integration', priority: 'medium', rationale: 'Interfaces are not identified' },
+  ],
+  tester: [
+    { text: 'What is the pass/fail criterion for this requirement?', category: 'Verification', priority: 'high', rationale: 'Acceptance criteria are needed for a test case' },
+    { text: 'Under which load and environment should this be tested?', category: 'Verification', priority: 'medium', rationale: 'Test conditions are not stated' },
+  ],
+  security: [
+    { text: 'Who is allowed to perform this action?', category: 'Security', priority: 'high', rationale: 'Access control is not defined' },
+    { text: 'Is any personal data stored or logged?', category: 'Compliance', priority: 'high', rationale: 'Data protection obligations may apply' },
+  ],
+  business: [
+    { text: 'What is the business value if this is delivered late?', category: 'Business', priority: 'medium', rationale: 'Priority drives scheduling' },
+    { text: 'How will success be measured after release?', category: 'Business', priority: 'low', rationale: 'No success metric is given' },
+  ],
+};
+
+// Questions are "addressed" when the requirement already mentions the category keyword
+export const mockQuestions = (requirementText: string, role: string): GeneratedQuestion[] => {
+  const templates = QUESTION_TEMPLATES[role] || QUESTION_TEMPLATES['end-user'];
+  const lower = requirementText.toLowerCase();
+  return [...templates, RELIABILITY_QUESTION].map(question => ({ ...question, isAddressed: lower.includes(question.category.toLowerCase()) }));
+};
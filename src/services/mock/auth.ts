@@ -0,0 +1,185 @@
+// src/services/mock/auth.ts - Sign-in routes and stand-in OIDC identity provider of the mock backend
+import { authConfig, LOCAL_IDP_PATH } from '../config';
+import { createCodeChallenge, randomString } from '../auth/pkce';
+import type { AuthUser, TokenResponse } from '../../domain';
+import { stringOf } from './body';
+import type { MockResponse, Route } from './handlers';
+import type { MockDatabase, StoredSession } from './storage';
+
+const MOCK_USERS: Array<AuthUser & { password: string }> = [
+  { username: 'demo', password: 'demo', displayName: 'Demo User' },
+  { username: 'analyst', password: 'analyst', displayName: 'Requirements Analyst' },
+];
+
+// Short enough to exercise token refresh during a normal session
+const ACCESS_TOKEN_TTL_MS = 5 * 60 * 1000;
+const AUTH_CODE_TTL_MS = 60 * 1000;
+
+const issuer = () => `${window.location.origin}${LOCAL_IDP_PATH}`;
+
+const findUser = (username: unknown, password: unknown) =>
+  MOCK_USERS.find(user => user.username === username && user.password === password);
+
+const toUser = (username: string): AuthUser => {
+  const user = MOCK_USERS.find(u => u.username === username);
+  return { username, displayName: user?.displayName ?? username };
+};
+
+const unauthorized = (detail: string): MockResponse => ({
+  status: 401,
+  data: { title: 'Unauthorized', status: 401, detail },
+});
+
+// OAuth 2.0 error response (RFC 6749 5.2)
+const oauthError = (error: string, description: string, status = 400): MockResponse => ({
+  status,
+  data: { error, error_description: description },
+});
+
+const startSession = (db: MockDatabase, username: string): StoredSession => {
+  const session: StoredSession = {
+    accessToken: `mock-at.${randomString()}`,
+    refreshToken: `mock-rt.${randomString()}`,
+    username,
+    expiresAt: Date.now() + ACCESS_TOKEN_TTL_MS,
+  };
+  db.sessions.push(session);
+  return session;
+};
+
+// Refresh tokens are rotated: the old one stops working once used
+const rotateSession = (db: MockDatabase, refreshToken: unknown): StoredSession | undefined => {
+  const previous = db.sessions.find(s => s.refreshToken === refreshToken);
+  if (!previous) return undefined;
+  db.sessions = db.sessions.filter(s => s !== previous);
+  return startSession(db, previous.username);
+};
+
+const toTokenResponse = (session: StoredSession): TokenResponse => ({
+  accessToken: session.accessToken,
+  refreshToken: session.refreshToken,
+  expiresIn: Math.round((session.expiresAt - Date.now()) / 1000),
+  user: toUser(session.username),
+});
+
+// Unsigned (alg "none") ID token; the client only reads its claims
+const encodeSegment = (value: object) =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const createIdToken = (username: string, clientId: string, nonce?: string) => {
+  const now = Math.floor(Date.now() / 1000);
+  const user = toUser(username);
+  return [
+    encodeSegment({ alg: 'none', typ: 'JWT' }),
+    encodeSegment({
+      iss: issuer(),
+      sub: username,
+      aud: clientId,
+      iat: now,
+      exp: now + ACCESS_TOKEN_TTL_MS / 1000,
+      nonce,
+      name: user.displayName,
+      preferred_username: username,
+    }),
+    '',
+  ].join('.');
+};
+
+const oidcTokens = (session: StoredSession, clientId: string, nonce?: string) => ({
+  access_token: session.accessToken,
+  refresh_token: session.refreshToken,
+  id_token: createIdToken(session.username, clientId, nonce),
+  token_type: 'Bearer',
+  expires_in: Math.round((session.expiresAt - Date.now()) / 1000),
+});
+
+export const authRoutes: Route[] = [
+  // Username/password sign-in against the API
+  { method: 'post', pattern: /^\/auth\/login$/, public: true, mutates: true, handler: (db, _p, body) => {
+    const user = findUser(body.username, body.password);
+    return user ? { status: 200, data: toTokenResponse(startSession(db, user.username)) } : unauthorized('Invalid username or password.');
+  } },
+  { method: 'post', pattern: /^\/auth\/refresh$/, public: true, mutates: true, handler: (db, _p, body) => {
+    const session = rotateSession(db, stringOf(body.refreshToken));
+    return session ? { status: 200, data: toTokenResponse(session) } : unauthorized('The session has ended. Please sign in again.');
+  } },
+  { method: 'post', pattern: /^\/auth\/logout$/, public: true, mutates: true, handler: (db, _p, body) => {
+    db.sessions = db.sessions.filter(s => s.refreshToken !== body.refreshToken);
+    return { status: 204 };
+  } },
+
+  // Stand-in OpenID provider
+  { method: 'get', pattern: /^\/mock-idp\/\.well-known\/openid-configuration$/, public: true, handler: () => ({
+    status: 200,
+    data: {
+      issuer: issuer(),
+      authorization_endpoint: `${issuer()}/authorize`,
+      token_endpoint: `${issuer()}/token`,
+      response_types_supported: ['code'],
+      grant_types_supported: ['authorization_code', 'refresh_token'],
+      code_challenge_methods_supported: ['S256'],
+    },
+  }) },
+  // Called by the provider's own sign-in page (see components/MockIdentityProvider)
+  { method: 'post', pattern: /^\/mock-idp\/authorize$/, public: true, mutates: true, handler: (db, _p, body) => {
+    if (body.code_challenge_method !== 'S256' || !stringOf(body.code_challenge)) {
+      return oauthError('invalid_request', 'PKCE with code_challenge_method=S256 is required.');
+    }
+    const user = findUser(body.username, body.password);
+    if (!user) return oauthError('access_denied', 'Invalid username or password.', 401);
+    const code = randomString();
+    db.authCodes.push({
+      code,
+      username: user.username,
+      clientId: stringOf(body.client_id),
+      redirectUri: stringOf(body.redirect_uri),
+      codeChallenge: stringOf(body.code_challenge),
+      nonce: stringOf(body.nonce) || undefined,
+      expiresAt: Date.now() + AUTH_CODE_TTL_MS,
+    });
+    return { status: 200, data: { code } };
+  } },
+  { method: 'post', pattern: /^\/mock-idp\/token$/, public: true, mutates: true, handler: async (db, _p, body) => {
+    // Form-encoded, as OAuth requires; readBody has split it into fields
+    const clientId = stringOf(body.client_id);
+
+    if (body.grant_type === 'refresh_token') {
+      const session = rotateSession(db, stringOf(body.refresh_token));
+      return session ? { status: 200, data: oidcTokens(session, clientId) } : oauthError('invalid_grant', 'The refresh token is no longer valid.');
+    }
+    if (body.grant_type !== 'authorization_code') {
+      return oauthError('unsupported_grant_type', 'Only authorization_code and refresh_token are supported.');
+    }
+
+    // Codes are single use, whether or not the exchange succeeds
+    const grant = db.authCodes.find(c => c.code === body.code);
+    db.authCodes = db.authCodes.filter(c => c !== grant && c.expiresAt > Date.now());
+    if (!grant || grant.expiresAt <= Date.now()) {
+      return oauthError('invalid_grant', 'The authorization code is invalid or has expired.');
+    }
+    if (grant.clientId !== clientId || grant.redirectUri !== body.redirect_uri) {
+      return oauthError('invalid_grant', 'The authorization code was issued to a different client.');
+    }
+    if ((await createCodeChallenge(stringOf(body.code_verifier))) !== grant.codeChallenge) {
+      return oauthError('invalid_grant', 'PKCE verification failed.');
+    }
+    return { status: 200, data: oidcTokens(startSession(db, grant.username), clientId, grant.nonce) };
+  } },
+];
+
+const liveSession = (db: MockDatabase, authorization: string | undefined) => {
+  const token = authorization?.replace(/^Bearer\s+/i, '');
+  return db.sessions.find(s => s.accessToken === token && s.expiresAt > Date.now());
+};
+
+// Every non-public route needs a live access token while sign-in is enabled
+export const isAuthorized = (db: MockDatabase, authorization: string | undefined): boolean =>
+  !authConfig.enabled || !!liveSession(db, authorization);
+
+// Who is calling; nobody when sign-in is disabled
+export const currentUser = (db: MockDatabase, authorization: string | undefined): AuthUser | undefined => {
+  const session = liveSession(db, authorization);
+  return session && toUser(session.username);
+};
+
+export const unauthorizedResponse = () => unauthorized('Missing or expired access token.');
@@ -0,0 +1,19 @@
+// src/services/mock/body.ts - Reading untrusted request bodies in the mock backend's handlers
+import { isRecord } from '../validation';
+
+// A request body as sent, field by field. Handlers narrow each field they read with the helpers below.
+export type Body = Record<string, unknown>;
+
+// JSON objects are taken as they are and form-encoded strings (the OIDC token endpoint) are split into fields;
+// anything else has no fields
+export const readBody = (body: unknown): Body =>
+  typeof body === 'string' ? Object.fromEntries(new URLSearchParams(body)) : fieldsOf(body);
+
+export const fieldsOf = (value: unknown): Body => (isRecord(value) ? value : {});
+
+export const stringOf = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+// NaN for anything but a finite number, so range checks on it fail
+export const numberOf = (value: unknown): number => (typeof value === 'number' && Number.isFinite(value) ? value : NaN);
+
+export const isOneOf = <T extends string>(values: T[], value: unknown): value is T => values.some(v => v === value);
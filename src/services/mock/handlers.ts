@@ -0,0 +1,669 @@
+// src/services/mock/handlers.ts - Route table of the mock backend
+import type {
+  AuthUser,
+  ConflictKind,
+  GlossaryEntry,
+  GlossaryTerm,
+  GlossaryTermStatus,
+  IntentionalConflict,
+  IssueSeverity,
+  IssueWaiver,
+  Project,
+  ProjectRequirement,
+  ProjectStats,
+  QualityIssueType,
+  ReadabilityThresholds,
+  RulePack,
+  ScoreSource,
+  ScoringPolicy,
+  SimulationHistoryItem,
+} from '../../domain';
+import { mockAnalysis, mockEnhancement, mockGeneration, mockQuestions, MOCK_STAKEHOLDER_ROLES } from './analysis';
+import { authRoutes, currentUser, isAuthorized, unauthorizedResponse } from './auth';
+import { Body, fieldsOf, isOneOf, numberOf, readBody, stringOf } from './body';
+import { MockDatabase, StoredProject } from './storage';
+import { DEFAULT_READABILITY_THRESHOLDS } from '../quality/readability';
+import { readRules } from '../quality/rulePacks';
+import { DEFAULT_SCORING_POLICY, isActiveRequirement, projectSummary, readBands, requirementScore, scoreBand } from '../quality/scoring';
+import { findWaiver, splitWaivedIssues } from '../quality/waivers';
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  body: unknown;
+  authorization?: string;
+}
+
+// `stream` responses are sent as NDJSON, one line per entry, with a delay between lines
+export interface MockResponse {
+  status: number;
+  data?: unknown;
+  stream?: unknown[];
+}
+
+// `caller` is the signed-in user, when there is one
+type Handler = (db: MockDatabase, params: number[], body: Body, caller?: AuthUser) => MockResponse | Promise<MockResponse>;
+
+export interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: Handler;
+  mutates?: boolean;
+  // Reachable without an access token
+  public?: boolean;
+}
+
+const ok = (data?: unknown): MockResponse => ({ status: data === undefined ? 204 : 200, data });
+const streamed = (events: unknown[]): MockResponse => ({ status: 200, stream: events });
+const created = (data: unknown): MockResponse => ({ status: 201, data });
+const notFound = (what: string): MockResponse => ({
+  status: 404,
+  data: { title: 'Not Found', status: 404, detail: `${what} not found` },
+});
+const conflict = (detail: string): MockResponse => ({ status: 409, data: { title: 'Conflict', status: 409, detail } });
+
+// Same ProblemDetails shape as ASP.NET model validation, so field errors reach the forms
+const validationProblem = (errors: Record<string, string[]>): MockResponse => ({
+  status: 400,
+  data: { title: 'One or more validation errors occurred.', status: 400, errors },
+});
+
+const required = (body: Body, field: string, label: string): Record<string, string[]> =>
+  stringOf(body[field]).trim() ? {} : { [label]: [`The ${label} field is required.`] };
+
+const now = () => new Date().toISOString();
+
+const scoringPolicy = (db: MockDatabase, projectId: number) =>
+  db.qualitySettings.find(settings => settings.projectId === projectId)?.scoring ?? DEFAULT_SCORING_POLICY;
+
+const projectWaivers = (db: MockDatabase, projectId: number) => db.issueWaivers.filter(waiver => waiver.projectId === projectId);
+
+// Scores follow the project's scoring policy and leave waived issues out, like the client's
+const toProject = (db: MockDatabase, project: StoredProject): Project => ({
+  ...project,
+  ...projectSummary(
+    db.requirements.filter(r => r.projectId === project.id && isActiveRequirement(r)),
+    scoringPolicy(db, project.id),
+    projectWaivers(db, project.id)
+  ),
+});
+
+const findProject = (db: MockDatabase, id: number) => db.projects.find(p => p.id === id);
+const findRequirement = (db: MockDatabase, projectId: number, id: number) =>
+  db.requirements.find(r => r.projectId === projectId && r.id === id);
+
+// The glossary the client sent as LLM context (see AnalysisContext); malformed entries are ignored
+const contextGlossary = (body: Body): GlossaryEntry[] =>
+  (Array.isArray(body.glossary) ? body.glossary : [])
+    .map(fieldsOf)
+    .filter(entry => stringOf(entry.term).trim() && stringOf(entry.definition).trim())
+    .map(entry => ({
+      term: stringOf(entry.term),
+      definition: stringOf(entry.definition),
+      synonyms: Array.isArray(entry.synonyms) ? entry.synonyms.map(stringOf).filter(Boolean) : undefined,
+      status: isOneOf(GLOSSARY_STATUSES, entry.status) ? entry.status : undefined,
+      replacedBy: stringOf(entry.replacedBy) || undefined,
+    }));
+
+const analyzeStored = (requirement: ProjectRequirement, glossary: GlossaryEntry[]) => {
+  const analysis = mockAnalysis(requirement.text, glossary);
+  requirement.analysis = analysis;
+  requirement.qualityScore = analysis.overallScore;
+  requirement.status = requirement.status === 'Enhanced' ? 'Enhanced' : 'Analyzed';
+  requirement.updatedAt = now();
+  return analysis;
+};
+
+const GLOSSARY_STATUSES: GlossaryTermStatus[] = ['preferred', 'deprecated', 'forbidden'];
+const CONFLICT_KINDS: ConflictKind[] = ['numeric', 'modality', 'state'];
+
+// Marks refer to the texts they were made for, so they go when either requirement changes or is deleted
+const dropIntentionalConflicts = (db: MockDatabase, requirementId: number) => {
+  db.intentionalConflicts = db.intentionalConflicts.filter(mark => !mark.requirementIds.includes(requirementId));
+};
+
+// Validates a rule pack body with the same checks the importer uses; `id` is the pack being updated
+const readRulePack = (db: MockDatabase, projectId: number, body: Body, id?: number) => {
+  const { rules, problems } = readRules(body.rules);
+  const errors = { ...required(body, 'name', 'Name'), ...(problems.length ? { Rules: problems } : {}) };
+  if (Object.keys(errors).length) return { error: validationProblem(errors) };
+  const name = stringOf(body.name).trim();
+  const taken = db.rulePacks.some(p => p.projectId === projectId && p.id !== id && p.name.toLowerCase() === name.toLowerCase());
+  if (taken) return { error: conflict(`The project already has a rule pack called "${name}"`) };
+  return {
+    fields: {
+      name,
+      description: stringOf(body.description).trim() || undefined,
+      enabled: typeof body.enabled === 'boolean' ? body.enabled : true,
+      rules,
+    },
+  };
+};
+
+// Validates a create/update body; `id` is the term being updated, which may keep its own wording
+const readGlossaryTerm = (db: MockDatabase, projectId: number, body: Body, id?: number) => {
+  const errors = { ...required(body, 'term', 'Term'), ...required(body, 'definition', 'Definition') };
+  if (body.status !== undefined && !isOneOf(GLOSSARY_STATUSES, body.status)) {
+    errors.Status = [`The Status field must be one of ${GLOSSARY_STATUSES.join(', ')}.`];
+  }
+  if (Object.keys(errors).length) return { error: validationProblem(errors) };
+  const term = stringOf(body.term).trim();
+  const synonyms = Array.isArray(body.synonyms)
+    ? body.synonyms.map((synonym: unknown) => String(synonym).trim()).filter(Boolean)
+    : [];
+  const taken = db.glossary
+    .filter(t => t.projectId === projectId && t.id !== id)
+    .flatMap(t => [t.term, ...t.synonyms].map(wording => wording.toLowerCase()));
+  const duplicate = [term, ...synonyms].find(wording => taken.indexOf(wording.toLowerCase()) >= 0);
+  if (duplicate) return { error: conflict(`"${duplicate}" is already in the glossary`) };
+  return {
+    fields: {
+      term,
+      definition: stringOf(body.definition).trim(),
+      synonyms,
+      status: isOneOf(GLOSSARY_STATUSES, body.status) ? body.status : 'preferred',
+      replacedBy: stringOf(body.replacedBy).trim() || undefined,
+    },
+  };
+};
+
+// [field, smallest, largest] of each readability threshold
+const READABILITY_RANGES: Array<[keyof ReadabilityThresholds, number, number]> = [
+  ['maxSentenceLength', 1, Infinity],
+  ['minReadingEase', -Infinity, 121],
+  ['maxConditionDepth', 0, Infinity],
+  ['maxClauses', 1, Infinity],
+  ['maxPassiveShare', 0, 1],
+];
+
+// The thresholds in a request body, and the problems with them; the thresholds are only usable without errors
+const readReadability = (value: unknown) => {
+  const fields = fieldsOf(value);
+  const thresholds: ReadabilityThresholds = {
+    maxSentenceLength: numberOf(fields.maxSentenceLength),
+    minReadingEase: numberOf(fields.minReadingEase),
+    maxConditionDepth: numberOf(fields.maxConditionDepth),
+    maxClauses: numberOf(fields.maxClauses),
+    maxPassiveShare: numberOf(fields.maxPassiveShare),
+  };
+  const errors = READABILITY_RANGES.reduce((all, [field, min, max]) => {
+    const label = `Readability.${field[0].toUpperCase()}${field.slice(1)}`;
+    return thresholds[field] >= min && thresholds[field] <= max
+      ? all
+      : { ...all, [label]: [`The ${label} field must be a number between ${min} and ${max}.`] };
+  }, {} as Record<string, string[]>);
+  return { thresholds, errors };
+};
+
+const SCORE_SOURCES: ScoreSource[] = ['analyzer', 'local'];
+const ISSUE_SEVERITIES: IssueSeverity[] = ['critical', 'major', 'minor'];
+const ISSUE_TYPES: QualityIssueType[] = ['ambiguity', 'completeness', 'consistency', 'verifiability', 'traceability'];
+
+const readWeights = <K extends string>(value: unknown, group: string, keys: K[]) => {
+  const fields = fieldsOf(value);
+  return keys.reduce(({ weights, errors }, key) => {
+    const weight = numberOf(fields[key]);
+    const label = `Scoring.${group}.${key[0].toUpperCase()}${key.slice(1)}`;
+    return {
+      weights: { ...weights, [key]: weight },
+      errors: weight >= 0 ? errors : { ...errors, [label]: [`The ${label} field must be a number of at least 0.`] },
+    };
+  }, { weights: {} as Record<K, number>, errors: {} as Record<string, string[]> });
+};
+
+// The policy in a request body, and the problems with it; the policy is only usable without errors
+const readScoringPolicy = (value: unknown) => {
+  const fields = fieldsOf(value);
+  const severity = readWeights(fields.severityWeights, 'SeverityWeights', ISSUE_SEVERITIES);
+  const types = readWeights(fields.typeWeights, 'TypeWeights', ISSUE_TYPES);
+  const { bands, problems } = readBands(fields.bands);
+  const policy: ScoringPolicy = {
+    source: isOneOf(SCORE_SOURCES, fields.source) ? fields.source : DEFAULT_SCORING_POLICY.source,
+    severityWeights: severity.weights,
+    typeWeights: types.weights,
+    bands,
+  };
+  const errors = {
+    ...(isOneOf(SCORE_SOURCES, fields.source) ? {} : { 'Scoring.Source': [`The Scoring.Source field must be one of ${SCORE_SOURCES.join(', ')}.`] }),
+    ...severity.errors,
+    ...types.errors,
+    ...(problems.length ? { 'Scoring.Bands': problems } : {}),
+  };
+  return { policy, errors };
+};
+
+const routes: Route[] = [
+  // Standalone analyzer
+  { method: 'get', pattern: /^\/requirements\/health$/, public: true, handler: () =>
+    ok({ status: 'healthy', message: 'Mock backend active', perplexityConnected: true }) },
+  { method: 'post', pattern: /^\/requirements\/analyze$/, handler: (_db, _p, body) => {
+    const errors = required(body, 'text', 'Text');
+    return Object.keys(errors).length ? validationProblem(errors) : ok(mockAnalysis(stringOf(body.text)));
+  } },
+  { method: 'post', pattern: /^\/requirements\/enhance$/, handler: (_db, _p, body) => {
+    const errors = required(body, 'text', 'Text');
+    return Object.keys(errors).length ? validationProblem(errors) : ok(mockEnhancement(stringOf(body.text)));
+  } },
+  { method: 'post', pattern: /^\/requirements\/batch-analyze$/, handler: (_db, _p, body) =>
+    Array.isArray(body.requirements)
+      ? ok(body.requirements.map((text: unknown) => mockAnalysis(String(text))))
+      : validationProblem({ Requirements: ['The Requirements field is required.'] }) },
+  { method: 'post', pattern: /^\/requirements\/batch-analyze\/stream$/, handler: (_db, _p, body) => {
+    if (!Array.isArray(body.requirements)) {
+      return validationProblem({ Requirements: ['The Requirements field is required.'] });
+    }
+    const results = body.requirements.map((text: unknown, index: number) =>
+      ({ type: 'result', index, analysis: mockAnalysis(String(text)) }));
+    return streamed([
+      { type: 'start', total: results.length },
+      ...results,
+      { type: 'complete', analyzedCount: results.length },
+    ]);
+  } },
+
+  // Projects
+  { method: 'get', pattern: /^\/projects$/, handler: db => ok(db.projects.map(p => toProject(db, p))) },
+  { method: 'post', pattern: /^\/projects$/, mutates: true, handler: (db, _p, body) => {
+    const errors = required(body, 'name', 'Name');
+    if (Object.keys(errors).length) return validationProblem(errors);
+    const project: StoredProject = {
+      id: db.nextId.project++,
+      name: stringOf(body.name).trim(),
+      description: stringOf(body.description) || undefined,
+      createdAt: now(),
+      updatedAt: now(),
+    };
+    db.projects.push(project);
+    return created(toProject(db, project));
+  } },
+  { method: 'get', pattern: /^\/projects\/(\d+)$/, handler: (db, [id]) => {
+    const project = findProject(db, id);
+    return project ? ok(toProject(db, project)) : notFound('Project');
+  } },
+  { method: 'put', pattern: /^\/projects\/(\d+)$/, mutates: true, handler: (db, [id], body) => {
+    const project = findProject(db, id);
+    if (!project) return notFound('Project');
+    const errors = required(body, 'name', 'Name');
+    if (Object.keys(errors).length) return validationProblem(errors);
+    Object.assign(project, { name: stringOf(body.name).trim(), description: stringOf(body.description) || undefined, updatedAt: now() });
+    return ok(toProject(db, project));
+  } },
+  { method: 'delete', pattern: /^\/projects\/(\d+)$/, mutates: true, handler: (db, [id]) => {
+    if (!findProject(db, id)) return notFound('Project');
+    db.projects = db.projects.filter(p => p.id !== id);
+    db.requirements = db.requirements.filter(r => r.projectId !== id);
+    db.simulations = db.simulations.filter(s => s.projectId !== id);
+    db.glossary = db.glossary.filter(t => t.projectId !== id);
+    db.intentionalConflicts = db.intentionalConflicts.filter(mark => mark.projectId !== id);
+    db.qualitySettings = db.qualitySettings.filter(settings => settings.projectId !== id);
+    db.rulePacks = db.rulePacks.filter(pack => pack.projectId !== id);
+    db.issueWaivers = db.issueWaivers.filter(waiver => waiver.projectId !== id);
+    return ok();
+  } },
+  { method: 'get', pattern: /^\/projects\/(\d+)\/stats$/, handler: (db, [id]) => {
+    const project = findProject(db, id);
+    if (!project) return notFound('Project');
+    const requirements = db.requirements.filter(r => r.projectId === id && isActiveRequirement(r));
+    const policy = scoringPolicy(db, id);
+    const waivers = projectWaivers(db, id);
+    const qualityDistribution: Record<string, number> = {};
+    const commonIssues: Record<string, number> = {};
+    requirements.forEach(r => {
+      const score = requirementScore(r, policy, waivers);
+      if (score !== undefined) {
+        const band = scoreBand(score, policy).label;
+        qualityDistribution[band] = (qualityDistribution[band] || 0) + 1;
+      }
+      splitWaivedIssues(r, waivers).open.forEach(issue => {
+        commonIssues[issue.type] = (commonIssues[issue.type] || 0) + 1;
+      });
+    });
+    const stats: ProjectStats = {
+      totalRequirements: requirements.length,
+      analyzedRequirements: requirements.filter(r => r.analysis).length,
+      enhancedRequirements: requirements.filter(r => r.status === 'Enhanced').length,
+      averageQualityScore: toProject(db, project).averageQualityScore,
+      qualityDistribution,
+      commonIssues,
+    };
+    return ok(stats);
+  } },
+
+  // Project requirements
+  { method: 'get', pattern: /^\/projects\/(\d+)\/requirements$/, handler: (db, [id]) =>
+    findProject(db, id) ? ok(db.requirements.filter(r => r.projectId === id)) : notFound('Project') },
+  { method: 'post', pattern: /^\/projects\/(\d+)\/requirements$/, mutates: true, handler: (db, [id], body) => {
+    if (!findProject(db, id)) return notFound('Project');
+    const errors = required(body, 'text', 'Text');
+    if (Object.keys(errors).length) return validationProblem(errors);
+    const requirement: ProjectRequirement = {
+      id: db.nextId.requirement++,
+      projectId: id,
+      title: stringOf(body.title) || undefined,
+      text: stringOf(body.text).trim(),
+      status: 'Draft',
+      createdAt: now(),
+      updatedAt: now(),
+    };
+    db.requirements.push(requirement);
+    return created(requirement);
+  } },
+  { method: 'post', pattern: /^\/projects\/(\d+)\/requirements\/generate$/, handler: (db, [id], body) => {
+    if (!findProject(db, id)) return notFound('Project');
+    const errors = required(body, 'userStory', 'UserStory');
+    return Object.keys(errors).length ? validationProblem(errors) : ok({ requirements: mockGeneration(stringOf(body.userStory)) });
+  } },
+  { method: 'get', pattern: /^\/projects\/(\d+)\/requirements\/(\d+)$/, handler: (db, [pid, rid]) => {
+    const requirement = findRequirement(db, pid, rid);
+    return requirement ? ok(requirement) : notFound('Requirement');
+  } },
+  { method: 'put', pattern: /^\/projects\/(\d+)\/requirements\/(\d+)$/, mutates: true, handler: (db, [pid, rid], body) => {
+    const requirement = findRequirement(db, pid, rid);
+    if (!requirement) return notFound('Requirement');
+    const errors = required(body, 'text', 'Text');
+    if (Object.keys(errors).length) return validationProblem(errors);
+    const text = stringOf(body.text).trim();
+    // Editing the text invalidates the previous analysis, as on the real backend
+    if (text !== requirement.text) {
+      Object.assign(requirement, { status: 'Draft', analysis: undefined, enhancements: undefined, qualityScore: undefined });
+      dropIntentionalConflicts(db, rid);
+    }
+    Object.assign(requirement, { text, title: stringOf(body.title) || undefined, updatedAt: now() });
+    return ok(requirement);
+  } },
+  { method: 'delete', pattern: /^\/projects\/(\d+)\/requirements\/(\d+)$/, mutates: true, handler: (db, [pid, rid]) => {
+    if (!findRequirement(db, pid, rid)) return notFound('Requirement');
+    db.requirements = db.requirements.filter(r => !(r.projectId === pid && r.id === rid));
+    dropIntentionalConflicts(db, rid);
+    db.issueWaivers = db.issueWaivers.filter(waiver => waiver.requirementId !== rid);
+    return ok();
+  } },
+  { method: 'post', pattern: /^\/projects\/(\d+)\/requirements\/(\d+)\/split$/, mutates: true, handler: (db, [pid, rid], body) => {
+    const original = findRequirement(db, pid, rid);
+    if (!original) return notFound('Requirement');
+    if (original.status === 'Retired') return conflict('The requirement has already been retired');
+    const parts = Array.isArray(body.requirements) ? body.requirements.map(fieldsOf) : [];
+    if (parts.length < 2) return validationProblem({ Requirements: ['At least two requirements are needed to split.'] });
+    const errors = parts.reduce<Record<string, string[]>>(
+      (all, part, index) => ({ ...all, ...required(part, 'text', `Requirements[${index}].Text`) }),
+      {}
+    );
+    if (Object.keys(errors).length) return validationProblem(errors);
+    // All or nothing, like the backend's transaction: nothing is written until every part is valid
+    const createdParts: ProjectRequirement[] = parts.map(part => ({
+      id: db.nextId.requirement++,
+      projectId: pid,
+      title: stringOf(part.title) || undefined,
+      text: stringOf(part.text).trim(),
+      status: 'Draft',
+      derivedFromId: original.id,
+      createdAt: now(),
+      updatedAt: now(),
+    }));
+    db.requirements.push(...createdParts);
+    Object.assign(original, { status: 'Retired', updatedAt: now() });
+    return ok({ retired: original, created: createdParts });
+  } },
+  { method: 'post', pattern: /^\/projects\/(\d+)\/requirements\/(\d+)\/merge$/, mutates: true, handler: (db, [pid, rid], body) => {
+    const kept = findRequirement(db, pid, rid);
+    if (!kept) return notFound('Requirement');
+    const ids = Array.isArray(body.duplicateIds) ? Array.from(new Set(body.duplicateIds.map(Number))) : [];
+    if (ids.length === 0) return validationProblem({ DuplicateIds: ['At least one duplicate is needed to merge.'] });
+    if (ids.includes(kept.id)) return validationProblem({ DuplicateIds: ['A requirement cannot be merged into itself.'] });
+    const duplicates = ids.map(id => findRequirement(db, pid, id));
+    if (duplicates.some(duplicate => !duplicate)) {
+      return validationProblem({ DuplicateIds: ['Every duplicate must be a requirement of this project.'] });
+    }
+    if ([kept, ...duplicates].some(r => r!.status === 'Retired')) {
+      return conflict('The requirement or one of its duplicates has already been retired');
+    }
+    const retired = duplicates.map(duplicate => Object.assign(duplicate!, { status: 'Retired', mergedIntoId: kept.id, updatedAt: now() }));
+    kept.updatedAt = now();
+    return ok({ kept, retired });
+  } },
+  { method: 'post', pattern: /^\/projects\/(\d+)\/requirements\/(\d+)\/analyze$/, mutates: true, handler: (db, [pid, rid], body) => {
+    const requirement = findRequirement(db, pid, rid);
+    return requirement ? ok(analyzeStored(requirement, contextGlossary(body))) : notFound('Requirement');
+  } },
+  { method: 'post', pattern: /^\/projects\/(\d+)\/requirements\/(\d+)\/enhance$/, mutates: true, handler: (db, [pid, rid], body) => {
+    const requirement = findRequirement(db, pid, rid);
+    if (!requirement) return notFound('Requirement');
+    const enhancements = mockEnhancement(requirement.text, contextGlossary(body));
+    Object.assign(requirement, { enhancements, status: 'Enhanced', updatedAt: now() });
+    return ok(enhancements);
+  } },
+  { method: 'post', pattern: /^\/projects\/(\d+)\/analyze-all$/, mutates: true, handler: (db, [id], body) => {
+    if (!findProject(db, id)) return notFound('Project');
+    const results = db.requirements
+      .filter(r => r.projectId === id && isActiveRequirement(r))
+      .map(requirement => analyzeStored(requirement, contextGlossary(body)));
+    return ok({ analyzedCount: results.length, results });
+  } },
+
+  { method: 'post', pattern: /^\/projects\/(\d+)\/analyze-all\/stream$/, mutates: true, handler: (db, [id], body) => {
+    if (!findProject(db, id)) return notFound('Project');
+    const requirements = db.requirements.filter(r => r.projectId === id && isActiveRequirement(r));
+    return streamed([
+      { type: 'start', total: requirements.length },
+      ...requirements.map((requirement, index) =>
+        ({ type: 'result', index, requirementId: requirement.id, analysis: analyzeStored(requirement, contextGlossary(body)) })),
+      { type: 'complete', analyzedCount: requirements.length },
+    ]);
+  } },
+
+  // Glossary
+  { method: 'get', pattern: /^\/projects\/(\d+)\/glossary$/, handler: (db, [id]) =>
+    findProject(db, id) ? ok(db.glossary.filter(t => t.projectId === id)) : notFound('Project') },
+  { method: 'post', pattern: /^\/projects\/(\d+)\/glossary$/, mutates: true, handler: (db, [id], body) => {
+    if (!findProject(db, id)) return notFound('Project');
+    const { error, fields } = readGlossaryTerm(db, id, body);
+    if (error) return error;
+    const term: GlossaryTerm = { id: db.nextId.glossaryTerm++, projectId: id, ...fields!, createdAt: now(), updatedAt: now() };
+    db.glossary.push(term);
+    return created(term);
+  } },
+  { method: 'put', pattern: /^\/projects\/(\d+)\/glossary\/(\d+)$/, mutates: true, handler: (db, [pid, tid], body) => {
+    const term = db.glossary.find(t => t.projectId === pid && t.id === tid);
+    if (!term) return notFound('Glossary term');
+    const { error, fields } = readGlossaryTerm(db, pid, body, tid);
+    if (error) return error;
+    Object.assign(term, fields, { updatedAt: now() });
+    return ok(term);
+  } },
+  { method: 'delete', pattern: /^\/projects\/(\d+)\/glossary\/(\d+)$/, mutates: true, handler: (db, [pid, tid]) => {
+    if (!db.glossary.some(t => t.projectId === pid && t.id === tid)) return notFound('Glossary term');
+    db.glossary = db.glossary.filter(t => !(t.projectId === pid && t.id === tid));
+    return ok();
+  } },
+
+  // Conflicts marked as intended
+  { method: 'get', pattern: /^\/projects\/(\d+)\/intentional-conflicts$/, handler: (db, [id]) =>
+    findProject(db, id) ? ok(db.intentionalConflicts.filter(mark => mark.projectId === id)) : notFound('Project') },
+  { method: 'post', pattern: /^\/projects\/(\d+)\/intentional-conflicts$/, mutates: true, handler: (db, [id], body) => {
+    if (!findProject(db, id)) return notFound('Project');
+    const errors: Record<string, string[]> = {};
+    const kind = isOneOf(CONFLICT_KINDS, body.kind) ? body.kind : undefined;
+    if (!kind) errors.Kind = [`The Kind field must be one of ${CONFLICT_KINDS.join(', ')}.`];
+    const ids = Array.isArray(body.requirementIds) ? body.requirementIds.map(Number).sort((a, b) => a - b) : [];
+    if (ids.length !== 2 || ids[0] === ids[1] || ids.some(rid => !findRequirement(db, id, rid))) {
+      errors.RequirementIds = ['Two different requirements of this project are needed.'];
+    }
+    if (!kind || Object.keys(errors).length) return validationProblem(errors);
+    const marked = db.intentionalConflicts.some(
+      mark => mark.projectId === id && mark.kind === kind && mark.requirementIds.join() === ids.join()
+    );
+    if (marked) return conflict('The conflict is already marked as intended');
+    const mark: IntentionalConflict = {
+      id: db.nextId.intentionalConflict++,
+      projectId: id,
+      kind,
+      requirementIds: ids,
+      note: stringOf(body.note).trim() || undefined,
+      createdAt: now(),
+    };
+    db.intentionalConflicts.push(mark);
+    return created(mark);
+  } },
+  { method: 'delete', pattern: /^\/projects\/(\d+)\/intentional-conflicts\/(\d+)$/, mutates: true, handler: (db, [pid, mid]) => {
+    if (!db.intentionalConflicts.some(mark => mark.projectId === pid && mark.id === mid)) return notFound('Intentional conflict');
+    db.intentionalConflicts = db.intentionalConflicts.filter(mark => !(mark.projectId === pid && mark.id === mid));
+    return ok();
+  } },
+
+  // Quality-check settings
+  { method: 'get', pattern: /^\/projects\/(\d+)\/quality-settings$/, handler: (db, [id]) => {
+    if (!findProject(db, id)) return notFound('Project');
+    const stored = db.qualitySettings.find(settings => settings.projectId === id);
+    return ok({
+      readability: stored?.readability ?? DEFAULT_READABILITY_THRESHOLDS,
+      scoring: stored?.scoring ?? DEFAULT_SCORING_POLICY,
+    });
+  } },
+  { method: 'put', pattern: /^\/projects\/(\d+)\/quality-settings$/, mutates: true, handler: (db, [id], body) => {
+    if (!findProject(db, id)) return notFound('Project');
+    const readability = readReadability(body.readability);
+    const scoring = readScoringPolicy(body.scoring);
+    const errors = { ...readability.errors, ...scoring.errors };
+    if (Object.keys(errors).length) return validationProblem(errors);
+    const settings = { readability: readability.thresholds, scoring: scoring.policy };
+    db.qualitySettings = [...db.qualitySettings.filter(stored => stored.projectId !== id), { projectId: id, ...settings }];
+    return ok(settings);
+  } },
+
+  // Custom rule packs
+  { method: 'get', pattern: /^\/projects\/(\d+)\/rule-packs$/, handler: (db, [id]) =>
+    findProject(db, id) ? ok(db.rulePacks.filter(p => p.projectId === id)) : notFound('Project') },
+  { method: 'post', pattern: /^\/projects\/(\d+)\/rule-packs$/, mutates: true, handler: (db, [id], body) => {
+    if (!findProject(db, id)) return notFound('Project');
+    const { error, fields } = readRulePack(db, id, body);
+    if (error) return error;
+    const pack: RulePack = { id: db.nextId.rulePack++, projectId: id, ...fields!, createdAt: now(), updatedAt: now() };
+    db.rulePacks.push(pack);
+    return created(pack);
+  } },
+  { method: 'put', pattern: /^\/projects\/(\d+)\/rule-packs\/(\d+)$/, mutates: true, handler: (db, [pid, rid], body) => {
+    const pack = db.rulePacks.find(p => p.projectId === pid && p.id === rid);
+    if (!pack) return notFound('Rule pack');
+    const { error, fields } = readRulePack(db, pid, body, rid);
+    if (error) return error;
+    Object.assign(pack, fields, { updatedAt: now() });
+    return ok(pack);
+  } },
+  { method: 'delete', pattern: /^\/projects\/(\d+)\/rule-packs\/(\d+)$/, mutates: true, handler: (db, [pid, rid]) => {
+    if (!db.rulePacks.some(p => p.projectId === pid && p.id === rid)) return notFound('Rule pack');
+    db.rulePacks = db.rulePacks.filter(p => !(p.projectId === pid && p.id === rid));
+    return ok();
+  } },
+
+  // Issue waivers
+  { method: 'get', pattern: /^\/projects\/(\d+)\/issue-waivers$/, handler: (db, [id]) =>
+    findProject(db, id) ? ok(projectWaivers(db, id)) : notFound('Project') },
+  { method: 'post', pattern: /^\/projects\/(\d+)\/issue-waivers$/, mutates: true, handler: (db, [id], body, caller) => {
+    if (!findProject(db, id)) return notFound('Project');
+    const errors: Record<string, string[]> = {
+      ...required(body, 'description', 'Description'),
+      ...required(body, 'justification', 'Justification'),
+    };
+    const requirementId = Number(body.requirementId);
+    if (!findRequirement(db, id, requirementId)) errors.RequirementId = ['A requirement of this project is needed.'];
+    const type = isOneOf(ISSUE_TYPES, body.type) ? body.type : undefined;
+    if (!type) errors.Type = [`The Type field must be one of ${ISSUE_TYPES.join(', ')}.`];
+    const severity = isOneOf(ISSUE_SEVERITIES, body.severity) ? body.severity : undefined;
+    if (!severity) errors.Severity = [`The Severity field must be one of ${ISSUE_SEVERITIES.join(', ')}.`];
+    if (typeof body.problematicText !== 'string') errors.ProblematicText = ['The ProblematicText field is required.'];
+    const expiresAt = body.expiresAt ? new Date(stringOf(body.expiresAt)) : undefined;
+    if (expiresAt && !(expiresAt.getTime() > Date.now())) errors.ExpiresAt = ['The expiry must be a date in the future.'];
+    if (!type || !severity || Object.keys(errors).length) return validationProblem(errors);
+    const issue = { type, severity, problematicText: stringOf(body.problematicText), description: stringOf(body.description).trim() };
+    if (findWaiver(projectWaivers(db, id), requirementId, issue)) return conflict('The issue is already waived');
+    const waiver: IssueWaiver = {
+      id: db.nextId.issueWaiver++,
+      projectId: id,
+      requirementId,
+      ...issue,
+      justification: stringOf(body.justification).trim(),
+      author: caller?.displayName ?? 'Anonymous',
+      expiresAt: expiresAt?.toISOString(),
+      createdAt: now(),
+    };
+    db.issueWaivers.push(waiver);
+    return created(waiver);
+  } },
+  { method: 'delete', pattern: /^\/projects\/(\d+)\/issue-waivers\/(\d+)$/, mutates: true, handler: (db, [pid, wid]) => {
+    if (!db.issueWaivers.some(waiver => waiver.projectId === pid && waiver.id === wid)) return notFound('Waiver');
+    db.issueWaivers = db.issueWaivers.filter(waiver => !(waiver.projectId === pid && waiver.id === wid));
+    return ok();
+  } },
+
+  // Stakeholder simulation
+  { method: 'get', pattern: /^\/projects\/(\d+)\/stakeholder-simulation\/roles$/, handler: () => ok(MOCK_STAKEHOLDER_ROLES) },
+  { method: 'get', pattern: /^\/projects\/(\d+)\/stakeholder-simulation\/history$/, handler: (db, [id]) => {
+    const history: SimulationHistoryItem[] = db.simulations
+      .filter(s => s.projectId === id)
+      .map(s => ({
+        id: s.id,
+        projectId: s.projectId,
+        requirementSummary: s.requirementText.slice(0, 100),
+        stakeholderRole: s.stakeholderRole,
+        questionCount: s.questions.length,
+        createdAt: s.createdAt,
+      }))
+      .reverse();
+    return ok(history);
+  } },
+  { method: 'post', pattern: /^\/projects\/(\d+)\/stakeholder-simulation$/, mutates: true, handler: (db, [id], body) => {
+    if (!findProject(db, id)) return notFound('Project');
+    const errors = {
+      ...required(body, 'requirementText', 'RequirementText'),
+      ...required(body, 'stakeholderRole', 'StakeholderRole'),
+    };
+    if (Object.keys(errors).length) return validationProblem(errors);
+    const requirementText = stringOf(body.requirementText);
+    const stakeholderRole = stringOf(body.stakeholderRole);
+    const questions = mockQuestions(requirementText, stakeholderRole);
+    const categorySummary: Record<string, number> = {};
+    questions.forEach(q => {
+      categorySummary[q.category] = (categorySummary[q.category] || 0) + 1;
+    });
+    const simulation = {
+      id: db.nextId.simulation++,
+      projectId: id,
+      createdAt: now(),
+      generatedAt: now(),
+      requirementText,
+      stakeholderRole,
+      questions,
+      categorySummary,
+    };
+    db.simulations.push(simulation);
+    return ok(simulation);
+  } },
+  { method: 'get', pattern: /^\/projects\/(\d+)\/stakeholder-simulation\/(\d+)$/, handler: (db, [pid, sid]) => {
+    const simulation = db.simulations.find(s => s.projectId === pid && s.id === sid);
+    return simulation ? ok(simulation) : notFound('Simulation');
+  } },
+  { method: 'delete', pattern: /^\/projects\/(\d+)\/stakeholder-simulation\/(\d+)$/, mutates: true, handler: (db, [pid, sid]) => {
+    if (!db.simulations.some(s => s.projectId === pid && s.id === sid)) return notFound('Simulation');
+    db.simulations = db.simulations.filter(s => !(s.projectId === pid && s.id === sid));
+    return ok();
+  } },
+];
+
+// `changed` tells the adapter whether the database needs persisting
+export const handleMockRequest = async (
+  db: MockDatabase,
+  request: MockRequest
+): Promise<MockResponse & { changed: boolean }> => {
+  const method = request.method.toLowerCase();
+  for (const route of [...authRoutes, ...routes]) {
+    const match = route.method === method ? route.pattern.exec(request.path) : null;
+    if (match) {
+      if (!route.public && !isAuthorized(db, request.authorization)) {
+        return { ...unauthorizedResponse(), changed: false };
+      }
+      const response = await route.handler(db, match.slice(1).map(Number), readBody(request.body), currentUser(db, request.authorization));
+      return { ...response, changed: !!route.mutates && response.status < 400 };
+    }
+  }
+  return { ...notFound(`Route ${request.method.toUpperCase()} ${request.path}`), changed: false };
+};
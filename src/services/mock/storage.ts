@@ -0,0 +1,221 @@
+// src/services/mock/storage.ts - State of the mock backend, persisted to IndexedDB when available
+import type {
+  GlossaryTerm,
+  IntentionalConflict,
+  IssueWaiver,
+  Project,
+  QualitySettings,
+  ProjectRequirement,
+  RulePack,
+  StakeholderSimulationResponse,
+} from '../../domain';
+
+export type StoredProject = Omit<Project, 'requirementCount' | 'analyzedCount' | 'averageQualityScore'>;
+
+export interface StoredSimulation extends StakeholderSimulationResponse {
+  id: number;
+  projectId: number;
+  createdAt: string;
+}
+
+export interface StoredQualitySettings extends QualitySettings {
+  projectId: number;
+}
+
+export interface StoredSession {
+  accessToken: string;
+  refreshToken: string;
+  username: string;
+  // Epoch milliseconds; refresh tokens don't expire until sign-out
+  expiresAt: number;
+}
+
+// Issued by the stand-in identity provider's /authorize, redeemed once at /token
+export interface StoredAuthCode {
+  code: string;
+  username: string;
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  expiresAt: number;
+}
+
+export interface MockDatabase {
+  version: number;
+  nextId: {
+    project: number;
+    requirement: number;
+    simulation: number;
+    glossaryTerm: number;
+    intentionalConflict: number;
+    rulePack: number;
+    issueWaiver: number;
+  };
+  projects: StoredProject[];
+  requirements: ProjectRequirement[];
+  glossary: GlossaryTerm[];
+  intentionalConflicts: IntentionalConflict[];
+  // Only projects that saved their own; the rest use the defaults
+  qualitySettings: StoredQualitySettings[];
+  rulePacks: RulePack[];
+  issueWaivers: IssueWaiver[];
+  simulations: StoredSimulation[];
+  sessions: StoredSession[];
+  authCodes: StoredAuthCode[];
+}
+
+const SCHEMA_VERSION = 7;
+const DB_NAME = 'requirements-analyzer-mock';
+const STORE_NAME = 'state';
+const STATE_KEY = 'database';
+
+const seedDatabase = (): MockDatabase => {
+  const now = new Date().toISOString();
+  const requirement = (id: number, title: string, text: string): ProjectRequirement => ({
+    id,
+    projectId: 1,
+    title,
+    text,
+    status: 'Draft',
+    createdAt: now,
+    updatedAt: now,
+  });
+  const term = (id: number, entry: Pick<GlossaryTerm, 'term' | 'definition' | 'synonyms' | 'status'>): GlossaryTerm => ({
+    id,
+    projectId: 1,
+    ...entry,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  return {
+    version: SCHEMA_VERSION,
+    nextId: { project: 2, requirement: 4, simulation: 1, glossaryTerm: 4, intentionalConflict: 1, rulePack: 2, issueWaiver: 1 },
+    projects: [
+      {
+        id: 1,
+        name: 'Online Bookstore (demo)',
+        description: 'Sample project served by the in-browser mock backend',
+        createdAt: now,
+        updatedAt: now,
+      },
+    ],
+    requirements: [
+      requirement(1, 'User login', 'The system should allow users to log in quickly and be user-friendly.'),
+      requirement(2, 'Order confirmation', 'When an order is placed, the system shall send a confirmation email to the customer within 60 seconds.'),
+      requirement(3, 'Search', 'Search results must be fast and show all relevant books etc.'),
+    ],
+    glossary: [
+      term(1, { term: 'customer', definition: 'A person who buys books from the store', synonyms: ['client', 'buyer'], status: 'preferred' }),
+      term(2, { term: 'order', definition: 'A confirmed purchase of one or more books', synonyms: ['purchase'], status: 'preferred' }),
+      term(3, { term: 'user-friendly', definition: 'Not measurable; state a usability criterion instead', synonyms: [], status: 'forbidden' }),
+    ],
+    intentionalConflicts: [],
+    qualitySettings: [],
+    rulePacks: [
+      {
+        id: 1,
+        projectId: 1,
+        name: 'Bookstore house style',
+        description: 'Wording the bookstore team agreed on',
+        enabled: true,
+        rules: [
+          {
+            id: 'store-name',
+            kind: 'keyword',
+            keywords: ['the app', 'the website', 'the site'],
+            type: 'consistency',
+            severity: 'minor',
+            description: 'The product is called "the Store"',
+            suggestion: 'Write "the Store"',
+          },
+          {
+            id: 'no-etc',
+            kind: 'regex',
+            pattern: '\\b(?:etc|and so on)\\b\\.?',
+            type: 'completeness',
+            severity: 'major',
+            description: 'Open-ended lists cannot be tested',
+            suggestion: 'List every item',
+          },
+        ],
+        createdAt: now,
+        updatedAt: now,
+      },
+    ],
+    issueWaivers: [],
+    simulations: [],
+    sessions: [],
+    authCodes: [],
+  };
+};
+
+const openDatabase = (): Promise<IDBDatabase | null> =>
+  new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(null);
+  });
+
+// One connection per page, shared by every load and save. It is given up when another tab upgrades the database.
+let connectionPromise: Promise<IDBDatabase | null> | null = null;
+
+const connect = (): Promise<IDBDatabase | null> => {
+  if (!connectionPromise) {
+    connectionPromise = openDatabase().then(idb => {
+      if (idb) {
+        idb.onversionchange = () => {
+          idb.close();
+          connectionPromise = null;
+        };
+      }
+      return idb;
+    });
+  }
+  return connectionPromise;
+};
+
+let databasePromise: Promise<MockDatabase> | null = null;
+
+// Loaded once per page; falls back to in-memory state when IndexedDB is unavailable
+export const loadDatabase = (): Promise<MockDatabase> => {
+  if (!databasePromise) {
+    databasePromise = connect().then(idb => {
+      if (!idb) return seedDatabase();
+      return new Promise<MockDatabase>(resolve => {
+        const request = idb.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(STATE_KEY);
+        request.onsuccess = () => {
+          const stored = request.result as MockDatabase | undefined;
+          resolve(stored && stored.version === SCHEMA_VERSION ? stored : seedDatabase());
+        };
+        request.onerror = () => resolve(seedDatabase());
+      });
+    });
+  }
+  return databasePromise;
+};
+
+// Resolves once the write is committed; a failed write only loses persistence, not the in-memory state
+export const saveDatabase = async (db: MockDatabase): Promise<void> => {
+  const idb = await connect();
+  if (!idb) return;
+  await new Promise<void>(resolve => {
+    const transaction = idb.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(db, STATE_KEY);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => resolve();
+    transaction.onabort = () => resolve();
+  });
+};
+
+export const resetDatabase = async (): Promise<void> => {
+  const db = seedDatabase();
+  databasePromise = Promise.resolve(db);
+  await saveDatabase(db);
+};
@@ -0,0 +1,55 @@
+import { findConflicts } from './conflicts';
+
+const kinds = (texts: string[]) =>
+  findConflicts(texts.map((text, index) => ({ id: index + 1, text }))).map(conflict => conflict.kind);
+
+describe('findConflicts', () => {
+  test('finds different limits on the same quantity, in any unit', () => {
+    const [conflict] = findConflicts([
+      { id: 1, text: 'The search page shall respond within 2 s.' },
+      { id: 2, text: 'The search page shall respond within 5000 ms under peak load.' },
+    ]);
+    expect(conflict.kind).toBe('numeric');
+    expect(conflict.ids).toEqual([1, 2]);
+    expect(conflict.description).toContain('upper limits');
+  });
+
+  test('ignores equal limits and limits on unrelated subjects', () => {
+    expect(kinds(['The search page shall respond within 2 s.', 'The search page shall respond within 2000 ms.'])).toEqual([]);
+    expect(kinds(['The search page shall respond within 2 s.', 'Reports shall be exported within 5 minutes.'])).toEqual([]);
+  });
+
+  test('finds a lower bound above an upper bound', () => {
+    expect(kinds(['Passwords shall have at least 12 characters.', 'Passwords shall have at most 10 characters.'])).toEqual([
+      'numeric',
+    ]);
+  });
+
+  test('finds a requirement that forbids what another requires', () => {
+    const [conflict] = findConflicts([
+      { id: 1, text: 'The system shall store payment card numbers in the order history.' },
+      { id: 2, text: 'The system shall not store payment card numbers in the order history.' },
+    ]);
+    expect(conflict.kind).toBe('modality');
+    expect(conflict.spans[1]).toEqual({ start: 11, end: 20 });
+  });
+
+  test('finds incompatible states of the same thing', () => {
+    expect(kinds(['The export button shall be visible to guests.', 'The export button shall be hidden from guests.'])).toEqual([
+      'state',
+    ]);
+    expect(kinds(['The export button shall be visible to guests.', 'The audit log shall be hidden from guests.'])).toEqual([]);
+  });
+
+  test('reports a pair of requirements once, for the first kind of conflict', () => {
+    expect(kinds([
+      'The export button shall be visible to guests within 2 s.',
+      'The export button shall be hidden from guests within 5 s.',
+    ])).toEqual(['numeric']);
+    expect(kinds([
+      'The export button shall be visible to guests within 2 s.',
+      'The export button shall be hidden from guests within 5 s.',
+      'The audit log shall be kept for 5 years.',
+    ])).toEqual(['numeric']);
+  });
+});
@@ -0,0 +1,284 @@
+// src/services/quality/conflicts.ts - Project-wide conflict detection between pairs of requirements
+import { extractQuantities, Quantity } from './quantities';
+import { tokenize } from './similarity';
+import type { ConflictKind, TextSpan } from '../../domain';
+
+export interface ConflictDocument {
+  id: number;
+  text: string;
+}
+
+export interface RequirementConflict {
+  kind: ConflictKind;
+  // Lower id first; `spans` follows the same order
+  ids: [number, number];
+  // The words both requirements share, as a hint of what they disagree about
+  subject: string;
+  description: string;
+  spans: [TextSpan, TextSpan];
+}
+
+// Stable identity of a conflict, used to remember the ones marked intentional
+export const conflictKey = ({ kind, ids }: Pick<RequirementConflict, 'kind' | 'ids'>) => `${kind}:${ids[0]}-${ids[1]}`;
+
+// A sentence with everything the checks need, worked out once per sentence rather than once per pair
+interface Sentence {
+  text: string;
+  start: number;
+  words: string[];
+  quantities: Quantity[];
+  modality: { negated: boolean; span: TextSpan } | null;
+  states: Array<{ state: string; span: TextSpan }>;
+  // `words` without the state words, so that "visible" vs "hidden" is not mistaken for a different subject
+  stateSubject: string[];
+}
+
+// Words that say nothing about what a requirement constrains
+const GENERIC = new Set(['system', 'application', 'software', 'product', 'able', 'not', 'never', 'no', 'cannot', 't']);
+
+const wordsOf = (text: string, ignore: Set<string> = new Set()) =>
+  Array.from(new Set(tokenize(text).filter(word => !GENERIC.has(word) && !ignore.has(word))));
+
+// Shared words, and whether they cover most of the shorter of the two word lists
+const sameSubject = (a: string[], b: string[], minimumOverlap: number) => {
+  const shared = a.filter(word => b.includes(word));
+  const overlap = shared.length / Math.max(1, Math.min(a.length, b.length));
+  return shared.length > 0 && overlap >= minimumOverlap ? shared : null;
+};
+
+const shift = (span: TextSpan, offset: number): TextSpan => ({ start: span.start + offset, end: span.end + offset });
+
+// --- numeric constraints ---
+
+// A quantity as the limits it sets: a range or a toleranced value is both a lower and an upper limit
+interface Limit {
+  bound: 'max' | 'min' | 'exact';
+  value: number;
+  written: string;
+}
+
+const limitsOf = (quantity: Quantity): Limit[] => {
+  const { bound, value, upper, tolerance, written } = quantity;
+  if (bound === 'range') return [{ bound: 'min', value, written }, { bound: 'max', value: upper!, written }];
+  if (tolerance === undefined) return [{ bound, value, written }];
+  if (bound !== 'exact') return [{ bound, value: bound === 'max' ? value + tolerance : value - tolerance, written }];
+  return [{ bound: 'min', value: value - tolerance, written }, { bound: 'max', value: value + tolerance, written }];
+};
+
+// What a quantity measures: its dimension, and for counts the counted thing. Undefined for bare numbers.
+const measureOf = (quantity: Quantity) => {
+  if (quantity.dimension === 'unitless') return undefined;
+  return quantity.dimension === 'count' ? `count:${quantity.unit?.toLowerCase().replace(/s$/, '')}` : quantity.dimension;
+};
+
+const comparable = (a: Quantity, b: Quantity) => measureOf(a) !== undefined && measureOf(a) === measureOf(b);
+
+const same = (a: number, b: number) => Math.abs(a - b) <= 1e-9 * Math.max(Math.abs(a), Math.abs(b));
+
+// Why two limits on the same thing can't both hold, or null when they can
+const numericClash = (a: Limit, b: Limit): string | null => {
+  if (a.bound === b.bound && !same(a.value, b.value)) {
+    const which = { max: 'upper limits', min: 'lower limits', exact: 'values' }[a.bound];
+    return `Different ${which}: ${a.written} vs ${b.written}`;
+  }
+  // The lower bound (or exact value) of one is above the upper bound (or exact value) of the other
+  const [low, high] = a.bound === 'min' || (a.bound === 'exact' && b.bound === 'max') ? [a, b] : [b, a];
+  if (low.bound !== 'max' && high.bound !== 'min' && low.value > high.value && !same(low.value, high.value)) {
+    return `Incompatible limits: ${low.bound === 'min' ? 'at least ' : ''}${low.written} vs ${high.bound === 'max' ? 'at most ' : ''}${high.written}`;
+  }
+  return null;
+};
+
+const numericConflicts = (a: Sentence, b: Sentence): Array<Omit<RequirementConflict, 'ids'>> => {
+  const found: Array<Omit<RequirementConflict, 'ids'>> = [];
+  const subject = sameSubject(a.words, b.words, 0.6);
+  if (!subject) return found;
+  a.quantities.forEach(qa =>
+    b.quantities
+      .filter(qb => comparable(qa, qb))
+      .forEach(qb => {
+        const clash = limitsOf(qa).flatMap(la => limitsOf(qb).map(lb => numericClash(la, lb))).find(Boolean);
+        if (clash) {
+          found.push({
+            kind: 'numeric',
+            subject: subject.join(' '),
+            description: clash,
+            spans: [shift(qa.span, a.start), shift(qb.span, b.start)],
+          });
+        }
+      })
+  );
+  return found;
+};
+
+// --- opposite modalities ---
+
+const MODALITY = /\b(?:shall|must|will|should|may|can)(?:\s+(not|never))?\b|\b(cannot|can't|won't|mustn't|shan't)\b/i;
+
+const modalityOf = (sentence: string) => {
+  const match = MODALITY.exec(sentence);
+  if (!match) return null;
+  return { negated: !!(match[1] || match[2]), span: { start: match.index, end: match.index + match[0].length } };
+};
+
+const modalityConflict = (a: Sentence, b: Sentence): Omit<RequirementConflict, 'ids'> | null => {
+  const [ma, mb] = [a.modality, b.modality];
+  if (!ma || !mb || ma.negated === mb.negated) return null;
+  // Nearly the same action, so that "delete accounts" vs "not delete orders" is not reported
+  const subject = sameSubject(a.words, b.words, 0.8);
+  if (!subject || subject.length < 2) return null;
+  return {
+    kind: 'modality',
+    subject: subject.join(' '),
+    description: `One requires what the other forbids: "${a.text.slice(ma.span.start, ma.span.end)}" vs "${b.text.slice(mb.span.start, mb.span.end)}"`,
+    spans: [shift(ma.span, a.start), shift(mb.span, b.start)],
+  };
+};
+
+// --- incompatible states ---
+
+const OPPOSITE_STATES: Array<[string, string]> = [
+  ['enabled', 'disabled'],
+  ['visible', 'hidden'],
+  ['locked', 'unlocked'],
+  ['online', 'offline'],
+  ['mandatory', 'optional'],
+  ['required', 'optional'],
+  ['encrypted', 'unencrypted'],
+  ['public', 'private'],
+  ['synchronous', 'asynchronous'],
+  ['editable', 'read-only'],
+  ['allowed', 'prohibited'],
+  ['automatic', 'manual'],
+];
+
+const STATE_WORDS = new Set(OPPOSITE_STATES.flat().flatMap(word => tokenize(word)));
+const STATE_PATTERNS = OPPOSITE_STATES.flat().map(state => ({ state, pattern: new RegExp(`\\b${state}\\b`, 'gi') }));
+
+const oppositeOf = (state: string) => OPPOSITE_STATES.find(pair => pair.includes(state))!.find(other => other !== state)!;
+
+const statesOf = (sentence: string) => {
+  const states: Array<{ state: string; span: TextSpan }> = [];
+  STATE_PATTERNS.forEach(({ state, pattern }) => {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(sentence)) !== null) {
+      states.push({ state, span: { start: match.index, end: match.index + match[0].length } });
+    }
+  });
+  return states;
+};
+
+const stateConflict = (a: Sentence, b: Sentence): Omit<RequirementConflict, 'ids'> | null => {
+  const subject = sameSubject(a.stateSubject, b.stateSubject, 0.6);
+  if (!subject) return null;
+  const [sa, sb] = [a.states, b.states];
+  for (const x of sa) {
+    const opposite = oppositeOf(x.state);
+    const y = sb.find(({ state }) => state === opposite);
+    // A sentence that names both states ("enabled or disabled") takes no side
+    if (y && !sa.some(({ state }) => state === opposite) && !sb.some(({ state }) => state === x.state)) {
+      return {
+        kind: 'state',
+        subject: subject.join(' '),
+        description: `Incompatible states: ${x.state} vs ${y.state}`,
+        spans: [shift(x.span, a.start), shift(y.span, b.start)],
+      };
+    }
+  }
+  return null;
+};
+
+// --- candidate pairs ---
+
+const sentencesOf = (text: string): Sentence[] => {
+  const sentences: Sentence[] = [];
+  const pattern = /[^.!?;\n]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (!match[0].trim()) continue;
+    const sentence = match[0];
+    sentences.push({
+      text: sentence,
+      start: match.index,
+      words: wordsOf(sentence),
+      quantities: extractQuantities(sentence),
+      modality: modalityOf(sentence),
+      states: statesOf(sentence),
+      stateSubject: wordsOf(sentence, STATE_WORDS),
+    });
+  }
+  return sentences;
+};
+
+const groupBy = <T>(entries: Array<[string, T]>) => {
+  const groups = new Map<string, T[]>();
+  entries.forEach(([key, value]) => {
+    const group = groups.get(key);
+    if (group) group.push(value);
+    else groups.set(key, [value]);
+  });
+  return groups;
+};
+
+// Pairs of sentences, from different requirements, that could conflict at all: two limits on the same
+// measure, a requirement and a prohibition with a word in common, or two opposite states. Everything else
+// is never compared, so a project of unrelated requirements costs close to nothing.
+const candidatePairs = (sentences: Sentence[], owner: number[]): Array<[number, number]> => {
+  const pairs = new Set<string>();
+  const add = (x: number, y: number) => {
+    if (owner[x] !== owner[y]) pairs.add(owner[x] < owner[y] ? `${x}:${y}` : `${y}:${x}`);
+  };
+  const indexes = sentences.map((_, index) => index);
+
+  groupBy(indexes.flatMap(i => sentences[i].quantities.map(measureOf).filter(Boolean).map(measure => [measure!, i] as [string, number])))
+    .forEach(group => group.forEach((x, k) => group.slice(k + 1).forEach(y => add(x, y))));
+
+  const prohibitions = groupBy(indexes
+    .filter(i => sentences[i].modality?.negated)
+    .flatMap(i => sentences[i].words.map(word => [word, i] as [string, number])));
+  indexes
+    .filter(i => sentences[i].modality && !sentences[i].modality!.negated)
+    .forEach(i => sentences[i].words.forEach(word => prohibitions.get(word)?.forEach(y => add(i, y))));
+
+  const byState = groupBy(indexes.flatMap(i => sentences[i].states.map(({ state }) => [state, i] as [string, number])));
+  byState.forEach((group, state) => group.forEach(x => byState.get(oppositeOf(state))?.forEach(y => add(x, y))));
+
+  return Array.from(pairs, pair => pair.split(':').map(Number) as [number, number]).sort((p, q) => p[0] - q[0] || p[1] - q[1]);
+};
+
+// Every conflicting pair of requirements, compared sentence by sentence. A pair is reported once, for the first
+// kind that applies: different limits, then a requirement against a prohibition, then opposite states.
+export const findConflicts = (documents: ConflictDocument[]): RequirementConflict[] => {
+  const sorted = [...documents].sort((a, b) => a.id - b.id);
+  const sentences: Sentence[] = [];
+  const owner: number[] = [];
+  sorted.forEach((document, index) =>
+    sentencesOf(document.text).forEach(sentence => {
+      sentences.push(sentence);
+      owner.push(index);
+    })
+  );
+
+  const byRequirements = groupBy(candidatePairs(sentences, owner).map(([x, y]) =>
+    [`${owner[x]}:${owner[y]}`, [sentences[x], sentences[y]]] as [string, [Sentence, Sentence]]
+  ));
+
+  const checks = [
+    (a: Sentence, b: Sentence) => numericConflicts(a, b)[0],
+    modalityConflict,
+    stateConflict,
+  ];
+  const found: Array<{ order: [number, number]; conflict: RequirementConflict }> = [];
+  byRequirements.forEach((pairs, key) => {
+    const [i, j] = key.split(':').map(Number);
+    for (const check of checks) {
+      const conflict = pairs.map(([a, b]) => check(a, b)).find(Boolean);
+      if (conflict) {
+        found.push({ order: [i, j], conflict: { ...conflict, ids: [sorted[i].id, sorted[j].id] } });
+        break;
+      }
+    }
+  });
+  return found.sort((a, b) => a.order[0] - b.order[0] || a.order[1] - b.order[1]).map(({ conflict }) => conflict);
+};
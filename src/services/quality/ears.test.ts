@@ -0,0 +1,44 @@
+import { classifyEars, renderEars, suggestEarsRewrite } from './ears';
+
+describe('classifyEars', () => {
+  test.each([
+    ['The system shall log every failed login.', 'ubiquitous'],
+    ['When a user submits an order, the system shall send a confirmation email.', 'event-driven'],
+    ['While the device is offline, the app shall queue outgoing messages.', 'state-driven'],
+    ['If the payment fails, then the system shall notify the customer.', 'unwanted-behaviour'],
+    ['Where a printer is attached, the kiosk shall print a receipt.', 'optional-feature'],
+    ['While in maintenance mode, when an operator logs in, the system shall show the audit log.', 'complex'],
+  ])('%s is %s and conforms', (text, pattern) => {
+    const result = classifyEars(text);
+    expect(result.pattern).toBe(pattern);
+    expect(result.problems).toEqual([]);
+  });
+
+  test('flags text that does not follow the templates', () => {
+    expect(classifyEars('The system should be fast.')).toMatchObject({ pattern: null, problems: ['Uses "should" instead of "shall"'] });
+    expect(classifyEars('If the payment fails, the system shall retry.').problems).toHaveLength(1);
+    expect(classifyEars('The system shall send an email when an order is placed.').problems)
+      .toEqual(['Move the "when" clause to the start of the requirement']);
+  });
+});
+
+describe('suggestEarsRewrite', () => {
+  test('moves conditions to the front and fills the slots of the closest template', () => {
+    const rewrite = suggestEarsRewrite('The system should send an email when an order is placed');
+    expect(rewrite).toEqual({
+      pattern: 'event-driven',
+      clauses: { precondition: '', trigger: 'an order is placed', feature: '', system: 'system', response: 'send an email' },
+    });
+    expect(renderEars(rewrite.pattern, rewrite.clauses)).toBe('When an order is placed, the system shall send an email.');
+  });
+
+  test('maps everyday wording to EARS keywords and leaves unknown slots as placeholders', () => {
+    const rewrite = suggestEarsRewrite('In case of a timeout the gateway must retry twice.');
+    expect(rewrite.pattern).toBe('unwanted-behaviour');
+    expect(renderEars(rewrite.pattern, rewrite.clauses)).toBe('If a timeout occurs, then the gateway shall retry twice.');
+    const during = suggestEarsRewrite('During a backup, the database must reject writes.');
+    expect(renderEars(during.pattern, during.clauses)).toBe('While a backup is in progress, the database shall reject writes.');
+    expect(renderEars('state-driven', suggestEarsRewrite('Log in quickly').clauses))
+      .toBe('While <precondition>, the <system> shall log in quickly.');
+  });
+});
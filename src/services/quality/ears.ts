@@ -0,0 +1,260 @@
+// src/services/quality/ears.ts - EARS (Easy Approach to Requirements Syntax) classification and rewriting
+
+export type EarsPattern =
+  | 'ubiquitous'
+  | 'event-driven'
+  | 'state-driven'
+  | 'unwanted-behaviour'
+  | 'optional-feature'
+  | 'complex';
+
+// The clause slots of the EARS templates
+export interface EarsClauses {
+  precondition: string; // While ...
+  trigger: string; // When ... / If ...
+  feature: string; // Where ...
+  system: string; // the <system>, without "the"
+  response: string; // shall ...
+}
+
+export type EarsSlot = keyof EarsClauses;
+
+export interface EarsPatternInfo {
+  label: string;
+  template: string;
+  slots: EarsSlot[];
+}
+
+export const EARS_PATTERNS: Record<EarsPattern, EarsPatternInfo> = {
+  ubiquitous: {
+    label: 'Ubiquitous',
+    template: 'The <system> shall <response>',
+    slots: ['system', 'response'],
+  },
+  'event-driven': {
+    label: 'Event-driven',
+    template: 'When <trigger>, the <system> shall <response>',
+    slots: ['trigger', 'system', 'response'],
+  },
+  'state-driven': {
+    label: 'State-driven',
+    template: 'While <precondition>, the <system> shall <response>',
+    slots: ['precondition', 'system', 'response'],
+  },
+  'unwanted-behaviour': {
+    label: 'Unwanted behaviour',
+    template: 'If <trigger>, then the <system> shall <response>',
+    slots: ['trigger', 'system', 'response'],
+  },
+  'optional-feature': {
+    label: 'Optional feature',
+    template: 'Where <feature>, the <system> shall <response>',
+    slots: ['feature', 'system', 'response'],
+  },
+  complex: {
+    label: 'Complex',
+    template: 'While <precondition>, when <trigger>, the <system> shall <response>',
+    slots: ['precondition', 'trigger', 'system', 'response'],
+  },
+};
+
+export interface EarsClassification {
+  // The pattern the text follows, or null when it has no "shall" clause at all
+  pattern: EarsPattern | null;
+  clauses: EarsClauses;
+  // Why the text does not conform; empty when it does
+  problems: string[];
+}
+
+type Keyword = 'while' | 'when' | 'if' | 'where';
+
+const KEYWORD_SLOT: Record<Keyword, EarsSlot> = {
+  while: 'precondition',
+  when: 'trigger',
+  if: 'trigger',
+  where: 'feature',
+};
+
+const KEYWORD_PATTERN: Record<Keyword, EarsPattern> = {
+  while: 'state-driven',
+  when: 'event-driven',
+  if: 'unwanted-behaviour',
+  where: 'optional-feature',
+};
+
+// Everyday wording for each EARS keyword, used to find the closest template
+const CUES: Array<[Keyword, string[]]> = [
+  ['when', ['when', 'whenever', 'upon', 'after', 'once', 'as soon as']],
+  ['while', ['while', 'during', 'as long as']],
+  ['if', ['if', 'in case of', 'in case', 'in the event of', 'in the event that']],
+  ['where', ['where']],
+];
+const CUE_PATTERN = CUES.flatMap(([, cues]) => cues).sort((a, b) => b.length - a.length).join('|');
+
+// Cues followed by a noun phrase rather than a clause: "in case of a timeout" becomes "if a timeout occurs"
+const NOUN_PHRASE_CUES: Record<string, string> = {
+  'in case of': 'occurs',
+  'in the event of': 'occurs',
+  during: 'is in progress',
+};
+
+const keywordOf = (cue: string): Keyword =>
+  CUES.find(([, cues]) => cues.indexOf(cue.toLowerCase()) >= 0)![0];
+
+const emptyClauses = (): EarsClauses => ({ precondition: '', trigger: '', feature: '', system: '', response: '' });
+
+const normalize = (text: string) => text.trim().replace(/\s+/g, ' ').replace(/[.!]+$/, '');
+
+const withoutArticle = (system: string) => system.trim().replace(/^then\s+/i, '').replace(/^the\s+/i, '');
+
+const addClause = (clauses: EarsClauses, slot: EarsSlot, text: string) => {
+  clauses[slot] = clauses[slot] ? `${clauses[slot]} and ${text}` : text;
+};
+
+// Splits "When a, while b, the system" into its keyword clauses and the system name. Without a comma
+// before the system name, the last "the ..." is taken as the system.
+const splitPreamble = (before: string) => {
+  const lastComma = before.lastIndexOf(',');
+  if (lastComma >= 0) {
+    return { preamble: before.slice(0, lastComma), system: before.slice(lastComma + 1).trim(), missingComma: false };
+  }
+  const unseparated = /^((?:while|when|if|where)\s.+)\s+((?:then\s+)?the\s.+)$/i.exec(before);
+  return unseparated
+    ? { preamble: unseparated[1], system: unseparated[2], missingComma: true }
+    : { preamble: '', system: before, missingComma: false };
+};
+
+// Classifies a requirement against the EARS patterns and lists what keeps it from conforming
+export const classifyEars = (text: string): EarsClassification => {
+  const sentence = normalize(text);
+  const clauses = emptyClauses();
+  const problems: string[] = [];
+
+  const shallAt = sentence.search(/\bshall\b/i);
+  if (shallAt < 0) {
+    const modal = /\b(should|must|will|may|can)\b/i.exec(sentence);
+    return {
+      pattern: null,
+      clauses,
+      problems: [modal ? `Uses "${modal[1]}" instead of "shall"` : 'Has no "<system> shall <response>" clause'],
+    };
+  }
+  if ((sentence.match(/\bshall\b/gi) || []).length > 1) {
+    problems.push('Contains more than one "shall"; an EARS requirement states a single response');
+  }
+
+  const before = sentence.slice(0, shallAt).trim();
+  clauses.response = sentence.slice(shallAt + 'shall'.length).trim();
+  const { preamble, system, missingComma } = splitPreamble(before);
+  clauses.system = withoutArticle(system);
+  if (missingComma) problems.push('Separate the opening clause from the system name with a comma');
+
+  const keywords: Keyword[] = [];
+  if (preamble) {
+    preamble.split(/,\s*(?=(?:while|when|if|where)\b)/i).forEach(part => {
+      const match = /^(while|when|if|where)\s+(.+)$/i.exec(part.trim());
+      if (!match) {
+        problems.push(`"${part.trim()}" does not start with While, When, If or Where`);
+        return;
+      }
+      const keyword = match[1].toLowerCase() as Keyword;
+      keywords.push(keyword);
+      addClause(clauses, KEYWORD_SLOT[keyword], match[2]);
+    });
+  }
+
+  if (!clauses.system) problems.push('Name the system before "shall"');
+  else if (!/^(?:then\s+)?the\s/i.test(system)) problems.push(`Introduce the system as "the ${clauses.system}"`);
+  if (!clauses.response) problems.push('Say what the system shall do');
+  if (keywords.indexOf('if') >= 0 && !/^then\s/i.test(system)) {
+    problems.push('Unwanted behaviour reads "If <trigger>, then the <system> shall ..."');
+  }
+  const trailing = /\b(when|while|if)\b/i.exec(clauses.response);
+  if (trailing) problems.push(`Move the "${trailing[1]}" clause to the start of the requirement`);
+
+  const distinct = keywords.filter((keyword, index) => keywords.indexOf(keyword) === index);
+  const pattern = distinct.length === 0 ? 'ubiquitous' : distinct.length > 1 ? 'complex' : KEYWORD_PATTERN[distinct[0]];
+  return { pattern, clauses, problems };
+};
+
+const patternFor = (clauses: EarsClauses, unwanted: boolean): EarsPattern => {
+  const filled = (['precondition', 'trigger', 'feature'] as EarsSlot[]).filter(slot => clauses[slot]);
+  if (filled.length > 1) return 'complex';
+  if (clauses.trigger) return unwanted ? 'unwanted-behaviour' : 'event-driven';
+  if (clauses.precondition) return 'state-driven';
+  if (clauses.feature) return 'optional-feature';
+  return 'ubiquitous';
+};
+
+export interface EarsRewrite {
+  pattern: EarsPattern;
+  clauses: EarsClauses;
+}
+
+// The closest EARS template for free text, with its slots filled from the text. Conditions are moved
+// to the front, other modal verbs become "shall", and slots that can't be found are left empty.
+export const suggestEarsRewrite = (text: string): EarsRewrite => {
+  const sentence = normalize(text);
+  const clauses = emptyClauses();
+  let unwanted = false;
+  const take = (cue: string, clause: string) => {
+    const keyword = keywordOf(cue);
+    unwanted = unwanted || keyword === 'if';
+    const verb = NOUN_PHRASE_CUES[cue.toLowerCase()];
+    addClause(clauses, KEYWORD_SLOT[keyword], verb ? `${clause.trim()} ${verb}` : clause.trim());
+  };
+
+  const modal = /\b(shall|should|must|will|may|can|could|might)\b/i.exec(sentence);
+  const before = modal ? sentence.slice(0, modal.index).trim() : '';
+  // Without a modal verb the whole sentence becomes the response
+  let response = modal
+    ? sentence.slice(modal.index + modal[0].length).trim()
+    : sentence.charAt(0).toLowerCase() + sentence.slice(1);
+
+  // Leading conditions: "When x, the system ..." / "Upon x the system ..."
+  const parts = before.split(/,\s*/);
+  let subject = parts.pop() || '';
+  const unseparated = new RegExp(`^(${CUE_PATTERN})\\s+(.+)\\s+((?:then\\s+)?the\\s.+)$`, 'i').exec(subject);
+  if (unseparated) {
+    take(unseparated[1], unseparated[2]);
+    subject = unseparated[3];
+  }
+  parts.forEach(part => {
+    const match = new RegExp(`^(${CUE_PATTERN})\\s+(.+)$`, 'i').exec(part.trim());
+    if (match) take(match[1], match[2]);
+  });
+  clauses.system = withoutArticle(subject);
+
+  // Trailing conditions: "... shall send an email when an order is placed"
+  const trailing = new RegExp(`^(.*?),?\\s+\\b(${CUE_PATTERN})\\b\\s+(.+)$`, 'i').exec(response);
+  if (trailing && trailing[1]) {
+    response = trailing[1];
+    take(trailing[2], trailing[3]);
+  }
+  clauses.response = response;
+
+  return { pattern: patternFor(clauses, unwanted), clauses };
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Renders the template for `pattern`; empty slots show as <slot> placeholders
+export const renderEars = (pattern: EarsPattern, clauses: EarsClauses): string => {
+  const slot = (name: EarsSlot) => clauses[name].trim() || `<${name}>`;
+  const main = `the ${slot('system')} shall ${slot('response')}`;
+  const leads: Record<EarsPattern, string[]> = {
+    ubiquitous: [],
+    'event-driven': [`when ${slot('trigger')}`],
+    'state-driven': [`while ${slot('precondition')}`],
+    'unwanted-behaviour': [`if ${slot('trigger')}`],
+    'optional-feature': [`where ${slot('feature')}`],
+    complex: [
+      ...(clauses.feature.trim() ? [`where ${slot('feature')}`] : []),
+      `while ${slot('precondition')}`,
+      `when ${slot('trigger')}`,
+    ],
+  };
+  const opening = leads[pattern];
+  const then = pattern === 'unwanted-behaviour' ? 'then ' : '';
+  return `${capitalize(opening.length ? `${opening.join(', ')}, ${then}${main}` : main)}.`;
+};
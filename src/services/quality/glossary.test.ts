@@ -0,0 +1,62 @@
+import { findGlossaryTerms, glossaryRules, mixedTerminology } from './glossary';
+import { lintRequirement } from './linter';
+import type { GlossaryEntry } from '../../domain';
+
+const glossary: GlossaryEntry[] = [
+  { term: 'customer', definition: 'A person who places orders', synonyms: ['client', 'buyer'], status: 'preferred' },
+  { term: 'the app', definition: 'Former product name', status: 'forbidden', replacedBy: 'the Portal' },
+  { term: 'Portal', definition: 'The customer-facing web application' },
+];
+
+const findings = (text: string) =>
+  lintRequirement(text, glossaryRules(glossary)).map(issue => `${issue.ruleId}:${issue.severity}:${issue.problematicText}`);
+
+describe('findGlossaryTerms', () => {
+  test('finds terms and synonyms as whole words, in reading order', () => {
+    const matches = findGlossaryTerms('The Portal shall email the client and every customer.', glossary);
+    expect(matches.map(match => `${match.kind}:${match.entry.term}:${match.matched}`)).toEqual([
+      'term:Portal:Portal',
+      'synonym:customer:client',
+      'term:customer:customer',
+    ]);
+  });
+});
+
+describe('glossaryRules', () => {
+  test('flags forbidden terms, synonyms and mixed wordings of the same term', () => {
+    expect(findings('The app shall notify the buyer.')).toEqual([
+      'glossary-terms:major:The app',
+      'glossary-terms:minor:buyer',
+    ]);
+    expect(findings('The Portal shall notify the client when the customer cancels.')).toEqual([
+      'glossary-terms:major:client',
+    ]);
+  });
+
+  test('flags acronyms and names that the glossary does not define', () => {
+    expect(findings('The Portal shall show the SKU of every item in the Order Hub as a PDF.')).toEqual([
+      'undefined-terms:minor:SKU',
+      'undefined-terms:minor:Order Hub',
+    ]);
+  });
+
+  test('has nothing to check without a glossary', () => {
+    expect(lintRequirement('The app shall show the SKU.', glossaryRules([]))).toEqual([]);
+  });
+});
+
+describe('mixedTerminology', () => {
+  test('reports terms written in more than one way across requirements', () => {
+    const usage = mixedTerminology(
+      [
+        { id: 1, text: 'The Portal shall greet the customer.' },
+        { id: 2, text: 'The Portal shall bill the client.' },
+        { id: 3, text: 'The Portal shall log out the customer.' },
+      ],
+      glossary
+    );
+    expect(usage.map(({ entry, wordings }) => [entry.term, wordings])).toEqual([
+      ['customer', { customer: [1, 3], client: [2] }],
+    ]);
+  });
+});
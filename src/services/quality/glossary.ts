@@ -0,0 +1,153 @@
+// src/services/quality/glossary.ts - Terminology checks against the project glossary
+import { LintIssue, LintRule, TermMatch, findPattern, findTerms, issueAt, overlaps } from './linter';
+import type { GlossaryEntry, TextSpan } from '../../domain';
+
+// An occurrence of a glossary term, or of one of its synonyms, in a requirement
+export interface GlossaryMatch {
+  entry: GlossaryEntry;
+  // The text as written
+  matched: string;
+  span: TextSpan;
+  kind: 'term' | 'synonym';
+}
+
+const statusOf = (entry: GlossaryEntry) => entry.status ?? 'preferred';
+
+// Every wording the glossary knows, lower-cased, with the entry it belongs to
+const vocabulary = (glossary: GlossaryEntry[]) => {
+  const words = new Map<string, { entry: GlossaryEntry; kind: GlossaryMatch['kind'] }>();
+  glossary.forEach(entry => {
+    (entry.synonyms ?? []).forEach(synonym => {
+      if (synonym.trim()) words.set(synonym.trim().toLowerCase(), { entry, kind: 'synonym' });
+    });
+  });
+  // A term wins over another entry's synonym with the same spelling
+  glossary.forEach(entry => {
+    if (entry.term.trim()) words.set(entry.term.trim().toLowerCase(), { entry, kind: 'term' });
+  });
+  return words;
+};
+
+// Whole-word occurrences of glossary terms and synonyms, longest wording first, in reading order
+export const findGlossaryTerms = (text: string, glossary: GlossaryEntry[]): GlossaryMatch[] => {
+  const words = vocabulary(glossary);
+  if (words.size === 0) return [];
+  return findTerms(text, Array.from(words.keys())).map(({ term, span }) => ({
+    ...words.get(term.toLowerCase())!,
+    matched: term,
+    span,
+  }));
+};
+
+const replacementHint = (entry: GlossaryEntry) =>
+  entry.replacedBy ? `Use "${entry.replacedBy}" instead` : 'Rephrase without it';
+
+const asTermMatch = ({ matched, span }: GlossaryMatch): TermMatch => ({ term: matched, span });
+
+const terminology = (glossary: GlossaryEntry[]): LintRule => ({
+  id: 'glossary-terms',
+  name: 'Glossary terminology',
+  check: text => {
+    const matches = findGlossaryTerms(text, glossary);
+    return matches.flatMap((match): LintIssue[] => {
+      const { entry, matched } = match;
+      const status = statusOf(entry);
+      if (status !== 'preferred') {
+        return [issueAt('glossary-terms', 'consistency', status === 'forbidden' ? 'major' : 'minor', asTermMatch(match),
+          `"${matched}" is ${status} in this project's glossary`,
+          replacementHint(entry))];
+      }
+      if (match.kind === 'term') return [];
+      // "client" next to "customer" in the same requirement reads as two different actors
+      const mixed = matches.some(other => other.entry === entry && other.matched.toLowerCase() !== matched.toLowerCase());
+      return [issueAt('glossary-terms', 'consistency', mixed ? 'major' : 'minor', asTermMatch(match),
+        mixed
+          ? `"${matched}" and other wordings of the glossary term "${entry.term}" are mixed`
+          : `"${matched}" is a synonym of the glossary term "${entry.term}"`,
+        `Use "${entry.term}"`)];
+    });
+  },
+});
+
+// Abbreviations every reader knows; they don't need a glossary entry
+const COMMON_ABBREVIATIONS = [
+  'API', 'CPU', 'CSV', 'GB', 'HTML', 'HTTP', 'HTTPS', 'ID', 'IP', 'JSON', 'KB', 'MB', 'OK', 'PDF', 'TB',
+  'UI', 'URL', 'UTC', 'UX', 'XML', 'TBD', 'TBC', 'TBA', 'TODO',
+];
+
+// Acronyms ("SKU") and capitalised names inside a sentence ("the Order Hub"), which usually name domain concepts
+const candidateTerms = (text: string): TermMatch[] => {
+  const acronyms = findPattern(text, /\b[A-Z][A-Z0-9]{1,}s?\b/g)
+    .filter(({ term }) => COMMON_ABBREVIATIONS.indexOf(term.replace(/s$/, '')) < 0);
+  const names = findPattern(text, /\b[A-Z][a-z][\w-]*(?:\s+[A-Z][\w-]*)*/g).flatMap(match => {
+    // The first word of a sentence is capitalised anyway
+    const sentenceStart = /(?:^|[.!?:;\n]\s*|["'(]\s*)$/.test(text.slice(0, match.span.start));
+    if (!sentenceStart) return [match];
+    const rest = /^\S+\s+/.exec(match.term);
+    return rest ? [{ term: match.term.slice(rest[0].length), span: { start: match.span.start + rest[0].length, end: match.span.end } }] : [];
+  });
+  return [...acronyms, ...names].filter(match => !/^I$/.test(match.term));
+};
+
+const undefinedTerms = (glossary: GlossaryEntry[]): LintRule => ({
+  id: 'undefined-terms',
+  name: 'Terms missing from the glossary',
+  check: text => {
+    const known = findGlossaryTerms(text, glossary);
+    return candidateTerms(text)
+      .filter(candidate => !known.some(match => overlaps(match.span, candidate.span)))
+      .map(candidate =>
+        issueAt('undefined-terms', 'ambiguity', 'minor', candidate,
+          `"${candidate.term}" looks like a domain term but is not in the project glossary`,
+          'Define it in the glossary, or use a term that is already defined')
+      );
+  },
+});
+
+// Lint rules for a project's glossary. Without a glossary there is nothing to check against.
+export const glossaryRules = (glossary: GlossaryEntry[]): LintRule[] =>
+  glossary.length === 0 ? [] : [terminology(glossary), undefinedTerms(glossary)];
+
+export interface TermUsage {
+  entry: GlossaryEntry;
+  // Requirement ids per wording used, the term itself included
+  wordings: Record<string, number[]>;
+}
+
+// Glossary entries whose term is written in more than one way across the given requirements
+export const mixedTerminology = (
+  requirements: Array<{ id: number; text: string }>,
+  glossary: GlossaryEntry[]
+): TermUsage[] => {
+  const usage = new Map<GlossaryEntry, Record<string, number[]>>();
+  requirements.forEach(({ id, text }) => {
+    findGlossaryTerms(text, glossary).forEach(({ entry, matched }) => {
+      const wordings = usage.get(entry) ?? {};
+      const wording = matched.toLowerCase();
+      const ids = wordings[wording] ?? [];
+      if (ids.indexOf(id) < 0) ids.push(id);
+      wordings[wording] = ids;
+      usage.set(entry, wordings);
+    });
+  });
+  return Array.from(usage.entries())
+    .filter(([entry, wordings]) => statusOf(entry) === 'preferred' && Object.keys(wordings).length > 1)
+    .map(([entry, wordings]) => ({ entry, wordings }));
+};
+
+// Candidate domain terms that are not in the glossary, with the requirements using each, most used first
+export const undefinedTermUsage = (
+  requirements: Array<{ id: number; text: string }>,
+  glossary: GlossaryEntry[]
+): Array<{ term: string; requirementIds: number[] }> => {
+  const usage = new Map<string, { term: string; requirementIds: number[] }>();
+  requirements.forEach(({ id, text }) => {
+    undefinedTerms(glossary).check(text).forEach(({ problematicText }) => {
+      const key = problematicText.toLowerCase();
+      const entry = usage.get(key) ?? { term: problematicText, requirementIds: [] };
+      if (entry.requirementIds.indexOf(id) < 0) entry.requirementIds.push(id);
+      usage.set(key, entry);
+    });
+  });
+  return Array.from(usage.values()).sort((a, b) => b.requirementIds.length - a.requirementIds.length);
+};
@@ -0,0 +1,47 @@
+import { lintRequirement, mergeIssues } from './linter';
+import type { QualityIssue } from '../../domain';
+
+const rulesFor = (text: string) => lintRequirement(text).map(issue => `${issue.ruleId}:${issue.problematicText}`);
+
+describe('lintRequirement', () => {
+  test('flags vague words, placeholders, unbounded quantifiers and open-ended lists with their spans', () => {
+    const text = 'The system shall export all reports as appropriate (PDF, CSV etc.) within TBD seconds.';
+    expect(rulesFor(text)).toEqual([
+      'unbounded-quantifiers:all',
+      'vague-terms:as appropriate',
+      'open-ended-lists:etc.',
+      'placeholders:TBD',
+    ]);
+    const [, vague] = lintRequirement(text);
+    expect(text.slice(vague.span!.start, vague.span!.end)).toBe('as appropriate');
+  });
+
+  test('reports a weak modal, or a missing one, only when there is no binding modal', () => {
+    expect(rulesFor('Reports should be exported by the scheduler.')).toEqual(['modal-verb:should']);
+    expect(rulesFor('Reports are exported by the scheduler.')).toEqual(['modal-verb:']);
+    expect(rulesFor('The scheduler shall export reports.')).toEqual([]);
+  });
+
+  test('flags passive voice only when the sentence names no actor', () => {
+    expect(rulesFor('The report shall be generated nightly.')).toEqual(['passive-voice:be generated']);
+    expect(rulesFor('The report shall be generated by the scheduler.')).toEqual([]);
+    expect(rulesFor('The fee shall be based on usage.')).toEqual([]);
+  });
+});
+
+describe('mergeIssues', () => {
+  test('keeps AI issues and adds only lint findings the AI did not already report', () => {
+    const text = 'The system shall be fast for all users.';
+    const ai: QualityIssue = {
+      type: 'ambiguity',
+      severity: 'major',
+      description: 'Vague',
+      problematicText: 'fast',
+      suggestion: 'Quantify',
+      span: { start: 20, end: 24 },
+    };
+    const merged = mergeIssues([ai], lintRequirement(text));
+    expect(merged[0]).toBe(ai);
+    expect(merged.slice(1).map(issue => issue.problematicText)).toEqual(['all']);
+  });
+});
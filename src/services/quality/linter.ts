@@ -0,0 +1,311 @@
+// src/services/quality/linter.ts - Instant rule-based quality checks that run offline while the user types
+import { CONTINUOUS_DIMENSIONS, Quantity, extractQuantities } from './quantities';
+import type { IssueSeverity, QualityIssue, QualityIssueType, TextSpan } from '../../domain';
+
+// A linter finding. It is a QualityIssue, so it merges with and renders like the AI's issues;
+// `ruleId` tells the two apart.
+export interface LintIssue extends QualityIssue {
+  ruleId: string;
+}
+
+export interface LintRule {
+  id: string;
+  name: string;
+  check: (text: string) => LintIssue[];
+}
+
+// Rules built elsewhere (glossary checks) use the same matching helpers as the default rules
+
+export interface TermMatch {
+  term: string;
+  span: TextSpan;
+}
+
+export const overlaps = (a: TextSpan, b: TextSpan) => a.start < b.end && b.start < a.end;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word, case-insensitive occurrences of any of the terms. Where terms overlap the longest
+// wins ("as appropriate" rather than "appropriate").
+export const findTerms = (text: string, terms: string[]): TermMatch[] => {
+  const alternatives = [...terms].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+  const pattern = new RegExp(`(^|[^\\w-])(${alternatives})(?![\\w-])`, 'gi');
+  const found: TermMatch[] = [];
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    const start = match.index + match[1].length;
+    found.push({ term: match[2], span: { start, end: start + match[2].length } });
+  }
+  return found;
+};
+
+export const findPattern = (text: string, pattern: RegExp): TermMatch[] => {
+  const found: TermMatch[] = [];
+  pattern.lastIndex = 0;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    // An empty match would be found again at the same place forever
+    if (!match[0]) {
+      pattern.lastIndex++;
+      continue;
+    }
+    found.push({ term: match[0], span: { start: match.index, end: match.index + match[0].length } });
+  }
+  return found;
+};
+
+export const issueAt = (
+  ruleId: string,
+  type: QualityIssueType,
+  severity: IssueSeverity,
+  { term, span }: TermMatch,
+  description: string,
+  suggestion: string
+): LintIssue => ({ ruleId, type, severity, description, problematicText: term, suggestion, span });
+
+const PERFORMANCE = 'State a measurable limit, e.g. "within 2 seconds for 95% of requests"';
+const USABILITY = 'State a testable usability criterion, e.g. "a first-time user completes checkout in under 3 minutes"';
+const QUALITY = 'Replace it with a measurable acceptance criterion';
+const QUANTITY = 'Give the exact number or range';
+const ESCAPE_CLAUSE = 'Spell out the condition under which this applies, or drop the escape clause';
+
+const VAGUE_TERMS: Record<string, string> = {
+  'user-friendly': USABILITY,
+  'user friendly': USABILITY,
+  'easy to use': USABILITY,
+  easy: USABILITY,
+  easily: USABILITY,
+  intuitive: USABILITY,
+  simple: USABILITY,
+  seamless: USABILITY,
+  seamlessly: USABILITY,
+  fast: PERFORMANCE,
+  quick: PERFORMANCE,
+  quickly: PERFORMANCE,
+  responsive: PERFORMANCE,
+  'in a timely manner': PERFORMANCE,
+  'as soon as possible': PERFORMANCE,
+  efficient: PERFORMANCE,
+  efficiently: PERFORMANCE,
+  scalable: QUALITY,
+  flexible: QUALITY,
+  robust: QUALITY,
+  'state-of-the-art': QUALITY,
+  modern: QUALITY,
+  adequate: QUALITY,
+  adequately: QUALITY,
+  sufficient: QUALITY,
+  sufficiently: QUALITY,
+  reasonable: QUALITY,
+  reasonably: QUALITY,
+  appropriate: QUALITY,
+  optimal: QUALITY,
+  minimal: QUANTITY,
+  several: QUANTITY,
+  various: QUANTITY,
+  'a number of': QUANTITY,
+  'as appropriate': ESCAPE_CLAUSE,
+  'as needed': ESCAPE_CLAUSE,
+  'as required': ESCAPE_CLAUSE,
+  'if possible': ESCAPE_CLAUSE,
+  'where possible': ESCAPE_CLAUSE,
+  'if necessary': ESCAPE_CLAUSE,
+  'where applicable': ESCAPE_CLAUSE,
+  normally: ESCAPE_CLAUSE,
+  usually: ESCAPE_CLAUSE,
+  typically: ESCAPE_CLAUSE,
+  'and/or': 'Say whether both, either or exactly one of them applies',
+};
+
+const vagueTerms: LintRule = {
+  id: 'vague-terms',
+  name: 'Weak or vague words',
+  check: text =>
+    findTerms(text, Object.keys(VAGUE_TERMS)).map(match =>
+      issueAt('vague-terms', 'ambiguity', 'major', match,
+        `"${match.term}" is subjective and cannot be verified`,
+        VAGUE_TERMS[match.term.toLowerCase()])
+    ),
+};
+
+const placeholders: LintRule = {
+  id: 'placeholders',
+  name: 'TBD/TBC placeholders',
+  check: text =>
+    findPattern(text, /\b(?:TBD|TBC|TBA|TBS|TODO)\b|\?{2,}/gi).map(match =>
+      issueAt('placeholders', 'completeness', 'critical', match,
+        `"${match.term}" marks information that is still missing`,
+        'Fill in the missing value, or record the open question with an owner and due date')
+    ),
+};
+
+const BINDING_MODAL = /\b(?:shall|must|will)\b/i;
+const WEAK_MODAL = /\b(?:should|may|might|could|can)\b/gi;
+
+const modalVerb: LintRule = {
+  id: 'modal-verb',
+  name: 'Missing modal verb',
+  check: text => {
+    if (!text.trim() || BINDING_MODAL.test(text)) return [];
+    const [weak] = findPattern(text, WEAK_MODAL);
+    if (weak) {
+      return [issueAt('modal-verb', 'consistency', 'minor', weak,
+        `"${weak.term}" leaves it unclear whether this is mandatory`,
+        'Use "shall" for a mandatory requirement, or mark it as optional')];
+    }
+    return [{
+      ruleId: 'modal-verb',
+      type: 'completeness',
+      severity: 'major',
+      description: 'No modal verb ("shall", "must", "will"), so it reads as a statement rather than a requirement',
+      problematicText: '',
+      suggestion: 'Phrase it as "The <actor> shall <action>"',
+    }];
+  },
+};
+
+// Past participles that don't end in -ed and are common in requirements
+const IRREGULAR_PARTICIPLES = [
+  'built', 'chosen', 'done', 'driven', 'given', 'held', 'hidden', 'kept', 'known', 'made', 'read',
+  'run', 'seen', 'sent', 'set', 'shown', 'sold', 'taken', 'told', 'written',
+];
+// -ed words after "is"/"are" that are adjectives rather than passives
+const NOT_PASSIVE = ['based', 'concerned', 'interested', 'located', 'related', 'supposed'];
+const PASSIVE = new RegExp(
+  `\\b(?:is|are|was|were|be|been|being)\\s+(?:\\w+ly\\s+)?(\\w{2,}ed|${IRREGULAR_PARTICIPLES.join('|')})\\b`,
+  'gi'
+);
+
+// Every passive construction ("is generated", "be sent"), with or without an actor
+export const findPassives = (text: string): TermMatch[] =>
+  findPattern(text, PASSIVE).filter(match => NOT_PASSIVE.indexOf(match.term.split(/\s+/).pop()!.toLowerCase()) < 0);
+
+const passiveVoice: LintRule = {
+  id: 'passive-voice',
+  name: 'Passive voice without an actor',
+  check: text =>
+    findPassives(text)
+      .filter(match => !/\bby\b/i.test(text.slice(match.span.end).split(/[.;!?\n]/)[0]))
+      .map(match =>
+        issueAt('passive-voice', 'completeness', 'minor', match,
+          `"${match.term}" is passive and does not say who or what does it`,
+          'Name the actor, e.g. "The system shall …" or "… by the administrator"')
+      ),
+};
+
+const unboundedQuantifiers: LintRule = {
+  id: 'unbounded-quantifiers',
+  name: 'Unbounded quantifiers',
+  check: text =>
+    findTerms(text, ['all', 'any', 'every', 'always', 'never', 'everything', 'anything', 'everyone', 'anyone', 'at all times'])
+      .map(match =>
+        issueAt('unbounded-quantifiers', 'verifiability', 'minor', match,
+          `"${match.term}" is unbounded and cannot be tested exhaustively`,
+          'Bound it (which items, under which conditions), or confirm it really has no exceptions')
+      ),
+};
+
+const openEndedLists: LintRule = {
+  id: 'open-ended-lists',
+  name: 'Open-ended lists',
+  check: text => {
+    const phrases = findTerms(text, [
+      'etc.', 'etc', 'and so on', 'and so forth', 'and more', 'among others', 'and the like', 'or similar',
+      'such as', 'including but not limited to',
+    ]);
+    // A trailing ellipsis, unless it is part of "etc..."
+    const ellipses = findPattern(text, /\.{3,}|…/g)
+      .filter(ellipsis => !phrases.some(phrase => overlaps(phrase.span, ellipsis.span)));
+    return [...phrases, ...ellipses].map(match =>
+      issueAt('open-ended-lists', 'completeness', 'major', match,
+        `"${match.term}" leaves the list open-ended`,
+        'List every item, or reference the document that defines the complete set')
+    );
+  },
+};
+
+// Nouns that say the number after them is a measurement, so it needs a unit
+const MEASURED = /\b(?:time|timeout|time-out|latency|delay|duration|size|limit|capacity|speed|rate|throughput|interval|period|memory|bandwidth|length|weight|temperature|uptime|storage|frequency)\b[^.;:]{0,25}$/i;
+const COMPARATIVES = [
+  'faster', 'slower', 'quicker', 'better', 'worse', 'higher', 'lower', 'greater', 'smaller', 'larger', 'cheaper',
+  'improved', 'increased', 'reduced', 'decreased', 'more reliable', 'more secure', 'more efficient',
+];
+const BASELINE = /^[^.;]*?(?:\bthan\b|\bcompared (?:to|with)\b|\brelative to\b|\bversus\b|\bvs\.?|\bby\s+\d|\bfrom\s+\d)/i;
+// "lower case", "higher priority": fixed expressions rather than comparisons
+const NOT_COMPARISON = /^[\s-]*(?:case|bound|limit|level|layer|priority|order)\b/i;
+const PERFECT = /\b(?:availability|available|uptime|reliability|reliable|accuracy|accurate|coverage)\b/i;
+
+const implausible = (quantity: Quantity, text: string): string | null => {
+  const { dimension, value, upper, tolerance, written } = quantity;
+  if (dimension === 'percent' && Math.max(value, upper ?? value) > 100) return `"${written}" is more than 100%`;
+  if (dimension === 'percent' && value === 100 && PERFECT.test(text)) return `"${written}" can be neither achieved nor demonstrated`;
+  if (dimension === 'temperature' && value < -273.15) return `"${written}" is below absolute zero`;
+  if (value < 0 && dimension !== 'temperature' && dimension !== 'unitless' && dimension !== 'count') {
+    return `"${written}" is negative`;
+  }
+  if (upper !== undefined && upper <= value) return `The range "${written}" is empty or reversed`;
+  if (tolerance !== undefined && value !== 0 && tolerance >= Math.abs(value)) return `The tolerance in "${written}" is as large as the value`;
+  return null;
+};
+
+const measurability: LintRule = {
+  id: 'measurability',
+  name: 'Numbers that cannot be measured',
+  check: text => {
+    const issues: LintIssue[] = [];
+    extractQuantities(text).forEach(quantity => {
+      const match = { term: quantity.written, span: quantity.span };
+      const problem = implausible(quantity, text);
+      if (problem) {
+        issues.push(issueAt('measurability', 'verifiability', 'major', match, problem,
+          'Check the number; state a value that can actually be achieved and tested, e.g. "99.9% per calendar month"'));
+      } else if (quantity.dimension === 'unitless') {
+        const after = text.slice(quantity.span.end);
+        if ((quantity.bound !== 'exact' || MEASURED.test(text.slice(0, quantity.span.start))) && !/^\s*of\b/i.test(after)) {
+          issues.push(issueAt('measurability', 'verifiability', 'major', match,
+            `"${quantity.written}" has no unit`,
+            'Add the unit, e.g. "2 s", "500 ms" or "10 MB"'));
+        }
+      } else if (quantity.bound === 'exact' && quantity.tolerance === undefined && CONTINUOUS_DIMENSIONS.includes(quantity.dimension)) {
+        issues.push(issueAt('measurability', 'verifiability', 'minor', match,
+          `"${quantity.written}" is an exact value with no tolerance`,
+          'Give a tolerance or a limit, e.g. "30 s ± 1 s" or "within 30 s"'));
+      }
+    });
+    findTerms(text, COMPARATIVES)
+      .filter(match => !NOT_COMPARISON.test(text.slice(match.span.end)) && !BASELINE.test(text.slice(match.span.end)))
+      .forEach(match =>
+        issues.push(issueAt('measurability', 'verifiability', 'major', match,
+          `"${match.term}" has no baseline to compare against`,
+          'Say compared with what, and by how much, e.g. "at least 20% faster than release 1.0"'))
+      );
+    return issues;
+  },
+};
+
+export const DEFAULT_RULES: LintRule[] = [
+  vagueTerms,
+  placeholders,
+  modalVerb,
+  passiveVoice,
+  unboundedQuantifiers,
+  openEndedLists,
+  measurability,
+];
+
+// Runs every rule over the text. Findings come back in reading order; whole-text findings first.
+export const lintRequirement = (text: string, rules: LintRule[] = DEFAULT_RULES): LintIssue[] =>
+  rules
+    .flatMap(rule => rule.check(text))
+    .sort((a, b) => (a.span?.start ?? -1) - (b.span?.start ?? -1));
+
+export const isLintIssue = (issue: QualityIssue): issue is LintIssue => 'ruleId' in issue;
+
+// Adds the linter's findings to the AI's issues, leaving out findings the AI already reported:
+// same type and an overlapping span (or, for whole-text findings, the same type without a span).
+export const mergeIssues = (aiIssues: QualityIssue[], lintIssues: LintIssue[]): QualityIssue[] => [
+  ...aiIssues,
+  ...lintIssues.filter(lint =>
+    !aiIssues.some(ai =>
+      ai.type === lint.type && (lint.span ? !!ai.span && overlaps(ai.span, lint.span) : !ai.span)
+    )
+  ),
+];
@@ -0,0 +1,56 @@
+import { extractQuantities, formatQuantity } from './quantities';
+import { lintRequirement } from './linter';
+
+const measurability = (text: string) =>
+  lintRequirement(text).filter(issue => issue.ruleId === 'measurability').map(issue => issue.description);
+
+describe('extractQuantities', () => {
+  test('normalises units and reads limits', () => {
+    const [response, upload] = extractQuantities('Pages shall load within 1500 ms and accept uploads of at least 2 MB.');
+    expect(response).toMatchObject({ bound: 'max', value: 1.5, dimension: 'time', written: '1500 ms' });
+    expect(formatQuantity(response)).toBe('≤ 1.5 s');
+    expect(upload).toMatchObject({ bound: 'min', value: 2e6, dimension: 'data' });
+  });
+
+  test('reads ranges, tolerances, percentages and counts', () => {
+    const [range, tolerance, percent, count] = extractQuantities(
+      'Reports shall take between 2 and 5 minutes, at 30 s ± 10% per page, for 99.5% of runs and 3 retries.'
+    );
+    expect(range).toMatchObject({ bound: 'range', value: 120, upper: 300, written: 'between 2 and 5 minutes' });
+    expect(tolerance).toMatchObject({ value: 30, tolerance: 3 });
+    expect(formatQuantity(tolerance)).toBe('30 s ± 3 s');
+    expect(percent).toMatchObject({ dimension: 'percent', value: 99.5 });
+    expect(count).toMatchObject({ dimension: 'count', unit: 'retries', value: 3 });
+  });
+
+  test('reads a reversed pair as two numbers rather than a range', () => {
+    expect(extractQuantities('Retries shall back off 5-2 s apart.').map(q => [q.bound, q.value])).toEqual([['exact', 5], ['exact', 2]]);
+  });
+
+  test('skips dates, times of day, versions and standard numbers', () => {
+    const written = (text: string) => extractQuantities(text).map(q => q.written);
+    expect(written('The archive shall be migrated on 2024-01-01 within 4 hours.')).toEqual(['4 hours']);
+    expect(written('Backups shall start at 02:30 on 31.12.2025 and finish within 2 h.')).toEqual(['2 h']);
+    expect(written('The client shall support version 2.0 and 1.4.2 of the API for 12 months.')).toEqual(['12 months']);
+    expect(written('The process shall comply with ISO 9001:2015, ISO/IEC 25010 and EN 301 549 and use TLS 1.2 for 3 services.'))
+      .toEqual(['3 services']);
+  });
+});
+
+describe('measurability rule', () => {
+  test('flags missing units, comparatives without a baseline and implausible values', () => {
+    expect(measurability('The response time shall be below 200.')).toEqual(['"200" has no unit']);
+    expect(measurability('The new search shall be faster.')).toEqual(['"faster" has no baseline to compare against']);
+    expect(measurability('The search shall be 20% faster than release 1.')).toEqual([]);
+    expect(measurability('The service shall have 100% availability.')).toHaveLength(1);
+    expect(measurability('Accuracy shall be 120%.')).toEqual(['"120%" is more than 100%']);
+  });
+
+  test('flags exact measurements without a tolerance, but not limits', () => {
+    expect(measurability('The sensor shall report every 5 seconds.')).toEqual([
+      '"5 seconds" is an exact value with no tolerance',
+    ]);
+    expect(measurability('The sensor shall report at least every 5 seconds ± 1 s.')).toEqual([]);
+    expect(measurability('The page shall load within 2 s.')).toEqual([]);
+  });
+});
@@ -0,0 +1,254 @@
+// src/services/quality/quantities.ts - Quantities in requirement text: values, ranges, tolerances and units, normalised
+import type { TextSpan } from '../../domain';
+
+export type QuantityDimension =
+  | 'time'
+  | 'data'
+  | 'data-rate'
+  | 'percent'
+  | 'length'
+  | 'mass'
+  | 'temperature'
+  | 'frequency'
+  | 'count'
+  | 'unitless';
+
+// "within 2 s" is a max, "at least 3" a min, "2-5 s" a range; anything else is an exact value
+export type QuantityBound = 'max' | 'min' | 'exact' | 'range';
+
+export interface Quantity {
+  bound: QuantityBound;
+  // In the dimension's base unit (s, B, bit/s, %, m, kg, °C, Hz); counts and unitless values as written
+  value: number;
+  // Upper end of a range, in the same unit
+  upper?: number;
+  // Allowed deviation either way, in the same unit
+  tolerance?: number;
+  dimension: QuantityDimension;
+  // The unit as written; for counts, the counted thing ("attempts", "requests per second")
+  unit?: string;
+  written: string;
+  span: TextSpan;
+}
+
+// Dimensions measured on a continuous scale, where an exact value needs a tolerance to be testable
+export const CONTINUOUS_DIMENSIONS: QuantityDimension[] = ['time', 'length', 'mass', 'temperature', 'frequency'];
+
+const UNITS: Array<{ pattern: RegExp; dimension: QuantityDimension; factor: number; offset?: number }> = [
+  { pattern: /^(?:ns|nanoseconds?)$/, dimension: 'time', factor: 1e-9 },
+  { pattern: /^(?:µs|us|microseconds?)$/, dimension: 'time', factor: 1e-6 },
+  { pattern: /^(?:ms|msecs?|millisecs?|milliseconds?)$/, dimension: 'time', factor: 1e-3 },
+  { pattern: /^(?:s|secs?|seconds?)$/, dimension: 'time', factor: 1 },
+  { pattern: /^(?:mins?|minutes?)$/, dimension: 'time', factor: 60 },
+  { pattern: /^(?:h|hrs?|hours?)$/, dimension: 'time', factor: 3600 },
+  { pattern: /^(?:days?)$/, dimension: 'time', factor: 86400 },
+  { pattern: /^(?:weeks?)$/, dimension: 'time', factor: 604800 },
+  { pattern: /^(?:months?)$/, dimension: 'time', factor: 2629800 },
+  { pattern: /^(?:years?)$/, dimension: 'time', factor: 31557600 },
+  { pattern: /^(?:b|bytes?)$/, dimension: 'data', factor: 1 },
+  { pattern: /^(?:kb|kilobytes?)$/, dimension: 'data', factor: 1e3 },
+  { pattern: /^kib$/, dimension: 'data', factor: 1024 },
+  { pattern: /^(?:mb|megabytes?)$/, dimension: 'data', factor: 1e6 },
+  { pattern: /^mib$/, dimension: 'data', factor: 1024 ** 2 },
+  { pattern: /^(?:gb|gigabytes?)$/, dimension: 'data', factor: 1e9 },
+  { pattern: /^gib$/, dimension: 'data', factor: 1024 ** 3 },
+  { pattern: /^(?:tb|terabytes?)$/, dimension: 'data', factor: 1e12 },
+  { pattern: /^(?:bps|bits?\/s)$/, dimension: 'data-rate', factor: 1 },
+  { pattern: /^(?:kbps|kbit\/s)$/, dimension: 'data-rate', factor: 1e3 },
+  { pattern: /^(?:mbps|mbit\/s)$/, dimension: 'data-rate', factor: 1e6 },
+  { pattern: /^(?:gbps|gbit\/s)$/, dimension: 'data-rate', factor: 1e9 },
+  { pattern: /^(?:%|percent|pct)$/, dimension: 'percent', factor: 1 },
+  { pattern: /^(?:mm|millimet(?:er|re)s?)$/, dimension: 'length', factor: 1e-3 },
+  { pattern: /^(?:cm|centimet(?:er|re)s?)$/, dimension: 'length', factor: 1e-2 },
+  { pattern: /^(?:m|met(?:er|re)s?)$/, dimension: 'length', factor: 1 },
+  { pattern: /^(?:km|kilomet(?:er|re)s?)$/, dimension: 'length', factor: 1e3 },
+  { pattern: /^(?:mg|milligrams?)$/, dimension: 'mass', factor: 1e-6 },
+  { pattern: /^(?:g|grams?)$/, dimension: 'mass', factor: 1e-3 },
+  { pattern: /^(?:kg|kilograms?)$/, dimension: 'mass', factor: 1 },
+  { pattern: /^(?:°c|°|c|celsius|degrees?)$/, dimension: 'temperature', factor: 1 },
+  { pattern: /^(?:°f|fahrenheit)$/, dimension: 'temperature', factor: 5 / 9, offset: -32 },
+  { pattern: /^(?:hz|hertz)$/, dimension: 'frequency', factor: 1 },
+  { pattern: /^khz$/, dimension: 'frequency', factor: 1e3 },
+  { pattern: /^mhz$/, dimension: 'frequency', factor: 1e6 },
+  { pattern: /^ghz$/, dimension: 'frequency', factor: 1e9 },
+];
+
+// Words that can follow a number without being what it counts
+const NOT_COUNTED = new Set([
+  'a', 'an', 'and', 'or', 'of', 'to', 'the', 'in', 'on', 'at', 'for', 'by', 'with', 'from', 'than', 'per', 'is', 'are',
+  'be', 'shall', 'must', 'will', 'should', 'may', 'can', 'if', 'when', 'after', 'before', 'under', 'over', 'within',
+]);
+
+export const MAX_WORDS =
+  /(?:within|under|below|less than|fewer than|no more than|not more than|at most|up to|maximum(?: of)?|max\.?|not exceed(?:ing)?|no later than)\s*$/;
+export const MIN_WORDS =
+  /(?:at least|no less than|not less than|no fewer than|more than|over|above|minimum(?: of)?|min\.?|no earlier than)\s*$/;
+
+interface Atom {
+  value: number;
+  unitWord?: string;
+  start: number;
+  end: number;
+}
+
+const NUMBER = /(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)/g;
+const UNIT_AFTER = /^(\s*)(%|°\s?[cf]\b|°|[a-zµ]+(?:\/[a-z]+)?(?:\s+per\s+(?:second|minute|hour|day|user|request))?)/i;
+
+// Numbers that are names rather than amounts: dates and times of day ("2024-01-01", "08:30"), versions
+// ("version 2.0", "1.4.2") and standards ("ISO 9001:2015", "ISO/IEC 25010", "TLS 1.2", "EN 301 549")
+const NOT_QUANTITIES = [
+  /\b\d{4}-\d{1,2}-\d{1,2}(?:T\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?/g,
+  /\b\d{1,2}[./]\d{1,2}[./]\d{2,4}\b/g,
+  /\b\d{1,2}:\d{2}(?::\d{2})?\b/g,
+  /\b(?:version|release|v)\s?\d+(?:\.\d+)+/gi,
+  /\b\d+(?:\.\d+){2,}\b/g,
+  /\b(?:ISO|IEC|IEEE|RFC|EN|DIN|BS|ANSI|NIST|FIPS|WCAG|TLS|SSL|HTTP|PCI DSS|SOC)(?:\s*\/\s*[A-Z]+)*[\s/-]*\d+(?:[.:-]\d+)*(?:\s\d{3}\b)*/g,
+];
+
+const namedNumbers = (text: string): TextSpan[] =>
+  NOT_QUANTITIES.flatMap(pattern => Array.from(text.matchAll(pattern), match => ({ start: match.index!, end: match.index! + match[0].length })));
+
+// Every number with the word after it, and a minus sign when it is one
+const atomsOf = (text: string): Atom[] => {
+  const atoms: Atom[] = [];
+  const named = namedNumbers(text);
+  NUMBER.lastIndex = 0;
+  for (let match = NUMBER.exec(text); match; match = NUMBER.exec(text)) {
+    // Part of a word or identifier ("ISO29148", "v2")
+    if (match.index > 0 && /[a-z_]/i.test(text[match.index - 1])) continue;
+    const at = match.index;
+    if (named.some(span => span.start <= at && at < span.end)) continue;
+    const negative = /(?:^|[^\w\d])[-−]$/.test(text.slice(Math.max(0, match.index - 2), match.index));
+    const start = negative ? match.index - 1 : match.index;
+    let end = match.index + match[0].length;
+    const unit = UNIT_AFTER.exec(text.slice(end));
+    let unitWord: string | undefined;
+    if (unit && !NOT_COUNTED.has(unit[2].toLowerCase())) {
+      unitWord = unit[2].replace(/\s+/g, ' ');
+      end += unit[0].length;
+    }
+    atoms.push({ value: parseFloat(match[0].replace(/,/g, '')) * (negative ? -1 : 1), unitWord, start, end });
+  }
+  return atoms;
+};
+
+const resolveUnit = (unitWord?: string) => {
+  if (!unitWord) return { dimension: 'unitless' as QuantityDimension, factor: 1, offset: 0 };
+  const word = unitWord.toLowerCase().replace(/\s+/g, '');
+  const unit = UNITS.find(({ pattern }) => pattern.test(word));
+  return unit
+    ? { dimension: unit.dimension, factor: unit.factor, offset: unit.offset ?? 0 }
+    : { dimension: 'count' as QuantityDimension, factor: 1, offset: 0 };
+};
+
+const normalise = (value: number, unitWord?: string) => {
+  const { factor, offset } = resolveUnit(unitWord);
+  return (value + offset) * factor;
+};
+
+// A tolerance in % is relative to the value it follows
+const toleranceOf = (value: number, atom: Atom, valueUnit?: string) =>
+  atom.unitWord === '%' && resolveUnit(valueUnit).dimension !== 'percent'
+    ? Math.abs(value * atom.value) / 100
+    : Math.abs(atom.value * resolveUnit(atom.unitWord ?? valueUnit).factor);
+
+const boundBefore = (text: string, start: number): QuantityBound => {
+  const before = text.slice(Math.max(0, start - 40), start).toLowerCase();
+  return MAX_WORDS.test(before) ? 'max' : MIN_WORDS.test(before) ? 'min' : 'exact';
+};
+
+// Quantities in reading order. "between 2 and 5 s" and "2-5 s" are ranges, "30 s ± 2 s" and
+// "30 s (±5%)" values with a tolerance; a range or tolerance written without a unit borrows the other number's.
+// Dates, versions and standard numbers are not quantities.
+export const extractQuantities = (text: string): Quantity[] => {
+  const atoms = atomsOf(text);
+  const quantities: Quantity[] = [];
+  for (let i = 0; i < atoms.length; i++) {
+    const atom = atoms[i];
+    const next = atoms[i + 1];
+    const between = next ? text.slice(atom.end, next.start) : '';
+    const joined = next && (
+      /^\s*(?:-|–|to)\s*$/.test(between) ||
+      (/^\s*and\s*$/i.test(between) && /\bbetween\s*$/i.test(text.slice(0, atom.start)))
+    );
+    // "5-2 s" is not a range; both numbers are read on their own
+    const rangeUnit = atom.unitWord ?? next?.unitWord;
+    const isRange = joined && normalise(next.value, next.unitWord ?? rangeUnit) >= normalise(atom.value, rangeUnit);
+    const isTolerance = next && /^\s*\(?\s*(?:±|\+\/-|\+-)\s*$/.test(between);
+    const unitWord = atom.unitWord ?? (isRange || isTolerance ? next.unitWord : undefined);
+    const { dimension } = resolveUnit(unitWord);
+    const value = normalise(atom.value, unitWord);
+
+    if (isRange) {
+      const start = /\bbetween\s*$/i.test(text.slice(0, atom.start))
+        ? text.slice(0, atom.start).search(/\bbetween\s*$/i)
+        : atom.start;
+      quantities.push({
+        bound: 'range',
+        value,
+        upper: normalise(next.value, next.unitWord ?? unitWord),
+        dimension,
+        unit: unitWord,
+        written: text.slice(start, next.end),
+        span: { start, end: next.end },
+      });
+    } else if (isTolerance) {
+      const end = text[next.end] === ')' ? next.end + 1 : next.end;
+      quantities.push({
+        bound: boundBefore(text, atom.start),
+        value,
+        tolerance: toleranceOf(value, next, unitWord),
+        dimension,
+        unit: unitWord,
+        written: text.slice(atom.start, end),
+        span: { start: atom.start, end },
+      });
+    } else {
+      quantities.push({
+        bound: boundBefore(text, atom.start),
+        value,
+        dimension,
+        unit: unitWord,
+        written: text.slice(atom.start, atom.end),
+        span: { start: atom.start, end: atom.end },
+      });
+      continue;
+    }
+    i++;
+  }
+  return quantities;
+};
+
+// --- display ---
+
+const SCALES: Partial<Record<QuantityDimension, Array<[string, number]>>> = {
+  time: [['ms', 1e-3], ['s', 1], ['min', 60], ['h', 3600], ['d', 86400]],
+  data: [['B', 1], ['KB', 1e3], ['MB', 1e6], ['GB', 1e9], ['TB', 1e12]],
+  'data-rate': [['bit/s', 1], ['kbit/s', 1e3], ['Mbit/s', 1e6], ['Gbit/s', 1e9]],
+  length: [['mm', 1e-3], ['m', 1], ['km', 1e3]],
+  mass: [['mg', 1e-6], ['g', 1e-3], ['kg', 1]],
+  frequency: [['Hz', 1], ['kHz', 1e3], ['MHz', 1e6], ['GHz', 1e9]],
+};
+
+const FIXED_UNITS: Partial<Record<QuantityDimension, string>> = { percent: '%', temperature: '°C' };
+
+const formatNumber = (value: number) => String(Number(value.toPrecision(4)));
+
+// The value in the largest unit it is at least 1 of ("1500 ms" → "1.5 s")
+export const formatValue = (value: number, dimension: QuantityDimension, unit?: string) => {
+  const scale = SCALES[dimension];
+  if (scale) {
+    const [name, factor] = [...scale].reverse().find(([, factor]) => Math.abs(value) >= factor) ?? scale[0];
+    return `${formatNumber(value / factor)} ${name}`;
+  }
+  const fixed = FIXED_UNITS[dimension];
+  if (fixed) return `${formatNumber(value)}${fixed === '%' ? '' : ' '}${fixed}`;
+  return unit ? `${formatNumber(value)} ${unit}` : formatNumber(value);
+};
+
+export const formatQuantity = ({ bound, value, upper, tolerance, dimension, unit }: Quantity) => {
+  const main = formatValue(value, dimension, unit);
+  if (bound === 'range') return `${main} – ${formatValue(upper!, dimension, unit)}`;
+  const withTolerance = tolerance !== undefined ? `${main} ± ${formatValue(tolerance, dimension, unit)}` : main;
+  return bound === 'max' ? `≤ ${withTolerance}` : bound === 'min' ? `≥ ${withTolerance}` : withTolerance;
+};
@@ -0,0 +1,60 @@
+import { glossaryRules } from './glossary';
+import { lintRequirement } from './linter';
+import { earsQuickFix, suggestedReplacement } from './quickFixes';
+import { rulePackRules } from './rulePacks';
+import type { QualityIssue } from '../../domain';
+
+const issue = (problematicText: string, suggestion: string): QualityIssue => ({
+  type: 'consistency',
+  severity: 'minor',
+  description: '',
+  problematicText,
+  suggestion,
+  span: { start: 0, end: problematicText.length },
+});
+
+describe('suggestedReplacement', () => {
+  test('applies suggestions that name the wording to use', () => {
+    expect(suggestedReplacement(issue('should', 'Use "shall" for mandatory requirements'))).toBe('shall');
+    expect(suggestedReplacement(issue('the app', 'Write "the Store"'))).toBe('the Store');
+    expect(suggestedReplacement(issue('client', 'Replace "client" with "customer"'))).toBe('customer');
+    expect(suggestedReplacement(issue('Should', 'Use "shall"'))).toBe('Shall');
+  });
+
+  test('leaves advice, templates and unlocated issues to the author', () => {
+    expect(suggestedReplacement(issue('quickly', 'Replace "quickly" with a measurable criterion'))).toBeUndefined();
+    expect(suggestedReplacement(issue('fast', 'State a measurable limit, e.g. "within 2 seconds"'))).toBeUndefined();
+    expect(suggestedReplacement(issue('Users log in', 'State the requirement as "The system shall ..."'))).toBeUndefined();
+    expect(suggestedReplacement({ ...issue('should', 'Use "shall"'), span: undefined })).toBeUndefined();
+  });
+
+  test('applies glossary and rule-pack suggestions', () => {
+    const glossary = glossaryRules([
+      { term: 'customer', definition: 'A person who places orders', synonyms: ['client'] },
+      { term: 'the app', definition: 'Former product name', status: 'forbidden', replacedBy: 'the Portal' },
+    ]);
+    expect(lintRequirement('The app shall notify the client.', glossary).map(suggestedReplacement)).toEqual(['The Portal', 'customer']);
+
+    const rules = rulePackRules([{
+      id: 1, projectId: 1, name: 'House rules', enabled: true, createdAt: '', updatedAt: '',
+      rules: [{ id: 'login', kind: 'keyword', keywords: ['log on'], type: 'consistency', severity: 'minor', description: 'House wording', suggestion: 'Prefer "sign in"' }],
+    }]);
+    expect(lintRequirement('Users shall log on with SSO.', rules).map(suggestedReplacement)).toEqual(['sign in']);
+  });
+});
+
+describe('earsQuickFix', () => {
+  test('rewrites non-conforming text in the closest EARS template', () => {
+    expect(earsQuickFix('The system should send an email when an order is placed.')).toEqual({
+      pattern: 'event-driven',
+      title: 'Rewrite as event-driven EARS requirement',
+      text: 'When an order is placed, the system shall send an email.',
+    });
+  });
+
+  test('leaves conforming text and rewrites with unfilled slots alone', () => {
+    expect(earsQuickFix('When an order is placed, the system shall send an email.')).toBeUndefined();
+    expect(earsQuickFix('Log in quickly')).toBeUndefined();
+    expect(earsQuickFix('')).toBeUndefined();
+  });
+});
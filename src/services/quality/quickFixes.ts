@@ -0,0 +1,42 @@
+// src/services/quality/quickFixes.ts - Fixes that can be applied as-is: replacements for flagged text and EARS rewrites
+import { classifyEars, EARS_PATTERNS, EarsPattern, renderEars, suggestEarsRewrite } from './ears';
+import type { QualityIssue } from '../../domain';
+
+// Only suggestions that name the wording to use can be applied: 'Use "shall"', 'Write "the Store"',
+// 'Replace "app" with "Portal"'. Glossary findings ('Use "customer" instead') are written this way, and so
+// can rule-pack suggestions. Advice such as 'Add a quantity, e.g. "within 2 seconds"' needs a person.
+const REPLACEMENT_PATTERNS = [/^(?:use|write|say|prefer)\s+["“]([^"”]+)["”]/i, /^replace\b.*?\bwith\s+["“]([^"”]+)["”]/i];
+
+// Templates to fill in ("The <actor> shall …") are not replacements
+const PLACEHOLDER = /…|\.\.\.|<[^>]+>/;
+
+const normalize = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// The text to put in place of the issue's span, or undefined when the suggestion can't be applied mechanically.
+// A replacement for a capitalised word ("Should") is capitalised too.
+export const suggestedReplacement = (issue: QualityIssue): string | undefined => {
+  if (!issue.span || !issue.suggestion) return undefined;
+  const suggestion = issue.suggestion.trim();
+  const replacement = REPLACEMENT_PATTERNS.map(pattern => pattern.exec(suggestion)?.[1].trim()).find(Boolean);
+  if (!replacement || PLACEHOLDER.test(replacement) || normalize(replacement) === normalize(issue.problematicText)) {
+    return undefined;
+  }
+  const flagged = issue.problematicText.trim();
+  return /^[A-Z]/.test(flagged) && /^[a-z]/.test(replacement) ? replacement[0].toUpperCase() + replacement.slice(1) : replacement;
+};
+
+export interface EarsQuickFix {
+  pattern: EarsPattern;
+  title: string;
+  text: string;
+}
+
+// The whole text rewritten in the closest EARS template, for text that doesn't conform yet. Undefined when it
+// already conforms or when the rewrite would leave slots to fill in.
+export const earsQuickFix = (text: string): EarsQuickFix | undefined => {
+  if (!text.trim() || classifyEars(text).problems.length === 0) return undefined;
+  const { pattern, clauses } = suggestEarsRewrite(text);
+  const rewritten = renderEars(pattern, clauses);
+  if (PLACEHOLDER.test(rewritten) || normalize(rewritten) === normalize(text)) return undefined;
+  return { pattern, title: `Rewrite as ${EARS_PATTERNS[pattern].label.toLowerCase()} EARS requirement`, text: rewritten };
+};
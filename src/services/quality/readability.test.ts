@@ -0,0 +1,50 @@
+import { DEFAULT_READABILITY_THRESHOLDS, measureReadability, readabilityDistributions, readabilityRule } from './readability';
+
+const simple = 'The system shall send a receipt.';
+const convoluted =
+  'If the order is cancelled when the payment has been authorised but before it is captured, and unless the ' +
+  'customer is a wholesale account which was approved by finance, the refund shall be issued to the card that was ' +
+  'charged while the original invoice is retained for the auditors.';
+
+describe('measureReadability', () => {
+  test('measures a short, plain requirement as easy', () => {
+    const metrics = measureReadability(simple);
+    expect(metrics).toMatchObject({ words: 6, sentences: 1, longestSentence: 6, conditionDepth: 0, clauses: 1, passiveShare: 0 });
+    expect(metrics.readingEase).toBeGreaterThan(60);
+  });
+
+  test('counts nested conditions, clauses and passives in a convoluted one', () => {
+    const metrics = measureReadability(convoluted);
+    expect(metrics.conditionDepth).toBe(4);
+    expect(metrics.clauses).toBeGreaterThan(6);
+    expect(metrics.passiveShare).toBeGreaterThan(0.3);
+    expect(metrics.readingEase).toBeLessThan(metrics.longestSentence);
+  });
+});
+
+describe('readabilityRule', () => {
+  test('raises a minor finding per metric past its threshold', () => {
+    const rule = readabilityRule(DEFAULT_READABILITY_THRESHOLDS);
+    expect(rule.check(simple)).toEqual([]);
+    const findings = rule.check(convoluted);
+    expect(findings.map(finding => finding.severity)).toEqual(findings.map(() => 'minor'));
+    expect(findings.map(finding => finding.description)).toContain('Nested conditions is 4 (limit 2)');
+  });
+
+  test('follows the configured thresholds', () => {
+    const strict = readabilityRule({ ...DEFAULT_READABILITY_THRESHOLDS, maxSentenceLength: 5 });
+    expect(strict.check(simple)).toHaveLength(1);
+  });
+});
+
+describe('readabilityDistributions', () => {
+  test('lists the requirements past each threshold', () => {
+    const distributions = readabilityDistributions(
+      [{ id: 1, text: simple }, { id: 2, text: convoluted }],
+      DEFAULT_READABILITY_THRESHOLDS
+    );
+    const depth = distributions.find(distribution => distribution.info.metric === 'conditionDepth')!;
+    expect(depth.exceeding).toEqual([{ id: 2, value: 4 }]);
+    expect(depth.median).toBe(4);
+  });
+});
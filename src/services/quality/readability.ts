@@ -0,0 +1,185 @@
+// src/services/quality/readability.ts - Objective text metrics: sentence length, reading ease, condition nesting, clauses, passives
+import { LintIssue, LintRule, findPassives } from './linter';
+import type { QualityIssueType, ReadabilityThresholds } from '../../domain';
+
+export interface ReadabilityMetrics {
+  words: number;
+  sentences: number;
+  // Words in the longest sentence
+  longestSentence: number;
+  // Flesch reading ease: 60-70 is plain English, below 30 is very hard
+  readingEase: number;
+  // Most conditions in one sentence
+  conditionDepth: number;
+  clauses: number;
+  // Passive constructions per clause, 0-1
+  passiveShare: number;
+}
+
+export type ReadabilityMetric = Exclude<keyof ReadabilityMetrics, 'words' | 'sentences'>;
+
+// Used until a project saves its own thresholds; the mock backend returns the same defaults
+export const DEFAULT_READABILITY_THRESHOLDS: ReadabilityThresholds = {
+  maxSentenceLength: 30,
+  minReadingEase: 20,
+  maxConditionDepth: 2,
+  maxClauses: 4,
+  maxPassiveShare: 0.5,
+};
+
+export interface MetricInfo {
+  metric: ReadabilityMetric;
+  label: string;
+  threshold: keyof ReadabilityThresholds;
+  // Whether a higher value is worse
+  higherIsWorse: boolean;
+  type: QualityIssueType;
+  suggestion: string;
+}
+
+export const READABILITY_METRICS: MetricInfo[] = [
+  {
+    metric: 'longestSentence',
+    label: 'Longest sentence (words)',
+    threshold: 'maxSentenceLength',
+    higherIsWorse: true,
+    type: 'ambiguity',
+    suggestion: 'Split the sentence; one requirement per sentence is easiest to read and test',
+  },
+  {
+    metric: 'readingEase',
+    label: 'Flesch reading ease',
+    threshold: 'minReadingEase',
+    higherIsWorse: false,
+    type: 'ambiguity',
+    suggestion: 'Use shorter sentences and plainer words',
+  },
+  {
+    metric: 'conditionDepth',
+    label: 'Nested conditions',
+    threshold: 'maxConditionDepth',
+    higherIsWorse: true,
+    type: 'verifiability',
+    suggestion: 'Split the requirement per condition, or move the conditions into a decision table',
+  },
+  {
+    metric: 'clauses',
+    label: 'Clauses',
+    threshold: 'maxClauses',
+    higherIsWorse: true,
+    type: 'verifiability',
+    suggestion: 'Split it into atomic requirements that can be tested one at a time',
+  },
+  {
+    metric: 'passiveShare',
+    label: 'Passive share',
+    threshold: 'maxPassiveShare',
+    higherIsWorse: true,
+    type: 'ambiguity',
+    suggestion: 'Use the active voice and name who does what',
+  },
+];
+
+const CONDITIONS = /\b(?:if|when|whenever|while|unless|until|once|provided that|as long as|in case|only if)\b/gi;
+// Words that start another clause within a sentence
+const CLAUSE_BREAKS =
+  /\b(?:if|when|whenever|while|unless|until|because|although|whereas|which|who|that|so that|after|before)\b|,\s*(?:and|or|but)\b|;/gi;
+
+const sentencesOf = (text: string) =>
+  text.split(/[.!?]+(?=\s|$)|\n+/).map(sentence => sentence.trim()).filter(Boolean);
+
+const wordsOf = (text: string): string[] => text.match(/[A-Za-z0-9]+(?:['’-][A-Za-z0-9]+)*/g) ?? [];
+
+// Vowel groups, less a silent final "e"; good enough for a reading-ease estimate
+export const countSyllables = (word: string) => {
+  const lower = word.toLowerCase();
+  if (/^\d+$/.test(lower)) return Math.max(1, lower.length);
+  const groups = lower.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 0);
+};
+
+const countMatches = (text: string, pattern: RegExp) => (text.match(pattern) ?? []).length;
+
+export const measureReadability = (text: string): ReadabilityMetrics => {
+  const sentences = sentencesOf(text);
+  const words = wordsOf(text);
+  if (words.length === 0) {
+    return { words: 0, sentences: 0, longestSentence: 0, readingEase: 100, conditionDepth: 0, clauses: 0, passiveShare: 0 };
+  }
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const clauses = sentences.reduce((sum, sentence) => sum + 1 + countMatches(sentence, CLAUSE_BREAKS), 0);
+  const readingEase = 206.835 - 1.015 * (words.length / Math.max(1, sentences.length)) - 84.6 * (syllables / words.length);
+  return {
+    words: words.length,
+    sentences: sentences.length,
+    longestSentence: Math.max(...sentences.map(sentence => wordsOf(sentence).length)),
+    readingEase: Math.round(readingEase * 10) / 10,
+    conditionDepth: Math.max(...sentences.map(sentence => countMatches(sentence, CONDITIONS))),
+    clauses,
+    passiveShare: Math.min(1, findPassives(text).length / Math.max(1, clauses)),
+  };
+};
+
+export const exceedsThreshold = (info: MetricInfo, value: number, thresholds: ReadabilityThresholds) =>
+  info.higherIsWorse ? value > thresholds[info.threshold] : value < thresholds[info.threshold];
+
+export const formatMetric = (metric: ReadabilityMetric, value: number) =>
+  metric === 'passiveShare' ? `${Math.round(value * 100)}%` : String(value);
+
+// One minor whole-text finding per metric past its threshold
+export const readabilityRule = (thresholds: ReadabilityThresholds): LintRule => ({
+  id: 'readability',
+  name: 'Readability and complexity',
+  check: text => {
+    if (!text.trim()) return [];
+    const metrics = measureReadability(text);
+    return READABILITY_METRICS.filter(info => exceedsThreshold(info, metrics[info.metric], thresholds)).map(
+      (info): LintIssue => ({
+        ruleId: 'readability',
+        type: info.type,
+        severity: 'minor',
+        description: `${info.label} is ${formatMetric(info.metric, metrics[info.metric])} (limit ${formatMetric(
+          info.metric,
+          thresholds[info.threshold]
+        )})`,
+        problematicText: '',
+        suggestion: info.suggestion,
+      })
+    );
+  },
+});
+
+export interface MetricDistribution {
+  info: MetricInfo;
+  values: Array<{ id: number; value: number }>;
+  median: number;
+  // The value 90% of requirements are at or better than
+  p90: number;
+  // Requirements past the threshold, worst first
+  exceeding: Array<{ id: number; value: number }>;
+}
+
+const percentile = (sorted: number[], share: number) =>
+  sorted.length === 0 ? 0 : sorted[Math.min(sorted.length - 1, Math.floor(share * sorted.length))];
+
+// Per-metric distribution over a project's requirements
+export const readabilityDistributions = (
+  requirements: Array<{ id: number; text: string }>,
+  thresholds: ReadabilityThresholds
+): MetricDistribution[] => {
+  const measured = requirements.map(({ id, text }) => ({ id, metrics: measureReadability(text) }));
+  return READABILITY_METRICS.map(info => {
+    const values = measured.map(({ id, metrics }) => ({ id, value: metrics[info.metric] }));
+    // Worst last, so the 90th percentile is on the bad side for every metric
+    const sorted = values.map(({ value }) => value).sort((a, b) => (info.higherIsWorse ? a - b : b - a));
+    return {
+      info,
+      values,
+      median: percentile(sorted, 0.5),
+      p90: percentile(sorted, 0.9),
+      exceeding: values
+        .filter(({ value }) => exceedsThreshold(info, value, thresholds))
+        .sort((a, b) => (info.higherIsWorse ? b.value - a.value : a.value - b.value)),
+    };
+  });
+};
@@ -0,0 +1,84 @@
+import { lintRequirement } from './linter';
+import { exportRulePack, parseRulePack, rulePackRules } from './rulePacks';
+import type { RulePack } from '../../domain';
+
+const pack: RulePack = {
+  id: 1,
+  projectId: 1,
+  name: 'Portal house rules',
+  enabled: true,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  rules: [
+    {
+      id: 'product-name',
+      kind: 'keyword',
+      keywords: ['the app', 'the website'],
+      type: 'consistency',
+      severity: 'major',
+      description: 'Call the product "the Portal"',
+      suggestion: 'Write "the Portal"',
+    },
+    {
+      id: 'no-tla',
+      kind: 'regex',
+      pattern: '\\b(?:CRM|ERP)\\b',
+      caseSensitive: true,
+      type: 'ambiguity',
+      severity: 'minor',
+      description: 'Spell out abbreviations',
+      suggestion: 'Use the full name',
+    },
+    {
+      id: 'trace-id',
+      kind: 'structure',
+      pattern: '\\bBR-\\d+\\b',
+      type: 'traceability',
+      severity: 'minor',
+      description: 'Reference the business rule this requirement implements',
+      suggestion: 'Add its ID, e.g. "(BR-12)"',
+    },
+  ],
+};
+
+const findings = (text: string, packs: RulePack[] = [pack]) =>
+  lintRequirement(text, rulePackRules(packs)).map(issue => `${issue.ruleId}:${issue.severity}:${issue.problematicText}`);
+
+describe('rulePackRules', () => {
+  test('runs keyword, regex and structure rules, tagging each issue with its rule id', () => {
+    expect(findings('The App shall sync orders to the CRM, not the crm cache.')).toEqual([
+      'trace-id:minor:',
+      'product-name:major:The App',
+      'no-tla:minor:CRM',
+    ]);
+    expect(findings('The Portal shall sync orders (BR-7).')).toEqual([]);
+  });
+
+  test('skips disabled packs', () => {
+    expect(findings('The app shall sync orders.', [{ ...pack, enabled: false }])).toEqual([]);
+  });
+});
+
+describe('parseRulePack', () => {
+  test('reads back an exported pack', () => {
+    expect(parseRulePack(exportRulePack(pack))).toEqual({ name: pack.name, description: undefined, rules: pack.rules });
+  });
+
+  test('lists every problem of an invalid pack', () => {
+    const file = JSON.parse(exportRulePack(pack));
+    file.rules[1].pattern = '(unclosed';
+    file.rules[2] = { ...file.rules[2], id: 'product-name', severity: 'blocker' };
+    expect(() => parseRulePack(JSON.stringify(file))).toThrow(
+      /Rule "no-tla" pattern .*; Rule "product-name" has the same id as an earlier rule; Rule "product-name" severity must be one of/
+    );
+    expect(() => parseRulePack('{"name": "x", "rules": []}')).toThrow('not an exported rule pack');
+  });
+
+  test('keeps only the known fields of each rule and rejects rules that are not objects', () => {
+    const file = JSON.parse(exportRulePack(pack));
+    file.rules[0].script = 'alert(1)';
+    expect(parseRulePack(JSON.stringify(file)).rules[0]).toEqual(pack.rules[0]);
+    file.rules[0] = 'no-tla';
+    expect(() => parseRulePack(JSON.stringify(file))).toThrow('Rule 1 is not an object');
+  });
+});
@@ -0,0 +1,147 @@
+// src/services/quality/rulePacks.ts - Team-defined rule packs: validation, the shareable file format and compilation to lint rules
+import { LintIssue, LintRule, findPattern, findTerms, issueAt } from './linter';
+import { isRecord } from '../validation';
+import type { CreateRulePackRequest, CustomRule, CustomRuleKind, IssueSeverity, QualityIssueType, RulePack } from '../../domain';
+
+export const CUSTOM_RULE_KINDS: CustomRuleKind[] = ['regex', 'keyword', 'structure'];
+const ISSUE_TYPES: QualityIssueType[] = ['ambiguity', 'completeness', 'consistency', 'verifiability', 'traceability'];
+const SEVERITIES: IssueSeverity[] = ['critical', 'major', 'minor'];
+
+// Written into exported files so that other JSON is not mistaken for a pack
+export const RULE_PACK_FORMAT = 'requirements-analyzer/rule-pack';
+
+// An exported pack: everything but its project, id and enabled flag
+export interface RulePackFile {
+  format: typeof RULE_PACK_FORMAT;
+  version: 1;
+  name: string;
+  description?: string;
+  rules: CustomRule[];
+}
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const regexError = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'invalid regular expression';
+  }
+};
+
+const isOneOf = <T extends string>(values: T[], value: unknown): value is T => values.some(v => v === value);
+
+// Checks one rule of untrusted input and, when it is valid, returns a typed copy holding only the known fields.
+// Problems name the rule; `seen` holds the ids of the rules before it.
+const readRule = (value: unknown, index: number, seen: Set<string>): { rule?: CustomRule; problems: string[] } => {
+  if (!isRecord(value)) return { problems: [`Rule ${index + 1} is not an object`] };
+  const { id, kind, pattern, keywords, caseSensitive, type, severity, description, suggestion } = value;
+  const problems: string[] = [];
+  if (!isText(id)) problems.push('has no id');
+  else if (seen.has(id)) problems.push('has the same id as an earlier rule');
+  else seen.add(id);
+  if (!isOneOf(CUSTOM_RULE_KINDS, kind)) problems.push(`kind must be one of ${CUSTOM_RULE_KINDS.join(', ')}`);
+  if (!isOneOf(ISSUE_TYPES, type)) problems.push(`type must be one of ${ISSUE_TYPES.join(', ')}`);
+  if (!isOneOf(SEVERITIES, severity)) problems.push(`severity must be one of ${SEVERITIES.join(', ')}`);
+  if (!isText(description)) problems.push('has no description');
+  if (typeof suggestion !== 'string') problems.push('has no suggestion');
+  if (kind === 'keyword') {
+    if (!Array.isArray(keywords) || !keywords.some(isText)) problems.push('needs at least one keyword');
+  } else if (kind === 'regex' || kind === 'structure') {
+    const error = isText(pattern) ? regexError(pattern) : 'is missing';
+    if (error) problems.push(`pattern ${error}`);
+  }
+
+  const name = isText(id) ? `Rule "${id}"` : `Rule ${index + 1}`;
+  if (
+    problems.length > 0 ||
+    !isText(id) ||
+    !isOneOf(CUSTOM_RULE_KINDS, kind) ||
+    !isOneOf(ISSUE_TYPES, type) ||
+    !isOneOf(SEVERITIES, severity) ||
+    !isText(description) ||
+    typeof suggestion !== 'string'
+  ) {
+    return { problems: problems.map(problem => `${name} ${problem}`) };
+  }
+  return {
+    problems: [],
+    rule: {
+      id,
+      kind,
+      ...(typeof pattern === 'string' ? { pattern } : {}),
+      ...(Array.isArray(keywords) ? { keywords: keywords.filter((keyword): keyword is string => typeof keyword === 'string') } : {}),
+      ...(typeof caseSensitive === 'boolean' ? { caseSensitive } : {}),
+      type,
+      severity,
+      description,
+      suggestion,
+    },
+  };
+};
+
+// Reads a list of rules from untrusted input (an imported file, a request body). `rules` holds the valid ones;
+// `problems` has one message per problem naming the rule and is empty when every rule is valid.
+export const readRules = (value: unknown): { rules: CustomRule[]; problems: string[] } => {
+  if (!Array.isArray(value)) return { rules: [], problems: ['Rules must be a list'] };
+  const seen = new Set<string>();
+  return value.reduce<{ rules: CustomRule[]; problems: string[] }>((result, item, index) => {
+    const { rule, problems } = readRule(item, index, seen);
+    return { rules: rule ? [...result.rules, rule] : result.rules, problems: [...result.problems, ...problems] };
+  }, { rules: [], problems: [] });
+};
+
+export const ruleProblems = (rules: unknown): string[] => readRules(rules).problems;
+
+export const exportRulePack = ({ name, description, rules }: Pick<RulePack, 'name' | 'description' | 'rules'>): string =>
+  JSON.stringify({ format: RULE_PACK_FORMAT, version: 1, name, description, rules } as RulePackFile, null, 2);
+
+// Reads an exported pack, throwing an Error that lists every problem when it is not one
+export const parseRulePack = (json: string): CreateRulePackRequest => {
+  let file: unknown;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!isRecord(file) || file.format !== RULE_PACK_FORMAT) throw new Error('The file is not an exported rule pack');
+  const { name, description } = file;
+  const { rules, problems } = readRules(file.rules);
+  if (!isText(name)) problems.unshift('The pack has no name');
+  if (problems.length || !isText(name)) throw new Error(problems.join('; '));
+  return { name: name.trim(), description: isText(description) ? description : undefined, rules };
+};
+
+const flagsOf = (rule: CustomRule) => (rule.caseSensitive ? 'g' : 'gi');
+
+const checkRule = (rule: CustomRule, text: string): LintIssue[] => {
+  const { id, type, severity, description, suggestion } = rule;
+  switch (rule.kind) {
+    case 'regex':
+      return findPattern(text, new RegExp(rule.pattern!, flagsOf(rule))).map(match =>
+        issueAt(id, type, severity, match, description, suggestion)
+      );
+    case 'keyword': {
+      const keywords = (rule.keywords ?? []).filter(isText);
+      return findTerms(text, keywords)
+        .filter(match => !rule.caseSensitive || keywords.indexOf(match.term) >= 0)
+        .map(match => issueAt(id, type, severity, match, description, suggestion));
+    }
+    case 'structure':
+      // A finding about the whole text, like the readability checks
+      return !text.trim() || new RegExp(rule.pattern!, flagsOf(rule)).test(text)
+        ? []
+        : [{ ruleId: id, type, severity, description, problematicText: '', suggestion }];
+  }
+};
+
+// Lint rules for a project's enabled packs. The server rejects invalid rules; any that got through are skipped.
+export const rulePackRules = (packs: RulePack[]): LintRule[] =>
+  packs
+    .filter(pack => pack.enabled)
+    .flatMap(pack =>
+      pack.rules
+        .filter(rule => ruleProblems([rule]).length === 0)
+        .map((rule): LintRule => ({ id: rule.id, name: `${pack.name}: ${rule.description}`, check: text => checkRule(rule, text) }))
+    );
@@ -0,0 +1,47 @@
+import { characteristicScore, scoreRequirement, scoreRequirementSet } from './scorecard';
+import type { AnalysisResponse, ProjectRequirement } from '../../domain';
+
+const requirement = (id: number, text: string, analysis?: AnalysisResponse): ProjectRequirement => ({
+  id,
+  projectId: 1,
+  text,
+  status: analysis ? 'Analyzed' : 'Draft',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  analysis,
+});
+
+describe('scoreRequirement', () => {
+  test('combines analyzer issues with local checks and leaves correctness unscored without an analysis', () => {
+    const text = 'The system shall export reports. It shall be fast.';
+    const local = scoreRequirement(text);
+    expect(characteristicScore(local.characteristics, 'singular').score).toBe(80);
+    expect(characteristicScore(local.characteristics, 'unambiguous').score).toBe(80);
+    expect(characteristicScore(local.characteristics, 'correct').score).toBeNull();
+
+    const analyzed = scoreRequirement(text, {
+      overallScore: 60,
+      analyzedAt: '2024-01-01T00:00:00Z',
+      issues: [
+        { type: 'consistency', severity: 'major', description: 'Contradicts REQ-2', problematicText: 'export reports', suggestion: 'Align' },
+        { type: 'ambiguity', severity: 'major', description: 'Vague', problematicText: 'fast', suggestion: 'Quantify' },
+      ],
+    });
+    expect(characteristicScore(analyzed.characteristics, 'correct').score).toBe(80);
+    // The analyzer and the linter both flag "fast"; it counts once
+    expect(characteristicScore(analyzed.characteristics, 'unambiguous').findings).toHaveLength(1);
+  });
+});
+
+describe('scoreRequirementSet', () => {
+  test('flags duplicates and modal verbs that differ from the rest of the set', () => {
+    const { characteristics } = scoreRequirementSet([
+      requirement(1, 'The system shall log every login attempt.'),
+      requirement(2, 'The system shall log every login attempt!'),
+      requirement(3, 'The operator must approve refunds.'),
+    ]);
+    const consistent = characteristicScore(characteristics, 'consistent');
+    expect(consistent.findings.map(finding => finding.requirementId)).toEqual([2, 3]);
+    expect(consistent.score).toBe(Math.round((100 + 80 + 90) / 3));
+  });
+});
@@ -0,0 +1,241 @@
+// src/services/quality/scorecard.ts - ISO/IEC/IEEE 29148 characteristic scores for requirements and requirement sets
+import { isLintIssue, lintRequirement, mergeIssues } from './linter';
+import { analyzeCompound } from './splitter';
+import { locateIssues } from './spans';
+import type { AnalysisResponse, IssueSeverity, ProjectRequirement, QualityIssue, QualityIssueType } from '../../domain';
+
+export type RequirementCharacteristic =
+  | 'necessary'
+  | 'appropriate'
+  | 'unambiguous'
+  | 'complete'
+  | 'singular'
+  | 'feasible'
+  | 'verifiable'
+  | 'correct'
+  | 'conforming';
+
+export type SetCharacteristic = 'complete' | 'consistent' | 'feasible' | 'comprehensible' | 'validatable';
+
+export interface CharacteristicInfo<K extends string> {
+  key: K;
+  label: string;
+  description: string;
+}
+
+// 29148 §5.2.5, in the standard's order
+export const REQUIREMENT_CHARACTERISTICS: CharacteristicInfo<RequirementCharacteristic>[] = [
+  { key: 'necessary', label: 'Necessary', description: 'Removing it would leave a deficiency; it traces to a need' },
+  { key: 'appropriate', label: 'Appropriate', description: 'States a need at the right level, without prescribing design' },
+  { key: 'unambiguous', label: 'Unambiguous', description: 'Can be read in only one way' },
+  { key: 'complete', label: 'Complete', description: 'Needs no further information to be understood' },
+  { key: 'singular', label: 'Singular', description: 'States a single capability or constraint' },
+  { key: 'feasible', label: 'Feasible', description: 'Can be achieved within known constraints' },
+  { key: 'verifiable', label: 'Verifiable', description: 'Its fulfilment can be proven' },
+  { key: 'correct', label: 'Correct', description: 'Accurately represents the need it comes from' },
+  { key: 'conforming', label: 'Conforming', description: 'Follows the agreed template and language rules' },
+];
+
+// 29148 §5.2.6
+export const SET_CHARACTERISTICS: CharacteristicInfo<SetCharacteristic>[] = [
+  { key: 'complete', label: 'Complete', description: 'The set needs no further information and has no open placeholders' },
+  { key: 'consistent', label: 'Consistent', description: 'No conflicts or duplicates; terms and modal verbs are used uniformly' },
+  { key: 'feasible', label: 'Feasible', description: 'The set as a whole can be achieved within constraints' },
+  { key: 'comprehensible', label: 'Comprehensible', description: 'Readers can understand what is expected of the system' },
+  { key: 'validatable', label: 'Able to be validated', description: 'It can be shown that the set satisfies the stakeholder needs' },
+];
+
+export interface CharacteristicFinding {
+  severity: IssueSeverity;
+  description: string;
+  source: 'analyzer' | 'heuristic';
+  // Set findings point at the requirement they concern
+  requirementId?: number;
+}
+
+export interface CharacteristicScore<K extends string> {
+  characteristic: K;
+  // 0-100, or null when nothing available can assess it (correctness needs an analysis)
+  score: number | null;
+  findings: CharacteristicFinding[];
+}
+
+export interface RequirementScorecard {
+  characteristics: CharacteristicScore<RequirementCharacteristic>[];
+  // False when only local heuristics were available
+  analyzed: boolean;
+}
+
+export interface SetScorecard {
+  characteristics: CharacteristicScore<SetCharacteristic>[];
+  requirements: Array<{ requirement: ProjectRequirement; scorecard: RequirementScorecard }>;
+}
+
+const PENALTY: Record<IssueSeverity, number> = { critical: 40, major: 20, minor: 10 };
+
+const ISSUE_TYPE_CHARACTERISTIC: Record<QualityIssueType, RequirementCharacteristic> = {
+  ambiguity: 'unambiguous',
+  completeness: 'complete',
+  consistency: 'correct',
+  verifiability: 'verifiable',
+  traceability: 'necessary',
+};
+
+// Linter rules are more specific than their issue type
+const LINT_RULE_CHARACTERISTIC: Record<string, RequirementCharacteristic> = {
+  'modal-verb': 'conforming',
+  'passive-voice': 'unambiguous',
+  'unbounded-quantifiers': 'verifiable',
+};
+
+const characteristicOf = (issue: QualityIssue): RequirementCharacteristic =>
+  (isLintIssue(issue) && LINT_RULE_CHARACTERISTIC[issue.ruleId]) || ISSUE_TYPE_CHARACTERISTIC[issue.type];
+
+const matchedTerms = (text: string, terms: string[]) =>
+  terms.filter(term => new RegExp(`(^|[^\\w-])${term.replace(/[.*+?^${}()|[\]\\%]/g, '\\$&')}(?![\\w-])`, 'i').test(text));
+
+const OPTIONAL_WORDING = ['nice to have', 'if time permits', 'would be nice', 'optionally', 'ideally'];
+const ABSOLUTES = [
+  '100%', 'zero downtime', 'never fail', 'never fails', 'no errors', 'error-free', 'instantly', 'instantaneous',
+  'unlimited', 'infinite', 'without exception', 'all possible',
+];
+const DESIGN_TERMS = [
+  'button', 'dropdown', 'drop-down', 'checkbox', 'click', 'database table', 'SQL', 'stored procedure', 'JSON', 'XML',
+  'REST', 'endpoint', 'microservice', 'React', 'Java',
+];
+
+// Local checks for the characteristics that neither the analyzer nor the linter cover
+const heuristicFindings = (text: string): Array<[RequirementCharacteristic, CharacteristicFinding]> => {
+  const findings: Array<[RequirementCharacteristic, CharacteristicFinding]> = [];
+  const add = (characteristic: RequirementCharacteristic, severity: IssueSeverity, description: string) =>
+    findings.push([characteristic, { severity, description, source: 'heuristic' }]);
+
+  // Enumerations may be one requirement (supported formats); separate statements or actions never are
+  analyzeCompound(text).reasons.forEach(reason =>
+    add('singular', reason.kind === 'enumeration' ? 'minor' : 'major', `${reason.description}; split it into separate requirements`));
+
+  matchedTerms(text, OPTIONAL_WORDING).forEach(term =>
+    add('necessary', 'major', `"${term}" suggests it is not actually needed`));
+  matchedTerms(text, ABSOLUTES).forEach(term =>
+    add('feasible', 'major', `"${term}" demands an absolute that cannot be achieved or proven`));
+  matchedTerms(text, DESIGN_TERMS).forEach(term =>
+    add('appropriate', 'minor', `"${term}" prescribes a design choice rather than the need behind it`));
+
+  return findings;
+};
+
+const penaltyOf = (findings: CharacteristicFinding[]) =>
+  findings.reduce((total, finding) => total + PENALTY[finding.severity], 0);
+
+const toScore = (findings: CharacteristicFinding[]) => Math.max(0, 100 - penaltyOf(findings));
+
+// Scores one requirement. Analyzer issues are combined with the linter's findings (without double
+// counting) and the local heuristics; correctness can only be judged with an analysis.
+export const scoreRequirement = (text: string, analysis?: AnalysisResponse): RequirementScorecard => {
+  const issues = mergeIssues(analysis ? locateIssues(text, analysis.issues) : [], lintRequirement(text));
+  const findings = new Map<RequirementCharacteristic, CharacteristicFinding[]>(
+    REQUIREMENT_CHARACTERISTICS.map(({ key }) => [key, []])
+  );
+  issues.forEach(issue =>
+    findings.get(characteristicOf(issue))!.push({
+      severity: issue.severity,
+      description: issue.description,
+      source: isLintIssue(issue) ? 'heuristic' : 'analyzer',
+    })
+  );
+  heuristicFindings(text).forEach(([characteristic, finding]) => findings.get(characteristic)!.push(finding));
+
+  return {
+    analyzed: !!analysis,
+    characteristics: REQUIREMENT_CHARACTERISTICS.map(({ key }) => {
+      const own = findings.get(key)!;
+      return { characteristic: key, score: key === 'correct' && !analysis ? null : toScore(own), findings: own };
+    }),
+  };
+};
+
+export const characteristicScore = <K extends string>(scores: CharacteristicScore<K>[], key: K) =>
+  scores.find(score => score.characteristic === key)!;
+
+const average = (values: number[]) =>
+  values.length ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\w\s]/g, '').replace(/\s+/g, ' ').trim();
+
+const LONG_REQUIREMENT_WORDS = 40;
+
+// Scores a set of requirements. Each set characteristic starts from the matching per-requirement scores
+// and adds checks that only make sense across the set: duplicates, mixed modal verbs, overly long statements.
+export const scoreRequirementSet = (requirements: ProjectRequirement[]): SetScorecard => {
+  const scored = requirements.map(requirement => ({
+    requirement,
+    scorecard: scoreRequirement(requirement.text, requirement.analysis),
+  }));
+
+  // Per-requirement contributions to each set characteristic, with the findings behind them
+  const contributions = new Map<SetCharacteristic, Array<{ score: number; findings: CharacteristicFinding[] }>>(
+    SET_CHARACTERISTICS.map(({ key }) => [key, []])
+  );
+  const contribute = (
+    key: SetCharacteristic,
+    requirementId: number,
+    base: CharacteristicScore<RequirementCharacteristic>,
+    // Findings of the set-level checks; when given, the requirement counts even if `base` is unscored
+    setFindings?: CharacteristicFinding[]
+  ) => {
+    if (base.score === null && !setFindings) return;
+    const extra = setFindings ?? [];
+    contributions.get(key)!.push({
+      score: Math.max(0, (base.score ?? 100) - penaltyOf(extra)),
+      findings: [...base.findings, ...extra].map(finding => ({ ...finding, requirementId })),
+    });
+  };
+
+  const seen = new Map<string, ProjectRequirement>();
+  const modalUse = scored.map(({ requirement }) => (/\b(shall|must|will)\b/i.exec(requirement.text)?.[1] ?? '').toLowerCase());
+  const modalCounts: Record<string, number> = {};
+  modalUse.filter(Boolean).forEach(modal => { modalCounts[modal] = (modalCounts[modal] || 0) + 1; });
+  const dominantModal = Object.keys(modalCounts).sort((a, b) => modalCounts[b] - modalCounts[a])[0];
+
+  scored.forEach(({ requirement, scorecard }, index) => {
+    const score = (key: RequirementCharacteristic) => characteristicScore(scorecard.characteristics, key);
+    const setFinding = (severity: IssueSeverity, description: string): CharacteristicFinding =>
+      ({ severity, description, source: 'heuristic' });
+
+    const consistency: CharacteristicFinding[] = [];
+    const key = normalize(requirement.text);
+    const duplicateOf = seen.get(key);
+    if (duplicateOf) {
+      consistency.push(setFinding('major', `Duplicates "${duplicateOf.title || duplicateOf.text.slice(0, 40)}"`));
+    } else {
+      seen.set(key, requirement);
+    }
+    if (modalUse[index] && dominantModal && modalUse[index] !== dominantModal) {
+      consistency.push(setFinding('minor', `Uses "${modalUse[index]}" where the rest of the set uses "${dominantModal}"`));
+    }
+
+    const comprehension: CharacteristicFinding[] = [];
+    const words = requirement.text.trim().split(/\s+/).length;
+    if (words > LONG_REQUIREMENT_WORDS) {
+      comprehension.push(setFinding('minor', `${words} words long; readers lose track beyond ${LONG_REQUIREMENT_WORDS}`));
+    }
+
+    contribute('complete', requirement.id, score('complete'));
+    contribute('consistent', requirement.id, score('correct'), consistency);
+    contribute('feasible', requirement.id, score('feasible'));
+    contribute('comprehensible', requirement.id, score('unambiguous'), comprehension);
+    contribute('validatable', requirement.id, score('verifiable'));
+  });
+
+  return {
+    requirements: scored,
+    characteristics: SET_CHARACTERISTICS.map(({ key }) => {
+      const parts = contributions.get(key)!;
+      return {
+        characteristic: key,
+        score: average(parts.map(part => part.score)),
+        findings: parts.flatMap(part => part.findings),
+      };
+    }),
+  };
+};
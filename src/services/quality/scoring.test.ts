@@ -0,0 +1,65 @@
+import { DEFAULT_SCORING_POLICY, averageScore, bandProblems, computeScore, requirementScore, scoreBand } from './scoring';
+import type { ProjectRequirement, QualityIssue, ScoringPolicy } from '../../domain';
+
+const issue = (severity: QualityIssue['severity'], type: QualityIssue['type']): QualityIssue => ({
+  severity,
+  type,
+  description: '',
+  problematicText: '',
+  suggestion: '',
+});
+
+const requirement = (id: number, qualityScore: number | undefined, issues?: QualityIssue[]): ProjectRequirement => ({
+  id,
+  projectId: 1,
+  text: 'The system shall export orders.',
+  status: issues ? 'Analyzed' : 'Draft',
+  qualityScore,
+  analysis: issues && { overallScore: qualityScore!, issues, analyzedAt: '2024-01-01T00:00:00Z' },
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+});
+
+const local: ScoringPolicy = {
+  ...DEFAULT_SCORING_POLICY,
+  source: 'local',
+  typeWeights: { ...DEFAULT_SCORING_POLICY.typeWeights, verifiability: 2 },
+};
+
+describe('scoring policy', () => {
+  test('deducts the severity weight times the type weight per issue, within 0-100', () => {
+    expect(computeScore([issue('major', 'ambiguity'), issue('minor', 'verifiability')], local)).toBe(75);
+    expect(computeScore(Array(5).fill(issue('critical', 'verifiability')), local)).toBe(0);
+  });
+
+  test('uses the analyzer score or recomputes it from the stored issues', () => {
+    const analyzed = requirement(1, 90, [issue('critical', 'verifiability')]);
+    expect(requirementScore(analyzed, DEFAULT_SCORING_POLICY)).toBe(90);
+    expect(requirementScore(analyzed, local)).toBe(50);
+    expect(requirementScore(requirement(2, undefined), local)).toBeUndefined();
+    expect(averageScore([analyzed, requirement(2, undefined), requirement(3, 70, [])], local)).toBe(75);
+    expect(averageScore([analyzed, { ...requirement(4, 0, []), status: 'Retired' }], DEFAULT_SCORING_POLICY)).toBe(90);
+  });
+
+  test('places scores in the first band they reach', () => {
+    expect([95, 80, 79.5, 0].map(score => scoreBand(score).label)).toEqual(['Good', 'Good', 'Fair', 'Poor']);
+  });
+
+  test('rejects bands that overlap, are out of order or do not reach 0', () => {
+    expect(bandProblems(DEFAULT_SCORING_POLICY.bands)).toEqual([]);
+    expect(bandProblems([
+      { label: 'Good', minScore: 60, color: '#52c41a' },
+      { label: 'Fair', minScore: 70, color: 'orange' },
+    ])).toEqual([
+      'Band "Fair" must start below the band before it',
+      'Band "Fair" needs a hex colour such as #52c41a',
+      'The last band must start at 0',
+    ]);
+    expect(bandProblems(['Good', { label: 'Poor', minScore: 0, color: '#f00' }])).toEqual([
+      'Band 1 has no label',
+      'Band 1 must start at a score between 0 and 100',
+      'Band 1 needs a hex colour such as #52c41a',
+      'Band "Poor" must start below the band before it',
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+// src/services/quality/scoring.ts - The project's scoring policy: how issues turn into a score, and which band a score falls in
+import { splitWaivedIssues } from './waivers';
+import { isRecord } from '../validation';
+import type { AnalysisResponse, IssueWaiver, Project, ProjectRequirement, QualityIssue, ScoreBand, ScoringPolicy } from '../../domain';
+
+// Used until a project saves its own policy. The weights are the ones the mock analyzer scores with,
+// so a local score matches the analyzer's until the weights are changed.
+export const DEFAULT_SCORING_POLICY: ScoringPolicy = {
+  source: 'analyzer',
+  severityWeights: { critical: 25, major: 15, minor: 5 },
+  typeWeights: { ambiguity: 1, completeness: 1, consistency: 1, verifiability: 1, traceability: 1 },
+  bands: [
+    { label: 'Good', minScore: 80, color: '#52c41a' },
+    { label: 'Fair', minScore: 60, color: '#faad14' },
+    { label: 'Poor', minScore: 0, color: '#f5222d' },
+  ],
+};
+
+const clampScore = (score: number) => Math.round(Math.min(100, Math.max(0, score)));
+
+export const issuePenalty = (issue: Pick<QualityIssue, 'severity' | 'type'>, policy: ScoringPolicy) =>
+  policy.severityWeights[issue.severity] * policy.typeWeights[issue.type];
+
+export const computeScore = (issues: QualityIssue[], policy: ScoringPolicy) =>
+  clampScore(100 - issues.reduce((sum, issue) => sum + issuePenalty(issue, policy), 0));
+
+// The score of an analysis under the policy; a local score is recomputed from the stored issues, without the LLM
+export const analysisScore = (analysis: AnalysisResponse, policy: ScoringPolicy) =>
+  policy.source === 'local' ? computeScore(analysis.issues, policy) : analysis.overallScore;
+
+// Undefined until the requirement has been analyzed. Waived issues don't count: a local score leaves them out,
+// and the analyzer's score gets back what the policy would have deducted for them.
+export const requirementScore = (
+  requirement: ProjectRequirement,
+  policy: ScoringPolicy,
+  waivers: IssueWaiver[] = []
+): number | undefined => {
+  if (!requirement.analysis) return policy.source === 'local' ? undefined : requirement.qualityScore;
+  const { open, waived } = splitWaivedIssues(requirement, waivers);
+  if (policy.source === 'local') return computeScore(open, policy);
+  if (requirement.qualityScore === undefined || !waived.length) return requirement.qualityScore;
+  return clampScore(requirement.qualityScore + waived.reduce((sum, { issue }) => sum + issuePenalty(issue, policy), 0));
+};
+
+// Retired requirements were split or merged into others; they are kept for traceability but no longer counted or scored
+export const isActiveRequirement = (requirement: ProjectRequirement) => requirement.status !== 'Retired';
+
+// Mean score of the active requirements that have one
+export const averageScore = (
+  requirements: ProjectRequirement[],
+  policy: ScoringPolicy,
+  waivers: IssueWaiver[] = []
+): number | undefined => {
+  const scores = requirements
+    .filter(isActiveRequirement)
+    .map(requirement => requirementScore(requirement, policy, waivers))
+    .filter((score): score is number => score !== undefined);
+  return scores.length ? scores.reduce((a, b) => a + b, 0) / scores.length : undefined;
+};
+
+// What a project shows for its requirements. The client's cache updates and the mock backend both use this,
+// so the numbers don't jump when the server's copy arrives. A requirement counts as analyzed while it has a
+// stored analysis, whatever its status.
+export const projectSummary = (
+  requirements: ProjectRequirement[],
+  policy: ScoringPolicy,
+  waivers: IssueWaiver[] = []
+): Pick<Project, 'requirementCount' | 'analyzedCount' | 'averageQualityScore'> => {
+  const active = requirements.filter(isActiveRequirement);
+  const average = averageScore(active, policy, waivers);
+  return {
+    requirementCount: active.length,
+    analyzedCount: active.filter(requirement => requirement.analysis).length,
+    averageQualityScore: average === undefined ? undefined : Math.round(average),
+  };
+};
+
+// The first band the score reaches; bands are kept best first
+export const scoreBand = (score: number, policy: ScoringPolicy = DEFAULT_SCORING_POLICY): ScoreBand =>
+  policy.bands.find(band => score >= band.minScore) ?? policy.bands[policy.bands.length - 1];
+
+export const scoreColor = (score: number, policy: ScoringPolicy = DEFAULT_SCORING_POLICY) => scoreBand(score, policy).color;
+
+// Where the band ranks: the best, the worst, or in between
+export const bandRank = (score: number, policy: ScoringPolicy = DEFAULT_SCORING_POLICY): 'best' | 'middle' | 'worst' => {
+  const index = policy.bands.indexOf(scoreBand(score, policy));
+  if (index === policy.bands.length - 1) return 'worst';
+  return index === 0 ? 'best' : 'middle';
+};
+
+const HEX_COLOR = /^#[0-9a-f]{3}(?:[0-9a-f]{3})?$/i;
+
+// Reads a policy's bands from untrusted input. `bands` holds a typed copy of each valid band; `problems`
+// is empty when the whole list is valid.
+export const readBands = (value: unknown): { bands: ScoreBand[]; problems: string[] } => {
+  if (!Array.isArray(value) || value.length === 0) return { bands: [], problems: ['At least one band is required'] };
+  const bands: ScoreBand[] = [];
+  const problems: string[] = [];
+  let previousMinScore: number | undefined;
+  value.forEach((band: unknown, index) => {
+    const { label, minScore, color } = isRecord(band) ? band : {} as Record<string, unknown>;
+    const hasLabel = typeof label === 'string' && label.trim() !== '';
+    const name = hasLabel ? `Band "${label}"` : `Band ${index + 1}`;
+    const validScore = typeof minScore === 'number' && minScore >= 0 && minScore <= 100;
+    const ordered = index === 0 || (validScore && previousMinScore !== undefined && previousMinScore > minScore);
+    const validColor = typeof color === 'string' && HEX_COLOR.test(color);
+    if (!hasLabel) problems.push(`${name} has no label`);
+    if (!validScore) problems.push(`${name} must start at a score between 0 and 100`);
+    else if (!ordered) problems.push(`${name} must start below the band before it`);
+    if (!validColor) problems.push(`${name} needs a hex colour such as #52c41a`);
+    previousMinScore = typeof minScore === 'number' ? minScore : undefined;
+    if (hasLabel && validScore && ordered && validColor) bands.push({ label, minScore, color });
+  });
+  if (previousMinScore !== 0) problems.push('The last band must start at 0');
+  return { bands, problems };
+};
+
+// Problems with a policy's bands; empty when they are valid
+export const bandProblems = (bands: unknown): string[] => readBands(bands).problems;
@@ -0,0 +1,31 @@
+import { findDuplicateClusters, findSimilar } from './similarity';
+
+const documents = [
+  { id: 1, text: 'The system shall send a confirmation email to the customer when an order is placed.' },
+  { id: 2, text: 'When an order is placed, the system shall send the customer a confirmation email.' },
+  { id: 3, text: 'The system shall export monthly sales reports as PDF.' },
+  { id: 4, text: 'The system must send confirmation emails to customers when orders are placed.' },
+  { id: 5, text: 'Administrators shall be able to reset user passwords.' },
+];
+
+describe('findSimilar', () => {
+  test('finds reworded duplicates and ignores unrelated requirements', () => {
+    const matches = findSimilar('The system shall send the customer an order confirmation email when an order is placed.', documents);
+    expect(matches.map(match => match.id).sort()).toEqual([1, 2, 4]);
+    matches.forEach(match => expect(match.score).toBeGreaterThanOrEqual(0.7));
+  });
+
+  test('rates an identical text as an exact match', () => {
+    const [match] = findSimilar(documents[2].text, documents);
+    expect(match.id).toBe(3);
+    expect(match.score).toBeCloseTo(1);
+  });
+});
+
+describe('findDuplicateClusters', () => {
+  test('groups requirements that duplicate each other', () => {
+    const clusters = findDuplicateClusters(documents);
+    expect(clusters).toHaveLength(1);
+    expect([...clusters[0].ids].sort()).toEqual([1, 2, 4]);
+  });
+});
@@ -0,0 +1,132 @@
+// src/services/quality/similarity.ts - Local duplicate detection: TF-IDF cosine over word and word-pair shingles
+
+export interface SimilarityDocument {
+  id: number;
+  text: string;
+}
+
+export interface SimilarityMatch {
+  id: number;
+  // Cosine similarity, 0-1
+  score: number;
+}
+
+export interface DuplicateCluster {
+  // Requirement ids, most similar pair first
+  ids: number[];
+  // Highest similarity between two members
+  score: number;
+}
+
+// Pairs at or above this are reported as near-duplicates
+export const NEAR_DUPLICATE_THRESHOLD = 0.7;
+
+// Words that carry no meaning of their own in a requirement
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'by', 'with', 'at', 'from', 'as', 'is', 'are', 'be',
+  'been', 'it', 'its', 'this', 'that', 'these', 'those', 'shall', 'must', 'will', 'should', 'may', 'can', 'all', 'any',
+]);
+
+// Crude suffix stripping, enough to match "report"/"reports"/"reported"/"reporting"
+const stem = (word: string) =>
+  word.length > 4 ? word.replace(/(?:ing|ed|es|s)$/, '') : word;
+
+// Meaningful words of a text, lower-cased and stemmed
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[a-z0-9]+/g) || []).filter(word => !STOPWORDS.has(word)).map(stem);
+
+// Word pairs count half as much as words: word order matters, but a reordered sentence is still a duplicate
+const PAIR_WEIGHT = 0.5;
+
+// Single words plus adjacent word pairs, weighted
+const shingles = (text: string): Map<string, number> => {
+  const tokens = tokenize(text);
+  const counts = new Map<string, number>();
+  const add = (shingle: string, weight: number) => counts.set(shingle, (counts.get(shingle) || 0) + weight);
+  tokens.forEach((token, index) => {
+    add(token, 1);
+    if (index > 0) add(`${tokens[index - 1]} ${token}`, PAIR_WEIGHT);
+  });
+  return counts;
+};
+
+type Vector = Map<string, number>;
+
+// TF-IDF vectors, normalised to unit length, for every text; IDF is smoothed so tiny corpora still work
+const vectorize = (texts: string[]): Vector[] => {
+  const counts = texts.map(shingles);
+  const documentFrequency = new Map<string, number>();
+  counts.forEach(count => count.forEach((_, shingle) => documentFrequency.set(shingle, (documentFrequency.get(shingle) || 0) + 1)));
+  return counts.map(count => {
+    const vector: Vector = new Map();
+    let norm = 0;
+    count.forEach((frequency, shingle) => {
+      const weight = frequency * (Math.log((texts.length + 1) / (documentFrequency.get(shingle)! + 1)) + 1);
+      vector.set(shingle, weight);
+      norm += weight * weight;
+    });
+    norm = Math.sqrt(norm);
+    vector.forEach((weight, shingle) => vector.set(shingle, weight / norm));
+    return vector;
+  });
+};
+
+const cosine = (a: Vector, b: Vector) => {
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  let dot = 0;
+  small.forEach((weight, shingle) => {
+    dot += weight * (large.get(shingle) || 0);
+  });
+  return Math.min(1, dot);
+};
+
+// Documents that are near-duplicates of `text`, most similar first
+export const findSimilar = (
+  text: string,
+  documents: SimilarityDocument[],
+  threshold = NEAR_DUPLICATE_THRESHOLD
+): SimilarityMatch[] => {
+  if (!text.trim() || documents.length === 0) return [];
+  const [query, ...vectors] = vectorize([text, ...documents.map(document => document.text)]);
+  if (query.size === 0) return [];
+  return vectors
+    .map((vector, index) => ({ id: documents[index].id, score: cosine(query, vector) }))
+    .filter(match => match.score >= threshold)
+    .sort((a, b) => b.score - a.score);
+};
+
+// Groups documents that are near-duplicates of each other, directly or through another member
+export const findDuplicateClusters = (
+  documents: SimilarityDocument[],
+  threshold = NEAR_DUPLICATE_THRESHOLD
+): DuplicateCluster[] => {
+  const vectors = vectorize(documents.map(document => document.text));
+  const pairs: Array<{ a: number; b: number; score: number }> = [];
+  for (let a = 0; a < documents.length; a++) {
+    for (let b = a + 1; b < documents.length; b++) {
+      const score = cosine(vectors[a], vectors[b]);
+      if (score >= threshold && vectors[a].size > 0) pairs.push({ a, b, score });
+    }
+  }
+  pairs.sort((x, y) => y.score - x.score);
+
+  // Union-find over the pairs, strongest first, so each cluster lists its closest pair first
+  const parent = documents.map((_, index) => index);
+  const root = (index: number): number => (parent[index] === index ? index : (parent[index] = root(parent[index])));
+  const members = new Map<number, number[]>();
+  const best = new Map<number, number>();
+  pairs.forEach(({ a, b, score }) => {
+    const [ra, rb] = [root(a), root(b)];
+    if (ra === rb) return;
+    parent[rb] = ra;
+    const merged = [...(members.get(ra) || [a]), ...(members.get(rb) || [b])];
+    members.set(ra, merged);
+    members.delete(rb);
+    best.set(ra, Math.max(best.get(ra) ?? 0, best.get(rb) ?? 0, score));
+    best.delete(rb);
+  });
+
+  return Array.from(members.entries())
+    .map(([rootIndex, indexes]) => ({ ids: indexes.map(index => documents[index].id), score: best.get(rootIndex)! }))
+    .sort((a, b) => b.score - a.score);
+};
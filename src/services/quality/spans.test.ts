@@ -0,0 +1,58 @@
+import { locateIssues, segmentText } from './spans';
+import type { QualityIssue } from '../../domain';
+
+const issue = (problematicText: string, extra: Partial<QualityIssue> = {}): QualityIssue => ({
+  type: 'ambiguity',
+  severity: 'major',
+  description: 'Vague term',
+  problematicText,
+  suggestion: 'Quantify it',
+  ...extra,
+});
+
+describe('locateIssues', () => {
+  const text = 'The system should be fast. Search should be fast as well.';
+
+  test('finds quoted text case-insensitively, ignoring quotes and whitespace differences', () => {
+    const [located] = locateIssues(text, [issue('"Search  SHOULD"')]);
+    expect(text.slice(located.span!.start, located.span!.end)).toBe('Search should');
+  });
+
+  test('issues quoting the same words claim successive occurrences', () => {
+    const [first, second] = locateIssues(text, [issue('fast'), issue('fast')]);
+    expect(first.span).toEqual({ start: 21, end: 25 });
+    expect(second.span).toEqual({ start: 44, end: 48 });
+  });
+
+  test('keeps backend offsets that match and replaces ones that do not', () => {
+    const [kept, replaced] = locateIssues(text, [
+      issue('fast', { span: { start: 44, end: 48 } }),
+      issue('Search', { span: { start: 0, end: 3 } }),
+    ]);
+    expect(kept.span).toEqual({ start: 44, end: 48 });
+    expect(replaced.span).toEqual({ start: 27, end: 33 });
+  });
+
+  test('drops backend offsets that are negative, empty or reversed', () => {
+    const spans = [{ start: -3, end: 2 }, { start: 5, end: 5 }, { start: 48, end: 44 }];
+    expect(locateIssues(text, spans.map(span => issue('', { span }))).map(i => i.span)).toEqual([undefined, undefined, undefined]);
+  });
+
+  test('leaves issues without a span when their text is not in the requirement', () => {
+    expect(locateIssues(text, [issue('user-friendly'), issue('')]).map(i => i.span)).toEqual([undefined, undefined]);
+  });
+});
+
+describe('segmentText', () => {
+  test('covers the whole text and orders overlapping issues by severity', () => {
+    const text = 'respond quickly and reliably';
+    const issues = locateIssues(text, [
+      issue('quickly and reliably', { severity: 'minor' }),
+      issue('quickly', { severity: 'critical' }),
+    ]);
+    const segments = segmentText(text, issues);
+    expect(segments.map(s => text.slice(s.start, s.end)).join('')).toBe(text);
+    expect(segments.find(s => text.slice(s.start, s.end) === 'quickly')?.issues).toEqual([1, 0]);
+    expect(segments[0].issues).toEqual([]);
+  });
+});
@@ -0,0 +1,75 @@
+// src/services/quality/spans.ts - Where in the requirement text each quality issue applies
+import type { IssueSeverity, QualityIssue, TextSpan } from '../../domain';
+
+// A run of text covered by the same set of issues; `issues` are indexes into the issue list
+export interface TextSegment {
+  start: number;
+  end: number;
+  issues: number[];
+}
+
+const SEVERITY_RANK: Record<IssueSeverity, number> = { critical: 0, major: 1, minor: 2 };
+
+// The model quotes loosely: surrounding quotes, ellipses and different whitespace are ignored
+const toPattern = (problematicText: string): RegExp | undefined => {
+  const core = problematicText.trim().replace(/^["'“”‘’.…]+|["'“”‘’.…]+$/g, '').trim();
+  if (!core) return undefined;
+  const escaped = core.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return new RegExp(escaped, 'gi');
+};
+
+const findOccurrences = (text: string, pattern: RegExp): TextSpan[] => {
+  const found: TextSpan[] = [];
+  pattern.lastIndex = 0;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    found.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return found;
+};
+
+const sameSpan = (a: TextSpan, b: TextSpan) => a.start === b.start && a.end === b.end;
+
+// A span from the backend is kept when it is a non-empty range inside the text and covers the quoted words
+const isPlausible = (text: string, span: TextSpan, pattern: RegExp | undefined) =>
+  span.start >= 0 && span.start < span.end && span.end <= text.length &&
+  (!pattern || findOccurrences(text.slice(span.start, span.end), pattern).some(found => found.start === 0));
+
+// Fills in `span` for every issue whose problematic text can be found, keeping valid backend offsets.
+// When the same words occur more than once, issues quoting them claim successive occurrences in order.
+// Issues that can't be located are returned without a span. Order and length match the input.
+export const locateIssues = (text: string, issues: QualityIssue[]): QualityIssue[] => {
+  const claimed: TextSpan[] = [];
+  return issues.map(issue => {
+    const pattern = toPattern(issue.problematicText);
+    if (issue.span && isPlausible(text, issue.span, pattern)) {
+      claimed.push(issue.span);
+      return issue;
+    }
+    const occurrences = pattern ? findOccurrences(text, pattern) : [];
+    const span = occurrences.find(found => !claimed.some(taken => sameSpan(taken, found))) ?? occurrences[0];
+    if (span) claimed.push(span);
+    return { ...issue, span };
+  });
+};
+
+// Splits the text at every span boundary. Segments cover the whole text, so overlapping issues
+// simply share a segment.
+export const segmentText = (text: string, issues: QualityIssue[]): TextSegment[] => {
+  const boundaries = new Set([0, text.length]);
+  issues.forEach(({ span }) => {
+    if (span) {
+      boundaries.add(Math.min(span.start, text.length));
+      boundaries.add(Math.min(span.end, text.length));
+    }
+  });
+  const points = Array.from(boundaries).sort((a, b) => a - b);
+  return points.slice(0, -1).map((start, i) => {
+    const end = points[i + 1];
+    const covering = issues
+      .map((issue, index) => ({ issue, index }))
+      .filter(({ issue }) => issue.span && issue.span.start <= start && issue.span.end >= end)
+      .sort((a, b) => SEVERITY_RANK[a.issue.severity] - SEVERITY_RANK[b.issue.severity])
+      .map(({ index }) => index);
+    return { start, end, issues: covering };
+  }).filter(segment => segment.end > segment.start);
+};
@@ -0,0 +1,34 @@
+import { analyzeCompound, proposeSplit } from './splitter';
+
+describe('analyzeCompound', () => {
+  test('splits actions joined by "and", keeping the subject and condition', () => {
+    expect(analyzeCompound('When an order ships, the system shall export a PDF and send an email and log the action.')).toEqual({
+      reasons: [{ kind: 'actions', description: 'Joins 3 separate actions with "and"/"or"' }],
+      parts: [
+        'When an order ships, the system shall export a PDF.',
+        'When an order ships, the system shall send an email.',
+        'When an order ships, the system shall log the action.',
+      ],
+    });
+  });
+
+  test('splits repeated "shall"s, separate sentences, enumerations and bullet lists', () => {
+    expect(analyzeCompound('The system shall lock the account and the admin shall be notified').parts)
+      .toEqual(['The system shall lock the account.', 'The admin shall be notified.']);
+    expect(analyzeCompound('The API shall return JSON. It shall respond within 2 s.').parts).toHaveLength(2);
+    expect(analyzeCompound('The system shall support PDF, CSV and XLSX').parts)
+      .toEqual(['The system shall support PDF.', 'The system shall support CSV.', 'The system shall support XLSX.']);
+    expect(analyzeCompound('The app shall support the following browsers:\n- Chrome\n- Firefox').parts)
+      .toEqual(['The app shall support Chrome.', 'The app shall support Firefox.']);
+  });
+
+  test('leaves singular requirements alone, including verbs that share an object', () => {
+    const text = 'The system shall allow users to create and edit documents.';
+    expect(analyzeCompound(text)).toEqual({ reasons: [], parts: [text] });
+  });
+});
+
+test('proposeSplit numbers the inherited titles', () => {
+  expect(proposeSplit('The system shall export a PDF and send an email', 'Export').map(part => part.title))
+    .toEqual(['Export (1/2)', 'Export (2/2)']);
+});
@@ -0,0 +1,154 @@
+// src/services/quality/splitter.ts - Detects compound (non-singular) requirements and proposes atomic parts
+import type { CreateRequirementRequest } from '../../domain';
+
+export interface CompoundReason {
+  kind: 'statements' | 'actions' | 'enumeration';
+  description: string;
+}
+
+export interface CompoundAnalysis {
+  // Why the requirement is not singular; empty when it is
+  reasons: CompoundReason[];
+  // The atomic requirements it splits into; just the original text when it is singular
+  parts: string[];
+}
+
+// Verbs that start a separate action after "and"/"or" ("... shall export PDF and send an email")
+const ACTION_VERBS = [
+  'accept', 'access', 'add', 'alert', 'allow', 'apply', 'approve', 'archive', 'assign', 'authenticate', 'authorize',
+  'be', 'block', 'calculate', 'cancel', 'capture', 'change', 'check', 'close', 'collect', 'compare', 'compute',
+  'confirm', 'connect', 'convert', 'copy', 'create', 'decrypt', 'delete', 'deny', 'detect', 'disable', 'display',
+  'download', 'edit', 'enable', 'encrypt', 'enforce', 'ensure', 'export', 'filter', 'generate', 'grant',
+  'hide', 'import', 'include', 'inform', 'lock', 'log', 'maintain', 'monitor', 'notify', 'open', 'permit', 'prevent',
+  'print', 'process', 'prompt', 'provide', 'publish', 'record', 'redirect', 'refresh', 'register', 'reject',
+  'remove', 'render', 'report', 'request', 'require', 'reset', 'restore', 'restrict', 'retain', 'retry', 'return',
+  'revoke', 'save', 'schedule', 'search', 'send', 'show', 'sort', 'start', 'stop', 'store', 'submit', 'support',
+  'synchronize', 'track', 'transfer', 'unlock', 'update', 'upload', 'validate', 'verify', 'warn',
+];
+const VERB = `(?:${ACTION_VERBS.join('|')})`;
+const MODAL = '(?:shall|must|will|should)';
+
+const BULLET = /^(?:[-*•]|\d+[.)]|[a-z][.)])\s+(.+)$/i;
+const MAX_ENUMERATED_ITEM_WORDS = 4;
+
+const stripEnd = (text: string) => text.trim().replace(/[\s,;:.]+$/, '').replace(/\s+(?:and|or)$/i, '');
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const sentence = (text: string) => `${capitalize(stripEnd(text))}.`;
+
+// Reasons keyed by description, so each is reported once however many sentences trigger it
+type Reasons = Map<string, CompoundReason>;
+
+const addReason = (reasons: Reasons, kind: CompoundReason['kind'], description: string) =>
+  reasons.set(description, { kind, description });
+
+// "When x, the system shall" -> the condition ("When x,") and the subject with its modal ("the system shall")
+const splitHead = (head: string) => {
+  const lastComma = head.lastIndexOf(',');
+  return lastComma < 0
+    ? { condition: '', subject: head.trim() }
+    : { condition: head.slice(0, lastComma + 1).trim(), subject: head.slice(lastComma + 1).trim() };
+};
+
+// "export PDF and send an email" -> ["export PDF", "send an email"]. Verbs that share an object
+// ("create and edit documents") stay together, and "allow users to X and Y" keeps "allow users to"
+// for Y as well.
+const splitActions = (body: string): string[] => {
+  const chunks = body.split(new RegExp(`\\s*(?:,\\s*(?:and\\s+|or\\s+)?|\\s+(?:and|or|and/or)\\s+)(?=${VERB}\\b)`, 'i'));
+  const actions: string[] = [];
+  chunks.forEach(chunk => {
+    const previous = actions[actions.length - 1];
+    // A bare verb ("create", "to create") shares the object of the next action
+    if (previous !== undefined && new RegExp(`(?:^|\\bto\\s+)${VERB}$`, 'i').test(previous.trim())) {
+      actions[actions.length - 1] = `${previous} and ${chunk}`;
+    } else {
+      actions.push(chunk);
+    }
+  });
+  const infinitive = actions.length > 1 ? new RegExp(`^(.*?\\bto)\\s+${VERB}\\b`, 'i').exec(actions[0]) : null;
+  return actions.map((action, index) => (index > 0 && infinitive ? `${infinitive[1]} ${action}` : action));
+};
+
+// "export PDF, CSV and XLSX" -> ["export PDF", "export CSV", "export XLSX"]; needs three or more short items
+const splitEnumeration = (action: string): string[] => {
+  const match = /^(\S+)\s+(.+)$/.exec(action.trim());
+  if (!match) return [action];
+  const items = match[2].split(/\s*,\s*(?:and\s+|or\s+)?|\s+(?:and|or)\s+/i).filter(Boolean);
+  const short = items.every(item => item.split(/\s+/).length <= MAX_ENUMERATED_ITEM_WORDS);
+  return items.length >= 3 && short ? items.map(item => `${match[1]} ${item}`) : [action];
+};
+
+// Splits one sentence at its modal verbs, its coordinated actions and its enumerations
+const splitStatement = (statement: string, reasons: Reasons): string[] => {
+  const text = stripEnd(statement);
+  const first = new RegExp(`^(.*?\\b${MODAL})\\s+(.+)$`, 'i').exec(text);
+  if (!first) return [text];
+  const { condition, subject: subjectAndModal } = splitHead(first[1]);
+  const subject = subjectAndModal.replace(new RegExp(`\\s*\\b${MODAL}$`, 'i'), '');
+
+  // "... shall X and shall Y" / "... shall X, and the user shall Y"
+  const clauses = first[2].split(new RegExp(`,?\\s+(?:and|or|but)\\s+(?=(?:[\\w-]+\\s+){0,3}?${MODAL}\\b)`, 'i'));
+  if (clauses.length > 1) addReason(reasons, 'statements', `Contains ${clauses.length} "shall" statements`);
+
+  return clauses.flatMap((clause, index) => {
+    // Later clauses keep the condition, and the subject too when they start with the modal verb
+    let head = first[1];
+    let body = clause;
+    const own = index > 0 ? new RegExp(`^(.*?\\b${MODAL})\\s+(.+)$`, 'i').exec(clause) : null;
+    if (own) {
+      const modalOnly = new RegExp(`^${MODAL}$`, 'i').test(own[1].trim());
+      head = `${condition} ${modalOnly ? `${subject} ${own[1]}` : own[1]}`;
+      body = own[2];
+    }
+
+    const actions = splitActions(body);
+    if (actions.length > 1) addReason(reasons, 'actions', `Joins ${actions.length} separate actions with "and"/"or"`);
+    return actions.flatMap(action => {
+      const items = splitEnumeration(action);
+      if (items.length > 1) addReason(reasons, 'enumeration', `Enumerates ${items.length} items`);
+      return items.map(item => `${head.trim()} ${item}`);
+    });
+  });
+};
+
+// Bulleted lists: each bullet becomes a requirement under the lead-in ("The system shall support:")
+const splitBullets = (text: string, reasons: Reasons): string[] | undefined => {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  const bullets = lines.map(line => BULLET.exec(line)).filter((match): match is RegExpExecArray => !!match);
+  if (bullets.length < 2) return undefined;
+  addReason(reasons, 'enumeration', `Enumerates ${bullets.length} items`);
+  const leadIn = lines
+    .filter(line => !BULLET.test(line))
+    .join(' ')
+    .replace(/:\s*$/, '')
+    .replace(/\s+(?:all\s+of\s+)?the\s+following(?:\s+[\w-]+)?$/i, '');
+  return bullets.map(bullet => (leadIn ? `${leadIn} ${stripEnd(bullet[1])}` : bullet[1]));
+};
+
+export const analyzeCompound = (text: string): CompoundAnalysis => {
+  const reasons: Reasons = new Map();
+  const bulleted = splitBullets(text, reasons);
+  let parts: string[];
+  if (bulleted) {
+    parts = bulleted;
+  } else {
+    // A sentence ends at a stop followed by a capital, or at a semicolon
+    const statements = text.trim().split(/[.!?]+\s+(?=[A-Z])|;\s*/).filter(part => part.trim());
+    const withModal = statements.filter(part => new RegExp(`\\b${MODAL}\\b`, 'i').test(part));
+    if (withModal.length > 1) addReason(reasons, 'statements', `Contains ${withModal.length} separate statements`);
+    parts = (withModal.length > 1 ? withModal : [text]).flatMap(statement => splitStatement(statement, reasons));
+  }
+
+  parts = parts.map(sentence).filter((part, index, all) => all.indexOf(part) === index);
+  return parts.length > 1 ? { reasons: Array.from(reasons.values()), parts } : { reasons: [], parts: [text] };
+};
+
+// New requirements for the parts; titles are inherited from the original with a part number
+export const proposeSplit = (text: string, title?: string): CreateRequirementRequest[] => {
+  const { parts } = analyzeCompound(text);
+  return parts.map((part, index) => ({
+    text: part,
+    title: title ? `${title} (${index + 1}/${parts.length})` : undefined,
+  }));
+};
@@ -0,0 +1,68 @@
+import { DEFAULT_SCORING_POLICY, averageScore, requirementScore } from './scoring';
+import { findWaiver, splitWaivedIssues, waiverStatus } from './waivers';
+import type { IssueWaiver, ProjectRequirement, QualityIssue } from '../../domain';
+
+const issue = (type: QualityIssue['type'], problematicText: string, description = 'Vague wording'): QualityIssue => ({
+  type,
+  severity: 'major',
+  description,
+  problematicText,
+  suggestion: '',
+});
+
+const requirement = (id: number, qualityScore: number, issues: QualityIssue[]): ProjectRequirement => ({
+  id,
+  projectId: 1,
+  text: 'The system shall respond quickly to user-friendly searches.',
+  status: 'Analyzed',
+  qualityScore,
+  analysis: { overallScore: qualityScore, issues, analyzedAt: '2024-01-01T00:00:00Z' },
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+});
+
+const waiver = (requirementId: number, waived: QualityIssue, expiresAt?: string): IssueWaiver => ({
+  id: 1,
+  projectId: 1,
+  requirementId,
+  type: waived.type,
+  severity: waived.severity,
+  problematicText: waived.problematicText,
+  description: waived.description,
+  justification: 'Agreed with the product owner',
+  author: 'Demo User',
+  expiresAt,
+  createdAt: '2024-01-01T00:00:00Z',
+});
+
+const at = new Date('2024-06-01T00:00:00Z');
+
+describe('issue waivers', () => {
+  test('cover the same issue after re-analysis, even when it is described differently', () => {
+    const waivers = [waiver(1, issue('ambiguity', 'quickly'))];
+    expect(findWaiver(waivers, 1, issue('ambiguity', '  Quickly ', 'Unmeasurable speed'), at)).toBe(waivers[0]);
+    expect(findWaiver(waivers, 1, issue('verifiability', 'quickly'), at)).toBeUndefined();
+    expect(findWaiver(waivers, 2, issue('ambiguity', 'quickly'), at)).toBeUndefined();
+    // Issues about the whole text are told apart by their description
+    const whole = [waiver(1, issue('traceability', '', 'No acceptance criteria'))];
+    expect(findWaiver(whole, 1, issue('traceability', '', 'No acceptance criteria'), at)).toBe(whole[0]);
+    expect(findWaiver(whole, 1, issue('traceability', '', 'No source given'), at)).toBeUndefined();
+  });
+
+  test('stop applying once they expire', () => {
+    const analyzed = requirement(1, 70, [issue('ambiguity', 'quickly'), issue('ambiguity', 'user-friendly')]);
+    const expiring = waiver(1, issue('ambiguity', 'quickly'), '2024-05-01T00:00:00Z');
+    expect(splitWaivedIssues(analyzed, [expiring], new Date('2024-04-01T00:00:00Z')).open).toHaveLength(1);
+    expect(splitWaivedIssues(analyzed, [expiring], at).open).toHaveLength(2);
+    expect(waiverStatus(expiring, analyzed, at)).toBe('expired');
+    expect(waiverStatus(waiver(1, issue('ambiguity', 'fast')), analyzed, at)).toBe('unmatched');
+  });
+
+  test('leave waived issues out of the score', () => {
+    const analyzed = requirement(1, 70, [issue('ambiguity', 'quickly'), issue('ambiguity', 'user-friendly')]);
+    const waivers = [waiver(1, issue('ambiguity', 'quickly'))];
+    expect(requirementScore(analyzed, DEFAULT_SCORING_POLICY, waivers)).toBe(85);
+    expect(requirementScore(analyzed, { ...DEFAULT_SCORING_POLICY, source: 'local' }, waivers)).toBe(85);
+    expect(averageScore([analyzed, requirement(2, 95, [])], DEFAULT_SCORING_POLICY, waivers)).toBe(90);
+  });
+});
@@ -0,0 +1,60 @@
+// src/services/quality/waivers.ts - Issues waived with a justification: which waivers are in force and which issues they cover
+import type { IssueWaiver, ProjectRequirement, QualityIssue } from '../../domain';
+
+type IssueFingerprint = Pick<QualityIssue, 'type' | 'problematicText' | 'description'>;
+
+const normalize = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Re-analysis returns new issue objects, and the analyzer may reword its descriptions, so an issue is
+// recognised by its type and the text it flags. Issues about the whole text flag nothing; those fall back to the description.
+const fingerprint = (issue: IssueFingerprint) =>
+  `${issue.type}|${normalize(issue.problematicText) ? `text:${normalize(issue.problematicText)}` : `about:${normalize(issue.description)}`}`;
+
+// An expired waiver stays in the register but no longer covers anything
+export const isWaiverActive = (waiver: IssueWaiver, at: Date = new Date()) =>
+  !waiver.expiresAt || new Date(waiver.expiresAt).getTime() > at.getTime();
+
+export const waiverCovers = (waiver: IssueWaiver, requirementId: number, issue: IssueFingerprint) =>
+  waiver.requirementId === requirementId && fingerprint(waiver) === fingerprint(issue);
+
+// The active waiver covering the issue, if any
+export const findWaiver = (waivers: IssueWaiver[], requirementId: number, issue: IssueFingerprint, at: Date = new Date()) =>
+  waivers.find(waiver => waiverCovers(waiver, requirementId, issue) && isWaiverActive(waiver, at));
+
+export interface WaivedIssue {
+  issue: QualityIssue;
+  waiver: IssueWaiver;
+}
+
+// The requirement's analysis issues, split into the open ones and those an active waiver covers
+export const splitWaivedIssues = (requirement: ProjectRequirement, waivers: IssueWaiver[], at: Date = new Date()) => {
+  const open: QualityIssue[] = [];
+  const waived: WaivedIssue[] = [];
+  const own = waivers.filter(waiver => waiver.requirementId === requirement.id);
+  requirement.analysis?.issues.forEach(issue => {
+    const waiver = own.length ? findWaiver(own, requirement.id, issue, at) : undefined;
+    if (waiver) waived.push({ issue, waiver });
+    else open.push(issue);
+  });
+  return { open, waived };
+};
+
+// The requirement as reviewers see it: waived issues are not listed or counted
+export const withoutWaivedIssues = (requirement: ProjectRequirement, waivers: IssueWaiver[]): ProjectRequirement => {
+  if (!requirement.analysis) return requirement;
+  const { open, waived } = splitWaivedIssues(requirement, waivers);
+  return waived.length ? { ...requirement, analysis: { ...requirement.analysis, issues: open } } : requirement;
+};
+
+// active: covers an issue of the latest analysis; unmatched: in force, but the latest analysis no longer reports the issue
+export type WaiverStatus = 'active' | 'unmatched' | 'expired';
+
+export const waiverStatus = (
+  waiver: IssueWaiver,
+  requirement: ProjectRequirement | undefined,
+  at: Date = new Date()
+): WaiverStatus => {
+  if (!isWaiverActive(waiver, at)) return 'expired';
+  if (!requirement?.analysis) return 'unmatched';
+  return requirement.analysis.issues.some(issue => waiverCovers(waiver, requirement.id, issue)) ? 'active' : 'unmatched';
+};
@@ -0,0 +1,30 @@
+// src/services/queryClient.ts - Shared react-query cache
+import { MutationCache, QueryClient } from '@tanstack/react-query';
+import { LlmUnavailableError } from './errors';
+
+// Backend health (see hooks/useBackendHealth)
+export const HEALTH_QUERY_KEY = ['health'] as const;
+
+// The API client already retries transient failures (see ./retry), so react-query doesn't retry on top.
+// Lists are considered fresh for 30s and are refetched in the background when the window regains focus.
+export const queryClient = new QueryClient({
+  // An LLM call failing because the provider is down is news for the health monitor: check right away
+  // instead of waiting for the next poll
+  mutationCache: new MutationCache({
+    onError: (error) => {
+      if (error instanceof LlmUnavailableError) {
+        queryClient.invalidateQueries({ queryKey: HEALTH_QUERY_KEY });
+      }
+    },
+  }),
+  defaultOptions: {
+    queries: {
+      staleTime: 30 * 1000,
+      retry: false,
+      refetchOnWindowFocus: true,
+    },
+    mutations: {
+      retry: false,
+    },
+  },
+});
@@ -0,0 +1,76 @@
+import { computeBackoff, isRetryableError, isRetryableMethod } from './retry';
+import { createLimiter } from './limiter';
+import { ApiError, CancelledError, LlmUnavailableError, RateLimitedError, TimeoutError } from './errors';
+
+const policy = { maxRetries: 3, baseDelayMs: 100, maxDelayMs: 1000 };
+
+describe('retry decisions', () => {
+  test('only idempotent methods retry unless the route opts in', () => {
+    expect(isRetryableMethod('get')).toBe(true);
+    expect(isRetryableMethod('PUT')).toBe(true);
+    expect(isRetryableMethod('post')).toBe(false);
+    expect(isRetryableMethod('post', true)).toBe(true);
+  });
+
+  test('transient failures retry, cancellations and timeouts do not', () => {
+    expect(isRetryableError(new RateLimitedError())).toBe(true);
+    expect(isRetryableError(new LlmUnavailableError())).toBe(true);
+    expect(isRetryableError(new ApiError('http', 'Bad gateway', { status: 502 }))).toBe(true);
+    expect(isRetryableError(new ApiError('http', 'Server error', { status: 500 }))).toBe(false);
+    expect(isRetryableError(new CancelledError())).toBe(false);
+    expect(isRetryableError(new TimeoutError())).toBe(false);
+  });
+
+  test('backoff honours Retry-After and otherwise stays within the exponential ceiling', () => {
+    expect(computeBackoff(0, new RateLimitedError(undefined, 750), policy)).toBe(750);
+    expect(computeBackoff(0, new RateLimitedError(undefined, 60000), policy)).toBe(1000);
+    for (let attempt = 0; attempt < 6; attempt++) {
+      const delay = computeBackoff(attempt, new LlmUnavailableError(), policy);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(Math.min(1000, 100 * Math.pow(2, attempt)));
+    }
+  });
+});
+
+describe('createLimiter', () => {
+  test('never runs more than the configured number of tasks at once', async () => {
+    const limiter = createLimiter(2);
+    let running = 0;
+    let peak = 0;
+    const task = async (value: number) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return value;
+    };
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map(n => limiter.run(() => task(n))));
+
+    expect(results).toEqual([1, 2, 3, 4, 5]);
+    expect(peak).toBe(2);
+    expect(limiter.active).toBe(0);
+  });
+
+  test('drops a waiting task as soon as it is aborted', async () => {
+    const limiter = createLimiter(1);
+    let release = () => {};
+    const first = limiter.run(() => new Promise<void>(resolve => {
+      release = resolve;
+    }));
+    const controller = new AbortController();
+    const started = jest.fn(() => Promise.resolve());
+    const queued = limiter.run(started, controller.signal);
+    expect(limiter.pending).toBe(1);
+
+    controller.abort();
+    await expect(queued).rejects.toBeInstanceOf(CancelledError);
+    expect(limiter.pending).toBe(0);
+
+    release();
+    await first;
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(started).not.toHaveBeenCalled();
+    expect(limiter.active).toBe(0);
+  });
+});
@@ -0,0 +1,64 @@
+// src/services/retry.ts - Retry decisions and jittered exponential backoff
+import type { GenericAbortSignal } from 'axios';
+import { ApiError, CancelledError, RateLimitedError } from './errors';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const parseNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+export const defaultRetryPolicy: RetryPolicy = {
+  maxRetries: parseNumber(process.env.REACT_APP_API_MAX_RETRIES, 3),
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+};
+
+// Methods that may be repeated without side effects. POSTs are only retried when the
+// route opts in with `retrySafe` (analysis, enhancement and generation overwrite, they don't append).
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+
+export const isRetryableMethod = (method: string | undefined, retrySafe?: boolean): boolean =>
+  retrySafe === true || IDEMPOTENT_METHODS.includes((method || 'get').toLowerCase());
+
+// Transient failures only: rate limiting, provider/gateway outages and dropped connections.
+// Timeouts are not retried - the call already used its whole time budget.
+export const isRetryableError = (error: ApiError): boolean => {
+  if (error.kind === 'cancelled' || error.kind === 'timeout') return false;
+  if (error.kind === 'network' || error.kind === 'rate-limited' || error.kind === 'llm-unavailable') return true;
+  return error.status !== undefined && RETRYABLE_STATUSES.includes(error.status);
+};
+
+// Full-jitter backoff (random delay in [0, base * 2^attempt]), unless the server said how long to wait
+export const computeBackoff = (attempt: number, error: ApiError, policy: RetryPolicy = defaultRetryPolicy): number => {
+  if (error instanceof RateLimitedError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, policy.maxDelayMs);
+  }
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt));
+  return Math.round(Math.random() * ceiling);
+};
+
+// Resolves after `ms`, or rejects with CancelledError as soon as the signal aborts
+export const sleep = (ms: number, signal?: GenericAbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener?.('abort', onAbort);
+  });
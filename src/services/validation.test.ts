@@ -0,0 +1,66 @@
+import { getResponseDiagnostics, validateAnalysis, validateEnhancement, validateGeneration } from './validation';
+import { InvalidResponseError } from './errors';
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('validateAnalysis', () => {
+  test('normalises recoverable deviations and records the raw payload', () => {
+    const payload = {
+      overallScore: '72',
+      issues: [
+        { type: 'Ambiguous', severity: 'High', description: 'Vague term', problematicText: 'fast' },
+        { type: 'made-up', severity: 'minor', description: 'Dropped' }
+      ]
+    };
+
+    const result = validateAnalysis(payload, '/requirements/analyze');
+
+    expect(result.overallScore).toBe(72);
+    expect(result.issues).toEqual([
+      { type: 'ambiguity', severity: 'critical', description: 'Vague term', problematicText: 'fast', suggestion: '' }
+    ]);
+    expect(typeof result.analyzedAt).toBe('string');
+    expect(getResponseDiagnostics()[0]).toMatchObject({ route: '/requirements/analyze', outcome: 'normalized', payload });
+  });
+
+  test('treats a missing issues array as empty', () => {
+    expect(validateAnalysis({ overallScore: 90, analyzedAt: '2024-01-01T00:00:00Z' }, '/x').issues).toEqual([]);
+  });
+
+  test('rejects a payload without a usable score', () => {
+    expect(() => validateAnalysis({ issues: [] }, '/requirements/analyze')).toThrow(InvalidResponseError);
+    expect(getResponseDiagnostics()[0].outcome).toBe('rejected');
+  });
+});
+
+describe('validateEnhancement', () => {
+  test('drops enhancements without text and out-of-range recommendations', () => {
+    const result = validateEnhancement(
+      { enhancements: [{ text: '' }, { text: 'The system shall...', qualityScore: 0.85, changes: 'One change' }], recommendedIndex: 4 },
+      '/requirements/enhance'
+    );
+
+    expect(result.enhancements).toEqual([
+      { text: 'The system shall...', qualityScore: 85, changes: ['One change'], improvements: [] }
+    ]);
+    expect(result.recommendedIndex).toBeUndefined();
+  });
+});
+
+describe('validateGeneration', () => {
+  test('accepts a bare list and fills in missing titles and vocabularies', () => {
+    const result = validateGeneration([{ text: 'Users shall reset their password by email', type: 'NFR', priority: 'Must' }], '/generate');
+
+    expect(result.requirements[0]).toMatchObject({
+      type: 'non-functional',
+      priority: 'high',
+      title: 'Users shall reset their password by'
+    });
+  });
+});
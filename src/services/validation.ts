@@ -0,0 +1,556 @@
+// src/services/validation.ts - Runtime validation of LLM-shaped API responses
+//
+// Analysis, enhancement, generation and stakeholder-simulation payloads come from model output,
+// so their shape is not guaranteed. Each validator normalises recoverable deviations (missing
+// arrays, "High" instead of "major", numeric strings, ...) and throws InvalidResponseError for the
+// rest. Every deviation is recorded together with the raw payload for backend bug reports.
+import { InvalidResponseError } from './errors';
+import type {
+  QualityIssue,
+  TextSpan,
+  AnalysisResponse,
+  Enhancement,
+  EnhancementResponse,
+  ProjectRequirement,
+  SplitRequirementResponse,
+  MergeRequirementsResponse,
+  GeneratedRequirement,
+  GenerateRequirementsResponse,
+  AnalyzeAllResponse,
+  AnalysisStreamEvent,
+  GeneratedQuestion,
+  StakeholderSimulationResponse,
+} from '../domain';
+
+export interface ResponseDiagnostic {
+  route: string;
+  receivedAt: string;
+  outcome: 'normalized' | 'rejected';
+  messages: string[];
+  payload: unknown;
+}
+
+const MAX_DIAGNOSTICS = 50;
+const diagnosticsLog: ResponseDiagnostic[] = [];
+
+// Most recent first; attach to bug reports against the backend
+export const getResponseDiagnostics = (): ResponseDiagnostic[] => [...diagnosticsLog];
+
+export const clearResponseDiagnostics = () => {
+  diagnosticsLog.length = 0;
+};
+
+const recordDiagnostic = (diagnostic: ResponseDiagnostic) => {
+  diagnosticsLog.unshift(diagnostic);
+  diagnosticsLog.length = Math.min(diagnosticsLog.length, MAX_DIAGNOSTICS);
+  console.warn(`Response from ${diagnostic.route} ${diagnostic.outcome}:`, diagnostic.messages, diagnostic.payload);
+};
+
+// Collects what had to be fixed (warnings) and what could not be (errors) while walking a payload
+class Diagnostics {
+  readonly warnings: string[] = [];
+  readonly errors: string[] = [];
+
+  warn(path: string, message: string) {
+    this.warnings.push(`${path}: ${message}`);
+  }
+
+  fail(path: string, message: string) {
+    this.errors.push(`${path}: ${message}`);
+  }
+}
+
+type Validator<T> = (value: unknown, path: string, diag: Diagnostics) => T | undefined;
+
+// Runs a validator over a whole payload and records/throws according to the outcome
+const validateResponse = <T>(validator: Validator<T>, payload: unknown, route: string): T => {
+  const diag = new Diagnostics();
+  const result = validator(payload, '$', diag);
+  const receivedAt = new Date().toISOString();
+
+  if (result === undefined || diag.errors.length > 0) {
+    const messages = [...diag.errors, ...diag.warnings];
+    recordDiagnostic({ route, receivedAt, outcome: 'rejected', messages, payload });
+    throw new InvalidResponseError(
+      `The server returned an unexpected response (${diag.errors[0] || 'unreadable payload'})`,
+      messages,
+      payload,
+      route
+    );
+  }
+
+  if (diag.warnings.length > 0) {
+    recordDiagnostic({ route, receivedAt, outcome: 'normalized', messages: diag.warnings, payload });
+  }
+  return result;
+};
+
+// --- primitives ---
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readString = (value: unknown, path: string, diag: Diagnostics, fallback = ''): string => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    diag.warn(path, `expected a string, got ${typeof value}`);
+    return String(value);
+  }
+  if (value !== undefined && value !== null) diag.warn(path, 'expected a string');
+  return fallback;
+};
+
+const readScore = (value: unknown, path: string, diag: Diagnostics): number | undefined => {
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed)) return undefined;
+  if (typeof value === 'string') diag.warn(path, 'score sent as a string');
+  // Some prompts answer on a 0-1 scale
+  const scaled = parsed > 0 && parsed <= 1 && !Number.isInteger(parsed) ? parsed * 100 : parsed;
+  const clamped = Math.min(100, Math.max(0, Math.round(scaled)));
+  if (clamped !== parsed) diag.warn(path, `score ${parsed} normalized to ${clamped}`);
+  return clamped;
+};
+
+const readStringList = (value: unknown, path: string, diag: Diagnostics): string[] => {
+  if (value === undefined || value === null) return [];
+  if (typeof value === 'string') {
+    diag.warn(path, 'expected a list, got a single string');
+    return value.trim() ? [value] : [];
+  }
+  if (!Array.isArray(value)) {
+    diag.warn(path, 'expected a list');
+    return [];
+  }
+  return value
+    .map((item, i) => readString(item, `${path}[${i}]`, diag))
+    .filter(item => item.trim() !== '');
+};
+
+const readTimestamp = (value: unknown, path: string, diag: Diagnostics): string => {
+  if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) return value;
+  diag.warn(path, 'missing or invalid timestamp, using the time of receipt');
+  return new Date().toISOString();
+};
+
+const readCount = (value: unknown, path: string, diag: Diagnostics): number | undefined => {
+  const count = Number(value);
+  if (value === undefined || value === null || value === '' || !Number.isInteger(count) || count < 0) {
+    diag.fail(path, 'missing or not a non-negative integer');
+    return undefined;
+  }
+  if (typeof value !== 'number') diag.warn(path, 'numeric string converted to a number');
+  return count;
+};
+
+// Offsets are only checked for shape here; whether they point at the problematic text is decided
+// against the analyzed text (see quality/spans)
+const readSpan = (value: unknown, path: string, diag: Diagnostics): TextSpan | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const start = isRecord(value) ? Number(value.start) : NaN;
+  const end = isRecord(value) ? Number(value.end) : NaN;
+  if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end <= start) {
+    diag.warn(path, 'invalid span ignored, it will be located locally');
+    return undefined;
+  }
+  return { start, end };
+};
+
+// Maps a free-form label onto a closed set via synonyms; `fallback` is used (with a warning) when nothing matches
+const readEnum = <T extends string>(
+  value: unknown,
+  path: string,
+  diag: Diagnostics,
+  synonyms: Record<string, T>,
+  fallback?: T
+): T | undefined => {
+  const raw = typeof value === 'string' ? value.trim().toLowerCase().replace(/[\s_]+/g, '-') : '';
+  const mapped = synonyms[raw];
+  if (mapped) {
+    if (mapped !== value) diag.warn(path, `"${String(value)}" normalized to "${mapped}"`);
+    return mapped;
+  }
+  if (fallback !== undefined) {
+    diag.warn(path, `unknown value "${String(value)}", using "${fallback}"`);
+  }
+  return fallback;
+};
+
+const readList = <T>(
+  value: unknown,
+  path: string,
+  diag: Diagnostics,
+  item: Validator<T>,
+  required: boolean
+): T[] | undefined => {
+  if (value === undefined || value === null) {
+    if (required) {
+      diag.fail(path, 'missing list');
+      return undefined;
+    }
+    diag.warn(path, 'missing list, treated as empty');
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    diag.fail(path, 'expected a list');
+    return undefined;
+  }
+  const items: T[] = [];
+  value.forEach((entry, i) => {
+    const result = item(entry, `${path}[${i}]`, diag);
+    if (result !== undefined) items.push(result);
+  });
+  return items;
+};
+
+// --- vocabularies ---
+
+const SEVERITIES: Record<string, QualityIssue['severity']> = {
+  critical: 'critical', blocker: 'critical', severe: 'critical', high: 'critical',
+  major: 'major', medium: 'major', moderate: 'major', significant: 'major',
+  minor: 'minor', low: 'minor', trivial: 'minor', info: 'minor', informational: 'minor',
+};
+
+const ISSUE_TYPES: Record<string, QualityIssue['type']> = {
+  ambiguity: 'ambiguity', ambiguous: 'ambiguity', vagueness: 'ambiguity', vague: 'ambiguity',
+  completeness: 'completeness', incomplete: 'completeness', incompleteness: 'completeness', missing: 'completeness',
+  consistency: 'consistency', inconsistent: 'consistency', inconsistency: 'consistency', conflict: 'consistency',
+  verifiability: 'verifiability', unverifiable: 'verifiability', testability: 'verifiability', measurability: 'verifiability',
+  traceability: 'traceability', untraceable: 'traceability',
+};
+
+const PRIORITIES: Record<string, 'high' | 'medium' | 'low'> = {
+  high: 'high', critical: 'high', must: 'high', 'must-have': 'high',
+  medium: 'medium', normal: 'medium', should: 'medium', 'should-have': 'medium',
+  low: 'low', could: 'low', 'could-have': 'low', 'nice-to-have': 'low',
+};
+
+const REQUIREMENT_TYPES: Record<string, GeneratedRequirement['type']> = {
+  functional: 'functional',
+  'non-functional': 'non-functional', nonfunctional: 'non-functional', nfr: 'non-functional', performance: 'non-functional',
+  validation: 'validation', 'input-validation': 'validation',
+  security: 'security',
+  usability: 'usability', ux: 'usability', accessibility: 'usability',
+};
+
+// --- domain validators ---
+
+const validateIssue: Validator<QualityIssue> = (value, path, diag) => {
+  if (!isRecord(value)) {
+    diag.warn(path, 'issue is not an object, dropped');
+    return undefined;
+  }
+  const type = readEnum(value.type, `${path}.type`, diag, ISSUE_TYPES);
+  if (!type) {
+    diag.warn(`${path}.type`, `unknown issue type "${String(value.type)}", issue dropped`);
+    return undefined;
+  }
+  const description = readString(value.description, `${path}.description`, diag);
+  const suggestion = readString(value.suggestion, `${path}.suggestion`, diag);
+  if (!description && !suggestion) {
+    diag.warn(path, 'issue has neither description nor suggestion, dropped');
+    return undefined;
+  }
+  return {
+    type,
+    severity: readEnum(value.severity, `${path}.severity`, diag, SEVERITIES, 'minor')!,
+    description,
+    problematicText: readString(value.problematicText, `${path}.problematicText`, diag),
+    suggestion,
+    span: readSpan(value.span, `${path}.span`, diag),
+  };
+};
+
+const validateAnalysisObject: Validator<AnalysisResponse> = (value, path, diag) => {
+  if (!isRecord(value)) {
+    diag.fail(path, 'expected an analysis object');
+    return undefined;
+  }
+  const overallScore = readScore(value.overallScore, `${path}.overallScore`, diag);
+  if (overallScore === undefined) {
+    diag.fail(`${path}.overallScore`, 'missing or not a number');
+    return undefined;
+  }
+  const issues = readList(value.issues, `${path}.issues`, diag, validateIssue, false);
+  if (!issues) return undefined;
+  return {
+    overallScore,
+    issues,
+    analyzedAt: readTimestamp(value.analyzedAt, `${path}.analyzedAt`, diag),
+  };
+};
+
+const validateEnhancementItem: Validator<Enhancement> = (value, path, diag) => {
+  if (!isRecord(value)) {
+    diag.warn(path, 'enhancement is not an object, dropped');
+    return undefined;
+  }
+  const text = readString(value.text, `${path}.text`, diag).trim();
+  if (!text) {
+    diag.warn(`${path}.text`, 'enhancement without text, dropped');
+    return undefined;
+  }
+  let qualityScore = readScore(value.qualityScore, `${path}.qualityScore`, diag);
+  if (qualityScore === undefined) {
+    diag.warn(`${path}.qualityScore`, 'missing score, using 0');
+    qualityScore = 0;
+  }
+  const rationale = readString(value.rationale, `${path}.rationale`, diag);
+  return {
+    text,
+    changes: readStringList(value.changes, `${path}.changes`, diag),
+    improvements: readStringList(value.improvements, `${path}.improvements`, diag),
+    qualityScore,
+    ...(rationale ? { rationale } : {}),
+  };
+};
+
+const validateEnhancementObject: Validator<EnhancementResponse> = (value, path, diag) => {
+  if (!isRecord(value)) {
+    diag.fail(path, 'expected an enhancement response object');
+    return undefined;
+  }
+  const enhancements = readList(value.enhancements, `${path}.enhancements`, diag, validateEnhancementItem, true);
+  if (!enhancements) return undefined;
+  if (enhancements.length === 0) {
+    diag.fail(`${path}.enhancements`, 'no usable enhancement');
+    return undefined;
+  }
+  let recommendedIndex: number | undefined;
+  if (value.recommendedIndex !== undefined && value.recommendedIndex !== null) {
+    const index = Number(value.recommendedIndex);
+    if (Number.isInteger(index) && index >= 0 && index < enhancements.length) {
+      recommendedIndex = index;
+    } else {
+      diag.warn(`${path}.recommendedIndex`, `out of range (${String(value.recommendedIndex)}), ignored`);
+    }
+  }
+  return { enhancements, ...(recommendedIndex !== undefined ? { recommendedIndex } : {}) };
+};
+
+const validateGeneratedRequirement: Validator<GeneratedRequirement> = (value, path, diag) => {
+  if (!isRecord(value)) {
+    diag.warn(path, 'generated requirement is not an object, dropped');
+    return undefined;
+  }
+  const text = readString(value.text, `${path}.text`, diag).trim();
+  if (!text) {
+    diag.warn(`${path}.text`, 'generated requirement without text, dropped');
+    return undefined;
+  }
+  let title = readString(value.title, `${path}.title`, diag).trim();
+  if (!title) {
+    title = text.split(/\s+/).slice(0, 6).join(' ');
+    diag.warn(`${path}.title`, 'missing title, derived from text');
+  }
+  return {
+    type: readEnum(value.type, `${path}.type`, diag, REQUIREMENT_TYPES, 'functional')!,
+    title,
+    text,
+    priority: readEnum(value.priority, `${path}.priority`, diag, PRIORITIES, 'medium')!,
+    rationale: readString(value.rationale, `${path}.rationale`, diag),
+  };
+};
+
+const validateGenerationObject: Validator<GenerateRequirementsResponse> = (value, path, diag) => {
+  if (Array.isArray(value)) {
+    diag.warn(path, 'bare list instead of { requirements }');
+    const requirements = readList(value, path, diag, validateGeneratedRequirement, true);
+    return requirements && { requirements };
+  }
+  if (!isRecord(value)) {
+    diag.fail(path, 'expected a generation response object');
+    return undefined;
+  }
+  const requirements = readList(value.requirements, `${path}.requirements`, diag, validateGeneratedRequirement, false);
+  return requirements && { requirements };
+};
+
+const validateQuestion: Validator<GeneratedQuestion> = (value, path, diag) => {
+  if (!isRecord(value)) {
+    diag.warn(path, 'question is not an object, dropped');
+    return undefined;
+  }
+  const text = readString(value.text, `${path}.text`, diag).trim();
+  if (!text) {
+    diag.warn(`${path}.text`, 'question without text, dropped');
+    return undefined;
+  }
+  const category = readString(value.category, `${path}.category`, diag).trim().toLowerCase().replace(/[\s_]+/g, '-');
+  if (!category) diag.warn(`${path}.category`, 'missing category, using "general"');
+  return {
+    text,
+    category: category || 'general',
+    priority: readEnum(value.priority, `${path}.priority`, diag, PRIORITIES, 'medium')!,
+    rationale: readString(value.rationale, `${path}.rationale`, diag),
+    isAddressed: value.isAddressed === true,
+  };
+};
+
+const validateSimulationObject: Validator<StakeholderSimulationResponse> = (value, path, diag) => {
+  if (!isRecord(value)) {
+    diag.fail(path, 'expected a stakeholder simulation object');
+    return undefined;
+  }
+  const questions = readList(value.questions, `${path}.questions`, diag, validateQuestion, false);
+  if (!questions) return undefined;
+
+  // The summary is derivable, so a missing or malformed one is rebuilt from the questions
+  const categorySummary: Record<string, number> = {};
+  questions.forEach(q => {
+    categorySummary[q.category] = (categorySummary[q.category] || 0) + 1;
+  });
+  if (!isRecord(value.categorySummary)) {
+    diag.warn(`${path}.categorySummary`, 'missing, rebuilt from questions');
+  }
+
+  return {
+    questions,
+    stakeholderRole: readString(value.stakeholderRole, `${path}.stakeholderRole`, diag, 'stakeholder'),
+    requirementText: readString(value.requirementText, `${path}.requirementText`, diag),
+    generatedAt: readTimestamp(value.generatedAt, `${path}.generatedAt`, diag),
+    categorySummary,
+  };
+};
+
+const validateAnalyzeAllObject: Validator<AnalyzeAllResponse> = (value, path, diag) => {
+  if (!isRecord(value)) {
+    diag.fail(path, 'expected an analyze-all response object');
+    return undefined;
+  }
+  const results = readList(value.results, `${path}.results`, diag, validateAnalysisObject, false);
+  if (!results) return undefined;
+  const analyzedCount = Number(value.analyzedCount);
+  return {
+    analyzedCount: Number.isInteger(analyzedCount) ? analyzedCount : results.length,
+    results,
+  };
+};
+
+// A malformed analysis inside a result line only fails that row, not the whole stream
+const validateStreamEventObject: Validator<AnalysisStreamEvent> = (value, path, diag) => {
+  if (!isRecord(value)) {
+    diag.fail(path, 'expected a stream event object');
+    return undefined;
+  }
+  if (value.type === 'start') {
+    const total = readCount(value.total, `${path}.total`, diag);
+    return total === undefined ? undefined : { type: 'start', total };
+  }
+  if (value.type === 'complete') {
+    const analyzedCount = readCount(value.analyzedCount, `${path}.analyzedCount`, diag);
+    return analyzedCount === undefined ? undefined : { type: 'complete', analyzedCount };
+  }
+  if (value.type !== 'result' && value.type !== 'error') {
+    diag.fail(`${path}.type`, `unknown event type "${String(value.type)}"`);
+    return undefined;
+  }
+
+  const index = readCount(value.index, `${path}.index`, diag);
+  if (index === undefined) return undefined;
+  const requirementId = value.requirementId === undefined || value.requirementId === null
+    ? undefined
+    : readCount(value.requirementId, `${path}.requirementId`, diag);
+
+  if (value.type === 'error') {
+    return { type: 'error', index, requirementId, message: readString(value.message, `${path}.message`, diag, 'Analysis failed') };
+  }
+  const nested = new Diagnostics();
+  const analysis = validateAnalysisObject(value.analysis, `${path}.analysis`, nested);
+  diag.warnings.push(...nested.warnings);
+  if (analysis && nested.errors.length === 0) {
+    return { type: 'result', index, requirementId, analysis };
+  }
+  nested.errors.forEach(message => diag.warnings.push(`${message} (row reported as failed)`));
+  return { type: 'error', index, requirementId, message: 'The analysis returned for this requirement was malformed' };
+};
+
+// Stored requirements embed earlier model output; a broken embedded analysis is dropped
+// rather than failing the whole requirement list
+const validateRequirementObject: Validator<ProjectRequirement> = (value, path, diag) => {
+  if (!isRecord(value)) {
+    diag.fail(path, 'expected a requirement object');
+    return undefined;
+  }
+  const requirement = { ...value } as unknown as ProjectRequirement;
+  if (value.analysis !== undefined && value.analysis !== null) {
+    const nested = new Diagnostics();
+    const analysis = validateAnalysisObject(value.analysis, `${path}.analysis`, nested);
+    diag.warnings.push(...nested.warnings);
+    if (analysis && nested.errors.length === 0) {
+      requirement.analysis = analysis;
+    } else {
+      nested.errors.forEach(message => diag.warnings.push(`${message} (stored analysis dropped)`));
+      delete requirement.analysis;
+    }
+  }
+  if (value.enhancements !== undefined && value.enhancements !== null) {
+    const nested = new Diagnostics();
+    const enhancements = validateEnhancementObject(value.enhancements, `${path}.enhancements`, nested);
+    diag.warnings.push(...nested.warnings);
+    if (enhancements && nested.errors.length === 0) {
+      requirement.enhancements = enhancements;
+    } else {
+      nested.errors.forEach(message => diag.warnings.push(`${message} (stored enhancements dropped)`));
+      delete requirement.enhancements;
+    }
+  }
+  return requirement;
+};
+
+const listOf = <T>(item: Validator<T>): Validator<T[]> => (value, path, diag) =>
+  readList(value, path, diag, item, true);
+
+const validateSplitObject: Validator<SplitRequirementResponse> = (value, path, diag) => {
+  if (!isRecord(value)) {
+    diag.fail(path, 'expected a split result object');
+    return undefined;
+  }
+  const retired = validateRequirementObject(value.retired, `${path}.retired`, diag);
+  const created = readList(value.created, `${path}.created`, diag, validateRequirementObject, true);
+  return retired && created && { retired, created };
+};
+
+const validateMergeObject: Validator<MergeRequirementsResponse> = (value, path, diag) => {
+  if (!isRecord(value)) {
+    diag.fail(path, 'expected a merge result object');
+    return undefined;
+  }
+  const kept = validateRequirementObject(value.kept, `${path}.kept`, diag);
+  const retired = readList(value.retired, `${path}.retired`, diag, validateRequirementObject, true);
+  return kept && retired && { kept, retired };
+};
+
+// --- public API ---
+
+export const validateAnalysis = (payload: unknown, route: string) =>
+  validateResponse(validateAnalysisObject, payload, route);
+
+export const validateAnalysisList = (payload: unknown, route: string) =>
+  validateResponse(listOf(validateAnalysisObject), payload, route);
+
+export const validateAnalyzeAll = (payload: unknown, route: string) =>
+  validateResponse(validateAnalyzeAllObject, payload, route);
+
+export const validateStreamEvent = (payload: unknown, route: string) =>
+  validateResponse(validateStreamEventObject, payload, route);
+
+export const validateEnhancement = (payload: unknown, route: string) =>
+  validateResponse(validateEnhancementObject, payload, route);
+
+export const validateGeneration = (payload: unknown, route: string) =>
+  validateResponse(validateGenerationObject, payload, route);
+
+export const validateStakeholderSimulation = (payload: unknown, route: string) =>
+  validateResponse(validateSimulationObject, payload, route);
+
+export const validateRequirement = (payload: unknown, route: string) =>
+  validateResponse(validateRequirementObject, payload, route);
+
+export const validateRequirementList = (payload: unknown, route: string) =>
+  validateResponse(listOf(validateRequirementObject), payload, route);
+
+export const validateSplit = (payload: unknown, route: string) =>
+  validateResponse(validateSplitObject, payload, route);
+
+export const validateMerge = (payload: unknown, route: string) =>
+  validateResponse(validateMergeObject, payload, route);